@@ -13,6 +13,8 @@ import { ActivateStrategyModal } from "@/components/ai/activate-strategy-modal";
 import { OperationalDashboard } from "@/components/ai/operational-dashboard";
 import { PumpScreener } from "@/components/ai/pump-screener";
 import { MarketScanner } from "@/components/ai/market-scanner";
+import { StrategyVersionHistory } from "@/components/ai/strategy-version-history";
+import { StrategyImport } from "@/components/ai/strategy-import";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -27,9 +29,15 @@ import {
   Flame,
   Grid3x3,
   Filter,
+  History,
+  Upload,
+  Download,
+  FileCode,
 } from "lucide-react";
-import type { StrategyConfig } from "@/lib/ai/backtest/types";
-import type { WalkForwardResult } from "@/lib/ai/backtest/types";
+import type { StrategyConfig, CostModel } from "@/lib/ai/backtest/types";
+import type { WalkForwardResult, MonteCarloResult, BacktestTrace } from "@/lib/ai/backtest/types";
+import { pollBacktestJob } from "@/lib/ai/backtest/job-client";
+import type { IntrabarPolicy } from "@/lib/ai/backtest/intrabar";
 import { GridDashboard } from "@/components/grid/grid-dashboard";
 import { GridStrategyForm } from "@/components/grid/grid-strategy-form";
 import { StrategyFunnel } from "@/components/ai/strategy-funnel";
@@ -43,19 +51,30 @@ function formatIndicatorLabel(indicator: string, params?: Record<string, unknown
   return `${name}(${paramStr})${fieldSuffix}`;
 }
 
+/** An indicator ref with its bar offset and timeframe, e.g. HIGH[-1][4h] */
+function formatRefLabel(r: Record<string, unknown>): string {
+  return formatIndicatorLabel(r.indicator as string, r.params as Record<string, unknown> | undefined, r.field as string | undefined)
+    + (r.offset ? `[-${r.offset}]` : "")
+    + (r.timeframe ? `[${r.timeframe}]` : "");
+}
+
+/** A condition value: a number, an indicator ref or an arithmetic expression of those */
+function formatValueLabel(v: unknown, nested = false): string {
+  if (typeof v !== "object" || v === null) return String(v);
+  const value = v as Record<string, unknown>;
+  if ("op" in value) {
+    const expr = `${formatValueLabel(value.left, true)} ${value.op} ${formatValueLabel(value.right, true)}`;
+    return nested ? `(${expr})` : expr;
+  }
+  return formatRefLabel(value);
+}
+
 function formatConditionLabel(c: Record<string, unknown>): string {
-  const left = formatIndicatorLabel(
-    c.indicator as string,
-    c.params as Record<string, unknown> | undefined,
-    c.field as string | undefined
-  );
+  if (Array.isArray(c.all)) return `(${(c.all as Record<string, unknown>[]).map(formatConditionLabel).join(" AND ")})`;
+  if (Array.isArray(c.any)) return `(${(c.any as Record<string, unknown>[]).map(formatConditionLabel).join(" OR ")})`;
+  if (c.not) return `NOT ${formatConditionLabel(c.not as Record<string, unknown>)}`;
   const op = ((c.operator as string) || "").replace(/_/g, " ");
-  if (typeof c.value === "object" && c.value !== null && "indicator" in c.value) {
-    const v = c.value as Record<string, unknown>;
-    const right = formatIndicatorLabel(v.indicator as string, v.params as Record<string, unknown> | undefined, v.field as string | undefined);
-    return `${left} ${op} ${right}`;
-  }
-  return `${left} ${op} ${c.value}`;
+  return `${formatRefLabel(c)} ${op} ${formatValueLabel(c.value)}`;
 }
 
 class AIErrorBoundary extends Component<
@@ -124,9 +143,14 @@ export default function AIPage() {
   } | null>(null);
   const [walkForwardResult, setWalkForwardResult] = useState<WalkForwardResult | null>(null);
   const [walkForwardLoading, setWalkForwardLoading] = useState(false);
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloResult | null>(null);
+  const [monteCarloLoading, setMonteCarloLoading] = useState(false);
+  const [backtestJobStatus, setBacktestJobStatus] = useState<string | null>(null);
   const [funnelSignals, setFunnelSignals] = useState<
     { symbol: string; signals: string[]; currentPrice: number }[] | undefined
   >();
+  const [historyStrategyId, setHistoryStrategyId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const queryClient = useQueryClient();
 
   // Check if user is leader
@@ -141,7 +165,7 @@ export default function AIPage() {
 
   const isLeader = authData?.user?.role === "leader";
 
-  // Run backtest mutation (also kicks off walk-forward in parallel)
+  // Run backtest mutation (also kicks off walk-forward and Monte Carlo in parallel)
   const runBacktest = useMutation({
     mutationFn: async (config: {
       symbol: string;
@@ -149,6 +173,8 @@ export default function AIPage() {
       startDate: string;
       endDate: string;
       strategyConfig: StrategyConfig;
+      costs?: CostModel;
+      intrabarPolicy?: IntrabarPolicy;
     }) => {
       const days = Math.ceil(
         (new Date(config.endDate).getTime() - new Date(config.startDate).getTime()) /
@@ -159,7 +185,7 @@ export default function AIPage() {
         fetch("/api/ai/backtest", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(config),
+          body: JSON.stringify({ ...config, trace: true }),
         }),
         fetch(
           `/api/ai/market/candles?symbol=${encodeURIComponent(config.symbol)}&timeframe=${config.timeframe}&days=${days}`
@@ -167,7 +193,21 @@ export default function AIPage() {
       ]);
 
       if (!btRes.ok) throw new Error("Backtest failed");
-      const btData = await btRes.json();
+      const queued = await btRes.json();
+
+      // The worker runs the backtest; wait for its job, then load the stored result
+      setBacktestJobStatus("Queued...");
+      const job = await pollBacktestJob(queued.job.id, (j) => {
+        setBacktestJobStatus(j.status === "pending" ? "Queued..." : j.progressMessage || "Running Backtest...");
+      }).finally(() => setBacktestJobStatus(null));
+      if (job.status !== "completed") throw new Error(job.errorMessage || "Backtest failed");
+
+      const detailRes = await fetch(`/api/ai/backtest/${queued.backtest.id}`);
+      if (!detailRes.ok) throw new Error("Backtest failed");
+      const btData = await detailRes.json();
+      // The trace is for the replay viewer only and comes with the job, not the stored backtest
+      const jobResult = job.result as { trace?: BacktestTrace } | null;
+      if (jobResult?.trace) btData.backtest = { ...btData.backtest, trace: jobResult.trace };
 
       let candles;
       if (candleRes.ok) {
@@ -186,6 +226,8 @@ export default function AIPage() {
           timeframe: config.timeframe,
           days,
           strategyConfig: config.strategyConfig,
+          costs: config.costs,
+          intrabarPolicy: config.intrabarPolicy,
         }),
       })
         .then((res) => (res.ok ? res.json() : null))
@@ -193,6 +235,21 @@ export default function AIPage() {
         .catch(() => {})
         .finally(() => setWalkForwardLoading(false));
 
+      // Monte Carlo over the stored trades, also in the background
+      setMonteCarloResult(null);
+      if (btData.backtest?.id && (btData.backtest.totalTrades ?? 0) >= 2) {
+        setMonteCarloLoading(true);
+        fetch("/api/ai/backtest/monte-carlo", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ backtestId: btData.backtest.id }),
+        })
+          .then((res) => (res.ok ? res.json() : null))
+          .then((data) => { if (data?.result) setMonteCarloResult(data.result); })
+          .catch(() => {})
+          .finally(() => setMonteCarloLoading(false));
+      }
+
       return { backtest: btData.backtest, candles };
     },
     onSuccess: (data, variables) => {
@@ -426,7 +483,26 @@ export default function AIPage() {
         </TabsContent>
 
         {/* Strategies Tab */}
-        <TabsContent value="strategies" className="mt-0">
+        <TabsContent value="strategies" className="mt-0 space-y-3">
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setImportOpen(!importOpen)}
+              className="h-7 text-xs border-white/[0.08] text-slate-400 hover:bg-white/[0.04]"
+            >
+              <Upload className="w-3 h-3 mr-1" />
+              Import
+            </Button>
+          </div>
+          {importOpen && (
+            <StrategyImport
+              onImported={() => {
+                setImportOpen(false);
+                queryClient.invalidateQueries({ queryKey: ["ai-strategies"] });
+              }}
+            />
+          )}
           {strategies.length === 0 ? (
             <div className="text-center py-16">
               <div className="w-12 h-12 rounded-2xl bg-amber-500/10 flex items-center justify-center mx-auto mb-4">
@@ -455,6 +531,7 @@ export default function AIPage() {
                   symbol: string;
                   timeframe: string;
                   strategyConfig: string;
+                  configVersion: number;
                   notes: string | null;
                   createdAt: string;
                 }) => {
@@ -478,12 +555,28 @@ export default function AIPage() {
                         <h4 className="text-sm font-semibold text-slate-200">
                           {s.name}
                         </h4>
-                        <button
-                          onClick={() => deleteStrategy.mutate(s.id)}
-                          className="p-1 rounded text-slate-600 hover:text-red-400 transition-colors"
-                        >
-                          <Trash2 className="w-3.5 h-3.5" />
-                        </button>
+                        <div className="flex items-center">
+                          <a
+                            href={`/api/ai/strategies/${s.id}/export`}
+                            title="Export JSON"
+                            className="p-1 rounded text-slate-600 hover:text-slate-300 transition-colors"
+                          >
+                            <Download className="w-3.5 h-3.5" />
+                          </a>
+                          <a
+                            href={`/api/ai/strategies/${s.id}/export?format=dsl`}
+                            title="Export script"
+                            className="p-1 rounded text-slate-600 hover:text-slate-300 transition-colors"
+                          >
+                            <FileCode className="w-3.5 h-3.5" />
+                          </a>
+                          <button
+                            onClick={() => deleteStrategy.mutate(s.id)}
+                            className="p-1 rounded text-slate-600 hover:text-red-400 transition-colors"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
                       </div>
                       <div className="flex gap-1.5 mb-3">
                         <Badge variant="outline" className="text-[10px]">
@@ -492,6 +585,9 @@ export default function AIPage() {
                         <Badge variant="outline" className="text-[10px]">
                           {s.timeframe}
                         </Badge>
+                        <Badge variant="outline" className="text-[10px] font-mono">
+                          v{s.configVersion}
+                        </Badge>
                       </div>
                       {s.notes && (
                         <p className="text-xs text-slate-500 mb-2 line-clamp-2">
@@ -549,7 +645,24 @@ export default function AIPage() {
                           <Zap className="w-3 h-3 mr-1" />
                           Activate
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setHistoryStrategyId(historyStrategyId === s.id ? null : s.id)}
+                          className="h-7 text-xs border-white/[0.08] text-slate-400 hover:bg-white/[0.04]"
+                        >
+                          <History className="w-3 h-3 mr-1" />
+                          History
+                        </Button>
                       </div>
+                      {historyStrategyId === s.id && (
+                        <div className="mt-3">
+                          <StrategyVersionHistory
+                            baseUrl={`/api/ai/strategies/${s.id}`}
+                            onChanged={() => queryClient.invalidateQueries({ queryKey: ["ai-strategies"] })}
+                          />
+                        </div>
+                      )}
                       <p className="text-[10px] text-slate-600 mt-2">
                         {new Date(s.createdAt).toLocaleDateString()}
                       </p>
@@ -571,6 +684,7 @@ export default function AIPage() {
             <BacktestConfig
               onRun={runBacktest.mutate}
               isRunning={runBacktest.isPending}
+              runningStatus={backtestJobStatus}
               initialConfig={prefillConfig?.strategyConfig}
               initialSymbol={prefillConfig?.symbol}
               initialTimeframe={prefillConfig?.timeframe}
@@ -590,6 +704,8 @@ export default function AIPage() {
               onActivate={(source) => setActivateSource(source)}
               walkForwardResult={walkForwardResult}
               walkForwardLoading={walkForwardLoading}
+              monteCarloResult={monteCarloResult}
+              monteCarloLoading={monteCarloLoading}
             />
           )}
 
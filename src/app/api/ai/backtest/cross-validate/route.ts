@@ -1,115 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
-import { fetchCandlesBatch } from "@/lib/ai/data/candles";
-import { runBacktest } from "@/lib/ai/backtest/engine";
-import type { StrategyConfig } from "@/lib/ai/backtest/types";
-
-export const maxDuration = 120;
+import { enqueueBacktestJob, serializeJob } from "@/lib/ai/backtest/jobs";
+import type { CrossValidateParams } from "@/lib/ai/backtest/cross-validate";
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAuth();
+    const auth = await requireAuth();
     const body = await req.json();
 
-    const {
-      symbols,
-      timeframe,
-      strategyConfig,
-      dateRanges,
-    }: {
-      symbols: string[];
-      timeframe: string;
-      strategyConfig: StrategyConfig;
-      dateRanges: { label: string; days: number }[];
-    } = body;
+    const { symbols, timeframe, strategyConfig, dateRanges }: CrossValidateParams = body;
 
     if (!symbols?.length || !timeframe || !strategyConfig || !dateRanges?.length) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
 
-    const start = performance.now();
-    const INITIAL_EQUITY = 10000;
-
-    // Build fetch jobs for each symbol × dateRange
-    const fetchJobs: { symbol: string; timeframe: string; daysBack: number; range: { label: string; days: number } }[] = [];
-    for (const symbol of symbols) {
-      for (const range of dateRanges) {
-        fetchJobs.push({ symbol, timeframe, daysBack: range.days, range });
-      }
-    }
-
-    // Use throttled batch fetching (respects concurrency limits)
-    const candleResults = await fetchCandlesBatch(
-      fetchJobs.map((job) => ({ symbol: job.symbol, timeframe: job.timeframe, daysBack: job.daysBack }))
-    );
-
-    // Run backtests for each symbol × dateRange combo
-    const results: {
-      symbol: string;
-      dateRange: string;
-      days: number;
-      totalPnl: number;
-      winRate: number;
-      sharpeRatio: number;
-      profitFactor: number;
-      maxDrawdown: number;
-      totalTrades: number;
-    }[] = [];
-
-    for (let i = 0; i < fetchJobs.length; i++) {
-      const { symbol, range } = fetchJobs[i];
-      const candleResult = candleResults[i];
-
-      if (candleResult.status !== "fulfilled" || candleResult.value.length < 20) {
-        results.push({
-          symbol, dateRange: range.label, days: range.days,
-          totalPnl: 0, winRate: 0, sharpeRatio: 0, profitFactor: 0, maxDrawdown: 0, totalTrades: 0,
-        });
-        continue;
-      }
-
-      try {
-        const rangeCandles = candleResult.value;
-        const result = await runBacktest(rangeCandles, strategyConfig, symbol);
-        const totalReturnPct = (result.totalPnl / INITIAL_EQUITY) * 100;
-
-        results.push({
-          symbol,
-          dateRange: range.label,
-          days: range.days,
-          totalPnl: Math.round(totalReturnPct * 100) / 100,
-          winRate: Math.round(result.winRate * 10000) / 100,
-          sharpeRatio: Math.round(result.sharpeRatio * 100) / 100,
-          profitFactor: Math.round((result.profitFactor > 999 ? 999 : result.profitFactor) * 100) / 100,
-          maxDrawdown: Math.round(result.maxDrawdown * 10000) / 100,
-          totalTrades: result.totalTrades,
-        });
-      } catch (err) {
-        console.error(`[Cross-Validate] Error on ${symbol} ${range.label}:`, err);
-        results.push({
-          symbol, dateRange: range.label, days: range.days,
-          totalPnl: 0, winRate: 0, sharpeRatio: 0, profitFactor: 0, maxDrawdown: 0, totalTrades: 0,
-        });
-      }
-    }
-
-    // Compute summary
-    const profitable = results.filter((r) => r.totalPnl > 0 && r.totalTrades > 0);
-    const withTrades = results.filter((r) => r.totalTrades > 0);
-
-    const elapsed = performance.now() - start;
+    // Runs in the worker; poll /api/ai/backtest/jobs/[id] for the result
+    const params: CrossValidateParams = { symbols, timeframe, strategyConfig, dateRanges };
+    const job = await enqueueBacktestJob(auth.user.id, "cross_validate", params);
 
-    return NextResponse.json({
-      results,
-      summary: {
-        totalTests: results.length,
-        profitable: profitable.length,
-        avgPnl: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.totalPnl, 0) / withTrades.length * 100) / 100 : 0,
-        avgSharpe: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.sharpeRatio, 0) / withTrades.length * 100) / 100 : 0,
-        avgWinRate: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.winRate, 0) / withTrades.length * 100) / 100 : 0,
-      },
-      executionTimeMs: Math.round(elapsed),
-    });
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
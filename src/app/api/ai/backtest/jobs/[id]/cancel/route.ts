@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtestJobs, backtests } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { isFinished, serializeJob } from "@/lib/ai/backtest/jobs";
+
+/** A queued job is cancelled at once; a running one stops at its next progress report */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+
+    const [job] = await db
+      .select()
+      .from(backtestJobs)
+      .where(and(eq(backtestJobs.id, id), eq(backtestJobs.userId, auth.user.id)))
+      .limit(1);
+
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    if (isFinished(job)) {
+      return NextResponse.json({ error: "Job already finished" }, { status: 400 });
+    }
+
+    const now = new Date();
+    const [cancelled] = await db
+      .update(backtestJobs)
+      .set({ status: "cancelled", cancelRequested: true, completedAt: now, updatedAt: now })
+      .where(and(eq(backtestJobs.id, id), eq(backtestJobs.status, "pending")))
+      .returning();
+
+    if (cancelled) {
+      if (cancelled.backtestId) {
+        await db
+          .update(backtests)
+          .set({ status: "cancelled", updatedAt: now })
+          .where(eq(backtests.id, cancelled.backtestId));
+      }
+      return NextResponse.json({ job: serializeJob(cancelled) });
+    }
+
+    // Claimed meanwhile: ask the worker to stop it
+    const [requested] = await db
+      .update(backtestJobs)
+      .set({ cancelRequested: true, updatedAt: now })
+      .where(eq(backtestJobs.id, id))
+      .returning();
+
+    return NextResponse.json({ job: serializeJob(requested) });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Backtest job cancel error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtestJobs } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { serializeJob } from "@/lib/ai/backtest/jobs";
+
+/** Queues a failed or cancelled autopilot run again; it continues from its last checkpoint */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+
+    const [job] = await db
+      .select()
+      .from(backtestJobs)
+      .where(and(eq(backtestJobs.id, id), eq(backtestJobs.userId, auth.user.id)))
+      .limit(1);
+
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    if (!serializeJob(job).resumable) {
+      return NextResponse.json({ error: "Job cannot be resumed" }, { status: 400 });
+    }
+
+    const [resumed] = await db
+      .update(backtestJobs)
+      .set({
+        status: "pending",
+        cancelRequested: false,
+        attempts: 0,
+        errorMessage: null,
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(backtestJobs.id, id))
+      .returning();
+
+    return NextResponse.json({ job: serializeJob(resumed) });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Backtest job resume error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtestJobs } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { serializeJob } from "@/lib/ai/backtest/jobs";
+
+/** Job status and progress; `?after=n` returns only the events after the first n */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+    const after = parseInt(new URL(req.url).searchParams.get("after") || "0", 10) || 0;
+
+    const [job] = await db
+      .select()
+      .from(backtestJobs)
+      .where(and(eq(backtestJobs.id, id), eq(backtestJobs.userId, auth.user.id)))
+      .limit(1);
+
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job: serializeJob(job, after) });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Backtest job detail error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
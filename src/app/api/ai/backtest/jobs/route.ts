@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtestJobs } from "@/lib/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { serializeJob } from "@/lib/ai/backtest/jobs";
+import type { BacktestJobKind } from "@/lib/ai/backtest/types";
+
+const JOB_KINDS: BacktestJobKind[] = ["backtest", "cross_validate", "autopilot"];
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    const { searchParams } = new URL(req.url);
+    const kind = searchParams.get("kind") as BacktestJobKind | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20", 10) || 20, 1), 100);
+
+    if (kind && !JOB_KINDS.includes(kind)) {
+      return NextResponse.json({ error: "Unknown job kind" }, { status: 400 });
+    }
+
+    const rows = await db
+      .select()
+      .from(backtestJobs)
+      .where(and(
+        eq(backtestJobs.userId, auth.user.id),
+        kind ? eq(backtestJobs.kind, kind) : undefined
+      ))
+      .orderBy(desc(backtestJobs.createdAt))
+      .limit(limit);
+
+    // Lists carry no events or results; fetch a single job for those
+    const jobs = rows.map((row) => ({ ...serializeJob(row), events: [], result: null }));
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Backtest jobs list error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtests } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { runMonteCarlo } from "@/lib/ai/backtest/monte-carlo";
+import type { Trade, MonteCarloMethod } from "@/lib/ai/backtest/types";
+
+const MAX_ITERATIONS = 5000;
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireRole("leader");
+    const body = await req.json();
+
+    const { backtestId, iterations, methods, skipProbability, ruinDrawdown, seed } = body;
+    let trades: Trade[] | undefined = body.trades;
+
+    // Either analyse a stored backtest or trades passed inline
+    if (backtestId) {
+      const [backtest] = await db
+        .select({ trades: backtests.trades })
+        .from(backtests)
+        .where(and(eq(backtests.id, backtestId), eq(backtests.userId, auth.user.id)))
+        .limit(1);
+
+      if (!backtest) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      trades = JSON.parse(backtest.trades || "[]");
+    }
+
+    if (!Array.isArray(trades)) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+    }
+
+    if (trades.length < 2) {
+      return NextResponse.json(
+        { error: "Not enough trades for Monte Carlo analysis" },
+        { status: 400 }
+      );
+    }
+
+    const result = runMonteCarlo(trades, {
+      iterations: Math.min(Number(iterations) || 1000, MAX_ITERATIONS),
+      methods: methods as MonteCarloMethod[] | undefined,
+      skipProbability,
+      ruinDrawdown,
+      seed,
+    });
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("Monte Carlo error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
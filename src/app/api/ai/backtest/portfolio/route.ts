@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { operationalStrategies, systemConfig } from "@/lib/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { fetchCandles } from "@/lib/ai/data/candles";
+import { runPortfolioBacktest } from "@/lib/ai/backtest/portfolio";
+import { loadCustomIndicators } from "@/lib/ai/custom-indicators";
+import type { PortfolioSleeve } from "@/lib/ai/backtest/types";
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireRole("leader");
+    const body = await req.json();
+
+    const { days, strategyIds, initialCapital, costs, intrabarPolicy } = body;
+    let { maxConcurrentStrategies } = body;
+
+    if (!days || (!Array.isArray(body.sleeves) && !Array.isArray(strategyIds))) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+    }
+
+    let sleeves: PortfolioSleeve[];
+    if (Array.isArray(strategyIds)) {
+      // Replay operational strategies with their live allocation
+      const rows = strategyIds.length
+        ? await db.select().from(operationalStrategies).where(inArray(operationalStrategies.id, strategyIds))
+        : [];
+      sleeves = rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        symbol: row.symbol,
+        timeframe: row.timeframe,
+        config: JSON.parse(row.strategyConfig),
+        maxCapUsd: row.maxCapUsd,
+        maxCapPercent: row.maxCapPercent,
+      }));
+    } else {
+      sleeves = body.sleeves.map((s: Record<string, unknown>) => ({
+        id: s.id,
+        name: s.name,
+        symbol: s.symbol,
+        timeframe: s.timeframe,
+        config: s.strategyConfig,
+        maxCapUsd: s.maxCapUsd,
+        maxCapPercent: s.maxCapPercent,
+      }));
+    }
+
+    if (sleeves.length === 0 || sleeves.some((s) => !s.symbol || !s.timeframe || !s.config)) {
+      return NextResponse.json({ error: "Each sleeve needs symbol, timeframe and strategyConfig" }, { status: 400 });
+    }
+
+    // Same default as strategy activation
+    if (maxConcurrentStrategies === undefined) {
+      const [maxConfig] = await db
+        .select()
+        .from(systemConfig)
+        .where(eq(systemConfig.key, "max_concurrent_strategies"))
+        .limit(1);
+      maxConcurrentStrategies = maxConfig ? parseInt(maxConfig.value, 10) : 3;
+    }
+
+    const candlesBySleeve = await Promise.all(sleeves.map((s) => fetchCandles(s.symbol, s.timeframe!, days)));
+
+    if (candlesBySleeve.some((candles) => candles.length < 20)) {
+      return NextResponse.json(
+        { error: "Not enough candle data for portfolio backtest" },
+        { status: 400 }
+      );
+    }
+
+    const result = await runPortfolioBacktest(sleeves, candlesBySleeve, {
+      initialCapital,
+      maxConcurrentStrategies,
+      costs,
+      intrabarPolicy,
+      customIndicators: await loadCustomIndicators(auth.user.id, sleeves.map((s) => s.config)),
+    });
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("Portfolio backtest error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -3,22 +3,27 @@ import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { backtests } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { fetchCandles } from "@/lib/ai/data/candles";
-import { runBacktest } from "@/lib/ai/backtest/engine";
-import type { StrategyConfig } from "@/lib/ai/backtest/types";
+import { enqueueBacktestJob, serializeJob, type BacktestJobParams } from "@/lib/ai/backtest/jobs";
+import { migrateStrategyConfig, validateStrategyConfig } from "@/lib/ai/strategy-schema";
 
 export async function POST(req: NextRequest) {
   try {
     const auth = await requireAuth();
     const body = await req.json();
 
-    const { symbol, timeframe, startDate, endDate, strategyConfig, conversationId } = body;
+    const { symbol, timeframe, startDate, endDate, strategyConfig, conversationId, costs, intrabarPolicy, trace, regimes } = body;
 
     if (!symbol || !timeframe || !startDate || !endDate || !strategyConfig) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
 
-    // Create backtest record
+    // Configs saved before validation was strict still run as they used to
+    const parsed = validateStrategyConfig(migrateStrategyConfig(strategyConfig));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid strategy config", issues: parsed.issues }, { status: 400 });
+    }
+
+    // Create backtest record; the worker's job runner picks it up
     const [backtest] = await db
       .insert(backtests)
       .values({
@@ -28,61 +33,16 @@ export async function POST(req: NextRequest) {
         timeframe,
         startDate,
         endDate,
-        strategyConfig: JSON.stringify(strategyConfig),
-        status: "running",
+        strategyConfig: JSON.stringify(parsed.config),
+        costModel: costs ? JSON.stringify(costs) : null,
+        status: "pending",
       })
       .returning();
 
-    try {
-      // Fetch candles
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      const daysBack = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-      const candles = await fetchCandles(symbol, timeframe, daysBack);
-
-      // Filter to date range
-      const filtered = candles.filter(
-        (c) => c.timestamp >= start.getTime() && c.timestamp <= end.getTime()
-      );
-
-      // Run backtest
-      const config: StrategyConfig = strategyConfig;
-      const result = await runBacktest(filtered, config, symbol);
+    const params: BacktestJobParams = { intrabarPolicy, trace: !!trace, regimes };
+    const job = await enqueueBacktestJob(auth.user.id, "backtest", params, backtest.id);
 
-      // Update record with results
-      const [updated] = await db
-        .update(backtests)
-        .set({
-          status: "completed",
-          totalPnl: String(result.totalPnl),
-          winRate: String(result.winRate),
-          maxDrawdown: String(result.maxDrawdown),
-          sharpeRatio: String(result.sharpeRatio),
-          profitFactor: String(result.profitFactor),
-          totalTrades: result.totalTrades,
-          trades: JSON.stringify(result.trades),
-          equityCurve: JSON.stringify(result.equityCurve),
-          updatedAt: new Date(),
-        })
-        .where(eq(backtests.id, backtest.id))
-        .returning();
-
-      return NextResponse.json({ backtest: updated });
-    } catch (error) {
-      await db
-        .update(backtests)
-        .set({
-          status: "failed",
-          errorMessage: error instanceof Error ? error.message : "Unknown error",
-          updatedAt: new Date(),
-        })
-        .where(eq(backtests.id, backtest.id));
-
-      return NextResponse.json(
-        { error: "Backtest failed", details: error instanceof Error ? error.message : "Unknown" },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json({ backtest, job: serializeJob(job) }, { status: 202 });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -110,6 +70,10 @@ export async function GET() {
         sharpeRatio: backtests.sharpeRatio,
         profitFactor: backtests.profitFactor,
         totalTrades: backtests.totalTrades,
+        totalFees: backtests.totalFees,
+        sortinoRatio: backtests.sortinoRatio,
+        calmarRatio: backtests.calmarRatio,
+        buyAndHoldReturn: backtests.buyAndHoldReturn,
         strategyConfig: backtests.strategyConfig,
         createdAt: backtests.createdAt,
       })
@@ -2,14 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireRole } from "@/lib/auth";
 import { fetchCandles } from "@/lib/ai/data/candles";
 import { runWalkForward } from "@/lib/ai/backtest/walk-forward";
-import type { StrategyConfig } from "@/lib/ai/backtest/types";
+import { loadCustomIndicators } from "@/lib/ai/custom-indicators";
+import type { StrategyConfig, WalkForwardOptimization } from "@/lib/ai/backtest/types";
 
 export async function POST(req: NextRequest) {
   try {
-    await requireRole("leader");
+    const auth = await requireRole("leader");
     const body = await req.json();
 
-    const { symbol, timeframe, days, strategyConfig, windowCount, inSampleRatio } = body;
+    const { symbol, timeframe, days, strategyConfig, windowCount, inSampleRatio, costs, intrabarPolicy, optimization } = body;
 
     if (!symbol || !timeframe || !days || !strategyConfig) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
@@ -32,7 +33,9 @@ export async function POST(req: NextRequest) {
       config,
       windowCount || 5,
       inSampleRatio || 0.7,
-      symbol
+      symbol,
+      { costs, intrabarPolicy, timeframe, customIndicators: await loadCustomIndicators(auth.user.id, config) },
+      optimization as WalkForwardOptimization | undefined
     );
 
     return NextResponse.json({ result });
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireRole } from "@/lib/auth";
 import { fetchCandlesBatch, type Candle } from "@/lib/ai/data/candles";
 import { runBacktest } from "@/lib/ai/backtest/engine";
+import { addTrial, emptyTrialStats, robustnessReport, runRobustnessChecks } from "@/lib/ai/backtest/robustness";
 import type { GeneratedStrategy } from "@/lib/ai/funnel/generator";
-import type { Trade, EquityPoint } from "@/lib/ai/backtest/types";
+import type { Trade, EquityPoint, RobustnessChecks, RobustnessReport } from "@/lib/ai/backtest/types";
 
 export const maxDuration = 120; // allow up to 2 min for large batches
 
@@ -60,9 +61,12 @@ export async function POST(req: NextRequest) {
       };
       trades: Trade[];
       equityCurve: EquityPoint[];
+      robustness?: RobustnessReport;
     }[] = [];
+    const checks: RobustnessChecks[] = [];
 
     let totalTested = 0;
+    const trialStats = emptyTrialStats();
 
     for (const [symbol, symbolStrategies] of bySymbol) {
       const candles = candleCache.get(symbol);
@@ -71,7 +75,8 @@ export async function POST(req: NextRequest) {
       for (const strategy of symbolStrategies) {
         totalTested++;
         try {
-          const result = await runBacktest(candles, strategy.strategyConfig, symbol);
+          const result = await runBacktest(candles, strategy.strategyConfig, symbol, { timeframe });
+          addTrial(trialStats, result.trades);
 
           // totalPnl from engine is absolute dollars on $10k equity — convert to %
           const INITIAL_EQUITY = 10000;
@@ -79,6 +84,7 @@ export async function POST(req: NextRequest) {
 
           // Only include strategies that pass the minimum profit filter
           if (totalReturnPct >= minProfitPercent) {
+            checks.push(await runRobustnessChecks(candles, strategy.strategyConfig, result, symbol, { timeframe }));
             results.push({
               strategy,
               metrics: {
@@ -101,6 +107,11 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Scored once the whole batch is in: every tested variant counts as a trial
+    results.forEach((r, i) => {
+      r.robustness = robustnessReport(r.trades, checks[i], totalTested, trialStats);
+    });
+
     // Sort by totalPnl descending
     results.sort((a, b) => b.metrics.totalPnl - a.metrics.totalPnl);
 
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { listCustomIndicators, saveCustomIndicator } from "@/lib/ai/custom-indicators";
+
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    const indicators = await listCustomIndicators(auth.user.id);
+    return NextResponse.json({ indicators });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/** Creates a custom indicator, or replaces the formula of the user's indicator of that name */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    const { name, formula, description } = await req.json();
+
+    if (typeof name !== "string" || typeof formula !== "string") {
+      return NextResponse.json({ error: "Missing name or formula" }, { status: 400 });
+    }
+
+    const saved = await saveCustomIndicator(auth.user.id, {
+      name,
+      formula,
+      description: typeof description === "string" ? description : null,
+    });
+    if (!saved.success) {
+      return NextResponse.json({ error: "Invalid custom indicator", issues: saved.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({ indicator: saved.indicator });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Custom indicator save error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -8,6 +8,9 @@ import {
   systemConfig,
 } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
+import { isPerpetual } from "@/lib/ai/backtest/strategy-core";
+import type { StrategyConfig } from "@/lib/ai/backtest/types";
+import { currentVersion, recordInitialVersion } from "@/lib/ai/strategy-versions";
 
 export async function POST(
   req: NextRequest,
@@ -24,6 +27,7 @@ export async function POST(
       dailyLossLimitUsd = 100,
       sourceType = "strategy",
       mode = "live",
+      marginMode = "isolated",
     } = body;
 
     // Validate mode
@@ -36,6 +40,10 @@ export async function POST(
       return NextResponse.json({ error: "Invalid fund allocation values" }, { status: 400 });
     }
 
+    if (marginMode !== "isolated" && marginMode !== "cross") {
+      return NextResponse.json({ error: "Invalid margin mode. Must be 'isolated' or 'cross'" }, { status: 400 });
+    }
+
     // Check max concurrent strategies
     const [maxConfig] = await db
       .select()
@@ -61,6 +69,7 @@ export async function POST(
     let timeframe: string;
     let strategyConfig: string;
     let backtestId: string | null = null;
+    let sourceVersionId: string | null = null;
 
     if (sourceType === "inline") {
       // Inline source — strategy config passed directly in the request body (e.g. from funnel results)
@@ -106,6 +115,36 @@ export async function POST(
       symbol = strat.symbol;
       timeframe = strat.timeframe;
       strategyConfig = strat.strategyConfig;
+
+      // The live strategy starts from the suggestion's current version
+      const version = await currentVersion({ suggestionId: strat.id });
+      sourceVersionId = version?.id ?? null;
+      backtestId = version?.backtestId ?? null;
+    }
+
+    // Leverage defaults to what the strategy was backtested with
+    const config: StrategyConfig = JSON.parse(strategyConfig);
+    const leverage = body.leverage ?? config.leverage ?? 1;
+
+    // Leverage stays within the user's cap; without a cap positions are unleveraged
+    const leverageCap = auth.user.leverageCap ? Number(auth.user.leverageCap) : 1;
+    if (typeof leverage !== "number" || leverage < 1 || leverage > leverageCap) {
+      return NextResponse.json(
+        { error: `Leverage must be between 1 and your leverage cap (${leverageCap}x)` },
+        { status: 400 }
+      );
+    }
+
+    // Shorts and leverage trade the symbol's USDT perpetual; the body may ask for it explicitly
+    const market: "spot" | "perp" = body.market ?? (isPerpetual(config) || leverage > 1 ? "perp" : "spot");
+    if (market !== "spot" && market !== "perp") {
+      return NextResponse.json({ error: "Invalid market. Must be 'spot' or 'perp'" }, { status: 400 });
+    }
+    if (market === "spot" && (config.side === "short" || leverage > 1)) {
+      return NextResponse.json(
+        { error: "Short and leveraged strategies need the perp market" },
+        { status: 400 }
+      );
     }
 
     // Insert operational strategy
@@ -125,9 +164,21 @@ export async function POST(
         todayPnlDate: today,
         mode,
         paperBalance: mode === "paper" ? maxCapUsd : null,
+        market,
+        leverage: market === "perp" ? leverage : 1,
+        marginMode,
       })
       .returning();
 
+    await recordInitialVersion(
+      { strategyId: opStrategy.id },
+      {
+        userId: auth.user.id,
+        sourceVersionId,
+        note: sourceType === "backtest" ? "Activated from backtest" : sourceType === "inline" ? "Activated from inline config" : "Activated from saved strategy",
+      }
+    );
+
     return NextResponse.json({ strategy: opStrategy });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { strategySuggestions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { toStrategyDocument } from "@/lib/ai/strategy-schema";
+import { formatStrategyDsl } from "@/lib/ai/strategy-dsl";
+
+/** The strategy as a portable JSON document, or as a DSL script with `?format=dsl` */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+
+    const [strategy] = await db
+      .select()
+      .from(strategySuggestions)
+      .where(and(eq(strategySuggestions.id, id), eq(strategySuggestions.userId, auth.user.id)))
+      .limit(1);
+
+    if (!strategy) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const config = JSON.parse(strategy.strategyConfig);
+    const filename = strategy.name.replace(/[^\w-]+/g, "_").toLowerCase();
+
+    if (req.nextUrl.searchParams.get("format") === "dsl") {
+      const header = `# ${strategy.name} (${strategy.symbol} ${strategy.timeframe})\n`;
+      return new NextResponse(header + formatStrategyDsl({ ...config, name: config.name ?? strategy.name }) + "\n", {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.strategy"`,
+        },
+      });
+    }
+
+    const document = toStrategyDocument({
+      name: strategy.name,
+      symbol: strategy.symbol,
+      timeframe: strategy.timeframe,
+      notes: strategy.notes,
+      config,
+    });
+    return NextResponse.json(document, {
+      headers: { "Content-Disposition": `attachment; filename="${filename}.strategy.json"` },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { strategySuggestions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getVersion, rollbackToVersion } from "@/lib/ai/strategy-versions";
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id, versionId } = await params;
+
+    const [strategy] = await db
+      .select({ id: strategySuggestions.id })
+      .from(strategySuggestions)
+      .where(and(eq(strategySuggestions.id, id), eq(strategySuggestions.userId, auth.user.id)))
+      .limit(1);
+
+    const owner = { suggestionId: id };
+    const target = strategy ? await getVersion(owner, versionId) : null;
+    if (!target) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const version = await rollbackToVersion(owner, target, auth.user.id);
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
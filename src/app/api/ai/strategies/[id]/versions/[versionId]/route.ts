@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { strategySuggestions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { diffConfigs, getVersion, versionByNumber } from "@/lib/ai/strategy-versions";
+
+/** A version and its changes against `?against=<versionId>`, by default the version before it */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id, versionId } = await params;
+
+    const [strategy] = await db
+      .select({ id: strategySuggestions.id })
+      .from(strategySuggestions)
+      .where(and(eq(strategySuggestions.id, id), eq(strategySuggestions.userId, auth.user.id)))
+      .limit(1);
+
+    const owner = { suggestionId: id };
+    const version = strategy ? await getVersion(owner, versionId) : null;
+    if (!version) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const againstId = req.nextUrl.searchParams.get("against");
+    const against = againstId
+      ? await getVersion(owner, againstId)
+      : await versionByNumber(owner, version.version - 1);
+    if (againstId && !against) {
+      return NextResponse.json({ error: "Version to compare against not found" }, { status: 404 });
+    }
+
+    const changes = against
+      ? diffConfigs(JSON.parse(against.strategyConfig), JSON.parse(version.strategyConfig))
+      : [];
+
+    return NextResponse.json({ version, against, changes });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtests, strategySuggestions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { createVersion, listVersions } from "@/lib/ai/strategy-versions";
+import { validateStrategyConfig } from "@/lib/ai/strategy-schema";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+
+    const [strategy] = await db
+      .select({ id: strategySuggestions.id, configVersion: strategySuggestions.configVersion })
+      .from(strategySuggestions)
+      .where(and(eq(strategySuggestions.id, id), eq(strategySuggestions.userId, auth.user.id)))
+      .limit(1);
+
+    if (!strategy) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const versions = await listVersions({ suggestionId: id });
+    return NextResponse.json({ versions, currentVersion: strategy.configVersion });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/** Saves an edited config as the next version */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    const { id } = await params;
+    const body = await req.json();
+    const { strategyConfig, note, backtestId } = body;
+
+    const [strategy] = await db
+      .select({ id: strategySuggestions.id })
+      .from(strategySuggestions)
+      .where(and(eq(strategySuggestions.id, id), eq(strategySuggestions.userId, auth.user.id)))
+      .limit(1);
+
+    if (!strategy) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const parsed = validateStrategyConfig(typeof strategyConfig === "string" ? JSON.parse(strategyConfig) : strategyConfig);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid strategy config", issues: parsed.issues }, { status: 400 });
+    }
+
+    if (backtestId) {
+      const [bt] = await db
+        .select({ id: backtests.id })
+        .from(backtests)
+        .where(and(eq(backtests.id, backtestId), eq(backtests.userId, auth.user.id)))
+        .limit(1);
+      if (!bt) {
+        return NextResponse.json({ error: "Backtest not found" }, { status: 404 });
+      }
+    }
+
+    const version = await createVersion({ suggestionId: id }, JSON.stringify(parsed.config), {
+      userId: auth.user.id,
+      backtestId: backtestId || null,
+      note: note || null,
+    });
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid strategy config" }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { validateStrategyConfig } from "@/lib/ai/strategy-schema";
+import { formatStrategyDsl, parseStrategyDsl } from "@/lib/ai/strategy-dsl";
+
+/** Parses and validates a DSL script without saving it; returns the config and its canonical text */
+export async function POST(req: NextRequest) {
+  try {
+    await requireAuth();
+    const { dsl } = await req.json();
+
+    if (typeof dsl !== "string") {
+      return NextResponse.json({ error: "Missing dsl" }, { status: 400 });
+    }
+
+    const parsed = validateStrategyConfig(parseStrategyDsl(dsl));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid strategy config", issues: parsed.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({ strategyConfig: parsed.config, dsl: formatStrategyDsl(parsed.config) });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { strategySuggestions } from "@/lib/db/schema";
+import { recordInitialVersion } from "@/lib/ai/strategy-versions";
+import { parseStrategyDocument, validateStrategyConfig } from "@/lib/ai/strategy-schema";
+import { parseStrategyDsl } from "@/lib/ai/strategy-dsl";
+
+/**
+ * Saves a strategy from an exported document (`{ document }`, object or JSON string) or from a
+ * DSL script (`{ dsl, symbol, timeframe, name? }`).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    const body = await req.json();
+
+    let strategy: { name: string; symbol: string; timeframe: string; notes?: string | null; config: unknown };
+
+    if (body.document) {
+      const parsed = parseStrategyDocument(typeof body.document === "string" ? JSON.parse(body.document) : body.document);
+      if (!parsed.success) {
+        return NextResponse.json({ error: "Invalid strategy document", issues: parsed.issues }, { status: 400 });
+      }
+      strategy = parsed.document;
+    } else if (typeof body.dsl === "string") {
+      if (!body.symbol || !body.timeframe) {
+        return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+      }
+      const config = parseStrategyDsl(body.dsl);
+      strategy = {
+        name: body.name || config.name || "Imported strategy",
+        symbol: body.symbol,
+        timeframe: body.timeframe,
+        notes: body.notes,
+        config,
+      };
+    } else {
+      return NextResponse.json({ error: "Missing document or dsl" }, { status: 400 });
+    }
+
+    const parsed = validateStrategyConfig(strategy.config);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid strategy config", issues: parsed.issues }, { status: 400 });
+    }
+
+    const [saved] = await db
+      .insert(strategySuggestions)
+      .values({
+        userId: auth.user.id,
+        name: strategy.name,
+        symbol: strategy.symbol,
+        timeframe: strategy.timeframe,
+        strategyConfig: JSON.stringify(parsed.config),
+        notes: strategy.notes || null,
+      })
+      .returning();
+
+    await recordInitialVersion({ suggestionId: saved.id }, { userId: auth.user.id, note: "Imported" });
+
+    return NextResponse.json({ strategy: saved });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { strategySuggestions } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { backtests, strategySuggestions } from "@/lib/db/schema";
+import { and, eq, desc } from "drizzle-orm";
+import { recordInitialVersion } from "@/lib/ai/strategy-versions";
 
 export async function GET() {
   try {
@@ -29,7 +30,7 @@ export async function POST(req: NextRequest) {
     const auth = await requireAuth();
     const body = await req.json();
 
-    const { name, symbol, timeframe, strategyConfig, notes, conversationId } = body;
+    const { name, symbol, timeframe, strategyConfig, notes, conversationId, backtestId } = body;
 
     if (!name || !symbol || !timeframe || !strategyConfig) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
@@ -48,6 +49,16 @@ export async function POST(req: NextRequest) {
       })
       .returning();
 
+    // Link the first version to the backtest the idea was saved from, if it's the user's
+    const [bt] = backtestId
+      ? await db
+          .select({ id: backtests.id })
+          .from(backtests)
+          .where(and(eq(backtests.id, backtestId), eq(backtests.userId, auth.user.id)))
+          .limit(1)
+      : [];
+    await recordInitialVersion({ suggestionId: strategy.id }, { userId: auth.user.id, backtestId: bt?.id ?? null });
+
     return NextResponse.json({ strategy });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
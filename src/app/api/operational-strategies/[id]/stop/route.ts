@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireRole } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { operationalStrategies, operationalStrategyTrades } from "@/lib/db/schema";
+import { operationalStrategies } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
-import { decrypt } from "@/lib/crypto";
-import { createExchange, placeMarketOrder } from "@/lib/exchange/client";
-import { fetchCandles } from "@/lib/ai/data/candles";
+import { StrategyExecutor } from "@/worker/strategy-executor";
+import { IndicatorFeed } from "@/worker/indicator-feed";
 
 export async function POST(
   req: NextRequest,
@@ -36,69 +35,36 @@ export async function POST(
       return NextResponse.json({ error: "Strategy already stopped" }, { status: 400 });
     }
 
-    // Force close open position if requested
-    if (forceClose && strategy.inPosition && strategy.entryPrice && strategy.entryQuantity) {
-      if (!auth.user.apiKeyEncrypted || !auth.user.apiSecretEncrypted) {
-        return NextResponse.json({ error: "No API keys configured" }, { status: 400 });
-      }
-
-      const apiKey = decrypt(auth.user.apiKeyEncrypted);
-      const apiSecret = decrypt(auth.user.apiSecretEncrypted);
-      const exchange = createExchange({ apiKey, apiSecret }, false, auth.user.exchange || "bybit");
-
-      try {
-        const order = await placeMarketOrder(exchange, strategy.symbol, "sell", strategy.entryQuantity);
-        const fillPrice = order.average || order.price || strategy.entryPrice;
-        const pnl = (fillPrice - strategy.entryPrice) * strategy.entryQuantity;
-
-        // Record the closing trade
-        await db.insert(operationalStrategyTrades).values({
-          strategyId: strategy.id,
-          symbol: strategy.symbol,
-          side: "sell",
-          quantity: strategy.entryQuantity,
-          price: fillPrice,
-          bybitOrderId: order.id,
-          pnl,
-          reason: "manual_stop",
-        });
-
-        // Update with closed position
-        const [updated] = await db
-          .update(operationalStrategies)
-          .set({
-            status: "stopped",
-            stoppedAt: new Date(),
-            stoppedReason: "manual",
-            inPosition: false,
-            entryPrice: null,
-            entryQuantity: null,
-            todayPnl: (strategy.todayPnl || 0) + pnl,
-            totalPnl: (strategy.totalPnl || 0) + pnl,
-            tradesCount: (strategy.tradesCount || 0) + 1,
-            updatedAt: new Date(),
-          })
-          .where(eq(operationalStrategies.id, id))
-          .returning();
+    // A working limit order is settled, what it filled booked, before anything is closed
+    const needsExchange = strategy.mode !== "paper" && (strategy.pendingOrder || (forceClose && strategy.inPosition));
+    if (needsExchange && (!auth.user.apiKeyEncrypted || !auth.user.apiSecretEncrypted)) {
+      return NextResponse.json({ error: "No API keys configured" }, { status: 400 });
+    }
 
-        return NextResponse.json({ strategy: updated, closedPosition: true, pnl });
-      } finally {
-        await exchange.close();
-      }
+    const settled = await new StrategyExecutor(new IndicatorFeed()).settleStop(id, auth.user, !!forceClose);
+    if (!settled) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (forceClose && settled.inPosition) {
+      return NextResponse.json({ error: "Failed to close position" }, { status: 502 });
     }
 
-    // Just stop without closing position
     const [updated] = await db
       .update(operationalStrategies)
       .set({
         status: "stopped",
         stoppedAt: new Date(),
         stoppedReason: "manual",
+        pendingOrder: null,
         updatedAt: new Date(),
       })
       .where(eq(operationalStrategies.id, id))
       .returning();
 
+    if (forceClose && strategy.inPosition !== settled.inPosition) {
+      const pnl = (settled.totalPnl || 0) - (strategy.totalPnl || 0);
+      return NextResponse.json({ strategy: updated, closedPosition: true, pnl });
+    }
     return NextResponse.json({ strategy: updated });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { operationalStrategies } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getVersion, rollbackToVersion, sideChangeError } from "@/lib/ai/strategy-versions";
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const auth = await requireRole("leader");
+    const { id, versionId } = await params;
+
+    const [strategy] = await db
+      .select()
+      .from(operationalStrategies)
+      .where(and(eq(operationalStrategies.id, id), eq(operationalStrategies.userId, auth.user.id)))
+      .limit(1);
+
+    const owner = { strategyId: id };
+    const target = strategy ? await getVersion(owner, versionId) : null;
+    if (!target) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (strategy.status === "stopped") {
+      return NextResponse.json({ error: "Strategy is stopped" }, { status: 400 });
+    }
+    const sideError = sideChangeError(strategy, target.strategyConfig);
+    if (sideError) {
+      return NextResponse.json({ error: sideError }, { status: 409 });
+    }
+
+    const version = await rollbackToVersion(owner, target, auth.user.id);
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
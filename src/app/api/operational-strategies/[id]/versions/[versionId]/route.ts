@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { operationalStrategies } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { diffConfigs, getVersion, versionByNumber } from "@/lib/ai/strategy-versions";
+
+/** A version and its changes against `?against=<versionId>`, by default the version before it */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const auth = await requireRole("leader");
+    const { id, versionId } = await params;
+
+    const [strategy] = await db
+      .select({ id: operationalStrategies.id })
+      .from(operationalStrategies)
+      .where(and(eq(operationalStrategies.id, id), eq(operationalStrategies.userId, auth.user.id)))
+      .limit(1);
+
+    const owner = { strategyId: id };
+    const version = strategy ? await getVersion(owner, versionId) : null;
+    if (!version) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const againstId = req.nextUrl.searchParams.get("against");
+    const against = againstId
+      ? await getVersion(owner, againstId)
+      : await versionByNumber(owner, version.version - 1);
+    if (againstId && !against) {
+      return NextResponse.json({ error: "Version to compare against not found" }, { status: 404 });
+    }
+
+    const changes = against
+      ? diffConfigs(JSON.parse(against.strategyConfig), JSON.parse(version.strategyConfig))
+      : [];
+
+    return NextResponse.json({ version, against, changes });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { backtests, operationalStrategies, operationalStrategyTrades } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { createVersion, listVersions, sideChangeError } from "@/lib/ai/strategy-versions";
+import { validateStrategyConfig } from "@/lib/ai/strategy-schema";
+
+/** Versions newest first, each with the trades placed while it was current */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole("leader");
+    const { id } = await params;
+
+    const [strategy] = await db
+      .select({ id: operationalStrategies.id, configVersion: operationalStrategies.configVersion })
+      .from(operationalStrategies)
+      .where(and(eq(operationalStrategies.id, id), eq(operationalStrategies.userId, auth.user.id)))
+      .limit(1);
+
+    if (!strategy) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const versions = await listVersions({ strategyId: id });
+    const trades = await db
+      .select({ configVersion: operationalStrategyTrades.configVersion, pnl: operationalStrategyTrades.pnl })
+      .from(operationalStrategyTrades)
+      .where(eq(operationalStrategyTrades.strategyId, id));
+
+    // Trades logged before versioning ran under the first version
+    const stats = versions.map((v) => {
+      const own = trades.filter((t) => (t.configVersion ?? 1) === v.version);
+      return { ...v, tradesCount: own.length, pnl: own.reduce((sum, t) => sum + (t.pnl ?? 0), 0) };
+    });
+
+    return NextResponse.json({ versions: stats, currentVersion: strategy.configVersion });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/** Saves an edited config as the next version; the executor picks it up on its next tick */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole("leader");
+    const { id } = await params;
+    const body = await req.json();
+    const { strategyConfig, note, backtestId } = body;
+
+    const [strategy] = await db
+      .select()
+      .from(operationalStrategies)
+      .where(and(eq(operationalStrategies.id, id), eq(operationalStrategies.userId, auth.user.id)))
+      .limit(1);
+
+    if (!strategy) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (strategy.status === "stopped") {
+      return NextResponse.json({ error: "Strategy is stopped" }, { status: 400 });
+    }
+
+    const parsed = validateStrategyConfig(typeof strategyConfig === "string" ? JSON.parse(strategyConfig) : strategyConfig);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid strategy config", issues: parsed.issues }, { status: 400 });
+    }
+
+    const sideError = sideChangeError(strategy, JSON.stringify(parsed.config));
+    if (sideError) {
+      return NextResponse.json({ error: sideError }, { status: 409 });
+    }
+
+    if (backtestId) {
+      const [bt] = await db
+        .select({ id: backtests.id })
+        .from(backtests)
+        .where(and(eq(backtests.id, backtestId), eq(backtests.userId, auth.user.id)))
+        .limit(1);
+      if (!bt) {
+        return NextResponse.json({ error: "Backtest not found" }, { status: 404 });
+      }
+    }
+
+    const version = await createVersion({ strategyId: id }, JSON.stringify(parsed.config), {
+      userId: auth.user.id,
+      backtestId: backtestId || null,
+      note: note || null,
+    });
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid strategy config" }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
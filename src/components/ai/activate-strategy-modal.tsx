@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -12,7 +12,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Zap, AlertTriangle, Loader2, DollarSign, Percent, Shield, ShieldCheck, ShieldAlert, Flame, FileText, Radio } from "lucide-react";
+import { Zap, AlertTriangle, Loader2, DollarSign, Percent, Shield, ShieldCheck, ShieldAlert, Flame, FileText, Radio, Coins, Layers } from "lucide-react";
 
 interface ActivateStrategyModalProps {
   open: boolean;
@@ -40,8 +40,39 @@ export function ActivateStrategyModal({
   const [maxCapUsd, setMaxCapUsd] = useState(500);
   const [maxCapPercent, setMaxCapPercent] = useState(10);
   const [dailyLossLimitUsd, setDailyLossLimitUsd] = useState(100);
+  const [marketChoice, setMarketChoice] = useState<"spot" | "perp" | null>(null);
+  const [leverageChoice, setLeverageChoice] = useState<number | null>(null);
+  const [marginMode, setMarginMode] = useState<"isolated" | "cross">("isolated");
   const queryClient = useQueryClient();
 
+  const { data: authData } = useQuery({
+    queryKey: ["auth"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/me");
+      if (!res.ok) throw new Error("Not authenticated");
+      return res.json();
+    },
+  });
+  const leverageCap = authData?.user?.leverageCap ? Number(authData.user.leverageCap) : 1;
+
+  const config = !source
+    ? null
+    : typeof source.strategyConfig === "string"
+      ? (() => {
+          try {
+            return JSON.parse(source.strategyConfig);
+          } catch {
+            return null;
+          }
+        })()
+      : source.strategyConfig;
+
+  // Shorts can only be held on the perpetual; a config may also ask for it
+  const isShort = config?.side === "short";
+  const market = isShort ? "perp" : marketChoice ?? (config?.market === "perp" || (config?.leverage ?? 1) > 1 ? "perp" : "spot");
+  // Defaults to the leverage the strategy was backtested with
+  const leverage = leverageChoice ?? Math.min(leverageCap, config?.leverage ?? 1);
+
   const activate = useMutation({
     mutationFn: async () => {
       if (!source) throw new Error("No source");
@@ -54,6 +85,9 @@ export function ActivateStrategyModal({
         dailyLossLimitUsd,
         sourceType: isInline ? "inline" : source.sourceType,
         mode: tradingMode,
+        market,
+        leverage: market === "perp" ? leverage : 1,
+        marginMode,
       };
 
       if (isInline) {
@@ -82,17 +116,6 @@ export function ActivateStrategyModal({
 
   if (!source) return null;
 
-  const config =
-    typeof source.strategyConfig === "string"
-      ? (() => {
-          try {
-            return JSON.parse(source.strategyConfig);
-          } catch {
-            return null;
-          }
-        })()
-      : source.strategyConfig;
-
   const pnl = source.totalPnl != null ? Number(source.totalPnl) : null;
   const winRate = source.winRate != null ? Number(source.winRate) : null;
   const sharpe = source.sharpeRatio != null ? Number(source.sharpeRatio) : null;
@@ -153,6 +176,75 @@ export function ActivateStrategyModal({
           </div>
         )}
 
+        {/* Spot / Perpetual */}
+        <div className="space-y-1.5">
+          <label className="text-xs text-slate-400">Market</label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setMarketChoice("spot")}
+              disabled={isShort}
+              className={`rounded-lg border p-2.5 text-center transition-colors disabled:opacity-40 ${
+                market === "spot"
+                  ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-400"
+                  : "bg-[#111827] border-white/[0.06] text-slate-400 hover:border-white/[0.12]"
+              }`}
+            >
+              <Coins className="w-4 h-4 mx-auto mb-1" />
+              <div className="text-[11px] font-medium">Spot</div>
+              <div className="text-[9px] text-slate-500">{isShort ? "Long only" : "No leverage"}</div>
+            </button>
+            <button
+              onClick={() => setMarketChoice("perp")}
+              className={`rounded-lg border p-2.5 text-center transition-colors ${
+                market === "perp"
+                  ? "bg-violet-500/10 border-violet-500/30 text-violet-400"
+                  : "bg-[#111827] border-white/[0.06] text-slate-400 hover:border-white/[0.12]"
+              }`}
+            >
+              <Layers className="w-4 h-4 mx-auto mb-1" />
+              <div className="text-[11px] font-medium">USDT Perpetual</div>
+              <div className="text-[9px] text-slate-500">Long & short, pays funding</div>
+            </button>
+          </div>
+        </div>
+
+        {market === "perp" && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-400 mb-1 block">
+                Leverage (max {leverageCap}x)
+              </label>
+              <input
+                type="number"
+                value={leverage}
+                onChange={(e) => setLeverageChoice(Math.min(leverageCap, Math.max(1, Number(e.target.value))))}
+                min={1}
+                max={leverageCap}
+                step={1}
+                className="w-full rounded-lg bg-[#111827] border border-white/[0.08] px-3 py-2 text-sm text-slate-200 focus:border-violet-500/30 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400 mb-1 block">Margin Mode</label>
+              <div className="grid grid-cols-2 gap-1">
+                {(["isolated", "cross"] as const).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMarginMode(m)}
+                    className={`rounded-lg border py-2 text-[11px] capitalize transition-colors ${
+                      marginMode === m
+                        ? "bg-violet-500/10 border-violet-500/30 text-violet-400"
+                        : "bg-[#111827] border-white/[0.06] text-slate-400 hover:border-white/[0.12]"
+                    }`}
+                  >
+                    {m}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Strategy Summary */}
         <div className="rounded-lg bg-[#111827] border border-white/[0.06] p-3 space-y-2">
           <div className="flex items-center justify-between">
@@ -283,7 +375,9 @@ export function ActivateStrategyModal({
               <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
               <div>
                 Will use up to <strong>${maxCapUsd}</strong> or <strong>{maxCapPercent}%</strong> of
-                balance (whichever is lower). Auto-stops if daily loss exceeds <strong>${dailyLossLimitUsd}</strong>.
+                balance (whichever is lower)
+                {market === "perp" && leverage > 1 && <> as margin, for up to <strong>{leverage}x</strong> that in position size</>}
+                . Auto-stops if daily loss exceeds <strong>${dailyLossLimitUsd}</strong>.
               </div>
             </div>
           </div>
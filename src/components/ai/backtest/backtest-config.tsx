@@ -12,14 +12,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus, Trash2, Play } from "lucide-react";
-import type { StrategyConfig, Condition } from "@/lib/ai/backtest/types";
+import type { StrategyConfig, Condition, ConditionNode, ConditionValue, CostModel, PositionSizing } from "@/lib/ai/backtest/types";
+import type { IntrabarPolicy } from "@/lib/ai/backtest/intrabar";
+import { EXCHANGE_FEES, type ExchangeId } from "@/lib/ai/backtest/costs";
 import type { IndicatorName } from "@/lib/ai/indicators";
+import { CANDLE_PATTERNS } from "@/lib/ai/candle-patterns";
 
 import { ALL_SYMBOLS } from "@/lib/constants/symbols";
 
 const SYMBOLS = ALL_SYMBOLS;
 const TIMEFRAMES = ["1m", "5m", "15m", "1h", "4h", "1d"];
 const INDICATORS: { value: IndicatorName; label: string }[] = [
+  { value: "close", label: "Close" },
+  { value: "open", label: "Open" },
+  { value: "high", label: "High" },
+  { value: "low", label: "Low" },
+  { value: "volume", label: "Volume" },
+  { value: "pct_change", label: "% Change" },
   { value: "rsi", label: "RSI" },
   { value: "macd", label: "MACD" },
   { value: "bollinger", label: "Bollinger Bands" },
@@ -28,6 +37,20 @@ const INDICATORS: { value: IndicatorName; label: string }[] = [
   { value: "atr", label: "ATR" },
   { value: "stochastic", label: "Stochastic" },
   { value: "volume_sma", label: "Volume SMA" },
+  { value: "vwap", label: "VWAP" },
+  { value: "adx", label: "ADX / DMI" },
+  { value: "ichimoku", label: "Ichimoku" },
+  { value: "supertrend", label: "Supertrend" },
+  { value: "keltner", label: "Keltner Channels" },
+  { value: "donchian", label: "Donchian Channels" },
+  { value: "obv", label: "OBV" },
+  { value: "mfi", label: "MFI" },
+  { value: "cci", label: "CCI" },
+  { value: "williams_r", label: "Williams %R" },
+  { value: "psar", label: "Parabolic SAR" },
+  { value: "heikin_ashi", label: "Heikin-Ashi" },
+  { value: "pivots", label: "Pivot Points" },
+  ...CANDLE_PATTERNS.map((p) => ({ value: p.name, label: p.label })),
   // Alt data indicators
   { value: "reddit_sentiment", label: "Reddit Sentiment" },
   { value: "reddit_buzz", label: "Reddit Buzz" },
@@ -60,8 +83,11 @@ interface BacktestConfigProps {
     startDate: string;
     endDate: string;
     strategyConfig: StrategyConfig;
+    costs?: CostModel;
+    intrabarPolicy: IntrabarPolicy;
   }) => void;
   isRunning: boolean;
+  runningStatus?: string | null; // progress of the queued job, shown on the run button
   initialConfig?: StrategyConfig;
   initialSymbol?: string;
   initialTimeframe?: string;
@@ -75,6 +101,36 @@ function formatIndicatorRef(ref: { indicator: string; params?: Record<string, nu
   return `${name}(${Object.values(ref.params).join(",")})${field}`;
 }
 
+/** Readable form of a condition or nested group, e.g. "(RSI < 30 OR BOLLINGER.lower > 0)" */
+function formatConditionNode(node: ConditionNode): string {
+  if ("all" in node) return `(${node.all.map(formatConditionNode).join(" AND ")})`;
+  if ("any" in node) return `(${node.any.map(formatConditionNode).join(" OR ")})`;
+  if ("not" in node) return `NOT ${formatConditionNode(node.not)}`;
+  return `${formatConditionValue(node)} ${node.operator.replace(/_/g, " ")} ${formatConditionValue(node.value)}`;
+}
+
+/** A number, an indicator with its bar offset and timeframe, or arithmetic on those, e.g. "2 * VOLUME_SMA(20)" */
+function formatConditionValue(value: ConditionValue, nested = false): string {
+  if (typeof value === "number") return String(value);
+  if ("op" in value) {
+    const text = `${formatConditionValue(value.left, true)} ${value.op} ${formatConditionValue(value.right, true)}`;
+    return nested ? `(${text})` : text;
+  }
+  return formatIndicatorRef({ indicator: value.indicator, params: value.params as Record<string, number> | undefined, field: value.field })
+    + (value.offset ? `[-${value.offset}]` : "")
+    + (value.timeframe ? `[${value.timeframe}]` : "");
+}
+
+/** A stored list wrapped in a single `any` group is edited as an "any of" list */
+function toEditorConditions(
+  nodes: ConditionNode[] | undefined,
+  fallback: Condition[]
+): { match: "all" | "any"; nodes: ConditionNode[] } {
+  if (!nodes?.length) return { match: "all", nodes: fallback };
+  if (nodes.length === 1 && "any" in nodes[0]) return { match: "any", nodes: nodes[0].any };
+  return { match: "all", nodes };
+}
+
 function defaultCondition(): Condition {
   return {
     indicator: "rsi",
@@ -86,6 +142,7 @@ function defaultCondition(): Condition {
 export function BacktestConfig({
   onRun,
   isRunning,
+  runningStatus,
   initialConfig,
   initialSymbol,
   initialTimeframe,
@@ -100,12 +157,12 @@ export function BacktestConfig({
 
   const [startDate, setStartDate] = useState(ninetyDaysAgo);
   const [endDate, setEndDate] = useState(today);
-  const [entryConditions, setEntryConditions] = useState<Condition[]>(
-    initialConfig?.entryConditions || [defaultCondition()]
-  );
-  const [exitConditions, setExitConditions] = useState<Condition[]>(
-    initialConfig?.exitConditions || [{ indicator: "rsi", operator: ">", value: 70 }]
-  );
+  const initialEntry = toEditorConditions(initialConfig?.entryConditions, [defaultCondition()]);
+  const initialExit = toEditorConditions(initialConfig?.exitConditions, [{ indicator: "rsi", operator: ">", value: 70 }]);
+  const [entryConditions, setEntryConditions] = useState<ConditionNode[]>(initialEntry.nodes);
+  const [exitConditions, setExitConditions] = useState<ConditionNode[]>(initialExit.nodes);
+  const [entryMatch, setEntryMatch] = useState<"all" | "any">(initialEntry.match);
+  const [exitMatch, setExitMatch] = useState<"all" | "any">(initialExit.match);
   const [stopLoss, setStopLoss] = useState(
     initialConfig?.stopLossPercent?.toString() || "3"
   );
@@ -116,10 +173,21 @@ export function BacktestConfig({
     initialConfig?.positionSizePercent?.toString() || "10"
   );
   const [side, setSide] = useState<"long" | "short">(initialConfig?.side || "long");
+  const [sizingModel, setSizingModel] = useState<PositionSizing["model"]>(initialConfig?.sizing?.model || "percent");
+  const [sizingValue, setSizingValue] = useState(() => {
+    const sizing = initialConfig?.sizing;
+    if (sizing?.model === "risk" || sizing?.model === "atr") return sizing.riskPercent.toString();
+    if (sizing?.model === "kelly") return (sizing.maxPercent ?? 25).toString();
+    if (sizing?.model === "fixed_usd") return sizing.notionalUsd.toString();
+    return "1";
+  });
+  const [feeExchange, setFeeExchange] = useState<ExchangeId | "none">("none");
+  const [slippage, setSlippage] = useState("0");
+  const [intrabarPolicy, setIntrabarPolicy] = useState<IntrabarPolicy>("pessimistic");
 
   function updateCondition(
-    list: Condition[],
-    setList: (c: Condition[]) => void,
+    list: ConditionNode[],
+    setList: (c: ConditionNode[]) => void,
     index: number,
     field: keyof Condition,
     value: string | number
@@ -130,8 +198,31 @@ export function BacktestConfig({
     setList(updated);
   }
 
+  function buildSizing(): PositionSizing | undefined {
+    const value = Number(sizingValue) || undefined;
+    switch (sizingModel) {
+      case "risk":
+        return { model: "risk", riskPercent: value ?? 1 };
+      case "atr":
+        return { model: "atr", riskPercent: value ?? 1 };
+      case "kelly":
+        return { model: "kelly", maxPercent: value };
+      case "fixed_usd":
+        return { model: "fixed_usd", notionalUsd: value ?? 1000 };
+      default:
+        return undefined;
+    }
+  }
+
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    const slippagePercent = Number(slippage) || 0;
+    const costs: CostModel | undefined = feeExchange !== "none" || slippagePercent > 0
+      ? {
+          exchange: feeExchange !== "none" ? feeExchange : undefined,
+          slippagePercent: slippagePercent || undefined,
+        }
+      : undefined;
     onRun({
       symbol,
       timeframe,
@@ -139,24 +230,42 @@ export function BacktestConfig({
       endDate,
       strategyConfig: {
         side,
-        entryConditions,
-        exitConditions,
+        entryConditions: entryMatch === "any" ? [{ any: entryConditions }] : entryConditions,
+        exitConditions: exitMatch === "any" ? [{ any: exitConditions }] : exitConditions,
         stopLossPercent: Number(stopLoss) || undefined,
         takeProfitPercent: Number(takeProfit) || undefined,
         positionSizePercent: Number(positionSize) || 10,
+        sizing: buildSizing(),
       },
+      costs,
+      intrabarPolicy,
     });
   }
 
   function renderConditions(
     label: string,
-    conditions: Condition[],
-    setConditions: (c: Condition[]) => void
+    conditions: ConditionNode[],
+    setConditions: (c: ConditionNode[]) => void,
+    match: "all" | "any",
+    setMatch: (m: "all" | "any") => void
   ) {
     return (
       <div className="space-y-3">
         <div className="flex items-center justify-between">
-          <Label className="text-sm font-medium text-slate-300">{label}</Label>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium text-slate-300">{label}</Label>
+            {conditions.length > 1 && (
+              <Select value={match} onValueChange={(v) => setMatch(v as "all" | "any")}>
+                <SelectTrigger className="h-7 w-[90px] text-xs bg-[#070b12] border-white/[0.06]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All of</SelectItem>
+                  <SelectItem value="any">Any of</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
           <Button
             type="button"
             variant="ghost"
@@ -168,7 +277,25 @@ export function BacktestConfig({
             Add
           </Button>
         </div>
-        {conditions.map((cond, i) => (
+        {conditions.map((cond, i) => !("indicator" in cond) ? (
+          // Nested groups come from the AI or imported configs and are shown read-only
+          <div key={i} className="flex items-center gap-1.5 sm:gap-2">
+            <div className="flex-1 min-h-8 flex items-center px-2 py-1 rounded-md bg-[#070b12] border border-white/[0.06] text-xs text-cyan-400 font-medium">
+              {formatConditionNode(cond)}
+            </div>
+            {conditions.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setConditions(conditions.filter((_, j) => j !== i))}
+                className="h-8 w-8 p-0 text-red-400 hover:text-red-300 flex-shrink-0"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        ) : (
           <div key={i} className="flex flex-wrap sm:flex-nowrap items-center gap-1.5 sm:gap-2">
             <Select
               value={cond.indicator}
@@ -178,7 +305,7 @@ export function BacktestConfig({
             >
               <SelectTrigger className="w-[calc(50%-4px)] sm:w-[140px] h-8 text-xs bg-[#070b12] border-white/[0.06]">
                 <span className="truncate">
-                  {formatIndicatorRef({ indicator: cond.indicator, params: cond.params as Record<string, number> | undefined, field: cond.field })}
+                  {formatConditionValue(cond)}
                 </span>
               </SelectTrigger>
               <SelectContent>
@@ -206,9 +333,9 @@ export function BacktestConfig({
                 ))}
               </SelectContent>
             </Select>
-            {typeof cond.value === "object" && cond.value !== null && "indicator" in cond.value ? (
+            {typeof cond.value === "object" && cond.value !== null ? (
               <div className="flex-1 min-w-[60px] sm:w-[160px] sm:flex-none h-8 flex items-center px-2 rounded-md bg-[#070b12] border border-white/[0.06] text-xs text-cyan-400 font-medium">
-                {formatIndicatorRef(cond.value as { indicator: string; params?: Record<string, number>; field?: string })}
+                {formatConditionValue(cond.value)}
               </div>
             ) : (
               <Input
@@ -331,8 +458,8 @@ export function BacktestConfig({
 
       {/* Entry / Exit Conditions */}
       <div className="grid md:grid-cols-2 gap-4">
-        {renderConditions("Entry Conditions", entryConditions, setEntryConditions)}
-        {renderConditions("Exit Conditions", exitConditions, setExitConditions)}
+        {renderConditions("Entry Conditions", entryConditions, setEntryConditions, entryMatch, setEntryMatch)}
+        {renderConditions("Exit Conditions", exitConditions, setExitConditions, exitMatch, setExitMatch)}
       </div>
 
       {/* Risk Management */}
@@ -371,6 +498,84 @@ export function BacktestConfig({
         </div>
       </div>
 
+      {/* Position sizing model */}
+      <div className="grid grid-cols-2 gap-2 sm:gap-3">
+        <div>
+          <Label className="text-xs text-slate-400">Sizing</Label>
+          <Select value={sizingModel} onValueChange={(v) => setSizingModel(v as PositionSizing["model"])}>
+            <SelectTrigger className="h-9 text-sm bg-[#070b12] border-white/[0.06]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Position size % of equity</SelectItem>
+              <SelectItem value="risk">Risk % to stop loss</SelectItem>
+              <SelectItem value="atr">Risk % per ATR (volatility)</SelectItem>
+              <SelectItem value="kelly">Half-Kelly, capped</SelectItem>
+              <SelectItem value="fixed_usd">Fixed USD notional</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {sizingModel !== "percent" && (
+          <div>
+            <Label className="text-xs text-slate-400">
+              {sizingModel === "fixed_usd" ? "Notional $" : sizingModel === "kelly" ? "Max % of Equity" : "Risk % per Trade"}
+            </Label>
+            <Input
+              type="number"
+              step={sizingModel === "fixed_usd" ? "10" : "0.1"}
+              min="0"
+              value={sizingValue}
+              onChange={(e) => setSizingValue(e.target.value)}
+              className="h-9 text-sm bg-[#070b12] border-white/[0.06]"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Execution: trading costs and intrabar fill policy */}
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        <div>
+          <Label className="text-xs text-slate-400">Exchange Fees</Label>
+          <Select value={feeExchange} onValueChange={(v) => setFeeExchange(v as ExchangeId | "none")}>
+            <SelectTrigger className="h-9 text-sm bg-[#070b12] border-white/[0.06]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (frictionless)</SelectItem>
+              {(Object.keys(EXCHANGE_FEES) as ExchangeId[]).map((ex) => (
+                <SelectItem key={ex} value={ex}>
+                  {ex} ({EXCHANGE_FEES[ex].takerPercent}% taker)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs text-slate-400">Slippage %</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={slippage}
+            onChange={(e) => setSlippage(e.target.value)}
+            className="h-9 text-sm bg-[#070b12] border-white/[0.06]"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-slate-400">SL + TP Same Candle</Label>
+          <Select value={intrabarPolicy} onValueChange={(v) => setIntrabarPolicy(v as IntrabarPolicy)}>
+            <SelectTrigger className="h-9 text-sm bg-[#070b12] border-white/[0.06]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pessimistic">Stop first</SelectItem>
+              <SelectItem value="optimistic">Take profit first</SelectItem>
+              <SelectItem value="drilldown">Lower timeframe</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       <Button
         type="submit"
         disabled={isRunning}
@@ -379,7 +584,7 @@ export function BacktestConfig({
         {isRunning ? (
           <>
             <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
-            Running Backtest...
+            {runningStatus || "Running Backtest..."}
           </>
         ) : (
           <>
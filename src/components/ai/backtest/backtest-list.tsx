@@ -100,8 +100,12 @@ export function BacktestList({ onSelect, selectedId, onActivate }: BacktestListP
                   </div>
                 ) : bt.status === "running" ? (
                   <Badge className="bg-amber-500/10 text-amber-400 text-[10px]">Running</Badge>
+                ) : bt.status === "pending" ? (
+                  <Badge className="bg-slate-500/10 text-slate-400 text-[10px]">Queued</Badge>
                 ) : bt.status === "failed" ? (
                   <Badge className="bg-red-500/10 text-red-400 text-[10px]">Failed</Badge>
+                ) : bt.status === "cancelled" ? (
+                  <Badge className="bg-slate-500/10 text-slate-500 text-[10px]">Cancelled</Badge>
                 ) : null}
               </div>
               <div className="flex items-center justify-between">
@@ -3,7 +3,17 @@
 import { useState } from "react";
 import { PriceChart } from "../charts/price-chart";
 import { EquityChart } from "../charts/equity-chart";
-import type { Trade, EquityPoint, WalkForwardResult } from "@/lib/ai/backtest/types";
+import { MonteCarloChart } from "../charts/monte-carlo-chart";
+import type {
+  Trade,
+  EquityPoint,
+  WalkForwardResult,
+  MonteCarloResult,
+  MonteCarloMethod,
+  BacktestTrace,
+  MarketRegime,
+  RegimeBreakdown,
+} from "@/lib/ai/backtest/types";
 import { Button } from "@/components/ui/button";
 import { TrendingUp, TrendingDown, Activity, BarChart3, Target, Hash, Zap, Shield, AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
 
@@ -12,6 +22,27 @@ function sf(v: number | null | undefined, d: number): string {
   return v.toFixed(d);
 }
 
+/** Nullable numeric column (stored as a string) to a number, keeping "missing" distinct from 0 */
+function num(v: string | number | null | undefined): number | null {
+  return v == null ? null : Number(v);
+}
+
+const REGIME_LABELS: Record<MarketRegime, { label: string; swatch: string }> = {
+  trend_up: { label: "Trend up", swatch: "bg-emerald-500/70" },
+  trend_down: { label: "Trend down", swatch: "bg-red-500/70" },
+  range: { label: "Range", swatch: "bg-slate-400/60" },
+};
+
+function signedPercent(v: number): string {
+  return `${v >= 0 ? "+" : ""}${(v * 100).toFixed(1)}%`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms == null || !isFinite(ms)) return "—";
+  const hours = ms / 3_600_000;
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(0)}h`;
+}
+
 interface BacktestResultsProps {
   result: {
     id?: string;
@@ -21,11 +52,24 @@ interface BacktestResultsProps {
     sharpeRatio: string | number;
     profitFactor: string | number;
     totalTrades: number;
+    totalFees?: string | number | null;
+    grossPnl?: string | number | null;
+    sortinoRatio?: string | number | null;
+    calmarRatio?: string | number | null;
+    maxDrawdownDuration?: string | number | null;
+    exposure?: string | number | null;
+    expectancy?: string | number | null;
+    sqn?: string | number | null;
+    tailRatio?: string | number | null;
+    buyAndHoldReturn?: string | number | null;
     trades?: string | Trade[];
     equityCurve?: string | EquityPoint[];
+    benchmarkCurve?: string | EquityPoint[] | null;
+    regimes?: string | RegimeBreakdown | null;
     symbol?: string;
     timeframe?: string;
     strategyConfig?: string;
+    trace?: BacktestTrace;
   };
   candles?: { timestamp: number; open: number; high: number; low: number; close: number; volume: number }[];
   onActivate?: (source: {
@@ -41,16 +85,39 @@ interface BacktestResultsProps {
   }) => void;
   walkForwardResult?: WalkForwardResult | null;
   walkForwardLoading?: boolean;
+  monteCarloResult?: MonteCarloResult | null;
+  monteCarloLoading?: boolean;
 }
 
-export function BacktestResults({ result, candles, onActivate, walkForwardResult, walkForwardLoading }: BacktestResultsProps) {
+const MONTE_CARLO_LABELS: Record<MonteCarloMethod, string> = {
+  shuffle: "Shuffle",
+  bootstrap: "Bootstrap",
+  skip: "Skip trades",
+};
+
+export function BacktestResults({
+  result,
+  candles,
+  onActivate,
+  walkForwardResult,
+  walkForwardLoading,
+  monteCarloResult,
+  monteCarloLoading,
+}: BacktestResultsProps) {
   const [wfExpanded, setWfExpanded] = useState(false);
+  const [mcMethod, setMcMethod] = useState<MonteCarloMethod>("shuffle");
   const trades: Trade[] = typeof result.trades === "string"
     ? JSON.parse(result.trades || "[]")
     : result.trades || [];
   const equityCurve: EquityPoint[] = typeof result.equityCurve === "string"
     ? JSON.parse(result.equityCurve || "[]")
     : result.equityCurve || [];
+  const benchmarkCurve: EquityPoint[] = typeof result.benchmarkCurve === "string"
+    ? JSON.parse(result.benchmarkCurve || "[]")
+    : result.benchmarkCurve || [];
+  const regimes: RegimeBreakdown | null = typeof result.regimes === "string"
+    ? JSON.parse(result.regimes)
+    : result.regimes ?? null;
 
   const pnl = Number(result.totalPnl) || 0;
   const winRate = Number(result.winRate) || 0;
@@ -58,6 +125,11 @@ export function BacktestResults({ result, candles, onActivate, walkForwardResult
   const sharpe = Number(result.sharpeRatio) || 0;
   const pf = Number(result.profitFactor) || 0;
   const isPositive = pnl >= 0;
+  const totalFees = Number(result.totalFees) || 0;
+  const grossPnl = result.grossPnl != null ? Number(result.grossPnl) : pnl;
+  const totalFunding = trades.reduce((sum, t) => sum + (t.funding ?? 0), 0);
+  const slippageCost = grossPnl - pnl - totalFees + totalFunding;
+  const liquidations = trades.filter((t) => t.exitReason === "liquidation");
 
   const metrics = [
     {
@@ -104,6 +176,25 @@ export function BacktestResults({ result, candles, onActivate, walkForwardResult
     },
   ];
 
+  // Backtests saved before these metrics existed have no values for them
+  const buyAndHold = num(result.buyAndHoldReturn);
+  const strategyReturn = pnl / (equityCurve[0]?.equity || 10000);
+  const riskMetrics = [
+    { label: "Sortino", value: sf(num(result.sortinoRatio), 2), good: (num(result.sortinoRatio) ?? 0) >= 1 },
+    { label: "Calmar", value: sf(num(result.calmarRatio), 2), good: (num(result.calmarRatio) ?? 0) >= 1 },
+    { label: "Longest DD", value: formatDuration(num(result.maxDrawdownDuration)), good: null },
+    { label: "Exposure", value: result.exposure == null ? "—" : `${sf(Number(result.exposure) * 100, 0)}%`, good: null },
+    { label: "Expectancy", value: result.expectancy == null ? "—" : `$${sf(Number(result.expectancy), 2)}`, good: (num(result.expectancy) ?? 0) > 0 },
+    { label: "SQN", value: sf(num(result.sqn), 2), good: (num(result.sqn) ?? 0) >= 2 },
+    { label: "Tail Ratio", value: sf(num(result.tailRatio), 2), good: (num(result.tailRatio) ?? 0) >= 1 },
+    {
+      label: "Buy & Hold",
+      value: buyAndHold == null ? "—" : `${buyAndHold >= 0 ? "+" : ""}${sf(buyAndHold * 100, 1)}%`,
+      good: buyAndHold == null ? null : strategyReturn >= buyAndHold,
+    },
+  ];
+  const hasRiskMetrics = result.sortinoRatio != null;
+
   return (
     <div className="space-y-4">
       {/* Metrics Grid */}
@@ -126,13 +217,58 @@ export function BacktestResults({ result, candles, onActivate, walkForwardResult
         ))}
       </div>
 
+      {/* Risk and benchmark metrics */}
+      {hasRiskMetrics && (
+        <div className="grid grid-cols-4 lg:grid-cols-8 gap-2">
+          {riskMetrics.map((m) => (
+            <div key={m.label} className="rounded bg-[#111827] border border-white/[0.06] px-2.5 py-2">
+              <p className="text-[10px] text-slate-500">{m.label}</p>
+              <p className={`text-sm font-semibold ${m.good == null ? "text-slate-300" : m.good ? "text-emerald-400" : "text-amber-400"}`}>
+                {m.value}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Trading costs breakdown */}
+      {grossPnl !== pnl && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg bg-[#111827] border border-white/[0.06] px-3 py-2 text-xs">
+          <span className="text-slate-500">
+            Before costs: <span className={grossPnl >= 0 ? "text-emerald-400" : "text-red-400"}>${grossPnl.toFixed(2)}</span>
+          </span>
+          <span className="text-slate-500">
+            Fees: <span className="text-amber-400">-${totalFees.toFixed(2)}</span>
+          </span>
+          <span className="text-slate-500">
+            Slippage: <span className="text-amber-400">-${slippageCost.toFixed(2)}</span>
+          </span>
+          {trades.some((t) => t.funding != null) && (
+            <span className="text-slate-500">
+              Funding:{" "}
+              <span className={totalFunding >= 0 ? "text-emerald-400" : "text-amber-400"}>
+                {totalFunding >= 0 ? "+" : "-"}${Math.abs(totalFunding).toFixed(2)}
+              </span>
+            </span>
+          )}
+        </div>
+      )}
+
+      {liquidations.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg bg-purple-500/10 border border-purple-500/20 px-3 py-2 text-xs text-purple-300">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {liquidations.length} of {trades.length} trades liquidated at {liquidations[0].leverage ?? 1}x, losing $
+          {Math.abs(liquidations.reduce((sum, t) => sum + t.pnlAbsolute, 0)).toFixed(2)}
+        </div>
+      )}
+
       {/* Charts */}
       {candles && candles.length > 0 && (
         <div className="rounded-lg bg-[#111827] border border-white/[0.06] p-3">
           <h4 className="text-sm font-medium text-slate-300 mb-2">
             Price Chart with Trade Markers
           </h4>
-          <PriceChart candles={candles} trades={trades} height={350} />
+          <PriceChart candles={candles} trades={trades} trace={result.trace} height={350} />
         </div>
       )}
 
@@ -141,7 +277,59 @@ export function BacktestResults({ result, candles, onActivate, walkForwardResult
           <h4 className="text-sm font-medium text-slate-300 mb-2">
             Equity Curve
           </h4>
-          <EquityChart equityCurve={equityCurve} height={220} />
+          <EquityChart
+            equityCurve={equityCurve}
+            benchmarkCurve={benchmarkCurve}
+            regimes={regimes?.periods}
+            height={220}
+          />
+        </div>
+      )}
+
+      {/* Performance by market regime */}
+      {regimes && regimes.stats.some((r) => r.bars > 0) && (
+        <div className="rounded-lg bg-[#111827] border border-white/[0.06] p-3">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-slate-300">Performance by Regime</h4>
+            <span className="text-[10px] text-slate-600">
+              {regimes.source === "fear_greed" ? "Classified by Fear & Greed" : "Classified by SMA slope / ATR"}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 border-b border-white/[0.06]">
+                  <th className="text-left py-2 pr-3 font-medium">Regime</th>
+                  <th className="text-right py-2 px-3 font-medium">Time</th>
+                  <th className="text-right py-2 px-3 font-medium">Trades</th>
+                  <th className="text-right py-2 px-3 font-medium">Win Rate</th>
+                  <th className="text-right py-2 px-3 font-medium">P&L</th>
+                  <th className="text-right py-2 px-3 font-medium">Strategy</th>
+                  <th className="text-right py-2 pl-3 font-medium">Buy & Hold</th>
+                </tr>
+              </thead>
+              <tbody>
+                {regimes.stats.map((r) => (
+                  <tr key={r.regime} className="border-b border-white/[0.03]">
+                    <td className="py-2 pr-3 text-slate-300 font-medium">
+                      <span className={`inline-block w-2 h-2 rounded-sm mr-1.5 ${REGIME_LABELS[r.regime].swatch}`} />
+                      {REGIME_LABELS[r.regime].label}
+                    </td>
+                    <td className="text-right py-2 px-3 text-slate-400">{(r.share * 100).toFixed(0)}%</td>
+                    <td className="text-right py-2 px-3 text-slate-400">{r.trades}</td>
+                    <td className="text-right py-2 px-3 text-slate-400">{r.trades > 0 ? `${(r.winRate * 100).toFixed(0)}%` : "—"}</td>
+                    <td className={`text-right py-2 px-3 ${r.totalPnl >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                      {r.trades > 0 ? `$${r.totalPnl.toFixed(2)}` : "—"}
+                    </td>
+                    <td className={`text-right py-2 px-3 ${r.strategyReturn >= r.buyAndHoldReturn ? "text-emerald-400" : "text-amber-400"}`}>
+                      {r.bars > 0 ? signedPercent(r.strategyReturn) : "—"}
+                    </td>
+                    <td className="text-right py-2 pl-3 text-slate-400">{r.bars > 0 ? signedPercent(r.buyAndHoldReturn) : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
       )}
 
@@ -267,6 +455,113 @@ export function BacktestResults({ result, candles, onActivate, walkForwardResult
         </div>
       )}
 
+      {/* Monte Carlo */}
+      {monteCarloLoading && (
+        <div className="rounded-lg bg-[#111827] border border-white/[0.06] p-4">
+          <div className="flex items-center gap-3">
+            <div className="w-4 h-4 border-2 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" />
+            <span className="text-sm text-slate-400">Simulating trade sequences...</span>
+          </div>
+        </div>
+      )}
+
+      {monteCarloResult && monteCarloResult.runs.length > 0 && (() => {
+        const run = monteCarloResult.runs.find((r) => r.method === mcMethod) ?? monteCarloResult.runs[0];
+        const initial = monteCarloResult.initialEquity;
+        const pct = (equity: number) => `${equity >= initial ? "+" : ""}${sf(((equity - initial) / initial) * 100, 1)}%`;
+        const bandKeys = ["p5", "p25", "p50", "p75", "p95"] as const;
+        return (
+          <div className="rounded-lg bg-[#111827] border border-white/[0.06] p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <h4 className="text-sm font-medium text-slate-300">Monte Carlo</h4>
+                <span className="text-[10px] text-slate-600">
+                  {monteCarloResult.iterations} paths of {monteCarloResult.tradeCount} trades
+                </span>
+              </div>
+              <div className="flex gap-1">
+                {monteCarloResult.runs.map((r) => (
+                  <button
+                    key={r.method}
+                    onClick={() => setMcMethod(r.method)}
+                    className={`px-2 py-0.5 rounded text-[10px] font-medium transition-colors ${
+                      r.method === run.method
+                        ? "bg-purple-500/20 text-purple-300"
+                        : "text-slate-500 hover:text-slate-300"
+                    }`}
+                  >
+                    {MONTE_CARLO_LABELS[r.method]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              <div className="rounded bg-white/[0.02] border border-white/[0.04] p-2">
+                <p className="text-[10px] text-slate-500">Risk of Ruin</p>
+                <p className={`text-sm font-bold ${run.riskOfRuin <= 0.01 ? "text-emerald-400" : run.riskOfRuin <= 0.05 ? "text-amber-400" : "text-red-400"}`}>
+                  {sf(run.riskOfRuin * 100, 1)}%
+                </p>
+              </div>
+              <div className="rounded bg-white/[0.02] border border-white/[0.04] p-2">
+                <p className="text-[10px] text-slate-500">Chance of Loss</p>
+                <p className={`text-sm font-bold ${run.probabilityOfLoss <= 0.2 ? "text-emerald-400" : run.probabilityOfLoss <= 0.5 ? "text-amber-400" : "text-red-400"}`}>
+                  {sf(run.probabilityOfLoss * 100, 0)}%
+                </p>
+              </div>
+              <div className="rounded bg-white/[0.02] border border-white/[0.04] p-2">
+                <p className="text-[10px] text-slate-500">Worst 5% Return</p>
+                <p className={`text-sm font-bold ${run.finalEquity.p5 >= initial ? "text-emerald-400" : "text-red-400"}`}>
+                  {pct(run.finalEquity.p5)}
+                </p>
+              </div>
+              <div className="rounded bg-white/[0.02] border border-white/[0.04] p-2">
+                <p className="text-[10px] text-slate-500">95th pct Drawdown</p>
+                <p className={`text-sm font-bold ${run.maxDrawdown.p95 <= 0.2 ? "text-emerald-400" : run.maxDrawdown.p95 <= 0.35 ? "text-amber-400" : "text-red-400"}`}>
+                  {sf(run.maxDrawdown.p95 * 100, 1)}%
+                </p>
+              </div>
+            </div>
+
+            <MonteCarloChart equityBands={run.equityBands} originalEquity={monteCarloResult.originalEquity} height={200} />
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 border-b border-white/[0.06]">
+                    <th className="text-left py-2 pr-3 font-medium">Percentile</th>
+                    {bandKeys.map((k) => (
+                      <th key={k} className="text-right py-2 px-3 font-medium">{k.toUpperCase()}</th>
+                    ))}
+                    <th className="text-right py-2 pl-3 font-medium">Backtest</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-white/[0.03]">
+                    <td className="py-2 pr-3 text-slate-300 font-medium">Return</td>
+                    {bandKeys.map((k) => (
+                      <td key={k} className={`text-right py-2 px-3 ${run.finalEquity[k] >= initial ? "text-emerald-400" : "text-red-400"}`}>
+                        {pct(run.finalEquity[k])}
+                      </td>
+                    ))}
+                    <td className="text-right py-2 pl-3 text-slate-300">{pct(monteCarloResult.originalFinalEquity)}</td>
+                  </tr>
+                  <tr className="border-b border-white/[0.03]">
+                    <td className="py-2 pr-3 text-slate-300 font-medium">Max Drawdown</td>
+                    {bandKeys.map((k) => (
+                      <td key={k} className="text-right py-2 px-3 text-slate-400">
+                        {sf(run.maxDrawdown[k] * 100, 1)}%
+                      </td>
+                    ))}
+                    <td className="text-right py-2 pl-3 text-slate-300">{sf(monteCarloResult.originalMaxDrawdown * 100, 1)}%</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Activate Strategy Button */}
       {onActivate && isPositive && result.id && result.symbol && result.timeframe && result.strategyConfig && (
         <div className="flex justify-center">
@@ -12,6 +12,7 @@ import {
   ChevronRight,
 } from "lucide-react";
 import type { StrategyConfig } from "@/lib/ai/backtest/types";
+import { pollBacktestJob } from "@/lib/ai/backtest/job-client";
 
 import { ALL_SYMBOLS } from "@/lib/constants/symbols";
 
@@ -35,6 +36,14 @@ interface CrossValidateResult {
   totalTrades: number;
 }
 
+interface CrossValidateSummary {
+  totalTests: number;
+  profitable: number;
+  avgPnl: number;
+  avgSharpe: number;
+  avgWinRate: number;
+}
+
 interface CrossValidateProps {
   strategyConfig: StrategyConfig;
   currentSymbol: string;
@@ -49,6 +58,7 @@ export function CrossValidate({ strategyConfig, currentSymbol, timeframe }: Cros
   const [selectedRanges, setSelectedRanges] = useState<Set<string>>(
     new Set(["30d", "90d", "180d"])
   );
+  const [progress, setProgress] = useState<number | null>(null);
 
   const mutation = useMutation({
     mutationFn: async () => {
@@ -61,8 +71,13 @@ export function CrossValidate({ strategyConfig, currentSymbol, timeframe }: Cros
         body: JSON.stringify({ symbols, timeframe, strategyConfig, dateRanges }),
       });
       if (!res.ok) throw new Error("Cross-validation failed");
-      return res.json();
+      const { job: queued } = await res.json();
+
+      const job = await pollBacktestJob(queued.id, (j) => setProgress(j.status === "pending" ? 0 : j.progress));
+      if (job.status !== "completed") throw new Error(job.errorMessage || "Cross-validation failed");
+      return job.result as { results: CrossValidateResult[]; summary: CrossValidateSummary; executionTimeMs: number };
     },
+    onSettled: () => setProgress(null),
   });
 
   const results: CrossValidateResult[] = mutation.data?.results || [];
@@ -168,7 +183,7 @@ export function CrossValidate({ strategyConfig, currentSymbol, timeframe }: Cros
               <GitCompareArrows className="w-3.5 h-3.5 mr-1.5" />
             )}
             Test on {1 + selectedSymbols.size} pairs × {selectedRanges.size} ranges
-            {mutation.isPending && " ..."}
+            {mutation.isPending && (progress ? ` ... ${progress}%` : " ...")}
           </Button>
 
           {/* Summary */}
@@ -1,16 +1,26 @@
 "use client";
 
 import { useEffect } from "react";
-import { AreaSeries } from "lightweight-charts";
+import { AreaSeries, HistogramSeries, LineSeries, type UTCTimestamp } from "lightweight-charts";
 import { useChart } from "./use-chart";
-import type { EquityPoint } from "@/lib/ai/backtest/types";
+import type { EquityPoint, MarketRegime, RegimePeriod } from "@/lib/ai/backtest/types";
+
+const REGIME_COLORS: Record<MarketRegime, string> = {
+  trend_up: "rgba(16,185,129,0.10)",
+  trend_down: "rgba(239,68,68,0.10)",
+  range: "rgba(148,163,184,0.07)",
+};
 
 interface EquityChartProps {
   equityCurve: EquityPoint[];
+  benchmarkCurve?: EquityPoint[]; // buy and hold, drawn as a dashed line
+  regimes?: RegimePeriod[];       // drawn as background bands
   height?: number;
 }
 
-export function EquityChart({ equityCurve, height = 250 }: EquityChartProps) {
+const toTime = (timestamp: number) => (timestamp / 1000) as UTCTimestamp;
+
+export function EquityChart({ equityCurve, benchmarkCurve, regimes, height = 250 }: EquityChartProps) {
   const { containerRef, chartRef } = useChart({ height } as Parameters<typeof useChart>[0]);
 
   useEffect(() => {
@@ -21,6 +31,29 @@ export function EquityChart({ equityCurve, height = 250 }: EquityChartProps) {
     const final = equityCurve[equityCurve.length - 1].equity;
     const isPositive = final >= initial;
 
+    // Bands first so they sit behind the curves: one full-height bar per equity point
+    const bandSeries = regimes?.length
+      ? chart.addSeries(HistogramSeries, {
+          priceScaleId: "regime",
+          priceLineVisible: false,
+          lastValueVisible: false,
+        })
+      : null;
+    if (bandSeries && regimes) {
+      chart.priceScale("regime").applyOptions({ scaleMargins: { top: 0, bottom: 0 }, visible: false });
+      let p = 0;
+      bandSeries.setData(
+        equityCurve.map((point) => {
+          while (p < regimes.length - 1 && regimes[p].end < point.timestamp) p++;
+          const period = regimes[p];
+          const inside = period && point.timestamp >= period.start && point.timestamp <= period.end;
+          return inside
+            ? { time: toTime(point.timestamp), value: 1, color: REGIME_COLORS[period.regime] }
+            : { time: toTime(point.timestamp), value: 0 };
+        })
+      );
+    }
+
     const lineSeries = chart.addSeries(AreaSeries, {
       lineColor: isPositive ? "#10b981" : "#ef4444",
       topColor: isPositive ? "rgba(16,185,129,0.3)" : "rgba(239,68,68,0.3)",
@@ -30,21 +63,35 @@ export function EquityChart({ equityCurve, height = 250 }: EquityChartProps) {
 
     lineSeries.setData(
       equityCurve.map((p) => ({
-        time: (p.timestamp / 1000) as unknown as import("lightweight-charts").UTCTimestamp,
+        time: toTime(p.timestamp),
         value: p.equity,
       }))
     );
 
+    const benchmarkSeries = benchmarkCurve?.length
+      ? chart.addSeries(LineSeries, {
+          color: "#94a3b8",
+          lineWidth: 1,
+          lineStyle: 2,
+          title: "Buy & hold",
+          priceLineVisible: false,
+          lastValueVisible: false,
+        })
+      : null;
+    benchmarkSeries?.setData(benchmarkCurve!.map((p) => ({ time: toTime(p.timestamp), value: p.equity })));
+
     chart.timeScale().fitContent();
 
     return () => {
       try {
         chart.removeSeries(lineSeries);
+        if (bandSeries) chart.removeSeries(bandSeries);
+        if (benchmarkSeries) chart.removeSeries(benchmarkSeries);
       } catch {
         // Chart may already be destroyed by useChart cleanup
       }
     };
-  }, [equityCurve, chartRef]);
+  }, [equityCurve, benchmarkCurve, regimes, chartRef]);
 
   return (
     <div
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { LineSeries, type UTCTimestamp } from "lightweight-charts";
+import { useChart } from "./use-chart";
+import type { PercentileBands } from "@/lib/ai/backtest/types";
+
+interface MonteCarloChartProps {
+  equityBands: PercentileBands[];
+  originalEquity: number[];
+  height?: number;
+}
+
+/** Equity percentile fan by trade number, with the backtest's own path on top */
+export function MonteCarloChart({ equityBands, originalEquity, height = 220 }: MonteCarloChartProps) {
+  // Trade numbers stand in for time on the x-axis
+  const options = useMemo(
+    () => ({
+      height,
+      localization: { timeFormatter: (t: number) => `Trade ${t}` },
+      timeScale: { tickMarkFormatter: (t: number) => String(t) },
+    }),
+    [height]
+  );
+  const { containerRef, chartRef } = useChart(options as Parameters<typeof useChart>[0]);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || equityBands.length === 0) return;
+
+    const lines: { key: keyof PercentileBands; color: string; width: 1 | 2 }[] = [
+      { key: "p5", color: "rgba(239,68,68,0.6)", width: 1 },
+      { key: "p25", color: "rgba(245,158,11,0.6)", width: 1 },
+      { key: "p50", color: "#a78bfa", width: 2 },
+      { key: "p75", color: "rgba(245,158,11,0.6)", width: 1 },
+      { key: "p95", color: "rgba(16,185,129,0.6)", width: 1 },
+    ];
+
+    const series = lines.map(({ key, color, width }) => {
+      const s = chart.addSeries(LineSeries, {
+        color,
+        lineWidth: width,
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      s.setData(equityBands.map((b, i) => ({ time: i as UTCTimestamp, value: b[key] })));
+      return s;
+    });
+
+    const original = chart.addSeries(LineSeries, {
+      color: "#e2e8f0",
+      lineWidth: 1,
+      lineStyle: 2,
+      priceLineVisible: false,
+    });
+    original.setData(originalEquity.map((equity, i) => ({ time: i as UTCTimestamp, value: equity })));
+    series.push(original);
+
+    chart.timeScale().fitContent();
+
+    return () => {
+      try {
+        series.forEach((s) => chart.removeSeries(s));
+      } catch {
+        // Chart may already be destroyed by useChart cleanup
+      }
+    };
+  }, [equityBands, originalEquity, chartRef]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full rounded-lg overflow-hidden"
+      style={{ height }}
+    />
+  );
+}
@@ -1,9 +1,22 @@
 "use client";
 
-import { useEffect } from "react";
-import { CandlestickSeries, HistogramSeries, createSeriesMarkers } from "lightweight-charts";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CandlestickSeries,
+  HistogramSeries,
+  LineSeries,
+  createSeriesMarkers,
+  type IPriceLine,
+  type ISeriesApi,
+  type ISeriesMarkersPluginApi,
+  type SeriesMarker,
+  type Time,
+  type UTCTimestamp,
+} from "lightweight-charts";
+import { CandlestickChart, ChevronLeft, ChevronRight, SkipBack, SkipForward, PlayCircle } from "lucide-react";
 import { useChart } from "./use-chart";
-import type { Trade } from "@/lib/ai/backtest/types";
+import type { Trade, BacktestTrace, BarTrace, ConditionTrace } from "@/lib/ai/backtest/types";
+import { findCandlePatterns, type CandlePatternInfo } from "@/lib/ai/candle-patterns";
 
 interface Candle {
   timestamp: number;
@@ -17,11 +30,57 @@ interface Candle {
 interface PriceChartProps {
   candles: Candle[];
   trades?: Trade[];
+  trace?: BacktestTrace;
   height?: number;
 }
 
-export function PriceChart({ candles, trades, height = 400 }: PriceChartProps) {
-  const { containerRef, chartRef } = useChart({ height } as Parameters<typeof useChart>[0]);
+const INDICATOR_COLORS = ["#a78bfa", "#22d3ee", "#f59e0b", "#f472b6", "#84cc16", "#60a5fa"];
+
+const PATTERN_COLORS: Record<CandlePatternInfo["bias"], string> = {
+  bullish: "#34d399",
+  bearish: "#f87171",
+  neutral: "#94a3b8",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  entry: "Entry",
+  dca: "DCA",
+  partial_exit: "Partial TP",
+  exit: "Exit",
+};
+
+function toTime(timestamp: number): UTCTimestamp {
+  return (timestamp / 1000) as UTCTimestamp;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function fmt(v: number | undefined): string {
+  if (v === undefined || !isFinite(v)) return "—";
+  return Math.abs(v) >= 1000 ? v.toFixed(0) : Math.abs(v) >= 1 ? v.toFixed(2) : v.toPrecision(3);
+}
+
+/** A bar worth stopping at when jumping through a replay */
+function isEvent(bar: BarTrace): boolean {
+  return bar.actions.length > 0 || bar.note !== undefined;
+}
+
+export function PriceChart({ candles, trades, trace, height = 400 }: PriceChartProps) {
+  // Stable options, so stepping through a replay doesn't rebuild the chart
+  const chartOptions = useMemo(() => ({ height }), [height]);
+  const { containerRef, chartRef } = useChart(chartOptions as Parameters<typeof useChart>[0]);
+  const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const [step, setStep] = useState<number | null>(null); // index into trace.bars; null = replay off
+  const [showPatterns, setShowPatterns] = useState(false);
+  const patterns = useMemo(() => (showPatterns ? findCandlePatterns(candles) : []), [candles, showPatterns]);
+
+  const bars = trace?.bars ?? [];
+  const current = step !== null ? bars[step] : undefined;
 
   useEffect(() => {
     const chart = chartRef.current;
@@ -38,7 +97,7 @@ export function PriceChart({ candles, trades, height = 400 }: PriceChartProps) {
     });
 
     const data = candles.map((c) => ({
-      time: (c.timestamp / 1000) as unknown as import("lightweight-charts").UTCTimestamp,
+      time: toTime(c.timestamp),
       open: c.open,
       high: c.high,
       low: c.low,
@@ -46,29 +105,8 @@ export function PriceChart({ candles, trades, height = 400 }: PriceChartProps) {
     }));
 
     candleSeries.setData(data);
-
-    // Add trade markers
-    if (trades?.length) {
-      const markers = trades.flatMap((t) => [
-        {
-          time: (t.entryTimestamp / 1000) as unknown as import("lightweight-charts").UTCTimestamp,
-          position: "belowBar" as const,
-          color: "#10b981",
-          shape: "arrowUp" as const,
-          text: `Entry $${t.entryPrice?.toFixed(2) ?? "—"}`,
-        },
-        {
-          time: (t.exitTimestamp / 1000) as unknown as import("lightweight-charts").UTCTimestamp,
-          position: "aboveBar" as const,
-          color: t.pnlAbsolute >= 0 ? "#10b981" : "#ef4444",
-          shape: "arrowDown" as const,
-          text: `Exit $${t.exitPrice?.toFixed(2) ?? "—"}`,
-        },
-      ]);
-
-      markers.sort((a, b) => (a.time as number) - (b.time as number));
-      createSeriesMarkers(candleSeries, markers);
-    }
+    candleSeriesRef.current = candleSeries;
+    markersRef.current = createSeriesMarkers(candleSeries, []);
 
     // Volume series
     const volumeSeries = chart.addSeries(HistogramSeries, {
@@ -82,29 +120,276 @@ export function PriceChart({ candles, trades, height = 400 }: PriceChartProps) {
 
     volumeSeries.setData(
       candles.map((c) => ({
-        time: (c.timestamp / 1000) as unknown as import("lightweight-charts").UTCTimestamp,
+        time: toTime(c.timestamp),
         value: c.volume,
         color: c.close >= c.open ? "rgba(16,185,129,0.2)" : "rgba(239,68,68,0.2)",
       }))
     );
 
+    // Indicators the traced conditions used: price-like ones overlay the candles,
+    // oscillators get their own scale above the volume
+    const indicatorSeries: ISeriesApi<"Line">[] = [];
+    let hasOscillator = false;
+    if (trace) {
+      const timestampOf = new Map(trace.bars.map((b) => [b.index, b.timestamp]));
+      const typicalPrice = median(candles.map((c) => c.close));
+
+      trace.indicators.forEach((ind, n) => {
+        const points = ind.values
+          .map((v, i) => ({ timestamp: timestampOf.get(i), value: v }))
+          .filter((p): p is { timestamp: number; value: number } => p.timestamp !== undefined && p.value !== null);
+        if (points.length === 0) return;
+
+        const level = median(points.map((p) => p.value));
+        const onPrice = typicalPrice > 0 && level > typicalPrice * 0.5 && level < typicalPrice * 2;
+        if (!onPrice) hasOscillator = true;
+        const series = chart.addSeries(LineSeries, {
+          color: INDICATOR_COLORS[n % INDICATOR_COLORS.length],
+          lineWidth: 1,
+          title: ind.label,
+          priceLineVisible: false,
+          lastValueVisible: false,
+          priceScaleId: onPrice ? "right" : "indicator",
+        });
+        series.setData(points.map((p) => ({ time: toTime(p.timestamp), value: p.value })));
+        indicatorSeries.push(series);
+      });
+
+      if (hasOscillator) {
+        chart.priceScale("indicator").applyOptions({ scaleMargins: { top: 0.6, bottom: 0.2 } });
+      }
+    }
+
     chart.timeScale().fitContent();
 
     return () => {
+      candleSeriesRef.current = null;
+      markersRef.current = null;
       try {
         chart.removeSeries(candleSeries);
         chart.removeSeries(volumeSeries);
+        indicatorSeries.forEach((s) => chart.removeSeries(s));
       } catch {
         // Chart may already be destroyed by useChart cleanup
       }
     };
-  }, [candles, trades, chartRef]);
+  }, [candles, trace, chartRef]);
+
+  // Trade markers, plus the replay cursor and its resting stop/take levels
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    const markersPlugin = markersRef.current;
+    if (!candleSeries || !markersPlugin) return;
+
+    const markers: SeriesMarker<Time>[] = (trades ?? []).flatMap((t) => [
+      {
+        time: toTime(t.entryTimestamp),
+        position: "belowBar" as const,
+        color: "#10b981",
+        shape: "arrowUp" as const,
+        text: `Entry $${t.entryPrice?.toFixed(2) ?? "—"}`,
+      },
+      t.exitReason === "liquidation"
+        ? {
+            time: toTime(t.exitTimestamp),
+            position: t.side === "short" ? ("aboveBar" as const) : ("belowBar" as const),
+            color: "#a855f7",
+            shape: "square" as const,
+            text: `Liquidated $${t.liquidationPrice?.toFixed(2) ?? t.exitPrice?.toFixed(2) ?? "—"}`,
+          }
+        : {
+            time: toTime(t.exitTimestamp),
+            position: "aboveBar" as const,
+            color: t.pnlAbsolute >= 0 ? "#10b981" : "#ef4444",
+            shape: "arrowDown" as const,
+            text: `Exit $${t.exitPrice?.toFixed(2) ?? "—"}${t.exitReason ? ` (${t.exitReason.replace(/_/g, " ")})` : ""}`,
+          },
+    ]);
+
+    // Candlestick patterns: bullish under the bar, bearish and neutral over it
+    for (const { index, pattern } of patterns) {
+      markers.push({
+        time: toTime(candles[index].timestamp),
+        position: pattern.bias === "bullish" ? "belowBar" : "aboveBar",
+        color: PATTERN_COLORS[pattern.bias],
+        shape: "circle",
+        size: 0.5,
+        text: pattern.label,
+      });
+    }
+
+    const priceLines: IPriceLine[] = [];
+    if (current) {
+      markers.push({
+        time: toTime(current.timestamp),
+        position: "inBar",
+        color: "#facc15",
+        shape: "circle",
+        text: "",
+      });
+      if (current.stopPrice !== undefined) {
+        priceLines.push(candleSeries.createPriceLine({ price: current.stopPrice, color: "#ef4444", lineWidth: 1, lineStyle: 2, title: "Stop" }));
+      }
+      if (current.takePrice !== undefined) {
+        priceLines.push(candleSeries.createPriceLine({ price: current.takePrice, color: "#10b981", lineWidth: 1, lineStyle: 2, title: "Take" }));
+      }
+      if (current.liquidationPrice !== undefined) {
+        priceLines.push(candleSeries.createPriceLine({ price: current.liquidationPrice, color: "#a855f7", lineWidth: 1, lineStyle: 2, title: "Liq" }));
+      }
+
+      // Keep the cursor in view
+      const position = candles.findIndex((c) => c.timestamp === current.timestamp);
+      const timeScale = chartRef.current?.timeScale();
+      if (position >= 0 && timeScale) {
+        const range = timeScale.getVisibleLogicalRange();
+        if (!range || position < range.from || position > range.to) {
+          timeScale.setVisibleLogicalRange({ from: position - 60, to: position + 20 });
+        }
+      }
+    }
+
+    markers.sort((a, b) => (a.time as number) - (b.time as number));
+    markersPlugin.setMarkers(markers);
+
+    return () => {
+      try {
+        priceLines.forEach((line) => candleSeries.removePriceLine(line));
+      } catch {
+        // Series may already be removed
+      }
+    };
+  }, [trades, trace, current, candles, patterns, chartRef]);
+
+  function jumpToEvent(direction: 1 | -1) {
+    const from = step ?? (direction === 1 ? -1 : bars.length);
+    for (let i = from + direction; i >= 0 && i < bars.length; i += direction) {
+      if (isEvent(bars[i])) {
+        setStep(i);
+        return;
+      }
+    }
+  }
 
   return (
-    <div
-      ref={containerRef}
-      className="w-full rounded-lg overflow-hidden"
-      style={{ height }}
-    />
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="w-full rounded-lg overflow-hidden"
+        style={{ height }}
+      />
+
+      <div className="rounded-lg bg-white/[0.02] border border-white/[0.04] p-2 space-y-2">
+        <div className="flex items-center gap-2">
+          {bars.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setStep(step === null ? 0 : null)}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                step !== null ? "bg-amber-500/20 text-amber-300" : "text-slate-400 hover:text-slate-200"
+              }`}
+            >
+              <PlayCircle className="w-3.5 h-3.5" />
+              {step !== null ? "Exit replay" : "Replay"}
+            </button>
+          )}
+          {step !== null && (
+            <>
+              <button type="button" title="Previous event" onClick={() => jumpToEvent(-1)} className="p-1 text-slate-400 hover:text-slate-200">
+                <SkipBack className="w-3.5 h-3.5" />
+              </button>
+              <button type="button" title="Previous bar" onClick={() => setStep(Math.max(0, step - 1))} className="p-1 text-slate-400 hover:text-slate-200">
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={bars.length - 1}
+                value={step}
+                onChange={(e) => setStep(Number(e.target.value))}
+                className="flex-1 accent-amber-400"
+              />
+              <button type="button" title="Next bar" onClick={() => setStep(Math.min(bars.length - 1, step + 1))} className="p-1 text-slate-400 hover:text-slate-200">
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+              <button type="button" title="Next event" onClick={() => jumpToEvent(1)} className="p-1 text-slate-400 hover:text-slate-200">
+                <SkipForward className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowPatterns(!showPatterns)}
+            className={`ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+              showPatterns ? "bg-cyan-500/20 text-cyan-300" : "text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            <CandlestickChart className="w-3.5 h-3.5" />
+            Patterns
+          </button>
+        </div>
+
+        {current && <BarDetails bar={current} />}
+      </div>
+    </div>
+  );
+}
+
+function ConditionRows({ title, conditions, signal }: { title: string; conditions: ConditionTrace[]; signal?: boolean }) {
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-slate-500 mb-1">
+        {title}:{" "}
+        <span className={signal ? "text-emerald-400" : "text-slate-400"}>{signal ? "signal" : "no signal"}</span>
+      </p>
+      <div className="space-y-0.5">
+        {conditions.map((c, i) => (
+          <div key={i} className="flex items-center gap-2 text-xs font-mono">
+            <span className={c.passed === undefined ? "text-slate-600" : c.passed ? "text-emerald-400" : "text-red-400"}>
+              {c.passed === undefined ? "…" : c.passed ? "✓" : "✗"}
+            </span>
+            <span className="text-slate-300">{c.label}</span>
+            <span className="text-slate-500">
+              {fmt(c.value)} vs {fmt(c.target)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BarDetails({ bar }: { bar: BarTrace }) {
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-400">
+        <span className="text-slate-200 font-medium">{new Date(bar.timestamp).toLocaleString()}</span>
+        <span>{bar.inPosition ? "In position" : "Flat"}</span>
+        {bar.stopPrice !== undefined && <span>Stop <span className="text-red-400">{fmt(bar.stopPrice)}</span></span>}
+        {bar.takePrice !== undefined && <span>Take <span className="text-emerald-400">{fmt(bar.takePrice)}</span></span>}
+        {bar.liquidationPrice !== undefined && <span>Liq <span className="text-purple-400">{fmt(bar.liquidationPrice)}</span></span>}
+      </div>
+
+      {bar.entryConditions && <ConditionRows title="Entry" conditions={bar.entryConditions} signal={bar.entrySignal} />}
+      {bar.exitConditions && <ConditionRows title="Exit" conditions={bar.exitConditions} signal={bar.exitSignal} />}
+
+      {bar.actions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {bar.actions.map((a, i) => (
+            <span
+              key={i}
+              className={`px-2 py-0.5 rounded text-[11px] font-medium ${
+                a.kind === "entry" || a.kind === "dca" ? "bg-emerald-500/10 text-emerald-400" : "bg-amber-500/10 text-amber-400"
+              }`}
+            >
+              {ACTION_LABELS[a.kind]} @ {fmt(a.price)}
+              {a.reason ? ` — ${a.reason.replace(/_/g, " ")}` : ""}
+              {a.level !== undefined ? ` (level ${a.level})` : ""}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {bar.note && <p className="text-amber-400/80">{bar.note}</p>}
+    </div>
   );
 }
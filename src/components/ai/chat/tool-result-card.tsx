@@ -14,6 +14,8 @@ const TOOL_LABELS: Record<string, string> = {
   get_crypto_news: "Fetched Crypto News",
   run_backtest: "Ran Backtest",
   get_market_overview: "Fetched Market Overview",
+  save_custom_indicator: "Saved Custom Indicator",
+  list_custom_indicators: "Listed Custom Indicators",
 };
 
 export function ToolResultCard({ name, result }: ToolResultCardProps) {
@@ -34,6 +36,10 @@ export function ToolResultCard({ name, result }: ToolResultCardProps) {
       summary = (r.indicators as { name: string }[]).map((i) => i.name).join(", ");
     } else if (name === "get_market_overview") {
       summary = "Trending coins & top movers";
+    } else if (name === "save_custom_indicator" && r.indicator) {
+      summary = `${r.indicator} = ${r.formula}`;
+    } else if (name === "list_custom_indicators" && Array.isArray(r.indicators)) {
+      summary = `${r.indicators.length} indicators`;
     }
   }
 
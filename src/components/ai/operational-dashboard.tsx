@@ -28,6 +28,7 @@ import {
   ChevronRight,
 } from "lucide-react";
 import type { OperationalStrategy, OperationalStrategyTrade } from "@/lib/db/schema";
+import { StrategyVersionHistory } from "./strategy-version-history";
 
 export function OperationalDashboard() {
   const queryClient = useQueryClient();
@@ -275,24 +276,32 @@ export function OperationalDashboard() {
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function formatCondition(c: any): string {
-  const name = (c.indicator || "").toUpperCase();
-  const fieldSuffix = c.field ? `.${c.field}` : "";
-  const params = c.params && typeof c.params === "object" && Object.keys(c.params).length > 0
-    ? `(${Object.values(c.params).join(",")})`
+function formatRef(r: any): string {
+  const name = (r.indicator || "").toUpperCase();
+  const fieldSuffix = r.field ? `.${r.field}` : "";
+  const params = r.params && typeof r.params === "object" && Object.keys(r.params).length > 0
+    ? `(${Object.values(r.params).join(",")})`
     : "";
-  const left = `${name}${params}${fieldSuffix}`;
-  const op = (c.operator || "").replace(/_/g, " ");
-  if (typeof c.value === "object" && c.value !== null && "indicator" in c.value) {
-    const v = c.value;
-    const vName = (v.indicator || "").toUpperCase();
-    const vParams = v.params && typeof v.params === "object" && Object.keys(v.params).length > 0
-      ? `(${Object.values(v.params).join(",")})`
-      : "";
-    const vField = v.field ? `.${v.field}` : "";
-    return `${left} ${op} ${vName}${vParams}${vField}`;
+  return `${name}${params}${fieldSuffix}${r.offset ? `[-${r.offset}]` : ""}${r.timeframe ? `[${r.timeframe}]` : ""}`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function formatValue(v: any, nested = false): string {
+  if (typeof v !== "object" || v === null) return String(v);
+  if ("op" in v) {
+    const expr = `${formatValue(v.left, true)} ${v.op} ${formatValue(v.right, true)}`;
+    return nested ? `(${expr})` : expr;
   }
-  return `${left} ${op} ${c.value}`;
+  return formatRef(v);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function formatCondition(c: any): string {
+  if (Array.isArray(c.all)) return `(${c.all.map(formatCondition).join(" AND ")})`;
+  if (Array.isArray(c.any)) return `(${c.any.map(formatCondition).join(" OR ")})`;
+  if (c.not) return `NOT ${formatCondition(c.not)}`;
+  const op = (c.operator || "").replace(/_/g, " ");
+  return `${formatRef(c)} ${op} ${formatValue(c.value)}`;
 }
 
 function StrategyCard({
@@ -342,6 +351,12 @@ function StrategyCard({
               <div className="flex gap-1.5 mt-1">
                 <Badge variant="outline" className="text-[10px]">{s.symbol}</Badge>
                 <Badge variant="outline" className="text-[10px]">{s.timeframe}</Badge>
+                <Badge variant="outline" className="text-[10px] font-mono">v{s.configVersion}</Badge>
+                {s.market === "perp" && (
+                  <Badge className="text-[10px] border bg-violet-500/10 text-violet-400 border-violet-500/20">
+                    PERP {s.leverage}x {s.marginMode}
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
@@ -377,6 +392,11 @@ function StrategyCard({
               In position @ ${s.entryPrice.toFixed(2)}
             </span>
           )}
+          {s.market === "perp" && (s.fundingPnl || 0) !== 0 && (
+            <span className={`ml-2 ${(s.fundingPnl || 0) >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+              Funding: {(s.fundingPnl || 0) >= 0 ? "+" : "-"}${Math.abs(s.fundingPnl || 0).toFixed(2)}
+            </span>
+          )}
         </div>
 
         {/* PnL */}
@@ -459,6 +479,7 @@ function StrategyCard({
 }
 
 function StrategyDetailPanel({ strategyId }: { strategyId: string }) {
+  const queryClient = useQueryClient();
   const [detail, setDetail] = useState<{
     strategy: OperationalStrategy;
     trades: OperationalStrategyTrade[];
@@ -588,6 +609,16 @@ function StrategyDetailPanel({ strategyId }: { strategyId: string }) {
         )}
       </div>
 
+      {/* Config versions */}
+      <StrategyVersionHistory
+        baseUrl={`/api/operational-strategies/${strategyId}`}
+        readOnly={strategy.status === "stopped"}
+        onChanged={() => {
+          fetchDetail();
+          queryClient.invalidateQueries({ queryKey: ["operational-strategies"] });
+        }}
+      />
+
       {/* Trade history */}
       <div>
         <div className="text-[10px] text-slate-600 mb-1.5 font-medium uppercase tracking-wider">
@@ -608,6 +639,7 @@ function StrategyDetailPanel({ strategyId }: { strategyId: string }) {
                   <th className="text-right p-2">Qty</th>
                   <th className="text-right p-2">PnL</th>
                   <th className="text-left p-2">Reason</th>
+                  <th className="text-right p-2">Ver</th>
                 </tr>
               </thead>
               <tbody>
@@ -632,6 +664,11 @@ function StrategyDetailPanel({ strategyId }: { strategyId: string }) {
                       {t.pnl != null ? (
                         <span className={`font-medium ${t.pnl >= 0 ? "text-emerald-400" : "text-red-400"}`}>
                           {t.pnl >= 0 ? "+" : ""}${t.pnl.toFixed(2)}
+                          {t.funding != null && t.funding !== 0 && (
+                            <span className="block text-[10px] font-normal text-slate-500">
+                              funding {t.funding >= 0 ? "+" : "-"}${Math.abs(t.funding).toFixed(2)}
+                            </span>
+                          )}
                         </span>
                       ) : (
                         <span className="text-slate-600">—</span>
@@ -648,6 +685,9 @@ function StrategyDetailPanel({ strategyId }: { strategyId: string }) {
                         {t.reason.replace(/_/g, " ")}
                       </span>
                     </td>
+                    <td className="p-2 text-right font-mono text-slate-500">
+                      {t.configVersion != null ? `v${t.configVersion}` : "—"}
+                    </td>
                   </tr>
                 ))}
               </tbody>
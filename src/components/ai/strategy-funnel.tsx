@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo, useCallback, useEffect } from "react";
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -22,8 +22,15 @@ import {
   TrendingDown,
   Rocket,
   Check,
+  RotateCcw,
+  FileCode,
+  Plus,
+  ShieldCheck,
 } from "lucide-react";
 import type { GeneratedStrategy } from "@/lib/ai/funnel/generator";
+import type { BacktestJobView, JobEvent, RobustnessReport, StrategyConfig } from "@/lib/ai/backtest/types";
+import { formatCondition, formatStrategyDsl } from "@/lib/ai/strategy-dsl";
+import { pollBacktestJob, cancelBacktestJob, resumeBacktestJob } from "@/lib/ai/backtest/job-client";
 import { ALL_SYMBOLS } from "@/lib/constants/symbols";
 import { PriceChart } from "./charts/price-chart";
 
@@ -62,9 +69,10 @@ interface FunnelResult {
   metrics: BacktestMetrics;
   trades?: TradeDetail[];
   equityCurve?: EquityPoint[];
+  robustness?: RobustnessReport;
 }
 
-type SortField = "totalPnl" | "winRate" | "sharpeRatio" | "maxDrawdown" | "profitFactor" | "totalTrades";
+type SortField = "totalPnl" | "winRate" | "sharpeRatio" | "maxDrawdown" | "profitFactor" | "totalTrades" | "robustness";
 
 /** Safely call toFixed on a value that might be null/undefined after JSON serialization (Infinity/NaN → null) */
 function safeFixed(v: number | null | undefined, digits: number): string {
@@ -72,27 +80,10 @@ function safeFixed(v: number | null | undefined, digits: number): string {
   return v.toFixed(digits);
 }
 
-/** Format a condition indicator with its params for display, e.g. "RSI(14)" or "EMA(21)" or "MACD.signal" */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function formatIndicator(indicator: string, params?: any, field?: string): string {
-  const name = indicator.toUpperCase();
-  const fieldSuffix = field ? `.${field}` : "";
-  if (!params || typeof params !== "object" || Object.keys(params).length === 0) return `${name}${fieldSuffix}`;
-  const paramStr = Object.values(params).join(",");
-  return `${name}(${paramStr})${fieldSuffix}`;
-}
-
-/** Format a full condition like "RSI(14) crosses_above RSI(28)" */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function formatCondition(c: any): string {
-  const left = formatIndicator(c.indicator, c.params, c.field);
-  const op = c.operator.replace(/_/g, " ");
-  if (typeof c.value === "object" && c.value !== null && "indicator" in c.value) {
-    const v = c.value as { indicator: string; params?: Record<string, unknown>; field?: string };
-    const right = formatIndicator(v.indicator, v.params, v.field);
-    return `${left} ${op} ${right}`;
-  }
-  return `${left} ${op} ${c.value}`;
+function robustnessClass(score: number): string {
+  if (score >= 70) return "bg-emerald-500/15 text-emerald-400";
+  if (score >= 40) return "bg-amber-500/15 text-amber-400";
+  return "bg-red-500/15 text-red-400";
 }
 
 const SL_PRESETS = {
@@ -168,11 +159,17 @@ export function StrategyFunnel({
   }>({});
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [autopilotWinners, setAutopilotWinners] = useState<any[]>([]);
+  const [autopilotProgress, setAutopilotProgress] = useState(0);
+  const [autopilotJobId, setAutopilotJobId] = useState<string | null>(null);
+  const [resumableAutopilotId, setResumableAutopilotId] = useState<string | null>(null);
+  const autopilotAbort = useRef<AbortController | null>(null);
 
   // Stage 2 state
   const [generated, setGenerated] = useState<GeneratedStrategy[]>([]);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [daysBack, setDaysBack] = useState(90);
+  const [customDsl, setCustomDsl] = useState("");
+  const [customSymbol, setCustomSymbol] = useState(ALL_SYMBOLS[0]);
 
   // Stage 3 state
   const [results, setResults] = useState<FunnelResult[]>([]);
@@ -209,11 +206,134 @@ export function StrategyFunnel({
     { label: "365d", days: 365 },
   ];
 
+  // Phase states and stats from the job's events
+  const applyAutopilotEvent = useCallback((event: JobEvent) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const data = event.data as any;
+    if (event.phase === "generate") {
+      if (event.status === "started") setAutopilotPhases((p) => ({ ...p, generate: "running" }));
+      else if (event.status === "completed") {
+        setAutopilotPhases((p) => ({ ...p, generate: "done" }));
+        if (data?.count) setAutopilotStats((s) => ({ ...s, totalGenerated: data.count }));
+      } else if (event.status === "error") setAutopilotPhases((p) => ({ ...p, generate: "error" }));
+    } else if (event.phase === "backtest") {
+      if (event.status === "started") setAutopilotPhases((p) => ({ ...p, generate: "done", backtest: "running" }));
+      else if (event.status === "completed") {
+        setAutopilotPhases((p) => ({ ...p, backtest: "done" }));
+        if (data) setAutopilotStats((s) => ({ ...s, totalTested: data.totalTested, totalPassed: data.totalPassed }));
+      }
+    } else if (event.phase === "cross-validate") {
+      if (event.status === "started") setAutopilotPhases((p) => ({ ...p, crossValidate: "running" }));
+      else if (event.status === "completed") setAutopilotPhases((p) => ({ ...p, crossValidate: "done" }));
+    }
+  }, []);
+
+  const finishAutopilot = useCallback((job: BacktestJobView) => {
+    if (job.status === "completed") {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const data = job.result as any;
+      setAutopilotMessage(job.progressMessage || "Auto-Pilot complete");
+      setAutopilotStats((s) => ({ ...s, totalTested: data?.totalTested, totalPassed: data?.totalPassed, totalWinners: data?.totalWinners ?? 0 }));
+      setAutopilotWinners(data?.winners || []);
+      // Populate results table for Stage 3 compatibility
+      if (data?.winners?.length) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        setResults(data.winners.map((w: any) => ({
+          strategy: w.strategy,
+          metrics: w.metrics,
+          trades: w.trades,
+          equityCurve: w.equityCurve,
+          robustness: w.robustness,
+        })));
+        setBatchStats({
+          totalTested: data.totalTested || 0,
+          totalPassed: data.totalWinners || 0,
+          executionTimeMs: 0,
+        });
+        setStage(3);
+      }
+      return;
+    }
+
+    setAutopilotMessage(job.status === "cancelled" ? "Auto-Pilot cancelled" : job.errorMessage || "Autopilot failed");
+    setAutopilotPhases((p) => ({
+      generate: p.generate === "running" ? "error" : p.generate,
+      backtest: p.backtest === "running" ? "error" : p.backtest,
+      crossValidate: p.crossValidate === "running" ? "error" : p.crossValidate,
+    }));
+    if (job.resumable) setResumableAutopilotId(job.id);
+  }, []);
+
+  // Polls a queued run until it ends; replays its events from the start so a reattached page catches up
+  const followAutopilot = useCallback(async (jobId: string) => {
+    autopilotAbort.current?.abort();
+    const controller = new AbortController();
+    autopilotAbort.current = controller;
+
+    setAutopilotRunning(true);
+    setAutopilotJobId(jobId);
+    setResumableAutopilotId(null);
+    setAutopilotPhases({ generate: "idle", backtest: "idle", crossValidate: "idle" });
+    setAutopilotStats({});
+
+    try {
+      const job = await pollBacktestJob(
+        jobId,
+        (j, events) => {
+          events.forEach(applyAutopilotEvent);
+          setAutopilotProgress(j.progress);
+          if (j.status === "pending") setAutopilotMessage("Queued, waiting for the worker...");
+          else if (j.cancelRequested) setAutopilotMessage("Cancelling...");
+          else if (j.progressMessage) setAutopilotMessage(j.progressMessage);
+        },
+        { signal: controller.signal }
+      );
+      finishAutopilot(job);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setAutopilotMessage(err instanceof Error ? err.message : "Autopilot failed");
+      setAutopilotPhases((p) => ({
+        generate: p.generate === "running" ? "error" : p.generate,
+        backtest: p.backtest === "running" ? "error" : p.backtest,
+        crossValidate: p.crossValidate === "running" ? "error" : p.crossValidate,
+      }));
+    } finally {
+      if (!controller.signal.aborted) {
+        setAutopilotRunning(false);
+        setAutopilotJobId(null);
+      }
+    }
+  }, [applyAutopilotEvent, finishAutopilot]);
+
+  // Reattach to a run still in the worker, or offer to resume a stopped one
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/ai/backtest/jobs?kind=autopilot&limit=1")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const job: BacktestJobView | undefined = data?.jobs?.[0];
+        if (cancelled || !job) return;
+        if (job.status === "pending" || job.status === "running") {
+          setAutopilot(true);
+          followAutopilot(job.id);
+        } else if (job.resumable) {
+          setResumableAutopilotId(job.id);
+          setAutopilotMessage(job.errorMessage ? `Last run stopped: ${job.errorMessage}` : "Last run was cancelled");
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      autopilotAbort.current?.abort();
+    };
+  }, [followAutopilot]);
+
   // Autopilot launch
   const launchAutopilot = useCallback(async () => {
     setAutopilotRunning(true);
     setAutopilotPhases({ generate: "running", backtest: "idle", crossValidate: "idle" });
     setAutopilotMessage("Starting Auto-Pilot...");
+    setAutopilotProgress(0);
     setAutopilotStats({});
     setAutopilotWinners([]);
     setResults([]);
@@ -247,73 +367,8 @@ export function StrategyFunnel({
         throw new Error(err.error || "Autopilot failed");
       }
 
-      const reader = res.body?.getReader();
-      if (!reader) throw new Error("No response stream");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || ""; // keep incomplete line
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const event = JSON.parse(line);
-            setAutopilotMessage(event.message);
-
-            // Update phase states
-            if (event.phase === "generate") {
-              if (event.status === "started") setAutopilotPhases((p) => ({ ...p, generate: "running" }));
-              else if (event.status === "completed") {
-                setAutopilotPhases((p) => ({ ...p, generate: "done" }));
-                if (event.data?.count) setAutopilotStats((s) => ({ ...s, totalGenerated: event.data.count }));
-              }
-            } else if (event.phase === "backtest") {
-              if (event.status === "started") setAutopilotPhases((p) => ({ ...p, backtest: "running" }));
-              else if (event.status === "completed") {
-                setAutopilotPhases((p) => ({ ...p, backtest: "done" }));
-                if (event.data) setAutopilotStats((s) => ({ ...s, totalTested: event.data.totalTested, totalPassed: event.data.totalPassed }));
-              }
-            } else if (event.phase === "cross-validate") {
-              if (event.status === "started") setAutopilotPhases((p) => ({ ...p, crossValidate: "running" }));
-              else if (event.status === "completed") setAutopilotPhases((p) => ({ ...p, crossValidate: "done" }));
-            } else if (event.phase === "done" && event.data) {
-              setAutopilotStats((s) => ({ ...s, totalWinners: event.data.totalWinners }));
-              setAutopilotWinners(event.data.winners || []);
-              // Populate results table for Stage 3 compatibility
-              if (event.data.winners?.length) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                setResults(event.data.winners.map((w: any) => ({
-                  strategy: w.strategy,
-                  metrics: w.metrics,
-                  trades: w.trades,
-                  equityCurve: w.equityCurve,
-                })));
-                setBatchStats({
-                  totalTested: event.data.totalTested || 0,
-                  totalPassed: event.data.totalWinners || 0,
-                  executionTimeMs: 0,
-                });
-                setStage(3);
-              }
-            } else if (event.phase === "error") {
-              setAutopilotPhases((p) => ({
-                generate: p.generate === "running" ? "error" : p.generate,
-                backtest: p.backtest === "running" ? "error" : p.backtest,
-                crossValidate: p.crossValidate === "running" ? "error" : p.crossValidate,
-              }));
-            }
-          } catch {
-            // skip unparseable lines
-          }
-        }
-      }
+      const { job } = await res.json();
+      await followAutopilot(job.id);
     } catch (err) {
       setAutopilotMessage(err instanceof Error ? err.message : "Autopilot failed");
       setAutopilotPhases((p) => ({
@@ -321,10 +376,30 @@ export function StrategyFunnel({
         backtest: p.backtest === "running" ? "error" : p.backtest,
         crossValidate: p.crossValidate === "running" ? "error" : p.crossValidate,
       }));
-    } finally {
       setAutopilotRunning(false);
     }
-  }, [mode, timeframe, minProfitPercent, daysBack, positionSizePercent, maxStrategies, slPreset, tpPreset, aiBaseCount, aiExpand, aiTargetTotal, aiPrompt, aiNoRiskManagement]);
+  }, [mode, timeframe, minProfitPercent, daysBack, positionSizePercent, maxStrategies, slPreset, tpPreset, aiBaseCount, aiExpand, aiTargetTotal, aiPrompt, aiNoRiskManagement, followAutopilot]);
+
+  const cancelAutopilot = useCallback(async () => {
+    if (!autopilotJobId) return;
+    try {
+      await cancelBacktestJob(autopilotJobId);
+      setAutopilotMessage("Cancelling...");
+    } catch (err) {
+      setAutopilotMessage(err instanceof Error ? err.message : "Failed to cancel");
+    }
+  }, [autopilotJobId]);
+
+  const resumeAutopilot = useCallback(async () => {
+    if (!resumableAutopilotId) return;
+    try {
+      const job = await resumeBacktestJob(resumableAutopilotId);
+      setAutopilotWinners([]);
+      await followAutopilot(job.id);
+    } catch (err) {
+      setAutopilotMessage(err instanceof Error ? err.message : "Failed to resume");
+    }
+  }, [resumableAutopilotId, followAutopilot]);
 
   // Generate mutation
   const generateMutation = useMutation({
@@ -471,6 +546,33 @@ export function StrategyFunnel({
     }
   }, [aiBaseCount, aiExpand, aiTargetTotal, aiPrompt, timeframe, positionSizePercent, aiNoRiskManagement, slPreset, tpPreset]);
 
+  // Hand-written strategy script, validated server-side and added to the selection
+  const addCustomMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/ai/strategies/dsl", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dsl: customDsl }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error([data.error || "Invalid script", ...(data.issues ?? [])].join("\n"));
+      return data as { strategyConfig: StrategyConfig };
+    },
+    onSuccess: ({ strategyConfig }) => {
+      const strategy: GeneratedStrategy = {
+        id: `custom-${Date.now()}`,
+        name: strategyConfig.name || `${customSymbol.replace("/USDT", "")} Custom`,
+        symbol: customSymbol,
+        strategyConfig,
+        sourceSignal: "custom",
+        tags: ["custom"],
+      };
+      setGenerated((prev) => [strategy, ...prev]);
+      setSelected((prev) => new Set(prev).add(strategy.id));
+      setCustomDsl("");
+    },
+  });
+
   // Backtest mutation
   const backtestMutation = useMutation({
     mutationFn: async () => {
@@ -609,9 +711,11 @@ export function StrategyFunnel({
 
   // Sorted results
   const sortedResults = useMemo(() => {
+    // Unscored results sort below every score
+    const value = (r: FunnelResult) => (sortField === "robustness" ? r.robustness?.score ?? -1 : r.metrics[sortField]);
     const sorted = [...results].sort((a, b) => {
-      const av = a.metrics[sortField];
-      const bv = b.metrics[sortField];
+      const av = value(a);
+      const bv = value(b);
       return sortAsc ? av - bv : bv - av;
     });
     return sorted;
@@ -640,7 +744,11 @@ export function StrategyFunnel({
             }),
           });
           if (!res.ok) continue;
-          const data = await res.json();
+          const { job: queued } = await res.json();
+          const job = await pollBacktestJob(queued.id);
+          if (job.status !== "completed") continue;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const data = job.result as any;
 
           const withTrades = (data.results || []).filter((r: { totalTrades: number }) => r.totalTrades > 0);
           const profitable = withTrades.filter((r: { totalPnl: number }) => r.totalPnl > 0);
@@ -988,18 +1096,40 @@ export function StrategyFunnel({
 
           {/* Generate / Auto-Pilot button */}
           {autopilot ? (
-            <Button
-              onClick={launchAutopilot}
-              disabled={autopilotRunning}
-              className="w-full sm:w-auto bg-amber-600 hover:bg-amber-700 text-white"
-            >
-              {autopilotRunning ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Rocket className="w-4 h-4 mr-2" />
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={launchAutopilot}
+                disabled={autopilotRunning}
+                className="w-full sm:w-auto bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {autopilotRunning ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Rocket className="w-4 h-4 mr-2" />
+                )}
+                {autopilotRunning ? "Running..." : "Launch Auto-Pilot"}
+              </Button>
+              {autopilotRunning && autopilotJobId && (
+                <Button
+                  variant="outline"
+                  onClick={cancelAutopilot}
+                  className="w-full sm:w-auto border-white/10 text-slate-300"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
               )}
-              {autopilotRunning ? "Running..." : "Launch Auto-Pilot"}
-            </Button>
+              {!autopilotRunning && resumableAutopilotId && (
+                <Button
+                  variant="outline"
+                  onClick={resumeAutopilot}
+                  className="w-full sm:w-auto border-amber-500/30 text-amber-400"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Resume Last Run
+                </Button>
+              )}
+            </div>
           ) : mode === "algo" ? (
             <Button
               onClick={() => generateMutation.mutate()}
@@ -1054,7 +1184,7 @@ export function StrategyFunnel({
           )}
 
           {/* Auto-Pilot progress */}
-          {(autopilotRunning || autopilotWinners.length > 0) && autopilot && (
+          {(autopilotRunning || autopilotWinners.length > 0 || resumableAutopilotId) && autopilot && (
             <div className="rounded-lg bg-amber-500/5 border border-amber-500/10 p-3 space-y-2">
               <div className="flex items-center gap-3 text-xs">
                 <AutopilotPhaseIndicator label="Generate" status={autopilotPhases.generate} />
@@ -1063,6 +1193,14 @@ export function StrategyFunnel({
                 <ChevronRight className="w-3 h-3 text-slate-600" />
                 <AutopilotPhaseIndicator label="Cross-Validate" status={autopilotPhases.crossValidate} />
               </div>
+              {autopilotRunning && (
+                <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-amber-500 rounded-full transition-all duration-500"
+                    style={{ width: `${autopilotProgress}%` }}
+                  />
+                </div>
+              )}
               <p className="text-[11px] text-slate-400">{autopilotMessage}</p>
               {Object.keys(autopilotStats).length > 0 && (
                 <div className="flex flex-wrap gap-2 text-[10px]">
@@ -1198,6 +1336,46 @@ export function StrategyFunnel({
             </table>
           </div>
 
+          {/* Custom strategy script */}
+          <div className="rounded-lg border border-white/[0.04] p-3 space-y-2">
+            <div className="text-[10px] text-slate-600 font-medium uppercase tracking-wider flex items-center gap-1">
+              <FileCode className="w-3 h-3" />
+              Add Custom Strategy
+            </div>
+            <textarea
+              value={customDsl}
+              onChange={(e) => setCustomDsl(e.target.value)}
+              placeholder={"entry: rsi(14) < 30 and close crosses_above ema(21)\nexit: rsi(14) > 70\nstop_loss: 3\ntake_profit: 6"}
+              rows={4}
+              spellCheck={false}
+              className="w-full rounded bg-[#0d1117] border border-white/[0.08] px-2 py-1.5 text-xs font-mono text-slate-300 placeholder:text-slate-600"
+            />
+            <div className="flex items-center gap-2">
+              <select
+                value={customSymbol}
+                onChange={(e) => setCustomSymbol(e.target.value)}
+                className="rounded bg-[#0d1117] border border-white/[0.08] px-2 py-1.5 text-xs text-slate-300"
+              >
+                {ALL_SYMBOLS.map((s) => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => addCustomMutation.mutate()}
+                disabled={!customDsl.trim() || addCustomMutation.isPending}
+                className="h-7 text-xs border-cyan-500/20 text-cyan-400 hover:bg-cyan-500/10"
+              >
+                {addCustomMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Plus className="w-3 h-3 mr-1" />}
+                Add
+              </Button>
+            </div>
+            {addCustomMutation.error && (
+              <pre className="text-[11px] text-red-400 whitespace-pre-wrap">{addCustomMutation.error.message}</pre>
+            )}
+          </div>
+
           {/* Backtest controls */}
           <div className="flex flex-col sm:flex-row sm:items-end gap-3">
             <div>
@@ -1442,6 +1620,7 @@ export function StrategyFunnel({
                     <SortHeader field="maxDrawdown" label="DD%" current={sortField} asc={sortAsc} onClick={handleSort} />
                     <SortHeader field="profitFactor" label="PF" current={sortField} asc={sortAsc} onClick={handleSort} />
                     <SortHeader field="totalTrades" label="Trades" current={sortField} asc={sortAsc} onClick={handleSort} />
+                    <SortHeader field="robustness" label="Robust" current={sortField} asc={sortAsc} onClick={handleSort} />
                     {(autopilotWinners.length > 0 || cvResultsMap.size > 0) && <th className="text-left p-2 text-amber-500">CV Score</th>}
                     <th className="text-left p-2">Actions</th>
                   </tr>
@@ -1501,6 +1680,18 @@ export function StrategyFunnel({
                           <td className="p-2 text-red-400">{safeFixed((r.metrics.maxDrawdown ?? 0) * 100, 1)}%</td>
                           <td className="p-2 text-slate-300">{safeFixed(r.metrics.profitFactor, 2)}</td>
                           <td className="p-2 text-slate-400">{r.metrics.totalTrades}</td>
+                          <td className="p-2">
+                            {r.robustness ? (
+                              <span
+                                className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${robustnessClass(r.robustness.score)}`}
+                                title={r.robustness.warnings.join("\n") || "No warnings"}
+                              >
+                                {r.robustness.score}
+                              </span>
+                            ) : (
+                              <span className="text-slate-600">—</span>
+                            )}
+                          </td>
                           {(autopilotWinners.length > 0 || cvResultsMap.size > 0) && (
                             <td className="p-2">
                               {cvData ? (
@@ -1549,7 +1740,7 @@ export function StrategyFunnel({
                         {/* Expanded detail row */}
                         {isExpanded && (
                           <tr className="border-t border-white/[0.02]">
-                            <td colSpan={(autopilotWinners.length > 0 || cvResultsMap.size > 0) ? 11 : 10} className="p-0">
+                            <td colSpan={(autopilotWinners.length > 0 || cvResultsMap.size > 0) ? 12 : 11} className="p-0">
                               <StrategyDetail result={r} timeframe={timeframe} daysBack={daysBack} cvData={cvData} />
                             </td>
                           </tr>
@@ -1605,7 +1796,7 @@ interface CvDataProp {
 }
 
 function StrategyDetail({ result, timeframe, daysBack, cvData }: { result: FunnelResult; timeframe: string; daysBack: number; cvData?: CvDataProp }) {
-  const { strategy, trades, equityCurve, metrics } = result;
+  const { strategy, trades, equityCurve, metrics, robustness } = result;
   const config = strategy.strategyConfig;
   const [candles, setCandles] = useState<{ timestamp: number; open: number; high: number; low: number; close: number; volume: number }[] | null>(null);
   const [candleError, setCandleError] = useState(false);
@@ -1681,6 +1872,48 @@ function StrategyDetail({ result, timeframe, daysBack, cvData }: { result: Funne
         <MetricCard label="Total Trades" value={String(metrics.totalTrades)} color="slate" />
       </div>
 
+      {/* Overfitting checks */}
+      {robustness && (
+        <div className="rounded-lg bg-[#111827] border border-white/[0.04] p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-3.5 h-3.5 text-slate-500" />
+            <span className="text-[10px] text-slate-600 font-medium uppercase tracking-wider">Robustness</span>
+            <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${robustnessClass(robustness.score)}`}>
+              {robustness.score}/100
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-[11px] text-slate-400">
+            <div>
+              Deflated Sharpe: <span className="text-slate-200">{safeFixed(robustness.deflatedSharpe * 100, 0)}%</span>
+            </div>
+            <div>
+              Trade Sharpe: <span className="text-slate-200">{safeFixed(robustness.tradeSharpe, 2)}</span>
+              <span className="text-slate-600"> vs {safeFixed(robustness.expectedMaxSharpe, 2)} by luck</span>
+            </div>
+            <div>
+              Variants tried: <span className="text-slate-200">{robustness.trials}</span>
+            </div>
+            <div>
+              SL/TP ±10%:{" "}
+              <span className="text-slate-200">
+                {robustness.worstRetained === null
+                  ? "no SL/TP"
+                  : robustness.worstRetained < 0
+                    ? "worst variant loses money"
+                    : `worst keeps ${safeFixed(robustness.worstRetained * 100, 0)}%`}
+              </span>
+            </div>
+          </div>
+          {robustness.warnings.length > 0 && (
+            <ul className="space-y-0.5">
+              {robustness.warnings.map((w, i) => (
+                <li key={i} className="text-[11px] text-amber-400/90">{w}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Price chart with trade markers */}
       {candles && candles.length > 0 ? (
         <div className="rounded-lg bg-[#111827] border border-white/[0.04] p-3">
@@ -1746,6 +1979,14 @@ function StrategyDetail({ result, timeframe, daysBack, cvData }: { result: Funne
         </div>
       </div>
 
+      {/* Strategy as a script, to copy into the chat, a custom strategy or an import */}
+      <details className="rounded-lg bg-[#111827] border border-white/[0.04] p-3">
+        <summary className="text-[10px] text-slate-600 font-medium uppercase tracking-wider cursor-pointer">Strategy Script</summary>
+        <pre className="mt-2 text-[11px] font-mono text-slate-300 whitespace-pre-wrap select-all">
+          {formatStrategyDsl({ ...config, name: config.name ?? strategy.name })}
+        </pre>
+      </details>
+
       {/* Equity curve */}
       {chartData && equityCurve && (
         <div className="rounded-lg bg-[#111827] border border-white/[0.04] p-3">
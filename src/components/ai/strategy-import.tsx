@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { ALL_SYMBOLS } from "@/lib/constants/symbols";
+
+const TIMEFRAMES = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+const PLACEHOLDER = `Paste an exported .strategy.json document, or a script:
+
+name: RSI dip
+entry: rsi(14) < 30 and close crosses_above ema(21)
+exit: rsi(14) > 70
+stop_loss: 3
+take_profit: 6`;
+
+/**
+ * Saves a strategy from an exported JSON document or a DSL script. Scripts carry no symbol or
+ * timeframe, so those are picked here.
+ */
+export function StrategyImport({ onImported }: { onImported?: () => void }) {
+  const [text, setText] = useState("");
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState(ALL_SYMBOLS[0]);
+  const [timeframe, setTimeframe] = useState("1h");
+
+  const isDocument = text.trim().startsWith("{");
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const body = isDocument
+        ? { document: text }
+        : { dsl: text, name: name || undefined, symbol, timeframe };
+      const res = await fetch("/api/ai/strategies/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error([data.error || "Import failed", ...(data.issues ?? [])].join("\n"));
+      }
+      return data;
+    },
+    onSuccess: () => {
+      setText("");
+      setName("");
+      onImported?.();
+    },
+  });
+
+  return (
+    <div className="rounded-xl bg-[#111827] border border-white/[0.06] p-4 space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={8}
+        spellCheck={false}
+        className="w-full rounded-lg bg-[#070b12] border border-white/[0.06] p-3 text-xs font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/30"
+      />
+
+      {!isDocument && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <Label className="text-xs text-slate-400">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="From the script's name line"
+              className="h-9 text-sm bg-[#070b12] border-white/[0.06]"
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-slate-400">Symbol</Label>
+            <Select value={symbol} onValueChange={setSymbol}>
+              <SelectTrigger className="h-9 text-sm bg-[#070b12] border-white/[0.06]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALL_SYMBOLS.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-slate-400">Timeframe</Label>
+            <Select value={timeframe} onValueChange={setTimeframe}>
+              <SelectTrigger className="h-9 text-sm bg-[#070b12] border-white/[0.06]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMEFRAMES.map((tf) => (
+                  <SelectItem key={tf} value={tf}>
+                    {tf}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {importMutation.error && (
+        <pre className="text-[11px] text-red-400 whitespace-pre-wrap">{importMutation.error.message}</pre>
+      )}
+
+      <Button
+        size="sm"
+        onClick={() => importMutation.mutate()}
+        disabled={!text.trim() || importMutation.isPending}
+        className="bg-emerald-600 hover:bg-emerald-700 text-white"
+      >
+        {importMutation.isPending ? (
+          <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+        ) : (
+          <Upload className="w-3.5 h-3.5 mr-1.5" />
+        )}
+        Import Strategy
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import type { StrategyVersion } from "@/lib/db/schema";
+import type { ConfigChange } from "@/lib/ai/strategy-versions";
+
+type VersionRow = StrategyVersion & { tradesCount?: number; pnl?: number };
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return "—";
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+/**
+ * Config versions of a strategy, the diff of a selected version against the one before it,
+ * and rollback. `baseUrl` is the owner's API path, e.g. /api/operational-strategies/<id>.
+ */
+export function StrategyVersionHistory({
+  baseUrl,
+  readOnly = false,
+  onChanged,
+}: {
+  baseUrl: string;
+  readOnly?: boolean;
+  onChanged?: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["strategy-versions", baseUrl],
+    queryFn: async () => {
+      const res = await fetch(`${baseUrl}/versions`);
+      if (!res.ok) throw new Error("Failed");
+      return res.json() as Promise<{ versions: VersionRow[]; currentVersion: number }>;
+    },
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery({
+    queryKey: ["strategy-version-diff", baseUrl, selectedId],
+    queryFn: async () => {
+      const res = await fetch(`${baseUrl}/versions/${selectedId}`);
+      if (!res.ok) throw new Error("Failed");
+      return res.json() as Promise<{ version: StrategyVersion; against: StrategyVersion | null; changes: ConfigChange[] }>;
+    },
+    enabled: !!selectedId,
+  });
+
+  const rollback = useMutation({
+    mutationFn: async (versionId: string) => {
+      const res = await fetch(`${baseUrl}/versions/${versionId}/rollback`, { method: "POST" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Rollback failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["strategy-versions", baseUrl] });
+      setSelectedId(null);
+      onChanged?.();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-[11px] text-slate-500 py-2">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Loading versions...
+      </div>
+    );
+  }
+
+  const versions = data?.versions ?? [];
+  const current = data?.currentVersion;
+
+  return (
+    <div>
+      <div className="text-[10px] text-slate-600 mb-1.5 font-medium uppercase tracking-wider flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Config History ({versions.length})
+      </div>
+      <div className="rounded-lg border border-white/[0.04] divide-y divide-white/[0.03]">
+        {versions.map((v) => (
+          <div key={v.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(selectedId === v.id ? null : v.id)}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 text-left text-[11px] hover:bg-white/[0.02] ${selectedId === v.id ? "bg-white/[0.03]" : ""}`}
+            >
+              <span className={`font-mono font-medium ${v.version === current ? "text-emerald-400" : "text-slate-400"}`}>
+                v{v.version}
+              </span>
+              <span className="text-slate-600">{new Date(v.createdAt).toLocaleDateString()}</span>
+              <span className="text-slate-400 truncate flex-1">{v.note || "Edited"}</span>
+              {v.backtestId && (
+                <span className="text-[10px] text-cyan-400/80 font-mono" title={`Backtest ${v.backtestId}`}>
+                  bt:{v.backtestId.slice(0, 8)}
+                </span>
+              )}
+              {v.tradesCount != null && (
+                <span className="text-slate-500">
+                  {v.tradesCount} trades
+                  {v.tradesCount > 0 && (
+                    <span className={`ml-1 ${(v.pnl ?? 0) >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                      {(v.pnl ?? 0) >= 0 ? "+" : "-"}${Math.abs(v.pnl ?? 0).toFixed(2)}
+                    </span>
+                  )}
+                </span>
+              )}
+              {v.version === current && (
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400">current</span>
+              )}
+            </button>
+
+            {selectedId === v.id && (
+              <div className="px-2 pb-2 space-y-1.5">
+                {diffLoading ? (
+                  <Loader2 className="w-3 h-3 animate-spin text-slate-500" />
+                ) : !diff?.against ? (
+                  <div className="text-[11px] text-slate-600">First version</div>
+                ) : diff.changes.length === 0 ? (
+                  <div className="text-[11px] text-slate-600">Same config as v{diff.against.version}</div>
+                ) : (
+                  <div className="space-y-0.5">
+                    <div className="text-[10px] text-slate-600">Changes from v{diff.against.version}</div>
+                    {diff.changes.map((c) => (
+                      <div key={c.path} className="text-[11px] font-mono flex flex-wrap gap-x-1.5">
+                        <span className="text-slate-400">{c.path}</span>
+                        <span className="text-red-400/80 line-through">{formatValue(c.before)}</span>
+                        <span className="text-slate-600">→</span>
+                        <span className="text-emerald-400">{formatValue(c.after)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!readOnly && v.version !== current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rollback.mutate(v.id)}
+                    disabled={rollback.isPending}
+                    className="h-6 text-[11px] border-amber-500/20 text-amber-400 hover:bg-amber-500/10"
+                  >
+                    {rollback.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                    Roll back to v{v.version}
+                  </Button>
+                )}
+                {rollback.error && <div className="text-[11px] text-red-400">{rollback.error.message}</div>}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
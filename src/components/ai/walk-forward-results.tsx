@@ -38,6 +38,7 @@ export function WalkForwardResults({ result, isLoading }: WalkForwardResultsProp
   }
 
   const verdict = getVerdict(result.consistencyRatio);
+  const optimized = result.windows.some((w) => w.chosenParams);
 
   return (
     <div className="rounded-xl bg-[#111827] border border-white/[0.06] p-4 space-y-4">
@@ -92,6 +93,7 @@ export function WalkForwardResults({ result, isLoading }: WalkForwardResultsProp
               <th className="text-right py-2 px-3 font-medium">OOS Sharpe</th>
               <th className="text-right py-2 px-3 font-medium">IS Trades</th>
               <th className="text-right py-2 pl-3 font-medium">OOS Trades</th>
+              {optimized && <th className="text-left py-2 pl-3 font-medium">Chosen Params</th>}
             </tr>
           </thead>
           <tbody>
@@ -123,6 +125,13 @@ export function WalkForwardResults({ result, isLoading }: WalkForwardResultsProp
                   <td className="text-right py-2 pl-3 text-slate-400">
                     {w.outOfSampleResult.totalTrades}
                   </td>
+                  {optimized && (
+                    <td className="py-2 pl-3 text-cyan-400 font-mono text-[10px] whitespace-nowrap">
+                      {Object.entries(w.chosenParams ?? {})
+                        .map(([path, value]) => `${path.split(".").pop()}=${value}`)
+                        .join(" ")}
+                    </td>
+                  )}
                 </tr>
               );
             })}
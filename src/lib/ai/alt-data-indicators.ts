@@ -51,6 +51,18 @@ const INDICATOR_DB_MAP: Record<AltIndicatorName, { sources: string[]; field: str
   social_dominance:  { sources: ["lunarcrush"],                  field: "social_dominance", perSymbol: true },
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Time after its timestamp at which a source's value could first have been known. The
+ * estimated backfills are derived from a day's BTC candle but stamped at that day's midnight,
+ * so using them from their timestamp would read the day's close ahead of time.
+ */
+const AVAILABILITY_LAG_MS: Record<string, number> = {
+  reddit_estimated: DAY_MS,
+  whale_estimated: DAY_MS,
+};
+
 export function isAltIndicator(name: string): name is AltIndicatorName {
   return ALT_INDICATOR_NAMES.includes(name as AltIndicatorName);
 }
@@ -64,21 +76,26 @@ interface AltDataPoint {
  * Loads alternative data from the database for a given indicator and time range,
  * then aligns the values to candle timestamps using forward-fill (last known value).
  *
+ * Values are aligned from when they became available (see AVAILABILITY_LAG_MS), not from their
+ * timestamp. When that moved any candle's value, a lookahead warning is pushed to `warnings`.
+ *
  * Returns an array of (number | undefined)[] aligned 1:1 with the candles array.
  */
 export async function loadAltDataForCandles(
   indicatorName: AltIndicatorName,
   candles: Candle[],
-  symbol?: string
+  symbol?: string,
+  warnings?: string[]
 ): Promise<(number | undefined)[]> {
   if (candles.length === 0) return [];
 
   const mapping = INDICATOR_DB_MAP[indicatorName];
   if (!mapping) return candles.map(() => undefined);
 
+  const maxLag = Math.max(0, ...mapping.sources.map((s) => AVAILABILITY_LAG_MS[s] ?? 0));
   const startTime = new Date(candles[0].timestamp);
-  // Fetch data starting 24h before first candle to ensure we have initial values
-  const paddedStart = new Date(startTime.getTime() - 24 * 60 * 60 * 1000);
+  // Fetch data starting 24h (plus the availability lag) before first candle to ensure we have initial values
+  const paddedStart = new Date(startTime.getTime() - DAY_MS - maxLag);
   const endTime = new Date(candles[candles.length - 1].timestamp);
 
   const sourceCondition = mapping.sources.length === 1
@@ -100,6 +117,7 @@ export async function loadAltDataForCandles(
 
   const rows = await db
     .select({
+      source: altDataSnapshots.source,
       timestamp: altDataSnapshots.timestamp,
       value: altDataSnapshots.value,
     })
@@ -111,13 +129,35 @@ export async function loadAltDataForCandles(
     return candles.map(() => undefined);
   }
 
-  const dataPoints: AltDataPoint[] = rows.map((r) => ({
+  const stamped: AltDataPoint[] = rows.map((r) => ({
     timestamp: r.timestamp.getTime(),
     value: r.value,
   }));
+  if (maxLag === 0) {
+    // Forward-fill: for each candle, find the most recent data point at or before candle time
+    return alignToCandles(stamped, candles);
+  }
 
-  // Forward-fill: for each candle, find the most recent data point at or before candle time
-  return alignToCandles(dataPoints, candles);
+  const available: AltDataPoint[] = rows
+    .map((r) => ({
+      timestamp: r.timestamp.getTime() + (AVAILABILITY_LAG_MS[r.source] ?? 0),
+      value: r.value,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const aligned = alignToCandles(available, candles);
+  if (warnings) {
+    const naive = alignToCandles(stamped, candles);
+    const ahead = aligned.filter((v, i) => v !== naive[i]).length;
+    if (ahead > 0) {
+      const delayed = mapping.sources.filter((s) => AVAILABILITY_LAG_MS[s]).join(", ");
+      warnings.push(
+        `Lookahead: ${indicatorName} (${delayed}) is stamped before it was known; ` +
+        `delaying it to its availability changed ${ahead} of ${candles.length} bars`
+      );
+    }
+  }
+  return aligned;
 }
 
 /**
@@ -1,23 +1,87 @@
-import { calculateIndicator, type IndicatorName } from "../indicators";
+import { calculateIndicator, isCustomIndicator, type IndicatorName, type IndicatorResult } from "../indicators";
 import { isAltIndicator, loadAltDataForCandles, type AltIndicatorName } from "../alt-data-indicators";
-import type { Candle } from "../data/candles";
-import type { Condition } from "./types";
+import type { CustomIndicatorDefinition } from "../custom-indicators";
+import { fetchCandles, timeframeToMs, type Candle } from "../data/candles";
+import type {
+  Condition,
+  ConditionGroup,
+  ConditionNode,
+  ConditionTrace,
+  ConditionValue,
+  IndicatorRef,
+  IndicatorTraceSeries,
+  ValueExpression,
+} from "./types";
 
-export function cacheIndicator(
-  cache: Map<string, (number | undefined)[]>,
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return "all" in node || "any" in node || "not" in node;
+}
+
+export function isValueExpression(value: ConditionValue): value is ValueExpression {
+  return typeof value === "object" && "op" in value;
+}
+
+function valueRefs(value: ConditionValue): IndicatorRef[] {
+  if (typeof value === "number") return [];
+  if (isValueExpression(value)) return [...valueRefs(value.left), ...valueRefs(value.right)];
+  return [value];
+}
+
+/** Every indicator a condition reads: its own and those in its value */
+export function conditionRefs(cond: Condition): IndicatorRef[] {
+  return [cond, ...valueRefs(cond.value)];
+}
+
+/** Every leaf condition in a list of condition trees, e.g. to know which indicators to cache */
+export function flattenConditions(nodes: ConditionNode[]): Condition[] {
+  return nodes.flatMap((node) => {
+    if (!isConditionGroup(node)) return [node];
+    if ("all" in node) return flattenConditions(node.all);
+    if ("any" in node) return flattenConditions(node.any);
+    return flattenConditions([node.not]);
+  });
+}
+
+/** Bars of history fetched ahead of the first candle so other-timeframe indicators are warmed up */
+const TIMEFRAME_WARMUP_BARS = 250;
+
+/**
+ * Cache key of an indicator series; alt data is timestamp-aligned and ignores `timeframe`.
+ * Series on another timeframe are cached per `offset`, already shifted by that many of its bars.
+ */
+function indicatorKey(
   indicator: IndicatorName,
   params: Condition["params"],
   field: string | undefined,
-  candles: Candle[]
-) {
+  timeframe?: string,
+  offset?: number
+): string {
   const key = `${indicator}:${JSON.stringify(params || {})}:${field || ""}`;
-  if (cache.has(key)) return;
+  if (!timeframe || isAltIndicator(indicator)) return key;
+  return offset ? `${key}@${timeframe}[${offset}]` : `${key}@${timeframe}`;
+}
+
+/**
+ * Raw values of an indicator, one per candle. calculateIndicator by default; the live worker passes
+ * its IndicatorFeed's, which keeps them up to date incrementally.
+ */
+export type IndicatorSource = (
+  indicator: IndicatorName,
+  params: Condition["params"],
+  candles: Candle[]
+) => IndicatorResult["values"];
 
-  // Alt data indicators are loaded from DB via cacheAltIndicators — skip here
-  if (isAltIndicator(indicator)) return;
+const calculateValues: IndicatorSource = (indicator, params, candles) =>
+  calculateIndicator(indicator, candles, params).values;
 
-  const result = calculateIndicator(indicator, candles, params);
-  const values = result.values.map((v) => {
+function indicatorValues(
+  indicator: IndicatorName,
+  params: Condition["params"],
+  field: string | undefined,
+  candles: Candle[],
+  source: IndicatorSource = calculateValues
+): (number | undefined)[] {
+  return source(indicator, params, candles).map((v) => {
     if (v === undefined) return undefined;
     if (typeof v === "number") return v;
     if (field && typeof v === "object") return (v as Record<string, number | undefined>)[field];
@@ -28,28 +92,126 @@ export function cacheIndicator(
     }
     return undefined;
   });
-  cache.set(key, values);
+}
+
+export function cacheIndicator(
+  cache: Map<string, (number | undefined)[]>,
+  indicator: IndicatorName,
+  params: Condition["params"],
+  field: string | undefined,
+  candles: Candle[],
+  source?: IndicatorSource
+) {
+  const key = indicatorKey(indicator, params, field);
+  if (cache.has(key)) return;
+
+  // Alt data indicators are loaded from DB via cacheAltIndicators, custom ones built by cacheCustomIndicators
+  if (isAltIndicator(indicator) || isCustomIndicator(indicator)) return;
+
+  cache.set(key, indicatorValues(indicator, params, field, candles, source));
+}
+
+/** Caches every strategy-timeframe series the conditions read; see cacheTimeframeIndicators for the rest */
+export function cacheConditionIndicators(
+  cache: Map<string, (number | undefined)[]>,
+  conditions: Condition[],
+  candles: Candle[],
+  source?: IndicatorSource
+) {
+  for (const cond of conditions) {
+    for (const ref of conditionRefs(cond)) {
+      if (!ref.timeframe) cacheIndicator(cache, ref.indicator, ref.params, ref.field, candles, source);
+    }
+  }
+}
+
+/**
+ * Pre-loads indicators of conditions (or indicator values) that set their own `timeframe`.
+ * Each series is fetched with fetchCandles and aligned to the base candles without lookahead:
+ * a base candle only sees bars that had closed when it closed (or by now, for a live candle).
+ * `baseTimeframe` is the timeframe of `candles`; without it bars must close by the candle's open.
+ */
+export async function cacheTimeframeIndicators(
+  cache: Map<string, (number | undefined)[]>,
+  conditions: Condition[],
+  candles: Candle[],
+  symbol: string,
+  baseTimeframe?: string
+): Promise<void> {
+  const refsByTimeframe = new Map<string, IndicatorRef[]>();
+
+  for (const cond of conditions) {
+    for (const ref of conditionRefs(cond)) {
+      if (!ref.timeframe || isAltIndicator(ref.indicator) || isCustomIndicator(ref.indicator)) continue;
+      const list = refsByTimeframe.get(ref.timeframe) ?? [];
+      list.push(ref);
+      refsByTimeframe.set(ref.timeframe, list);
+    }
+  }
+
+  if (refsByTimeframe.size === 0 || candles.length === 0) return;
+
+  const baseMs = baseTimeframe ? timeframeToMs(baseTimeframe) : 0;
+
+  const loadPromises = [...refsByTimeframe].map(async ([timeframe, refs]) => {
+    const tfMs = timeframeToMs(timeframe);
+    const daysBack = Math.ceil((Date.now() - candles[0].timestamp + TIMEFRAME_WARMUP_BARS * tfMs) / 86_400_000);
+
+    let series: Candle[] = [];
+    try {
+      series = await fetchCandles(symbol, timeframe, daysBack);
+    } catch (err) {
+      console.error(`[Backtest] Candles unavailable for ${symbol} ${timeframe}:`, err);
+    }
+
+    // Index of the last bar of `series` closed at each base candle's close
+    const now = Date.now();
+    const closedIndex: number[] = [];
+    let j = -1;
+    for (const candle of candles) {
+      const closeTime = Math.min(candle.timestamp + baseMs, now);
+      while (j + 1 < series.length && series[j + 1].timestamp + tfMs <= closeTime) j++;
+      closedIndex.push(j);
+    }
+
+    for (const ref of refs) {
+      const offset = ref.offset ?? 0;
+      const key = indicatorKey(ref.indicator, ref.params, ref.field, timeframe, offset);
+      if (cache.has(key)) continue;
+      const values = indicatorValues(ref.indicator, ref.params, ref.field, series);
+      cache.set(key, closedIndex.map((k) => (k - offset >= 0 ? values[k - offset] : undefined)));
+    }
+  });
+
+  await Promise.all(loadPromises);
 }
 
 /**
  * Pre-loads all alternative data indicators referenced in conditions from the database.
  * Must be called before running the backtest when strategies use alt data conditions.
+ * Lookahead warnings from loadAltDataForCandles are pushed to `warnings`.
  */
 export async function cacheAltIndicators(
   cache: Map<string, (number | undefined)[]>,
   conditions: Condition[],
   candles: Candle[],
-  symbol: string
+  symbol: string,
+  warnings?: string[]
+): Promise<void> {
+  await cacheAltRefs(cache, conditions.flatMap(conditionRefs), candles, symbol, warnings);
+}
+
+async function cacheAltRefs(
+  cache: Map<string, (number | undefined)[]>,
+  refs: IndicatorRef[],
+  candles: Candle[],
+  symbol: string,
+  warnings?: string[]
 ): Promise<void> {
   const altIndicators = new Set<AltIndicatorName>();
 
-  for (const cond of conditions) {
-    if (isAltIndicator(cond.indicator)) {
-      altIndicators.add(cond.indicator);
-    }
-    if (typeof cond.value === "object" && isAltIndicator(cond.value.indicator as string)) {
-      altIndicators.add(cond.value.indicator as AltIndicatorName);
-    }
+  for (const ref of refs) {
+    if (isAltIndicator(ref.indicator)) altIndicators.add(ref.indicator as AltIndicatorName);
   }
 
   if (altIndicators.size === 0) return;
@@ -58,78 +220,221 @@ export async function cacheAltIndicators(
     const key = `${indicator}:{}:`;
     if (cache.has(key)) return;
 
-    const values = await loadAltDataForCandles(indicator, candles, symbol);
+    const values = await loadAltDataForCandles(indicator, candles, symbol, warnings);
     cache.set(key, values);
   });
 
   await Promise.all(loadPromises);
 }
 
+/**
+ * Builds the custom indicators referenced in conditions from their `definitions` (see
+ * ../custom-indicators). The series a formula reads are cached as a condition's would be, alt data
+ * included, then combined candle by candle; the formula has no value where one of them has none.
+ * A name without a definition stays unset, so conditions on it never pass, and is reported in `warnings`,
+ * as are refs that set params, field or timeframe on one.
+ */
+export async function cacheCustomIndicators(
+  cache: Map<string, (number | undefined)[]>,
+  conditions: Condition[],
+  candles: Candle[],
+  symbol: string,
+  definitions: CustomIndicatorDefinition[] = [],
+  warnings?: string[],
+  source?: IndicatorSource
+): Promise<void> {
+  const names = new Set<IndicatorName>();
+  const misused = new Set<string>();
+  for (const cond of conditions) {
+    for (const ref of conditionRefs(cond)) {
+      if (!isCustomIndicator(ref.indicator)) continue;
+      names.add(ref.indicator);
+      // Its one series is cached without them, so a ref setting them reads nothing
+      if (ref.params !== undefined || ref.field !== undefined || ref.timeframe !== undefined) misused.add(ref.indicator);
+    }
+  }
+  for (const name of misused) {
+    warnings?.push(`Custom indicator ${name} takes no params, field or timeframe; conditions setting them never pass`);
+  }
+
+  for (const name of names) {
+    const key = indicatorKey(name, undefined, undefined);
+    if (cache.has(key)) continue;
+
+    const definition = definitions.find((d) => d.name === name);
+    if (!definition) {
+      warnings?.push(`Custom indicator ${name} is not defined; conditions on it never pass`);
+      continue;
+    }
+
+    const refs = valueRefs(definition.formula);
+    for (const ref of refs) cacheIndicator(cache, ref.indicator, ref.params, ref.field, candles, source);
+    await cacheAltRefs(cache, refs, candles, symbol, warnings);
+
+    cache.set(key, candles.map((_, i) => operandValue(definition.formula, i, cache)));
+  }
+}
+
 export function getIndicatorValue(
   cache: Map<string, (number | undefined)[]>,
   indicator: IndicatorName,
   params: Condition["params"],
   field: string | undefined,
+  index: number,
+  timeframe?: string
+): number | undefined {
+  return cache.get(indicatorKey(indicator, params, field, timeframe))?.[index];
+}
+
+/** Value of `ref` at `index`, `offset` bars back; other-timeframe series were shifted when cached */
+function refValue(
+  cache: Map<string, (number | undefined)[]>,
+  ref: IndicatorRef,
   index: number
 ): number | undefined {
-  const key = `${indicator}:${JSON.stringify(params || {})}:${field || ""}`;
-  return cache.get(key)?.[index];
+  const shifted = ref.timeframe && !isAltIndicator(ref.indicator) ? index : index - (ref.offset ?? 0);
+  if (shifted < 0) return undefined;
+  return cache.get(indicatorKey(ref.indicator, ref.params, ref.field, ref.timeframe, ref.offset))?.[shifted];
+}
+
+/** A condition's value at `index`; undefined while an operand has none, or on division by zero */
+function operandValue(
+  value: ConditionValue,
+  index: number,
+  cache: Map<string, (number | undefined)[]>
+): number | undefined {
+  if (typeof value === "number") return value;
+  if (!isValueExpression(value)) return refValue(cache, value, index);
+
+  const left = operandValue(value.left, index, cache);
+  const right = operandValue(value.right, index, cache);
+  if (left === undefined || right === undefined) return undefined;
+  switch (value.op) {
+    case "+": return left + right;
+    case "-": return left - right;
+    case "*": return left * right;
+    case "/": return right === 0 ? undefined : left / right;
+  }
+}
+
+/**
+ * Evaluates a single condition. Returns undefined while either side has no value yet
+ * (indicator warm-up, missing alt data), so `not` cannot turn missing data into a signal.
+ */
+function evaluateCondition(
+  cond: Condition,
+  index: number,
+  cache: Map<string, (number | undefined)[]>
+): boolean | undefined {
+  const current = refValue(cache, cond, index);
+  const targetValue = operandValue(cond.value, index, cache);
+  if (current === undefined || targetValue === undefined) return undefined;
+
+  switch (cond.operator) {
+    case ">": return current > targetValue;
+    case "<": return current < targetValue;
+    case ">=": return current >= targetValue;
+    case "<=": return current <= targetValue;
+    case "crosses_above": {
+      const prev = refValue(cache, cond, index - 1);
+      const prevTarget = operandValue(cond.value, index - 1, cache);
+      if (prev === undefined || prevTarget === undefined) return undefined;
+      return prev <= prevTarget && current > targetValue;
+    }
+    case "crosses_below": {
+      const prev = refValue(cache, cond, index - 1);
+      const prevTarget = operandValue(cond.value, index - 1, cache);
+      if (prev === undefined || prevTarget === undefined) return undefined;
+      return prev >= prevTarget && current < targetValue;
+    }
+  }
+}
+
+/** Three-valued AND/OR/NOT: a decided branch wins over one still missing data */
+function evaluateNode(
+  node: ConditionNode,
+  index: number,
+  cache: Map<string, (number | undefined)[]>
+): boolean | undefined {
+  if (!isConditionGroup(node)) return evaluateCondition(node, index, cache);
+
+  if ("not" in node) {
+    const inner = evaluateNode(node.not, index, cache);
+    return inner === undefined ? undefined : !inner;
+  }
+
+  const children = "all" in node ? node.all : node.any;
+  if (children.length === 0) return false;
+  const decisive = "all" in node ? false : true;
+  let unknown = false;
+  for (const child of children) {
+    const result = evaluateNode(child, index, cache);
+    if (result === decisive) return decisive;
+    if (result === undefined) unknown = true;
+  }
+  return unknown ? undefined : !decisive;
 }
 
 export function checkConditions(
-  conditions: Condition[],
+  conditions: ConditionNode[],
   index: number,
   cache: Map<string, (number | undefined)[]>
 ): boolean {
   if (conditions.length === 0) return false;
 
-  return conditions.every((cond) => {
-    const current = getIndicatorValue(cache, cond.indicator, cond.params, cond.field, index);
-    if (current === undefined) return false;
-
-    let targetValue: number | undefined;
-
-    if (typeof cond.value === "object") {
-      targetValue = getIndicatorValue(
-        cache,
-        cond.value.indicator,
-        cond.value.params,
-        cond.value.field,
-        index
-      );
-    } else {
-      targetValue = cond.value;
-    }
+  return evaluateNode({ all: conditions }, index, cache) === true;
+}
+
+/** Short label of an indicator reference, e.g. "bollinger(20,2).lower@4h" or "high[1]" */
+function refLabel(ref: IndicatorRef): string {
+  const args = Object.values(ref.params || {}).join(",");
+  return `${ref.indicator}${args ? `(${args})` : ""}${ref.field ? `.${ref.field}` : ""}` +
+    `${ref.offset ? `[${ref.offset}]` : ""}${ref.timeframe ? `@${ref.timeframe}` : ""}`;
+}
+
+function valueLabel(value: ConditionValue, nested = false): string {
+  if (typeof value === "number") return String(value);
+  if (!isValueExpression(value)) return refLabel(value);
+  const label = `${valueLabel(value.left, true)} ${value.op} ${valueLabel(value.right, true)}`;
+  return nested ? `(${label})` : label;
+}
+
+function conditionLabel(cond: Condition): string {
+  return `${refLabel(cond)} ${cond.operator} ${valueLabel(cond.value)}`;
+}
 
-    if (targetValue === undefined) return false;
-
-    switch (cond.operator) {
-      case ">": return current > targetValue;
-      case "<": return current < targetValue;
-      case ">=": return current >= targetValue;
-      case "<=": return current <= targetValue;
-      case "crosses_above": {
-        const prev = getIndicatorValue(cache, cond.indicator, cond.params, cond.field, index - 1);
-        let prevTarget: number | undefined;
-        if (typeof cond.value === "object") {
-          prevTarget = getIndicatorValue(cache, cond.value.indicator, cond.value.params, cond.value.field, index - 1);
-        } else {
-          prevTarget = cond.value;
-        }
-        if (prev === undefined || prevTarget === undefined) return false;
-        return prev <= prevTarget && current > targetValue;
-      }
-      case "crosses_below": {
-        const prev = getIndicatorValue(cache, cond.indicator, cond.params, cond.field, index - 1);
-        let prevTarget: number | undefined;
-        if (typeof cond.value === "object") {
-          prevTarget = getIndicatorValue(cache, cond.value.indicator, cond.value.params, cond.value.field, index - 1);
-        } else {
-          prevTarget = cond.value;
-        }
-        if (prev === undefined || prevTarget === undefined) return false;
-        return prev >= prevTarget && current < targetValue;
-      }
+/** Each leaf condition of `conditions` with its values and result at `index`, for traces */
+export function traceConditions(
+  conditions: ConditionNode[],
+  index: number,
+  cache: Map<string, (number | undefined)[]>
+): ConditionTrace[] {
+  return flattenConditions(conditions).map((cond) => ({
+    label: conditionLabel(cond),
+    value: refValue(cache, cond, index),
+    target: operandValue(cond.value, index, cache),
+    passed: evaluateCondition(cond, index, cache),
+  }));
+}
+
+/**
+ * The cached series referenced by `conditions`, once each, for charting a trace. A strategy-timeframe
+ * series is charted unshifted whatever offsets read it.
+ */
+export function traceIndicatorSeries(
+  conditions: Condition[],
+  cache: Map<string, (number | undefined)[]>
+): IndicatorTraceSeries[] {
+  const series = new Map<string, IndicatorTraceSeries>();
+  for (const cond of conditions) {
+    for (const conditionRef of conditionRefs(cond)) {
+      const { indicator, params, field, timeframe } = conditionRef;
+      const ref = timeframe && !isAltIndicator(indicator) ? conditionRef : { indicator, params, field, timeframe };
+      const key = indicatorKey(ref.indicator, ref.params, ref.field, ref.timeframe, ref.offset);
+      const values = cache.get(key);
+      if (!values || series.has(key)) continue;
+      series.set(key, { key, label: refLabel(ref), values: values.map((v) => v ?? null) });
     }
-  });
+  }
+  return [...series.values()];
 }
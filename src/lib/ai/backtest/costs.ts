@@ -0,0 +1,59 @@
+import type { exchangeEnum } from "@/lib/db/schema";
+import { calculateIndicator } from "../indicators";
+import type { Candle } from "../data/candles";
+import type { CostModel } from "./types";
+
+export type ExchangeId = (typeof exchangeEnum.enumValues)[number];
+
+/** Base-tier spot fee rates in percent of notional */
+export const EXCHANGE_FEES: Record<ExchangeId, { makerPercent: number; takerPercent: number }> = {
+  bybit:   { makerPercent: 0.1,  takerPercent: 0.1 },
+  binance: { makerPercent: 0.1,  takerPercent: 0.1 },
+  okx:     { makerPercent: 0.08, takerPercent: 0.1 },
+  kraken:  { makerPercent: 0.25, takerPercent: 0.4 },
+  kucoin:  { makerPercent: 0.1,  takerPercent: 0.1 },
+  gate:    { makerPercent: 0.2,  takerPercent: 0.2 },
+  bitget:  { makerPercent: 0.1,  takerPercent: 0.1 },
+  mexc:    { makerPercent: 0,    takerPercent: 0.05 },
+};
+
+export interface ResolvedCosts {
+  makerRate: number;        // fraction, e.g. 0.001
+  takerRate: number;
+  slippageRates: number[];  // per-candle adverse slippage fraction
+  minNotionalUsd: number;
+}
+
+/**
+ * Turns a cost model into per-fill rates aligned with the candles.
+ * Without a model every rate is zero, which reproduces the frictionless engine.
+ */
+export function resolveCosts(model: CostModel | undefined, candles: Candle[]): ResolvedCosts {
+  const exchangeFees = model?.exchange ? EXCHANGE_FEES[model.exchange] : undefined;
+  const makerPercent = model?.makerFeePercent ?? exchangeFees?.makerPercent ?? 0;
+  const takerPercent = model?.takerFeePercent ?? exchangeFees?.takerPercent ?? 0;
+
+  const fixed = (model?.slippagePercent ?? 0) / 100;
+  let slippageRates = candles.map(() => fixed);
+
+  if (model?.slippageAtrMultiplier) {
+    const atr = calculateIndicator("atr", candles, { period: model.slippageAtrPeriod ?? 14 });
+    const k = model.slippageAtrMultiplier;
+    slippageRates = candles.map((c, i) => {
+      const v = atr.values[i];
+      return typeof v === "number" && c.close > 0 ? fixed + (k * v) / c.close : fixed;
+    });
+  }
+
+  return {
+    makerRate: makerPercent / 100,
+    takerRate: takerPercent / 100,
+    slippageRates,
+    minNotionalUsd: model?.minNotionalUsd ?? 0,
+  };
+}
+
+/** Moves a price against the order: buys fill higher, sells fill lower */
+export function applySlippage(price: number, side: "buy" | "sell", rate: number): number {
+  return side === "buy" ? price * (1 + rate) : price * (1 - rate);
+}
@@ -0,0 +1,125 @@
+import { fetchCandlesBatch } from "../data/candles";
+import { runBacktest } from "./engine";
+import type { JobContext } from "./jobs";
+import type { StrategyConfig } from "./types";
+import type { CustomIndicatorDefinition } from "../custom-indicators";
+
+const INITIAL_EQUITY = 10000;
+
+export interface CrossValidateParams {
+  symbols: string[];
+  timeframe: string;
+  strategyConfig: StrategyConfig;
+  dateRanges: { label: string; days: number }[];
+}
+
+export interface CrossValidateRow {
+  symbol: string;
+  dateRange: string;
+  days: number;
+  totalPnl: number;
+  winRate: number;
+  sharpeRatio: number;
+  profitFactor: number;
+  maxDrawdown: number;
+  totalTrades: number;
+}
+
+export interface CrossValidateResult {
+  results: CrossValidateRow[];
+  summary: {
+    totalTests: number;
+    profitable: number;
+    avgPnl: number;
+    avgSharpe: number;
+    avgWinRate: number;
+  };
+  executionTimeMs: number;
+}
+
+/**
+ * Runs one strategy on every symbol × date range; percentages are of a 10k starting equity.
+ * `customIndicators` are the definitions of the custom indicators the strategy reads.
+ */
+export async function crossValidate(
+  params: CrossValidateParams,
+  ctx?: JobContext,
+  customIndicators?: CustomIndicatorDefinition[]
+): Promise<CrossValidateResult> {
+  const { symbols, timeframe, strategyConfig, dateRanges } = params;
+  const start = performance.now();
+
+  // Build fetch jobs for each symbol × dateRange
+  const fetchJobs: { symbol: string; timeframe: string; daysBack: number; range: { label: string; days: number } }[] = [];
+  for (const symbol of symbols) {
+    for (const range of dateRanges) {
+      fetchJobs.push({ symbol, timeframe, daysBack: range.days, range });
+    }
+  }
+
+  await ctx?.progress(0, `Fetching candles for ${fetchJobs.length} combinations...`);
+
+  // Use throttled batch fetching (respects concurrency limits)
+  const candleResults = await fetchCandlesBatch(
+    fetchJobs.map((job) => ({ symbol: job.symbol, timeframe: job.timeframe, daysBack: job.daysBack }))
+  );
+
+  // Run backtests for each symbol × dateRange combo
+  const results: CrossValidateRow[] = [];
+
+  for (let i = 0; i < fetchJobs.length; i++) {
+    const { symbol, range } = fetchJobs[i];
+    const candleResult = candleResults[i];
+    await ctx?.progress((i / fetchJobs.length) * 100, `Tested ${i}/${fetchJobs.length}...`);
+
+    if (candleResult.status !== "fulfilled" || candleResult.value.length < 20) {
+      results.push({
+        symbol, dateRange: range.label, days: range.days,
+        totalPnl: 0, winRate: 0, sharpeRatio: 0, profitFactor: 0, maxDrawdown: 0, totalTrades: 0,
+      });
+      continue;
+    }
+
+    try {
+      const rangeCandles = candleResult.value;
+      const result = await runBacktest(rangeCandles, strategyConfig, symbol, { timeframe, customIndicators });
+      const totalReturnPct = (result.totalPnl / INITIAL_EQUITY) * 100;
+
+      results.push({
+        symbol,
+        dateRange: range.label,
+        days: range.days,
+        totalPnl: Math.round(totalReturnPct * 100) / 100,
+        winRate: Math.round(result.winRate * 10000) / 100,
+        sharpeRatio: Math.round(result.sharpeRatio * 100) / 100,
+        profitFactor: Math.round((result.profitFactor > 999 ? 999 : result.profitFactor) * 100) / 100,
+        maxDrawdown: Math.round(result.maxDrawdown * 10000) / 100,
+        totalTrades: result.totalTrades,
+      });
+    } catch (err) {
+      console.error(`[Cross-Validate] Error on ${symbol} ${range.label}:`, err);
+      results.push({
+        symbol, dateRange: range.label, days: range.days,
+        totalPnl: 0, winRate: 0, sharpeRatio: 0, profitFactor: 0, maxDrawdown: 0, totalTrades: 0,
+      });
+    }
+  }
+
+  // Compute summary
+  const profitable = results.filter((r) => r.totalPnl > 0 && r.totalTrades > 0);
+  const withTrades = results.filter((r) => r.totalTrades > 0);
+
+  const elapsed = performance.now() - start;
+
+  return {
+    results,
+    summary: {
+      totalTests: results.length,
+      profitable: profitable.length,
+      avgPnl: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.totalPnl, 0) / withTrades.length * 100) / 100 : 0,
+      avgSharpe: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.sharpeRatio, 0) / withTrades.length * 100) / 100 : 0,
+      avgWinRate: withTrades.length > 0 ? Math.round(withTrades.reduce((s, r) => s + r.winRate, 0) / withTrades.length * 100) / 100 : 0,
+    },
+    executionTimeMs: Math.round(elapsed),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import session from "./fixtures/synthetic-session.json";
+import { runBacktest } from "./engine";
+import { fetchCandleRange, type Candle } from "../data/candles";
+import type { CustomIndicatorDefinition } from "../custom-indicators";
+import type { StrategyConfig } from "./types";
+
+vi.mock("../data/candles", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../data/candles")>()),
+  fetchCandleRange: vi.fn(async () => []),
+}));
+
+const strategy = session.strategy as StrategyConfig;
+// The synthetic session five times over, re-timed hourly: 1200 candles
+const candles: Candle[] = Array.from({ length: 5 }, () => session.candles)
+  .flat()
+  .map((c, i) => ({ ...c, timestamp: session.candles[0].timestamp + i * 3_600_000 }));
+
+describe("runBacktest onProgress", () => {
+  it("reports progress through the candles", async () => {
+    const calls: [number, number][] = [];
+    await runBacktest(candles, strategy, undefined, {
+      onProgress: async (done, total) => {
+        calls.push([done, total]);
+      },
+    });
+    expect(calls).toEqual([[500, 1200], [1000, 1200]]);
+  });
+
+  it("stops the run when it throws", async () => {
+    let calls = 0;
+    const run = runBacktest(candles, strategy, undefined, {
+      onProgress: async () => {
+        calls++;
+        throw new Error("cancelled");
+      },
+    });
+    await expect(run).rejects.toThrow("cancelled");
+    expect(calls).toBe(1);
+  });
+});
+
+describe("runBacktest drilldown", () => {
+  it("fetches lower-timeframe candles only for the bars touching both stop and take", async () => {
+    const start = session.candles[0].timestamp;
+    const flat: Candle[] = Array.from({ length: 30 }, (_, i) => ({
+      timestamp: start + i * 3_600_000,
+      open: 100,
+      high: i === 20 ? 104 : 100.5,
+      low: i === 20 ? 96 : 99.5,
+      close: 100,
+      volume: 1,
+    }));
+    const config: StrategyConfig = {
+      name: "Always in",
+      entryConditions: [{ indicator: "close", operator: ">", value: 0 }],
+      exitConditions: [],
+      stopLossPercent: 2,
+      takeProfitPercent: 2,
+      positionSizePercent: 10,
+    };
+
+    await runBacktest(flat, config, "BTC/USDT", { intrabarPolicy: "drilldown", timeframe: "1h" });
+
+    expect(fetchCandleRange).toHaveBeenCalledTimes(1);
+    expect(fetchCandleRange).toHaveBeenCalledWith("BTC/USDT", "5m", flat[20].timestamp, flat[21].timestamp);
+  });
+});
+
+describe("runBacktest custom indicators", () => {
+  it("warns about refs setting params, field or timeframe on a custom indicator", async () => {
+    const customIndicators: CustomIndicatorDefinition[] = [
+      { name: "custom_spread", formula: { op: "-", left: { indicator: "close" }, right: { indicator: "ema", params: { period: 21 } } } },
+    ];
+    const config = {
+      ...strategy,
+      entryConditions: [{ indicator: "custom_spread", params: { period: 5 }, operator: ">", value: 0 }],
+    } as StrategyConfig;
+
+    const result = await runBacktest(candles, config, undefined, { customIndicators });
+
+    expect(result.warnings).toEqual([
+      "Custom indicator custom_spread takes no params, field or timeframe; conditions setting them never pass",
+    ]);
+    expect(result.totalTrades).toBe(0);
+  });
+});
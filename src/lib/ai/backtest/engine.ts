@@ -1,9 +1,42 @@
-import type { Candle } from "../data/candles";
-import type { StrategyConfig, Trade, EquityPoint, BacktestResult } from "./types";
-import { calculateMetrics } from "./metrics";
-import { cacheIndicator, cacheAltIndicators, checkConditions } from "./conditions";
+import { fetchCandleRange, timeframeToMs, type Candle } from "../data/candles";
+import type { StrategyConfig, Trade, EquityPoint, BacktestResult, BacktestOptions, BarTrace } from "./types";
+import { calculateMetrics, benchmarkCurve } from "./metrics";
+import {
+  cacheConditionIndicators,
+  cacheAltIndicators,
+  cacheCustomIndicators,
+  cacheTimeframeIndicators,
+  flattenConditions,
+  checkConditions,
+  traceConditions,
+  traceIndicatorSeries,
+} from "./conditions";
+import { resolveCosts, applySlippage } from "./costs";
+import { DRILLDOWN_TIMEFRAME, touchLevels } from "./intrabar";
+import { cacheSizingIndicators, positionBudget, tradeStats } from "./sizing";
+import { barFunding, loadFundingRates } from "./funding";
+import { classifyRegimes, regimeBreakdown } from "./regimes";
+import {
+  DUST_NOTIONAL,
+  applyFill,
+  bankruptcyPrice,
+  checkDca,
+  checkEntry,
+  checkExits,
+  exitLevels,
+  leverageOf,
+  limitFilled,
+  limitSpecFor,
+  placeLimit,
+  trackExtreme,
+  type BarContext,
+  type OrderIntent,
+  type PositionState,
+  type WorkingLimit,
+} from "./strategy-core";
 
 const INITIAL_EQUITY = 10000;
+const PROGRESS_BARS = 500; // options.onProgress is called every this many candles
 
 function directedPnlPercent(entryPrice: number, currentPrice: number, isShort: boolean): number {
   return isShort
@@ -15,11 +48,45 @@ function directedPnlPercent(entryPrice: number, currentPrice: number, isShort: b
  * Run a backtest. Accepts an optional symbol parameter for loading per-symbol alt data.
  * If any strategy conditions reference alternative data indicators (funding_rate, reddit, etc.),
  * the engine loads historical values from the database and aligns them to candle timestamps.
+ *
+ * Market orders are taker fills. When `options.costs` is set, they are moved against the trade by
+ * the slippage model and pay the taker fee on their notional. Entries and signal exits with a limit
+ * `config.entryOrder` / `config.exitOrder` rest from the signal bar's close and fill at the limit,
+ * paying the maker fee, on the first bar trading through it; until then no new signal is taken.
+ * A working exit is cancelled when a stop or take-profit closes the position first.
+ *
+ * Stop loss and take profit are resting levels checked against each bar's high/low, filling at
+ * the level or at the open when the bar gapped through it. Bars touching both are ordered by
+ * `options.intrabarPolicy`; "drilldown" needs `symbol` and `options.timeframe`.
+ *
+ * Entry, DCA and exit decisions come from ./strategy-core, and position budgets from ./sizing,
+ * the same logic StrategyExecutor runs for paper and live strategies.
+ *
+ * Perp configs (see ./funding) pay or receive funding at every 8h settlement they hold through,
+ * at the recorded funding rate; it is part of the trade's PnL and of `result.totalFunding`.
+ * They trade on isolated margin of notional / `config.leverage`: a bar whose adverse extreme
+ * crosses the liquidation price closes the position at the bankruptcy price, losing the margin.
+ *
+ * Alt data is used from when it became available; `result.warnings` says when that differed from
+ * its timestamps (see loadAltDataForCandles).
+ *
+ * Custom indicators in conditions are computed from `options.customIndicators`; ones it lacks, and
+ * refs setting params, field or timeframe on one, are listed in `result.warnings` and never pass.
+ *
+ * `result.benchmarkCurve` holds the same starting equity in the symbol, and `result.regimes`
+ * splits performance by market regime (classified per `options.regimes`, see ./regimes).
+ *
+ * With `options.trace`, `result.trace` records per candle the evaluated conditions, the resting
+ * stop/take levels and every fill with its reason, plus the indicator series the conditions used.
+ *
+ * `options.onProgress` is awaited every PROGRESS_BARS candles; a throw from it (e.g. a cancelled
+ * job) stops the run and rejects with that error.
  */
 export async function runBacktest(
   candles: Candle[],
   config: StrategyConfig,
-  symbol?: string
+  symbol?: string,
+  options: BacktestOptions = {}
 ): Promise<BacktestResult> {
   if (candles.length < 2) {
     return {
@@ -31,123 +98,255 @@ export async function runBacktest(
 
   // Pre-compute all needed indicators
   const indicatorCache = new Map<string, (number | undefined)[]>();
-  const allConditions = [...config.entryConditions, ...config.exitConditions];
+  const allConditions = flattenConditions([...config.entryConditions, ...config.exitConditions]);
 
-  for (const cond of allConditions) {
-    cacheIndicator(indicatorCache, cond.indicator, cond.params, cond.field, candles);
-    if (typeof cond.value === "object") {
-      cacheIndicator(indicatorCache, cond.value.indicator, cond.value.params, cond.value.field, candles);
-    }
-  }
+  cacheConditionIndicators(indicatorCache, allConditions, candles);
+
+  cacheSizingIndicators(indicatorCache, config, candles);
 
   // Load alternative data indicators from DB (if any conditions reference them)
-  await cacheAltIndicators(indicatorCache, allConditions, candles, symbol || "BTC/USDT");
+  const warnings: string[] = [];
+  await cacheAltIndicators(indicatorCache, allConditions, candles, symbol || "BTC/USDT", warnings);
+  await cacheCustomIndicators(
+    indicatorCache, allConditions, candles, symbol || "BTC/USDT", options.customIndicators, warnings
+  );
+
+  // Conditions on another timeframe use that timeframe's closed bars
+  await cacheTimeframeIndicators(indicatorCache, allConditions, candles, symbol || "BTC/USDT", options.timeframe);
 
   const isShort = config.side === "short";
+  const side = isShort ? "short" : "long";
+  const entrySide = isShort ? "sell" : "buy";
+  const exitSide = isShort ? "buy" : "sell";
+  const costs = resolveCosts(options.costs, candles);
+  const intrabarPolicy = options.intrabarPolicy ?? "pessimistic";
+  const fundingRates = await loadFundingRates(config, candles, symbol || "BTC/USDT");
+  const leverage = leverageOf(config);
 
   // Replay candles
   let equity = INITIAL_EQUITY;
-  let inPosition = false;
-  let entryPrice = 0;
+  let position: PositionState | null = null;
   let entryIndex = 0;
-  let positionSize = 0;
-  let remainingSize = 0;
-  let tpFilled = 0;
-  let partialPnlLocked = 0; // accumulated PnL from partial exits within current trade
+  let positionSize = 0;     // USD margin committed so far, across DCA portions
+  let budget = 0;           // USD the position may use in total
+  let realizedPnl = 0;      // net PnL of the slices sold so far within the current trade
+  let tradeFees = 0;
+  let tradeSlippage = 0;
+  let tradeFunding = 0;
   const trades: Trade[] = [];
   const equityCurve: EquityPoint[] = [{ timestamp: candles[0].timestamp, equity }];
+  const minRemaining = Math.max(DUST_NOTIONAL, costs.minNotionalUsd);
+  const traceBars: BarTrace[] = [];
+  let barTrace: BarTrace | null = null;
+  const barMs = options.timeframe ? timeframeToMs(options.timeframe) : candles[1].timestamp - candles[0].timestamp;
+  let working: WorkingLimit | null = null;
+
+  /**
+   * Fills an intent at its price moved by slippage, paying the taker fee, and updates the position.
+   * A `maker` fill is a limit order: at its price, paying the maker fee.
+   * A liquidation is no order of ours: it closes at the bankruptcy price without fee or slippage.
+   */
+  function fill(intent: OrderIntent, index: number, maker = false) {
+    const isBuy = intent.kind === "entry" || intent.kind === "dca";
+    const liquidated = intent.kind === "exit" && intent.reason === "liquidation";
+    const fillPrice = liquidated
+      ? bankruptcyPrice(position!, leverage)
+      : maker ? intent.price : applySlippage(intent.price, isBuy ? entrySide : exitSide, costs.slippageRates[index]);
+
+    let quantity: number;
+    if (intent.kind === "entry" || intent.kind === "dca") {
+      const notional = budget * intent.budgetFraction;
+      quantity = notional / fillPrice;
+      positionSize += notional / leverage;
+    } else {
+      quantity = intent.quantity;
+      realizedPnl += quantity * (fillPrice - position!.avgEntryPrice) * (isShort ? -1 : 1);
+    }
+
+    if (!liquidated) {
+      const fee = quantity * fillPrice * (maker ? costs.makerRate : costs.takerRate);
+      tradeFees += fee;
+      realizedPnl -= fee;
+      tradeSlippage += quantity * Math.abs(fillPrice - intent.price);
+    }
+
+    const avgEntryPrice = position?.avgEntryPrice ?? fillPrice;
+    const entries = position?.dcaFilled ?? 0;
+    if (intent.kind === "entry") entryIndex = index;
+    position = applyFill(position, intent, fillPrice, quantity);
+    barTrace?.actions.push({
+      kind: intent.kind,
+      price: fillPrice,
+      reason: intent.kind === "exit" ? intent.reason : intent.kind === "partial_exit" ? "take_profit" : undefined,
+      level: intent.kind === "partial_exit" ? intent.level : undefined,
+      ...(maker && { maker }),
+    });
+
+    if (intent.kind === "exit") {
+      equity += realizedPnl;
+      trades.push({
+        ...makeTrade(entryIndex, index, candles, avgEntryPrice, fillPrice, positionSize, side, realizedPnl, tradeFees, tradeSlippage),
+        ...(fundingRates && { funding: tradeFunding }),
+        ...(leverage > 1 && { leverage }),
+        ...(liquidated && { liquidationPrice: intent.price }),
+        exitReason: intent.reason,
+        entries,
+      });
+    }
+  }
+
+  /**
+   * Fills the working limit order if the bar traded through it, else expires it once its timeout
+   * has passed by the bar's close. An exit sells whatever is left after take-profit levels.
+   */
+  function workLimit(index: number) {
+    const order = working!;
+    const candle = candles[index];
+    const intent = order.intent.kind === "exit" ? { ...order.intent, quantity: position!.remainingQuantity } : order.intent;
+
+    if (limitFilled(candle, order.side, intent.price)) {
+      working = null;
+      fill(intent, index, true);
+      return;
+    }
+    if (candle.timestamp + barMs < order.expiresAt) return;
+
+    working = null;
+    if (order.fallbackToMarket) fill({ ...intent, price: candle.close }, index);
+    else if (barTrace) barTrace.note = `${intent.kind === "entry" ? "Entry" : "Exit"} limit expired unfilled`;
+  }
 
-  const DUST_THRESHOLD = 0.01; // min remaining size in USD terms
+  // Only the bars touching both stop and take are drilled into, so their candles are fetched per bar
+  let drilldownFailed = false;
+  async function loadSubCandles(index: number): Promise<Candle[]> {
+    const timeframe = options.timeframe;
+    const lowerTimeframe = timeframe ? DRILLDOWN_TIMEFRAME[timeframe] : undefined;
+    if (!timeframe || !lowerTimeframe || !symbol || drilldownFailed) return [];
+
+    const start = candles[index].timestamp;
+    try {
+      return await fetchCandleRange(symbol, lowerTimeframe, start, start + timeframeToMs(timeframe));
+    } catch (err) {
+      console.error(`[Backtest] Drill-down candles unavailable for ${symbol} ${lowerTimeframe}:`, err);
+      drilldownFailed = true;
+      return [];
+    }
+  }
 
   for (let i = 1; i < candles.length; i++) {
+    if (options.onProgress && i % PROGRESS_BARS === 0) await options.onProgress(i, candles.length);
     const candle = candles[i];
+    const bar: BarContext = { candle, index: i, indicatorCache };
+    if (options.trace) {
+      barTrace = { index: i, timestamp: candle.timestamp, inPosition: position !== null, actions: [] };
+      traceBars.push(barTrace);
+    }
 
-    if (inPosition) {
-      // Check stop loss / take profit
-      const pnlPercent = directedPnlPercent(entryPrice, candle.close, isShort);
-
-      if (config.stopLossPercent && pnlPercent <= -config.stopLossPercent) {
-        const exitPnl = remainingSize * (-config.stopLossPercent / 100) + partialPnlLocked;
-        equity += exitPnl;
-        const slExitPrice = isShort ? entryPrice * (1 + config.stopLossPercent / 100) : entryPrice * (1 - config.stopLossPercent / 100);
-        trades.push(makeTrade(entryIndex, i, candles, entryPrice, slExitPrice, positionSize, isShort ? "short" : "long", exitPnl));
-        inPosition = false;
-        partialPnlLocked = 0;
-      } else if (config.takeProfitLevels?.length) {
-        // Multi-target take profit
-        const nextLevel = config.takeProfitLevels[tpFilled];
-        if (nextLevel && pnlPercent >= nextLevel.percent) {
-          const sellAmount = positionSize * (nextLevel.sellPercent / 100);
-          const levelPnl = sellAmount * (pnlPercent / 100);
-          partialPnlLocked += levelPnl;
-          remainingSize -= sellAmount;
-          tpFilled++;
-
-          // If dust remaining, close fully
-          if (remainingSize < DUST_THRESHOLD) {
-            equity += partialPnlLocked;
-            const avgExitPrice = isShort ? entryPrice * (1 - pnlPercent / 100) : entryPrice * (1 + pnlPercent / 100);
-            trades.push(makeTrade(entryIndex, i, candles, entryPrice, avgExitPrice, positionSize, isShort ? "short" : "long", partialPnlLocked));
-            inPosition = false;
-            partialPnlLocked = 0;
-          }
-        } else if (checkConditions(config.exitConditions, i, indicatorCache)) {
-          // Exit signal closes remaining position
-          const exitPrice = candle.close;
-          const remainingPnl = remainingSize * (directedPnlPercent(entryPrice, exitPrice, isShort) / 100);
-          const totalPnl = partialPnlLocked + remainingPnl;
-          equity += totalPnl;
-          trades.push(makeTrade(entryIndex, i, candles, entryPrice, exitPrice, positionSize, isShort ? "short" : "long", totalPnl));
-          inPosition = false;
-          partialPnlLocked = 0;
-        }
-      } else if (config.takeProfitPercent && pnlPercent >= config.takeProfitPercent) {
-        equity += positionSize * (config.takeProfitPercent / 100);
-        const tpExitPrice = isShort ? entryPrice * (1 - config.takeProfitPercent / 100) : entryPrice * (1 + config.takeProfitPercent / 100);
-        trades.push(makeTrade(entryIndex, i, candles, entryPrice, tpExitPrice, positionSize, isShort ? "short" : "long"));
-        inPosition = false;
-      } else if (checkConditions(config.exitConditions, i, indicatorCache)) {
-        const exitPrice = candle.close;
-        const pnl = positionSize * (directedPnlPercent(entryPrice, exitPrice, isShort) / 100);
-        equity += pnl;
-        trades.push(makeTrade(entryIndex, i, candles, entryPrice, exitPrice, positionSize, isShort ? "short" : "long"));
-        inPosition = false;
+    if (position) {
+      if (fundingRates) {
+        const funding = barFunding(candles, i, fundingRates, position);
+        realizedPnl += funding;
+        tradeFunding += funding;
+      }
+
+      const dca = working ? null : checkDca(config, position, candle);
+      if (dca && budget * dca.budgetFraction >= costs.minNotionalUsd) fill(dca, i);
+
+      if (barTrace && position) {
+        const levels = exitLevels(config, position);
+        barTrace.stopPrice = levels.stopReason === "liquidation" ? undefined : levels.stopPrice;
+        barTrace.takePrice = levels.takePrice;
+        barTrace.liquidationPrice = levels.liquidationPrice;
+        barTrace.exitConditions = traceConditions(config.exitConditions, i, indicatorCache);
+        barTrace.exitSignal = checkConditions(config.exitConditions, i, indicatorCache);
+      }
+
+      // Only fetch lower-timeframe bars when this bar is actually ambiguous
+      let subCandles: Candle[] | undefined;
+      if (intrabarPolicy === "drilldown") {
+        const { stopPrice, takePrice } = exitLevels(config, position);
+        const touched = touchLevels(candle, isShort, stopPrice, takePrice);
+        if (touched.stop && touched.take && !touched.gapped) subCandles = await loadSubCandles(i);
+      }
+
+      // A signal exit goes through a limit order when one is configured or already working
+      const exits = checkExits(config, position, bar, intrabarPolicy, subCandles, minRemaining);
+      const signalExit = exits.find((e) => e.kind === "exit" && e.reason === "exit_signal");
+      const exitSpec = signalExit && limitSpecFor(config, signalExit);
+      for (const exit of exits) {
+        if (exit !== signalExit || !(working || exitSpec)) fill(exit, i);
       }
+
+      if (!position) working = null;
+      else if (working) workLimit(i);
+      else if (signalExit && exitSpec) working = placeLimit(exitSpec, signalExit, exitSide, candle.timestamp + barMs, barMs);
+
+      if (position) position = trackExtreme(position, candle);
+    } else if (working) {
+      workLimit(i);
     } else {
-      // Check entry conditions
-      if (checkConditions(config.entryConditions, i, indicatorCache)) {
-        inPosition = true;
-        entryPrice = candle.close;
-        entryIndex = i;
-        positionSize = equity * (config.positionSizePercent / 100);
-        remainingSize = positionSize;
-        tpFilled = 0;
-        partialPnlLocked = 0;
+      const entry = checkEntry(config, bar);
+      const entryBudget = entry
+        ? positionBudget(config, {
+            equity,
+            price: entry.price,
+            bar,
+            history: tradeStats(trades.map((t) => t.pnlAbsolute)),
+          })
+        : 0;
+      if (barTrace) {
+        barTrace.entryConditions = traceConditions(config.entryConditions, i, indicatorCache);
+        barTrace.entrySignal = entry !== null;
+        if (entry && !(entryBudget > 0 && entryBudget * entry.budgetFraction >= costs.minNotionalUsd)) {
+          barTrace.note = entryBudget > 0 ? "Entry skipped: below minimum notional" : "Entry skipped: sizing gave no budget";
+        }
+      }
+      if (entry && entryBudget > 0 && entryBudget * entry.budgetFraction >= costs.minNotionalUsd) {
+        budget = entryBudget;
+        positionSize = 0;
+        realizedPnl = 0;
+        tradeFees = 0;
+        tradeSlippage = 0;
+        tradeFunding = 0;
+        const entrySpec = limitSpecFor(config, entry);
+        if (entrySpec) working = placeLimit(entrySpec, entry, entrySide, candle.timestamp + barMs, barMs);
+        else fill(entry, i);
       }
     }
+    if (barTrace && working) barTrace.limitPrice = working.intent.price;
 
     // Track equity
-    if (inPosition) {
-      const unrealized = remainingSize * (directedPnlPercent(entryPrice, candle.close, isShort) / 100) + partialPnlLocked;
-      equityCurve.push({ timestamp: candle.timestamp, equity: equity + unrealized });
+    if (position) {
+      const unrealized = position.remainingQuantity * (candle.close - position.avgEntryPrice) * (isShort ? -1 : 1);
+      equityCurve.push({ timestamp: candle.timestamp, equity: equity + realizedPnl + unrealized });
     } else {
       equityCurve.push({ timestamp: candle.timestamp, equity });
     }
   }
 
   // Close any open position at the end
-  if (inPosition) {
-    const lastCandle = candles[candles.length - 1];
-    const remainingPnl = remainingSize * (directedPnlPercent(entryPrice, lastCandle.close, isShort) / 100);
-    const totalPnl = partialPnlLocked + remainingPnl;
-    equity += totalPnl;
-    trades.push(makeTrade(entryIndex, candles.length - 1, candles, entryPrice, lastCandle.close, positionSize, isShort ? "short" : "long", totalPnl));
+  if (position) {
+    const lastIndex = candles.length - 1;
+    const open: PositionState = position;
+    fill({ kind: "exit", price: candles[lastIndex].close, quantity: open.remainingQuantity, reason: "end_of_data" }, lastIndex);
     equityCurve[equityCurve.length - 1].equity = equity;
   }
 
-  const metrics = calculateMetrics(trades, equityCurve);
+  const metrics = calculateMetrics(trades, equityCurve, { timeframe: options.timeframe, candles });
+  const regimes = await classifyRegimes(candles, symbol || "BTC/USDT", options.regimes);
+  const trace = options.trace
+    ? { bars: traceBars, indicators: traceIndicatorSeries(allConditions, indicatorCache) }
+    : undefined;
 
-  return { ...metrics, trades, equityCurve };
+  return {
+    ...metrics,
+    trades,
+    equityCurve,
+    benchmarkCurve: benchmarkCurve(candles, INITIAL_EQUITY),
+    regimes: regimeBreakdown(candles, regimes, trades, equityCurve, options.regimes?.source),
+    ...(warnings.length > 0 && { warnings }),
+    trace,
+  };
 }
 
 function makeTrade(
@@ -158,10 +357,10 @@ function makeTrade(
   exitPrice: number,
   positionSize: number,
   side: "long" | "short",
-  pnlOverride?: number
+  pnlAbsolute: number,
+  fees: number,
+  slippageCost: number
 ): Trade {
-  const pnlPercent = directedPnlPercent(entryPrice, exitPrice, side === "short");
-  const pnlAbsolute = pnlOverride !== undefined ? pnlOverride : positionSize * (pnlPercent / 100);
   return {
     entryIndex,
     exitIndex,
@@ -170,7 +369,11 @@ function makeTrade(
     entryPrice,
     exitPrice,
     side,
-    pnlPercent: positionSize > 0 ? (pnlAbsolute / positionSize) * 100 : pnlPercent,
+    pnlPercent: positionSize > 0
+      ? (pnlAbsolute / positionSize) * 100
+      : directedPnlPercent(entryPrice, exitPrice, side === "short"),
     pnlAbsolute,
+    fees,
+    slippageCost,
   };
 }
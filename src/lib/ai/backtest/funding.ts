@@ -0,0 +1,55 @@
+import type { Candle } from "../data/candles";
+import { loadAltDataForCandles } from "../alt-data-indicators";
+import type { StrategyConfig } from "./types";
+import { isPerpetual, type PositionState } from "./strategy-core";
+
+/**
+ * Perpetual funding, shared by the backtester and StrategyExecutor's paper mode.
+ *
+ * USDT perpetuals settle funding every 8 hours (00:00, 08:00, 16:00 UTC): a position pays
+ * notional × rate when the rate is positive and it is long, and receives it when short.
+ * Rates come from the funding_rate series in alt_data_snapshots.
+ */
+
+export const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/** Settlement times in (from, to] */
+export function fundingSettlements(from: number, to: number): number[] {
+  const times: number[] = [];
+  for (let t = (Math.floor(from / FUNDING_INTERVAL_MS) + 1) * FUNDING_INTERVAL_MS; t <= to; t += FUNDING_INTERVAL_MS) {
+    times.push(t);
+  }
+  return times;
+}
+
+/** USD a position receives (+) or pays (-) at one settlement */
+export function fundingPayment(side: "long" | "short", quantity: number, price: number, rate: number): number {
+  return quantity * price * rate * (side === "short" ? 1 : -1);
+}
+
+/** Funding rate per candle (forward-filled), or null when the config trades spot */
+export async function loadFundingRates(
+  config: StrategyConfig,
+  candles: Candle[],
+  symbol: string
+): Promise<(number | undefined)[] | null> {
+  if (!isPerpetual(config)) return null;
+  return loadAltDataForCandles("funding_rate", candles, symbol);
+}
+
+/**
+ * Funding of a position held from the previous candle into this one, at this candle's open
+ * and the last rate known by then. Zero while no rate has been recorded.
+ */
+export function barFunding(
+  candles: Candle[],
+  index: number,
+  rates: (number | undefined)[],
+  position: PositionState
+): number {
+  const rate = rates[index];
+  if (rate === undefined || index === 0) return 0;
+  const settlements = fundingSettlements(candles[index - 1].timestamp, candles[index].timestamp).length;
+  if (settlements === 0) return 0;
+  return settlements * fundingPayment(position.side, position.remainingQuantity, candles[index].open, rate);
+}
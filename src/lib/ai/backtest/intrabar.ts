@@ -0,0 +1,88 @@
+import type { Candle } from "../data/candles";
+
+/**
+ * How to order a bar that touches both the stop and the take-profit.
+ * - pessimistic: assume the stop filled first
+ * - optimistic: assume the take-profit filled first
+ * - drilldown: replay the bar on a lower timeframe; falls back to pessimistic
+ *   when no lower-timeframe data covers it or a sub-bar is itself ambiguous
+ */
+export type IntrabarPolicy = "pessimistic" | "optimistic" | "drilldown";
+
+export interface LevelHit {
+  kind: "stop" | "take";
+  price: number; // fill price before slippage
+}
+
+/** Next lower timeframe used to resolve ambiguous bars */
+export const DRILLDOWN_TIMEFRAME: Record<string, string> = {
+  "5m": "1m",
+  "15m": "1m",
+  "30m": "5m",
+  "1h": "5m",
+  "2h": "15m",
+  "4h": "15m",
+  "6h": "30m",
+  "8h": "1h",
+  "12h": "1h",
+  "1d": "1h",
+  "3d": "4h",
+  "1w": "1d",
+};
+
+/**
+ * Checks a bar against resting stop/take levels using its open, high and low.
+ * A bar that opens beyond a level gapped through it and fills at the open;
+ * otherwise a touched level fills at the level price.
+ */
+export function touchLevels(
+  candle: Candle,
+  isShort: boolean,
+  stopPrice?: number,
+  takePrice?: number
+): { stop?: LevelHit; take?: LevelHit; gapped?: LevelHit } {
+  const result: { stop?: LevelHit; take?: LevelHit; gapped?: LevelHit } = {};
+
+  if (stopPrice !== undefined) {
+    const gapped = isShort ? candle.open >= stopPrice : candle.open <= stopPrice;
+    const touched = isShort ? candle.high >= stopPrice : candle.low <= stopPrice;
+    if (gapped) result.gapped = result.stop = { kind: "stop", price: candle.open };
+    else if (touched) result.stop = { kind: "stop", price: stopPrice };
+  }
+
+  if (takePrice !== undefined && !result.gapped) {
+    const gapped = isShort ? candle.open <= takePrice : candle.open >= takePrice;
+    const touched = isShort ? candle.low <= takePrice : candle.high >= takePrice;
+    if (gapped) result.gapped = result.take = { kind: "take", price: candle.open };
+    else if (touched) result.take = { kind: "take", price: takePrice };
+  }
+
+  return result;
+}
+
+/**
+ * Returns which level a bar filled first, or null if neither was touched.
+ * `subCandles` are the lower-timeframe bars inside this bar, used by the drilldown policy.
+ */
+export function resolveIntrabar(
+  candle: Candle,
+  isShort: boolean,
+  stopPrice: number | undefined,
+  takePrice: number | undefined,
+  policy: IntrabarPolicy,
+  subCandles?: Candle[]
+): LevelHit | null {
+  const touched = touchLevels(candle, isShort, stopPrice, takePrice);
+  if (touched.gapped) return touched.gapped;
+  if (!touched.stop || !touched.take) return touched.stop || touched.take || null;
+
+  // Both levels inside the bar's range — order is unknown from OHLC alone
+  if (policy === "optimistic") return touched.take;
+  if (policy === "drilldown" && subCandles?.length) {
+    for (const sub of subCandles) {
+      const hit = resolveIntrabar(sub, isShort, stopPrice, takePrice, "pessimistic");
+      if (hit) return hit;
+    }
+  }
+  return touched.stop;
+}
@@ -0,0 +1,49 @@
+import type { BacktestJobView, JobEvent } from "./types";
+
+// Browser-side helpers for the backtest job queue; keep this free of server imports
+
+const POLL_INTERVAL = 1500;
+
+/**
+ * Polls a queued job until it completes, fails or is cancelled. `onUpdate` gets every
+ * snapshot with only the events not seen before. Resolves with the final snapshot.
+ */
+export async function pollBacktestJob(
+  id: string,
+  onUpdate?: (job: BacktestJobView, newEvents: JobEvent[]) => void,
+  options: { after?: number; signal?: AbortSignal; intervalMs?: number } = {}
+): Promise<BacktestJobView> {
+  let seen = options.after ?? 0;
+
+  while (true) {
+    const res = await fetch(`/api/ai/backtest/jobs/${id}?after=${seen}`, { signal: options.signal });
+    if (!res.ok) throw new Error("Failed to load job status");
+    const { job } = (await res.json()) as { job: BacktestJobView };
+
+    seen = job.eventCount;
+    onUpdate?.(job, job.events);
+    if (job.status === "completed" || job.status === "failed" || job.status === "cancelled") {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, options.intervalMs ?? POLL_INTERVAL));
+  }
+}
+
+export async function cancelBacktestJob(id: string): Promise<BacktestJobView> {
+  const res = await fetch(`/api/ai/backtest/jobs/${id}/cancel`, { method: "POST" });
+  if (!res.ok) {
+    const err = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(err.error || "Failed to cancel job");
+  }
+  return ((await res.json()) as { job: BacktestJobView }).job;
+}
+
+export async function resumeBacktestJob(id: string): Promise<BacktestJobView> {
+  const res = await fetch(`/api/ai/backtest/jobs/${id}/resume`, { method: "POST" });
+  if (!res.ok) {
+    const err = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(err.error || "Failed to resume job");
+  }
+  return ((await res.json()) as { job: BacktestJobView }).job;
+}
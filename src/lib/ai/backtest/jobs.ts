@@ -0,0 +1,76 @@
+import { db } from "@/lib/db";
+import { backtestJobs, type BacktestJob } from "@/lib/db/schema";
+import type { IntrabarPolicy } from "./intrabar";
+import type { BacktestJobKind, BacktestJobView, JobEvent, RegimeOptions } from "./types";
+
+/** Message of the error a job throws once its cancellation was requested */
+export const JOB_CANCELLED = "Job cancelled";
+
+/** Settings of a single backtest job that are not already on its backtests row */
+export interface BacktestJobParams {
+  intrabarPolicy?: IntrabarPolicy;
+  trace?: boolean;
+  regimes?: RegimeOptions;
+}
+
+/** How a running job reports back; the worker backs it with the job row */
+export interface JobContext {
+  /** Checkpoint saved by an earlier, interrupted run of the same job, or null */
+  resumeFrom: unknown;
+  /** Progress 0-100, written at most every few seconds. Throws JOB_CANCELLED once cancelled. */
+  progress(percent: number, message?: string): Promise<void>;
+  /** Appends a phase event for the UI. Throws JOB_CANCELLED once cancelled. */
+  event(event: JobEvent): Promise<void>;
+  /** State a resumed run continues from if this one is interrupted */
+  checkpoint(state: unknown): Promise<void>;
+}
+
+/** Queues a job for the worker and returns its row */
+export async function enqueueBacktestJob(
+  userId: string,
+  kind: BacktestJobKind,
+  params: unknown,
+  backtestId?: string
+): Promise<BacktestJob> {
+  const [job] = await db
+    .insert(backtestJobs)
+    .values({
+      userId,
+      kind,
+      backtestId: backtestId ?? null,
+      params: JSON.stringify(params),
+    })
+    .returning();
+  return job;
+}
+
+/** Whether a job has stopped for good, successfully or not */
+export function isFinished(job: Pick<BacktestJob, "status">): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+/** The job as the API returns it, with only the events after index `after` */
+export function serializeJob(job: BacktestJob, after = 0): BacktestJobView {
+  const events: JobEvent[] = job.events ? JSON.parse(job.events) : [];
+
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    backtestId: job.backtestId,
+    progress: job.progress,
+    progressMessage: job.progressMessage,
+    cancelRequested: job.cancelRequested,
+    resumable:
+      job.kind === "autopilot" &&
+      job.checkpoint !== null &&
+      (job.status === "failed" || job.status === "cancelled"),
+    errorMessage: job.errorMessage,
+    eventCount: events.length,
+    events: events.slice(Math.max(0, after)),
+    result: job.status === "completed" && job.result ? JSON.parse(job.result) : null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
@@ -1,6 +1,71 @@
+import { timeframeToMs, type Candle } from "../data/candles";
 import type { Trade, EquityPoint } from "./types";
 
-export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[]) {
+const YEAR_MS = 365 * 86_400_000; // crypto trades every day
+
+export interface MetricsContext {
+  timeframe?: string; // spacing of the equity curve; inferred from its timestamps when omitted
+  candles?: Candle[]; // traded candles, for the buy-and-hold benchmark
+}
+
+/** Return of holding from the first candle's open to the last candle's close */
+export function buyAndHoldReturn(candles: Candle[] | undefined): number {
+  if (!candles || candles.length < 2 || candles[0].open <= 0) return 0;
+  return candles[candles.length - 1].close / candles[0].open - 1;
+}
+
+/** Value of `initialEquity` bought at the first candle's open, at every candle's close */
+export function benchmarkCurve(candles: Candle[], initialEquity: number): EquityPoint[] {
+  if (candles.length === 0 || candles[0].open <= 0) return [];
+  const entry = candles[0].open;
+  return candles.map((c, i) => ({
+    timestamp: c.timestamp,
+    equity: i === 0 ? initialEquity : (initialEquity * c.close) / entry,
+  }));
+}
+
+/** Median spacing of the curve, for curves without a known timeframe */
+function medianSpacing(equityCurve: EquityPoint[]): number {
+  const gaps = equityCurve
+    .slice(1)
+    .map((p, i) => p.timestamp - equityCurve[i].timestamp)
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+/** Time the account spent in at least one position, as a share of the curve's span */
+function exposure(trades: Trade[], equityCurve: EquityPoint[]): number {
+  if (equityCurve.length < 2) return 0;
+  const span = equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp;
+  if (span <= 0) return 0;
+
+  // Union of holding intervals, so overlapping portfolio sleeves aren't counted twice
+  const intervals = trades
+    .map((t) => [t.entryTimestamp, t.exitTimestamp] as const)
+    .sort((a, b) => a[0] - b[0]);
+  let covered = 0;
+  let end = -Infinity;
+  for (const [start, stop] of intervals) {
+    if (stop <= end) continue;
+    covered += stop - Math.max(start, end);
+    end = stop;
+  }
+  return Math.min(1, covered / span);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+}
+
+/**
+ * Backtest statistics. Sharpe, Sortino and the tail ratio use per-bar returns of the equity
+ * curve, annualized by the number of `context.timeframe` bars in a year.
+ */
+export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[], context: MetricsContext = {}) {
+  const benchmark = buyAndHoldReturn(context.candles);
+
   if (trades.length === 0) {
     return {
       totalPnl: 0,
@@ -13,6 +78,18 @@ export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[]) {
       avgLoss: 0,
       maxConsecutiveWins: 0,
       maxConsecutiveLosses: 0,
+      totalFees: 0,
+      totalSlippage: 0,
+      totalFunding: 0,
+      grossPnl: 0,
+      sortinoRatio: 0,
+      calmarRatio: 0,
+      maxDrawdownDuration: 0,
+      exposure: 0,
+      expectancy: 0,
+      sqn: 0,
+      tailRatio: 0,
+      buyAndHoldReturn: benchmark,
     };
   }
 
@@ -20,6 +97,10 @@ export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[]) {
   const losses = trades.filter((t) => t.pnlAbsolute <= 0);
 
   const totalPnl = trades.reduce((sum, t) => sum + t.pnlAbsolute, 0);
+  // Trades persisted before the cost model existed carry no fee/slippage fields
+  const totalFees = trades.reduce((sum, t) => sum + (t.fees ?? 0), 0);
+  const totalSlippage = trades.reduce((sum, t) => sum + (t.slippageCost ?? 0), 0);
+  const totalFunding = trades.reduce((sum, t) => sum + (t.funding ?? 0), 0);
   const winRate = wins.length / trades.length;
 
   const avgWin = wins.length > 0
@@ -33,22 +114,59 @@ export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[]) {
   const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnlAbsolute, 0));
   const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0;
 
-  // Max drawdown from equity curve
+  // Max drawdown and the longest stretch below a previous peak, from the equity curve
   let peak = equityCurve[0]?.equity || 10000;
+  let peakTime = equityCurve[0]?.timestamp ?? 0;
   let maxDrawdown = 0;
+  let maxDrawdownDuration = 0;
   for (const point of equityCurve) {
-    if (point.equity > peak) peak = point.equity;
+    if (point.equity >= peak) {
+      peak = point.equity;
+      peakTime = point.timestamp;
+    }
     const dd = (peak - point.equity) / peak;
     if (dd > maxDrawdown) maxDrawdown = dd;
+    if (dd > 0) maxDrawdownDuration = Math.max(maxDrawdownDuration, point.timestamp - peakTime);
   }
 
-  // Sharpe ratio (annualized, using trade returns)
-  const returns = trades.map((t) => t.pnlPercent / 100);
-  const avgReturn = returns.reduce((s, r) => s + r, 0) / returns.length;
-  const stdReturn = Math.sqrt(
-    returns.reduce((s, r) => s + (r - avgReturn) ** 2, 0) / returns.length
+  // Per-bar returns of the equity curve, annualized by bars per year
+  const barMs = context.timeframe ? timeframeToMs(context.timeframe) : medianSpacing(equityCurve);
+  const annualization = barMs > 0 ? Math.sqrt(YEAR_MS / barMs) : 0;
+  const returns = equityCurve
+    .slice(1)
+    .map((p, i) => (equityCurve[i].equity > 0 ? p.equity / equityCurve[i].equity - 1 : 0));
+  const avgReturn = returns.length > 0 ? returns.reduce((s, r) => s + r, 0) / returns.length : 0;
+  const stdReturn = returns.length > 0
+    ? Math.sqrt(returns.reduce((s, r) => s + (r - avgReturn) ** 2, 0) / returns.length)
+    : 0;
+  const downsideDev = returns.length > 0
+    ? Math.sqrt(returns.reduce((s, r) => s + Math.min(r, 0) ** 2, 0) / returns.length)
+    : 0;
+  const sharpeRatio = stdReturn > 0 ? (avgReturn / stdReturn) * annualization : 0;
+  const sortinoRatio = downsideDev > 0 ? (avgReturn / downsideDev) * annualization : 0;
+
+  // Calmar: annualized return over max drawdown
+  const startEquity = equityCurve[0]?.equity || 10000;
+  const endEquity = equityCurve[equityCurve.length - 1]?.equity ?? startEquity;
+  const years = equityCurve.length > 1
+    ? (equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp) / YEAR_MS
+    : 0;
+  const annualReturn = years > 0 && endEquity > 0 ? (endEquity / startEquity) ** (1 / years) - 1 : 0;
+  const calmarRatio = maxDrawdown > 0 ? annualReturn / maxDrawdown : 0;
+
+  // Tail ratio: size of the best 5% of bars against the worst 5%
+  const sortedReturns = returns.filter((r) => r !== 0).sort((a, b) => a - b);
+  const leftTail = Math.abs(percentile(sortedReturns, 0.05));
+  const tailRatio = leftTail > 0 ? Math.abs(percentile(sortedReturns, 0.95)) / leftTail : 0;
+
+  // Expectancy in USD per trade, and Van Tharp's SQN over per-trade returns
+  const expectancy = totalPnl / trades.length;
+  const tradeReturns = trades.map((t) => t.pnlPercent / 100);
+  const avgTradeReturn = tradeReturns.reduce((s, r) => s + r, 0) / tradeReturns.length;
+  const stdTradeReturn = Math.sqrt(
+    tradeReturns.reduce((s, r) => s + (r - avgTradeReturn) ** 2, 0) / tradeReturns.length
   );
-  const sharpeRatio = stdReturn > 0 ? (avgReturn / stdReturn) * Math.sqrt(252) : 0;
+  const sqn = stdTradeReturn > 0 ? (avgTradeReturn / stdTradeReturn) * Math.sqrt(trades.length) : 0;
 
   // Consecutive wins/losses
   let maxConsecutiveWins = 0;
@@ -78,5 +196,17 @@ export function calculateMetrics(trades: Trade[], equityCurve: EquityPoint[]) {
     avgLoss,
     maxConsecutiveWins,
     maxConsecutiveLosses,
+    totalFees,
+    totalSlippage,
+    totalFunding,
+    grossPnl: totalPnl + totalFees + totalSlippage - totalFunding,
+    sortinoRatio,
+    calmarRatio,
+    maxDrawdownDuration,
+    exposure: exposure(trades, equityCurve),
+    expectancy,
+    sqn,
+    tailRatio,
+    buyAndHoldReturn: benchmark,
   };
 }
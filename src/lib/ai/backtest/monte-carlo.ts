@@ -0,0 +1,167 @@
+import type {
+  Trade,
+  MonteCarloMethod,
+  MonteCarloOptions,
+  MonteCarloRun,
+  MonteCarloResult,
+  PercentileBands,
+} from "./types";
+import { seededRandom } from "./optimizer";
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_SKIP_PROBABILITY = 0.1;
+const DEFAULT_RUIN_DRAWDOWN = 0.5;
+const INITIAL_EQUITY = 10000;
+
+/** Linear-interpolated percentile of an ascending array, `p` in [0, 1] */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function bands(values: number[]): PercentileBands {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+  };
+}
+
+/**
+ * Each trade's return on the equity it was sized from. Positions are sized as a share of
+ * equity, so paths compound these returns instead of adding fixed USD amounts.
+ */
+function tradeReturns(trades: Trade[], initialEquity: number): number[] {
+  let equity = initialEquity;
+  return trades.map((trade) => {
+    const r = equity > 0 ? trade.pnlAbsolute / equity : 0;
+    equity += trade.pnlAbsolute;
+    return r;
+  });
+}
+
+/** Equity after each return, starting at `initialEquity` */
+function equityPath(returns: number[], initialEquity: number): number[] {
+  const path = [initialEquity];
+  let equity = initialEquity;
+  for (const r of returns) {
+    equity = Math.max(0, equity * (1 + r));
+    path.push(equity);
+  }
+  return path;
+}
+
+function pathDrawdown(path: number[]): number {
+  let peak = path[0];
+  let maxDrawdown = 0;
+  for (const equity of path) {
+    if (equity > peak) peak = equity;
+    const dd = peak > 0 ? (peak - equity) / peak : 0;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+  }
+  return maxDrawdown;
+}
+
+/** One reordered/resampled sequence of returns; every method keeps the path length */
+function sampleReturns(
+  returns: number[],
+  method: MonteCarloMethod,
+  random: () => number,
+  skipProbability: number
+): number[] {
+  switch (method) {
+    case "shuffle": {
+      // Fisher-Yates shuffle
+      const shuffled = [...returns];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+    case "bootstrap":
+      return returns.map(() => returns[Math.floor(random() * returns.length)]);
+    case "skip":
+      // A missed trade leaves equity flat for that step
+      return returns.map((r) => (random() < skipProbability ? 0 : r));
+  }
+}
+
+function simulate(
+  returns: number[],
+  method: MonteCarloMethod,
+  iterations: number,
+  initialEquity: number,
+  ruinDrawdown: number,
+  skipProbability: number,
+  random: () => number
+): MonteCarloRun {
+  const ruinEquity = initialEquity * (1 - ruinDrawdown);
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  // stepValues[i] holds every path's equity after i trades
+  const stepValues: number[][] = Array.from({ length: returns.length + 1 }, () => []);
+  let ruined = 0;
+  let losing = 0;
+
+  for (let n = 0; n < iterations; n++) {
+    const path = equityPath(sampleReturns(returns, method, random, skipProbability), initialEquity);
+    const final = path[path.length - 1];
+    finals.push(final);
+    drawdowns.push(pathDrawdown(path));
+    if (path.some((equity) => equity <= ruinEquity)) ruined++;
+    if (final < initialEquity) losing++;
+    path.forEach((equity, i) => stepValues[i].push(equity));
+  }
+
+  return {
+    method,
+    finalEquity: bands(finals),
+    maxDrawdown: bands(drawdowns),
+    riskOfRuin: ruined / iterations,
+    probabilityOfLoss: losing / iterations,
+    equityBands: stepValues.map(bands),
+  };
+}
+
+/**
+ * Monte Carlo robustness analysis of a backtest's trades. Shuffling shows how much of the
+ * drawdown was the luck of trade ordering, bootstrap resampling how much the result depends on
+ * a few outliers, and skipping how it holds up when some signals are missed.
+ * Drawdowns are measured trade-to-trade, so they ignore open-position swings.
+ */
+export function runMonteCarlo(trades: Trade[], options: MonteCarloOptions = {}): MonteCarloResult {
+  const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+  const methods = options.methods?.length ? options.methods : (["shuffle", "bootstrap", "skip"] as MonteCarloMethod[]);
+  const initialEquity = options.initialEquity ?? INITIAL_EQUITY;
+  const ruinDrawdown = options.ruinDrawdown ?? DEFAULT_RUIN_DRAWDOWN;
+  const skipProbability = options.skipProbability ?? DEFAULT_SKIP_PROBABILITY;
+
+  const returns = tradeReturns(trades, initialEquity);
+  const originalEquity = equityPath(returns, initialEquity);
+
+  const result: MonteCarloResult = {
+    iterations,
+    tradeCount: trades.length,
+    initialEquity,
+    originalFinalEquity: originalEquity[originalEquity.length - 1],
+    originalMaxDrawdown: pathDrawdown(originalEquity),
+    originalEquity,
+    runs: [],
+  };
+
+  if (trades.length === 0) return result;
+
+  const random = seededRandom(options.seed ?? 1);
+  result.runs = methods.map((method) =>
+    simulate(returns, method, iterations, initialEquity, ruinDrawdown, skipProbability, random)
+  );
+
+  return result;
+}
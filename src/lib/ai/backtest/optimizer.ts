@@ -0,0 +1,147 @@
+import type { Candle } from "../data/candles";
+import type {
+  StrategyConfig,
+  BacktestResult,
+  BacktestOptions,
+  ParameterRange,
+  OptimizationObjective,
+  WalkForwardOptimization,
+} from "./types";
+import { runBacktest } from "./engine";
+
+const DEFAULT_MAX_TRIALS = 200;
+
+export interface OptimizationResult {
+  params: Record<string, number>;
+  config: StrategyConfig;
+  result: BacktestResult;
+  score: number;
+  trials: number;
+}
+
+/** The values a parameter takes; a min/max range includes both ends */
+export function expandRange(range: ParameterRange): number[] {
+  if (range.values?.length) return range.values;
+  if (range.min === undefined || range.max === undefined) return [];
+
+  const step = range.step && range.step > 0 ? range.step : (range.max - range.min) / 4 || 1;
+  const values: number[] = [];
+  for (let v = range.min; v <= range.max + step * 1e-9; v += step) {
+    values.push(Number(v.toFixed(10)));
+  }
+  return values;
+}
+
+/** Copy of `config` with each dotted path set to its value */
+export function applyParams(config: StrategyConfig, params: Record<string, number>): StrategyConfig {
+  const copy: StrategyConfig = JSON.parse(JSON.stringify(config));
+
+  for (const [path, value] of Object.entries(params)) {
+    const segments = path.split(".");
+    let target: Record<string, unknown> = copy as unknown as Record<string, unknown>;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const next = target[segments[i]];
+      if (next === undefined || next === null || typeof next !== "object") {
+        // Create missing objects so e.g. "entryConditions.0.params.period" works without params
+        target[segments[i]] = {};
+      }
+      target = target[segments[i]] as Record<string, unknown>;
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+
+  return copy;
+}
+
+/** Higher is better. A window without trades can't be judged and never wins. */
+export function scoreResult(result: BacktestResult, objective: OptimizationObjective): number {
+  if (result.totalTrades === 0) return -Infinity;
+
+  switch (objective) {
+    case "sharpe":
+      return result.sharpeRatio;
+    case "profit_factor":
+      return result.profitFactor;
+    case "calmar": {
+      const startEquity = result.equityCurve[0]?.equity || 10000;
+      const totalReturn = result.totalPnl / startEquity;
+      return result.maxDrawdown > 0 ? totalReturn / result.maxDrawdown : totalReturn > 0 ? 999 : 0;
+    }
+  }
+}
+
+/** Small seeded PRNG (mulberry32) so random searches and simulations can be replayed */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Parameter sets to evaluate: the full grid, or a random sample of it */
+function buildTrials(optimization: WalkForwardOptimization): Record<string, number>[] {
+  const axes = optimization.parameters
+    .map((range) => ({ path: range.path, values: expandRange(range) }))
+    .filter((axis) => axis.values.length > 0);
+  if (axes.length === 0) return [];
+
+  const maxTrials = optimization.maxTrials ?? DEFAULT_MAX_TRIALS;
+  const gridSize = axes.reduce((n, axis) => n * axis.values.length, 1);
+
+  if (optimization.search !== "random" && gridSize <= maxTrials) {
+    let combos: Record<string, number>[] = [{}];
+    for (const axis of axes) {
+      combos = combos.flatMap((combo) => axis.values.map((v) => ({ ...combo, [axis.path]: v })));
+    }
+    return combos;
+  }
+
+  const random = seededRandom(optimization.seed ?? 1);
+  const seen = new Set<string>();
+  const trials: Record<string, number>[] = [];
+  const target = Math.min(maxTrials, gridSize);
+  // Bounded attempts so duplicate draws can't loop forever
+  for (let attempt = 0; trials.length < target && attempt < target * 20; attempt++) {
+    const combo: Record<string, number> = {};
+    for (const axis of axes) {
+      combo[axis.path] = axis.values[Math.floor(random() * axis.values.length)];
+    }
+    const key = JSON.stringify(combo);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    trials.push(combo);
+  }
+  return trials;
+}
+
+/**
+ * Searches the parameter space of a config template on `candles` and returns the best
+ * parameter set by `optimization.objective`. Returns null when no range yields a value.
+ */
+export async function optimizeParameters(
+  candles: Candle[],
+  template: StrategyConfig,
+  optimization: WalkForwardOptimization,
+  symbol?: string,
+  options: BacktestOptions = {}
+): Promise<OptimizationResult | null> {
+  const objective = optimization.objective ?? "sharpe";
+  const trials = buildTrials(optimization);
+  if (trials.length === 0) return null;
+
+  let best: OptimizationResult | null = null;
+  for (const params of trials) {
+    const config = applyParams(template, params);
+    const result = await runBacktest(candles, config, symbol, options);
+    const score = scoreResult(result, objective);
+    if (!best || score > best.score) {
+      best = { params, config, result, score, trials: trials.length };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,376 @@
+import { timeframeToMs, type Candle } from "../data/candles";
+import type {
+  Trade,
+  EquityPoint,
+  PortfolioSleeve,
+  PortfolioOptions,
+  PortfolioSleeveResult,
+  PortfolioResult,
+} from "./types";
+import { calculateMetrics, buyAndHoldReturn } from "./metrics";
+import {
+  cacheConditionIndicators,
+  cacheAltIndicators,
+  cacheCustomIndicators,
+  cacheTimeframeIndicators,
+  flattenConditions,
+} from "./conditions";
+import { resolveCosts, applySlippage, type ResolvedCosts } from "./costs";
+import { cacheSizingIndicators, positionBudget, tradeStats } from "./sizing";
+import { barFunding, loadFundingRates } from "./funding";
+import {
+  DUST_NOTIONAL,
+  applyFill,
+  bankruptcyPrice,
+  checkDca,
+  checkEntry,
+  checkExits,
+  leverageOf,
+  trackExtreme,
+  type BarContext,
+  type OrderIntent,
+  type PositionState,
+} from "./strategy-core";
+
+const INITIAL_CAPITAL = 10000;
+/** StrategyExecutor refuses entries whose cap is below this */
+const MIN_ENTRY_USD = 10;
+
+interface SleeveState {
+  id: string;
+  name: string;
+  sleeve: PortfolioSleeve;
+  candles: Candle[];
+  tfMs: number;
+  indicatorCache: Map<string, (number | undefined)[]>;
+  costs: ResolvedCosts;
+  fundingRates: (number | undefined)[] | null; // perp sleeves only
+  isShort: boolean;
+  leverage: number;
+  position: PositionState | null;
+  entryIndex: number;
+  budget: number;          // USD notional the open position may use in total
+  positionSize: number;    // USD margin committed so far, across DCA portions
+  realizedPnl: number;     // net PnL of the open trade so far, fees included
+  tradeFees: number;
+  tradeSlippage: number;
+  tradeFunding: number;
+  closedPnl: number;
+  lastClose: number;
+  skippedEntries: number;
+  trades: Trade[];
+  pnlCurve: EquityPoint[];
+}
+
+async function createSleeveState(
+  sleeve: PortfolioSleeve,
+  candles: Candle[],
+  index: number,
+  options: PortfolioOptions
+): Promise<SleeveState> {
+  const { config } = sleeve;
+  const indicatorCache = new Map<string, (number | undefined)[]>();
+  const allConditions = flattenConditions([...config.entryConditions, ...config.exitConditions]);
+
+  cacheConditionIndicators(indicatorCache, allConditions, candles);
+  cacheSizingIndicators(indicatorCache, config, candles);
+  await cacheAltIndicators(indicatorCache, allConditions, candles, sleeve.symbol);
+  await cacheCustomIndicators(indicatorCache, allConditions, candles, sleeve.symbol, options.customIndicators);
+  await cacheTimeframeIndicators(indicatorCache, allConditions, candles, sleeve.symbol, sleeve.timeframe);
+
+  return {
+    id: sleeve.id ?? `sleeve-${index + 1}`,
+    name: sleeve.name ?? config.name ?? `${sleeve.symbol} ${sleeve.timeframe ?? ""}`.trim(),
+    sleeve,
+    candles,
+    tfMs: sleeve.timeframe ? timeframeToMs(sleeve.timeframe) : 0,
+    indicatorCache,
+    costs: resolveCosts(options.costs, candles),
+    fundingRates: await loadFundingRates(config, candles, sleeve.symbol),
+    isShort: config.side === "short",
+    leverage: leverageOf(config),
+    position: null,
+    entryIndex: 0,
+    budget: 0,
+    positionSize: 0,
+    realizedPnl: 0,
+    tradeFees: 0,
+    tradeSlippage: 0,
+    tradeFunding: 0,
+    closedPnl: 0,
+    lastClose: candles[0]?.close ?? 0,
+    skippedEntries: 0,
+    trades: [],
+    pnlCurve: [],
+  };
+}
+
+/** Mark-to-market value of a sleeve's open position: its margin plus unrealized PnL */
+function openValue(state: SleeveState): number {
+  const p = state.position;
+  if (!p) return 0;
+  const unrealized = p.remainingQuantity * (state.lastClose - p.avgEntryPrice) * (state.isShort ? -1 : 1);
+  return (p.remainingQuantity * p.avgEntryPrice) / state.leverage + unrealized;
+}
+
+function sleevePnl(state: SleeveState): number {
+  if (!state.position) return state.closedPnl;
+  const p = state.position;
+  const unrealized = p.remainingQuantity * (state.lastClose - p.avgEntryPrice) * (state.isShort ? -1 : 1);
+  return state.closedPnl + state.realizedPnl + unrealized;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+/**
+ * Backtests several strategy/symbol sleeves on one shared capital pool, the way
+ * StrategyExecutor runs operational strategies against one balance.
+ *
+ * Bars of all sleeves are replayed in order of their close time. An entry is sized like a live
+ * one: min(maxCapUsd, free capital × maxCapPercent) of margin, times the sleeve's leverage,
+ * split across DCA portions, and is skipped when the cap is under $10, when the capital isn't
+ * free, or when `maxConcurrentStrategies` sleeves already hold positions. Decisions come from
+ * ./strategy-core like in runBacktest, and perp sleeves settle funding and get liquidated
+ * against the pool the same way. Limit entry/exit orders are not replayed here: every order
+ * fills at market.
+ *
+ * `candlesBySleeve[i]` are the candles of `sleeves[i]`.
+ */
+export async function runPortfolioBacktest(
+  sleeves: PortfolioSleeve[],
+  candlesBySleeve: Candle[][],
+  options: PortfolioOptions = {}
+): Promise<PortfolioResult> {
+  const initialCapital = options.initialCapital ?? INITIAL_CAPITAL;
+  const maxConcurrent = options.maxConcurrentStrategies ?? Infinity;
+  const intrabarPolicy = options.intrabarPolicy ?? "pessimistic";
+
+  const states = await Promise.all(
+    sleeves.map((sleeve, i) => createSleeveState(sleeve, candlesBySleeve[i] ?? [], i, options))
+  );
+
+  let cash = initialCapital;
+  let maxConcurrentPositions = 0;
+
+  /** Fills an intent for a sleeve, moving margin between the pool and the position */
+  function fill(state: SleeveState, intent: OrderIntent, index: number) {
+    const side = state.isShort ? "short" : "long";
+    const isBuy = intent.kind === "entry" || intent.kind === "dca";
+    const entrySide = state.isShort ? "sell" : "buy";
+    const exitSide = state.isShort ? "buy" : "sell";
+    const liquidated = intent.kind === "exit" && intent.reason === "liquidation";
+    const fillPrice = liquidated
+      ? bankruptcyPrice(state.position!, state.leverage)
+      : applySlippage(intent.price, isBuy ? entrySide : exitSide, state.costs.slippageRates[index]);
+
+    let quantity: number;
+    if (intent.kind === "entry" || intent.kind === "dca") {
+      const notional = state.budget * intent.budgetFraction;
+      quantity = notional / fillPrice;
+      state.positionSize += notional / state.leverage;
+      cash -= notional / state.leverage;
+    } else {
+      quantity = intent.quantity;
+      const pnl = quantity * (fillPrice - state.position!.avgEntryPrice) * (state.isShort ? -1 : 1);
+      state.realizedPnl += pnl;
+      cash += (quantity * state.position!.avgEntryPrice) / state.leverage + pnl;
+    }
+
+    if (!liquidated) {
+      const fee = quantity * fillPrice * state.costs.takerRate;
+      state.tradeFees += fee;
+      state.realizedPnl -= fee;
+      cash -= fee;
+      state.tradeSlippage += quantity * Math.abs(fillPrice - intent.price);
+    }
+
+    const avgEntryPrice = state.position?.avgEntryPrice ?? fillPrice;
+    const entries = state.position?.dcaFilled ?? 0;
+    state.position = applyFill(state.position, intent, fillPrice, quantity);
+
+    if (intent.kind === "exit") {
+      const entryCandle = state.candles[state.entryIndex];
+      state.closedPnl += state.realizedPnl;
+      state.trades.push({
+        entryIndex: state.entryIndex,
+        exitIndex: index,
+        entryTimestamp: entryCandle.timestamp,
+        exitTimestamp: state.candles[index].timestamp,
+        entryPrice: avgEntryPrice,
+        exitPrice: fillPrice,
+        side,
+        pnlPercent: state.positionSize > 0 ? (state.realizedPnl / state.positionSize) * 100 : 0,
+        pnlAbsolute: state.realizedPnl,
+        fees: state.tradeFees,
+        slippageCost: state.tradeSlippage,
+        ...(state.fundingRates && { funding: state.tradeFunding }),
+        ...(state.leverage > 1 && { leverage: state.leverage }),
+        ...(liquidated && { liquidationPrice: intent.price }),
+        exitReason: intent.reason,
+        entries,
+      });
+      state.realizedPnl = 0;
+    }
+  }
+
+  function step(state: SleeveState, i: number) {
+    const { config } = state.sleeve;
+    const candle = state.candles[i];
+    const bar: BarContext = { candle, index: i, indicatorCache: state.indicatorCache };
+    const minRemaining = Math.max(DUST_NOTIONAL, state.costs.minNotionalUsd);
+    state.lastClose = candle.close;
+
+    if (state.position) {
+      if (state.fundingRates) {
+        const funding = barFunding(state.candles, i, state.fundingRates, state.position);
+        state.realizedPnl += funding;
+        state.tradeFunding += funding;
+        cash += funding;
+      }
+
+      const dca = checkDca(config, state.position, candle);
+      if (dca) {
+        const notional = state.budget * dca.budgetFraction;
+        // A portion the pool can't pay for stays pending, as a rejected live order would
+        if (notional >= state.costs.minNotionalUsd && notional / state.leverage + notional * state.costs.takerRate <= cash) {
+          fill(state, dca, i);
+        }
+      }
+
+      for (const exit of checkExits(config, state.position, bar, intrabarPolicy, undefined, minRemaining)) {
+        fill(state, exit, i);
+      }
+
+      if (state.position) state.position = trackExtreme(state.position, candle);
+      return;
+    }
+
+    const entry = checkEntry(config, bar);
+    if (!entry) return;
+
+    const openPositions = states.filter((s) => s.position).length;
+    const capPercent = state.sleeve.maxCapPercent ?? config.positionSizePercent;
+    const cap = Math.min(state.sleeve.maxCapUsd ?? Infinity, cash * (capPercent / 100));
+    let budget = cap * state.leverage;
+    // A sizing model sizes from the whole portfolio; the allocation caps still bound it
+    if (config.sizing && config.sizing.model !== "percent") {
+      const equity = cash + states.reduce((sum, s) => sum + openValue(s), 0);
+      const history = tradeStats(state.trades.map((t) => t.pnlAbsolute));
+      budget = Math.min(budget, positionBudget(config, { equity, price: entry.price, bar, history }));
+    }
+    const notional = budget * entry.budgetFraction;
+
+    if (
+      openPositions >= maxConcurrent ||
+      budget / state.leverage < MIN_ENTRY_USD ||
+      notional < state.costs.minNotionalUsd ||
+      notional / state.leverage + notional * state.costs.takerRate > cash
+    ) {
+      state.skippedEntries++;
+      return;
+    }
+
+    state.entryIndex = i;
+    state.budget = budget;
+    state.positionSize = 0;
+    state.realizedPnl = 0;
+    state.tradeFees = 0;
+    state.tradeSlippage = 0;
+    state.tradeFunding = 0;
+    fill(state, entry, i);
+    maxConcurrentPositions = Math.max(maxConcurrentPositions, openPositions + 1);
+  }
+
+  // Every bar after the first of every sleeve, ordered by close time, then sleeve order
+  const events: { closeTime: number; sleeve: number; index: number }[] = [];
+  states.forEach((state, s) => {
+    for (let i = 1; i < state.candles.length; i++) {
+      events.push({ closeTime: state.candles[i].timestamp + state.tfMs, sleeve: s, index: i });
+    }
+  });
+  events.sort((a, b) => a.closeTime - b.closeTime || a.sleeve - b.sleeve);
+
+  const startTime = Math.min(...states.map((s) => (s.candles[0] ? s.candles[0].timestamp + s.tfMs : Infinity)));
+  const equityCurve: EquityPoint[] = [{ timestamp: Number.isFinite(startTime) ? startTime : Date.now(), equity: initialCapital }];
+  for (const state of states) state.pnlCurve.push({ timestamp: equityCurve[0].timestamp, equity: 0 });
+
+  function record(timestamp: number) {
+    const equity = cash + states.reduce((sum, s) => sum + openValue(s), 0);
+    equityCurve.push({ timestamp, equity });
+    for (const state of states) state.pnlCurve.push({ timestamp, equity: sleevePnl(state) });
+  }
+
+  for (let e = 0; e < events.length; e++) {
+    const event = events[e];
+    step(states[event.sleeve], event.index);
+    if (e === events.length - 1 || events[e + 1].closeTime !== event.closeTime) record(event.closeTime);
+  }
+
+  // Close open positions at each sleeve's last candle
+  let closedAtEnd = false;
+  for (const state of states) {
+    if (!state.position) continue;
+    const lastIndex = state.candles.length - 1;
+    const open: PositionState = state.position;
+    fill(state, { kind: "exit", price: state.candles[lastIndex].close, quantity: open.remainingQuantity, reason: "end_of_data" }, lastIndex);
+    closedAtEnd = true;
+  }
+  if (closedAtEnd && equityCurve.length > 1) {
+    equityCurve[equityCurve.length - 1].equity = cash;
+    for (const state of states) state.pnlCurve[state.pnlCurve.length - 1].equity = state.closedPnl;
+  }
+
+  const allTrades = states
+    .flatMap((s) => s.trades)
+    .sort((a, b) => a.exitTimestamp - b.exitTimestamp);
+  const metrics = calculateMetrics(allTrades, equityCurve);
+  // Benchmark: the initial capital split equally across the sleeves' symbols and held
+  const benchmarks = states.map((s) => buyAndHoldReturn(s.candles));
+  metrics.buyAndHoldReturn = benchmarks.length > 0 ? benchmarks.reduce((sum, r) => sum + r, 0) / benchmarks.length : 0;
+  const portfolioPnl = cash - initialCapital;
+
+  const changes = states.map((s) => s.pnlCurve.slice(1).map((p, i) => p.equity - s.pnlCurve[i].equity));
+  const correlation = changes.map((a, i) => changes.map((b, j) => (i === j ? 1 : pearson(a, b))));
+
+  const sleeveResults: PortfolioSleeveResult[] = states.map((state) => {
+    const sleeveMetrics = calculateMetrics(state.trades, []);
+    return {
+      id: state.id,
+      name: state.name,
+      symbol: state.sleeve.symbol,
+      totalPnl: state.closedPnl,
+      returnContribution: (state.closedPnl / initialCapital) * 100,
+      pnlShare: portfolioPnl !== 0 ? state.closedPnl / portfolioPnl : 0,
+      winRate: sleeveMetrics.winRate,
+      totalTrades: state.trades.length,
+      totalFees: sleeveMetrics.totalFees,
+      skippedEntries: state.skippedEntries,
+      trades: state.trades,
+      pnlCurve: state.pnlCurve,
+    };
+  });
+
+  return {
+    ...metrics,
+    trades: allTrades,
+    equityCurve,
+    initialCapital,
+    sleeves: sleeveResults,
+    correlation,
+    maxConcurrentPositions,
+  };
+}
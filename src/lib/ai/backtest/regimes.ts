@@ -0,0 +1,119 @@
+import type { Candle } from "../data/candles";
+import { calculateIndicator } from "../indicators";
+import { loadAltDataForCandles } from "../alt-data-indicators";
+import type {
+  Trade,
+  EquityPoint,
+  MarketRegime,
+  RegimeOptions,
+  RegimeBreakdown,
+  RegimePeriod,
+  RegimeStats,
+} from "./types";
+
+const DEFAULT_SMA_PERIOD = 50;
+const DEFAULT_SLOPE_BARS = 10;
+const DEFAULT_ATR_PERIOD = 14;
+const DEFAULT_TREND_THRESHOLD = 1;
+/** Fear & Greed at or above this reads as an up trend, at or below 100 minus it as a down trend */
+const GREED_LEVEL = 55;
+
+const REGIMES: MarketRegime[] = ["trend_up", "trend_down", "range"];
+
+function numericSeries(candles: Candle[], indicator: "sma" | "atr", period: number): (number | undefined)[] {
+  return calculateIndicator(indicator, candles, { period }).values.map((v) => (typeof v === "number" ? v : undefined));
+}
+
+/**
+ * Regime of every candle, undefined while the classifier warms up (or has no data).
+ * - sma_atr: the SMA's move over the last `slopeBars` bars, in ATRs; beyond ±`trendThreshold`
+ *   is a trend, anything flatter a range
+ * - fear_greed: the Fear & Greed Index from alt data; greed is an up trend, fear a down trend
+ */
+export async function classifyRegimes(
+  candles: Candle[],
+  symbol: string,
+  options: RegimeOptions = {}
+): Promise<(MarketRegime | undefined)[]> {
+  if (options.source === "fear_greed") {
+    const values = await loadAltDataForCandles("fear_greed", candles, symbol);
+    return values.map((v) => {
+      if (v === undefined) return undefined;
+      return v >= GREED_LEVEL ? "trend_up" : v <= 100 - GREED_LEVEL ? "trend_down" : "range";
+    });
+  }
+
+  const slopeBars = options.slopeBars ?? DEFAULT_SLOPE_BARS;
+  const threshold = options.trendThreshold ?? DEFAULT_TREND_THRESHOLD;
+  const sma = numericSeries(candles, "sma", options.smaPeriod ?? DEFAULT_SMA_PERIOD);
+  const atr = numericSeries(candles, "atr", options.atrPeriod ?? DEFAULT_ATR_PERIOD);
+
+  return candles.map((_, i) => {
+    const now = sma[i];
+    const before = i >= slopeBars ? sma[i - slopeBars] : undefined;
+    const range = atr[i];
+    if (now === undefined || before === undefined || !range) return undefined;
+    const slope = (now - before) / range;
+    return slope > threshold ? "trend_up" : slope < -threshold ? "trend_down" : "range";
+  });
+}
+
+/** Consecutive candles of one regime, as time spans for chart bands */
+function regimePeriods(candles: Candle[], regimes: (MarketRegime | undefined)[]): RegimePeriod[] {
+  const periods: RegimePeriod[] = [];
+  regimes.forEach((regime, i) => {
+    if (!regime) return;
+    const last = periods[periods.length - 1];
+    if (last && last.regime === regime && regimes[i - 1] === regime) {
+      last.end = candles[i].timestamp;
+    } else {
+      periods.push({ regime, start: candles[i].timestamp, end: candles[i].timestamp });
+    }
+  });
+  return periods;
+}
+
+/**
+ * Strategy performance split by regime. Bar returns of the equity curve and of holding the
+ * symbol are compounded over the bars of each regime; trades count toward the regime they
+ * entered in. `equityCurve[i]` must be the equity at `candles[i]`, as runBacktest records it.
+ */
+export function regimeBreakdown(
+  candles: Candle[],
+  regimes: (MarketRegime | undefined)[],
+  trades: Trade[],
+  equityCurve: EquityPoint[],
+  source: RegimeOptions["source"] = "sma_atr"
+): RegimeBreakdown {
+  const classified = regimes.filter((r) => r !== undefined).length;
+
+  const stats: RegimeStats[] = REGIMES.map((regime) => {
+    let bars = 0;
+    let strategyGrowth = 1;
+    let benchmarkGrowth = 1;
+    for (let i = 1; i < candles.length; i++) {
+      if (regimes[i] !== regime) continue;
+      bars++;
+      const prevEquity = equityCurve[i - 1]?.equity;
+      const equity = equityCurve[i]?.equity;
+      if (prevEquity && equity !== undefined) strategyGrowth *= equity / prevEquity;
+      if (candles[i - 1].close > 0) benchmarkGrowth *= candles[i].close / candles[i - 1].close;
+    }
+
+    const entered = trades.filter((t) => regimes[t.entryIndex] === regime);
+    const wins = entered.filter((t) => t.pnlAbsolute > 0).length;
+    return {
+      regime,
+      bars,
+      share: classified > 0 ? bars / classified : 0,
+      trades: entered.length,
+      winRate: entered.length > 0 ? wins / entered.length : 0,
+      totalPnl: entered.reduce((sum, t) => sum + t.pnlAbsolute, 0),
+      avgPnlPercent: entered.length > 0 ? entered.reduce((sum, t) => sum + t.pnlPercent, 0) / entered.length : 0,
+      strategyReturn: strategyGrowth - 1,
+      buyAndHoldReturn: benchmarkGrowth - 1,
+    };
+  });
+
+  return { source, periods: regimePeriods(candles, regimes), stats };
+}
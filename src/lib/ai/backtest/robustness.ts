@@ -0,0 +1,220 @@
+import type { Candle } from "../data/candles";
+import type {
+  BacktestOptions,
+  BacktestResult,
+  RobustnessChecks,
+  RobustnessReport,
+  SensitivityVariant,
+  StrategyConfig,
+  Trade,
+  TrialStats,
+} from "./types";
+import { runBacktest } from "./engine";
+
+/**
+ * Overfitting checks for the winners of a strategy search. Keeping the best of thousands of
+ * variants selects for luck, so each result is scored on:
+ *  - the deflated Sharpe ratio (Bailey & López de Prado): the probability its per-trade Sharpe
+ *    beats the best one expected from that many variants with no edge at all
+ *  - its trade count, below MIN_TRADES the statistics say little
+ *  - parameter sensitivity: the profit kept when the stop loss or take profit moves by 10%
+ *  - the lookahead warnings of its alt data (see loadAltDataForCandles)
+ */
+
+export const MIN_TRADES = 20;
+const SENSITIVITY_FACTORS = [0.9, 1.1];
+const COLLAPSE_RETAINED = 0.5; // a variant keeping less of the profit than this collapses the result
+const EULER_GAMMA = 0.5772156649015329;
+
+// Points per check; a check that does not apply is left out of the total
+const WEIGHTS = { deflatedSharpe: 40, trades: 20, sensitivity: 30, lookahead: 10 };
+
+function normalCdf(x: number): number {
+  // Abramowitz & Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Inverse of normalCdf for p in (0, 1) (Acklam's rational approximation) */
+function inverseNormalCdf(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -inverseNormalCdf(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Mean, Sharpe, skewness and (non-excess) kurtosis of per-trade returns */
+function tradeMoments(trades: Trade[]) {
+  const returns = trades.map((t) => t.pnlPercent / 100);
+  const n = returns.length;
+  if (n < 2) return null;
+  const mean = returns.reduce((s, r) => s + r, 0) / n;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / n;
+  if (variance <= 0) return null;
+  const std = Math.sqrt(variance);
+  return {
+    sharpe: mean / std,
+    skew: returns.reduce((s, r) => s + ((r - mean) / std) ** 3, 0) / n,
+    kurtosis: returns.reduce((s, r) => s + ((r - mean) / std) ** 4, 0) / n,
+  };
+}
+
+export function emptyTrialStats(): TrialStats {
+  return { count: 0, mean: 0, m2: 0 };
+}
+
+/** Adds a tested variant's per-trade Sharpe; variants with fewer than two trades have none */
+export function addTrial(stats: TrialStats, trades: Trade[]): void {
+  const moments = tradeMoments(trades);
+  if (!moments) return;
+  stats.count++;
+  const delta = moments.sharpe - stats.mean;
+  stats.mean += delta / stats.count;
+  stats.m2 += delta * (moments.sharpe - stats.mean);
+}
+
+/**
+ * Best per-trade Sharpe expected among `trials` variants whose true Sharpe is 0, given the
+ * variance of Sharpe ratios across them.
+ */
+function expectedMaxSharpe(trials: number, variance: number): number {
+  if (trials <= 1 || variance <= 0) return 0;
+  return Math.sqrt(variance) * (
+    (1 - EULER_GAMMA) * inverseNormalCdf(1 - 1 / trials) +
+    EULER_GAMMA * inverseNormalCdf(1 - 1 / (trials * Math.E))
+  );
+}
+
+function scaleLevels(config: StrategyConfig, parameter: SensitivityVariant["parameter"], factor: number): StrategyConfig {
+  if (parameter === "stopLoss") {
+    return { ...config, stopLossPercent: config.stopLossPercent! * factor };
+  }
+  return {
+    ...config,
+    takeProfitPercent: config.takeProfitPercent != null ? config.takeProfitPercent * factor : undefined,
+    takeProfitLevels: config.takeProfitLevels?.map((l) => ({ ...l, percent: l.percent * factor })),
+  };
+}
+
+/**
+ * Reruns `config` with its stop loss and take profit each moved ±10% and collects the lookahead
+ * warnings of `base`, the run of the unchanged config on the same candles.
+ */
+export async function runRobustnessChecks(
+  candles: Candle[],
+  config: StrategyConfig,
+  base: BacktestResult,
+  symbol?: string,
+  options: BacktestOptions = {}
+): Promise<RobustnessChecks> {
+  const parameters: SensitivityVariant["parameter"][] = [];
+  if (config.stopLossPercent) parameters.push("stopLoss");
+  if (config.takeProfitPercent || config.takeProfitLevels?.length) parameters.push("takeProfit");
+
+  const sensitivity: SensitivityVariant[] = [];
+  for (const parameter of parameters) {
+    for (const factor of SENSITIVITY_FACTORS) {
+      const result = await runBacktest(candles, scaleLevels(config, parameter, factor), symbol, options);
+      sensitivity.push({
+        parameter,
+        factor,
+        totalPnl: result.totalPnl,
+        // Nothing to lose when the base run made no profit
+        retained: base.totalPnl > 0 ? result.totalPnl / base.totalPnl : 1,
+      });
+    }
+  }
+
+  return { sensitivity, lookaheadWarnings: base.warnings ?? [] };
+}
+
+/**
+ * Scores a result picked from `trials` tested variants. `trialStats` spreads the expected best
+ * Sharpe by how much the variants' Sharpe ratios actually varied; without two of them the
+ * variance of a single Sharpe estimate, 1 / trades, is used.
+ */
+export function robustnessReport(
+  trades: Trade[],
+  checks: RobustnessChecks,
+  trials: number,
+  trialStats?: TrialStats
+): RobustnessReport {
+  const warnings: string[] = [];
+  let points = 0;
+  let maxPoints = 0;
+
+  // Deflated Sharpe
+  const moments = tradeMoments(trades);
+  const variance = trialStats && trialStats.count >= 2
+    ? trialStats.m2 / (trialStats.count - 1)
+    : 1 / Math.max(1, trades.length);
+  const sr0 = expectedMaxSharpe(trials, variance);
+  let deflatedSharpe = 0;
+  if (moments) {
+    const { sharpe, skew, kurtosis } = moments;
+    const denominator = Math.sqrt(Math.max(1e-9, 1 - skew * sharpe + ((kurtosis - 1) / 4) * sharpe ** 2));
+    deflatedSharpe = normalCdf(((sharpe - sr0) * Math.sqrt(trades.length - 1)) / denominator);
+  }
+  points += WEIGHTS.deflatedSharpe * deflatedSharpe;
+  maxPoints += WEIGHTS.deflatedSharpe;
+  if (deflatedSharpe < 0.95) {
+    warnings.push(trials > 1
+      ? `Deflated Sharpe ${(deflatedSharpe * 100).toFixed(0)}%: the best of ${trials} variants is expected ` +
+        `to reach a per-trade Sharpe of ${sr0.toFixed(2)} by luck alone`
+      : `Deflated Sharpe ${(deflatedSharpe * 100).toFixed(0)}%: the Sharpe ratio is not clearly above 0`);
+  }
+
+  // Trade count
+  points += WEIGHTS.trades * Math.min(1, trades.length / MIN_TRADES);
+  maxPoints += WEIGHTS.trades;
+  if (trades.length < MIN_TRADES) {
+    warnings.push(`Only ${trades.length} trades; at least ${MIN_TRADES} are needed for meaningful statistics`);
+  }
+
+  // Parameter sensitivity
+  const worstRetained = checks.sensitivity.length > 0
+    ? Math.min(...checks.sensitivity.map((v) => v.retained))
+    : null;
+  if (worstRetained !== null) {
+    points += WEIGHTS.sensitivity * Math.min(1, Math.max(0, worstRetained));
+    maxPoints += WEIGHTS.sensitivity;
+    for (const v of checks.sensitivity) {
+      if (v.retained >= COLLAPSE_RETAINED) continue;
+      const label = `${v.parameter === "stopLoss" ? "Stop loss" : "Take profit"} ×${v.factor}`;
+      warnings.push(v.totalPnl <= 0
+        ? `${label} loses money`
+        : `${label} keeps only ${(v.retained * 100).toFixed(0)}% of the profit`);
+    }
+  }
+
+  // Alt-data lookahead
+  if (checks.lookaheadWarnings.length === 0) points += WEIGHTS.lookahead;
+  maxPoints += WEIGHTS.lookahead;
+  warnings.push(...checks.lookaheadWarnings);
+
+  return {
+    score: Math.round((points / maxPoints) * 100),
+    tradeSharpe: moments?.sharpe ?? 0,
+    expectedMaxSharpe: sr0,
+    deflatedSharpe,
+    trials,
+    totalTrades: trades.length,
+    worstRetained,
+    sensitivity: checks.sensitivity,
+    warnings,
+  };
+}
@@ -0,0 +1,102 @@
+import type { Candle } from "../data/candles";
+import { cacheIndicator, getIndicatorValue, type IndicatorSource } from "./conditions";
+import { leverageOf, type BarContext } from "./strategy-core";
+import type { StrategyConfig } from "./types";
+
+const DEFAULT_ATR_PERIOD = 14;
+const DEFAULT_KELLY_MULTIPLIER = 0.5; // half-Kelly
+const DEFAULT_KELLY_MAX_PERCENT = 25;
+const DEFAULT_KELLY_MIN_TRADES = 20;
+
+/** Win rate and payoff of a strategy's closed trades, the inputs of the Kelly model */
+export interface TradeStats {
+  trades: number;
+  winRate: number;
+  payoffRatio: number; // average win / average loss
+}
+
+export interface SizingContext {
+  equity: number;      // capital the position is sized from
+  price: number;       // expected entry price
+  bar?: BarContext;    // needed by the atr model; prepare it with cacheSizingIndicators
+  history?: TradeStats;
+}
+
+/** Stats over closed-trade PnLs (USD or percent, only signs and ratios matter) */
+export function tradeStats(pnls: number[]): TradeStats {
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p <= 0);
+  const avgWin = wins.length > 0 ? wins.reduce((s, p) => s + p, 0) / wins.length : 0;
+  const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((s, p) => s + p, 0) / losses.length) : 0;
+  return {
+    trades: pnls.length,
+    winRate: pnls.length > 0 ? wins.length / pnls.length : 0,
+    payoffRatio: avgLoss > 0 ? avgWin / avgLoss : avgWin > 0 ? Infinity : 0,
+  };
+}
+
+/** Puts the series the sizing model reads into the indicator cache */
+export function cacheSizingIndicators(
+  cache: Map<string, (number | undefined)[]>,
+  config: StrategyConfig,
+  candles: Candle[],
+  source?: IndicatorSource
+) {
+  if (config.sizing?.model === "atr") {
+    cacheIndicator(cache, "atr", { period: config.sizing.atrPeriod ?? DEFAULT_ATR_PERIOD }, undefined, candles, source);
+  }
+}
+
+/** Kelly fraction f* = W − (1 − W) / R, never negative */
+function kellyFraction(stats: TradeStats): number {
+  if (stats.payoffRatio === Infinity) return 1;
+  if (stats.payoffRatio <= 0) return 0;
+  return Math.max(0, stats.winRate - (1 - stats.winRate) / stats.payoffRatio);
+}
+
+/**
+ * USD budget (notional) of a new position under the config's sizing model, DCA portions included.
+ * Models that can't size yet (no stop for risk, ATR warming up) fall back to positionSizePercent.
+ * Percent and Kelly fractions are of margin, so leverage scales them; risk, ATR and fixed models
+ * already size the notional. Never more than equity × leverage.
+ */
+export function positionBudget(config: StrategyConfig, ctx: SizingContext): number {
+  const { equity } = ctx;
+  if (equity <= 0) return 0;
+
+  const leverage = leverageOf(config);
+  const percentBudget = equity * (config.positionSizePercent / 100) * leverage;
+  const sizing = config.sizing;
+  let budget = percentBudget;
+
+  switch (sizing?.model) {
+    case "risk": {
+      const stopPercent = config.stopLossPercent || config.trailingStopPercent;
+      if (stopPercent) budget = (equity * sizing.riskPercent) / stopPercent;
+      break;
+    }
+    case "atr": {
+      const atr = ctx.bar
+        ? getIndicatorValue(ctx.bar.indicatorCache, "atr", { period: sizing.atrPeriod ?? DEFAULT_ATR_PERIOD }, undefined, ctx.bar.index)
+        : undefined;
+      const stopDistance = atr !== undefined ? atr * (sizing.atrMultiplier ?? 1) : 0;
+      if (stopDistance > 0 && ctx.price > 0) {
+        budget = (equity * (sizing.riskPercent / 100) * ctx.price) / stopDistance;
+      }
+      break;
+    }
+    case "kelly": {
+      const history = ctx.history;
+      if (history && history.trades >= (sizing.minTrades ?? DEFAULT_KELLY_MIN_TRADES)) {
+        const fraction = kellyFraction(history) * (sizing.kellyMultiplier ?? DEFAULT_KELLY_MULTIPLIER);
+        budget = equity * Math.min(fraction, (sizing.maxPercent ?? DEFAULT_KELLY_MAX_PERCENT) / 100) * leverage;
+      }
+      break;
+    }
+    case "fixed_usd":
+      budget = sizing.notionalUsd;
+      break;
+  }
+
+  return Math.max(0, Math.min(budget, equity * leverage));
+}
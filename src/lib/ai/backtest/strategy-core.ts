@@ -0,0 +1,310 @@
+import type { Candle } from "../data/candles";
+import { checkConditions } from "./conditions";
+import { resolveIntrabar, touchLevels, type IntrabarPolicy } from "./intrabar";
+import type { StrategyConfig, ExitReason, OrderSpec } from "./types";
+
+/**
+ * Strategy decision logic shared by the backtester and StrategyExecutor (paper and live).
+ *
+ * Everything here is pure: callers pass a bar and the position state, get order intents back,
+ * execute them however they fill orders, and feed each fill into `applyFill`. Per bar, drivers
+ * call `checkEntry` when flat; otherwise `checkDca`, then `checkExits` on the re-averaged
+ * position, then `trackExtreme`. Live ticks are fed as `tickCandle(lastPrice)`.
+ *
+ * Entries and signal exits with a limit `OrderSpec` are not filled right away: drivers place them
+ * with `placeLimit` and fill the intent once `limitFilled` says a bar traded through the order.
+ */
+
+/** Minimum USD value worth keeping open after a take-profit level */
+export const DUST_NOTIONAL = 0.01;
+
+/** Maintenance margin rate of isolated perp positions (the base tier on major exchanges) */
+export const MAINTENANCE_MARGIN_RATE = 0.005;
+
+export interface PositionState {
+  side: "long" | "short";
+  avgEntryPrice: number;
+  entryQuantity: number;     // base units bought across all fills
+  remainingQuantity: number; // base units still held
+  extremePrice: number;      // best price since entry (high for longs, low for shorts) — trailing stop anchor
+  dcaFilled: number;         // fills so far, the initial entry included
+  tpLevelsFilled: number;
+}
+
+export interface BarContext {
+  candle: Candle;
+  index: number;
+  indicatorCache: Map<string, (number | undefined)[]>;
+}
+
+export type OrderIntent =
+  | { kind: "entry"; side: "long" | "short"; price: number; budgetFraction: number }
+  | { kind: "dca"; price: number; budgetFraction: number }
+  | { kind: "partial_exit"; price: number; quantity: number; level: number }
+  | { kind: "exit"; price: number; quantity: number; reason: ExitReason };
+
+export type EntryIntent = Extract<OrderIntent, { kind: "entry" }>;
+export type DcaIntent = Extract<OrderIntent, { kind: "dca" }>;
+export type ExitIntent = Extract<OrderIntent, { kind: "partial_exit" | "exit" }>;
+
+/** A limit order working between bars and the intent it fills, priced at the limit */
+export interface WorkingLimit {
+  intent: EntryIntent | ExitIntent;
+  side: "buy" | "sell";
+  expiresAt: number; // ms; cancelled then, or completed at market with fallbackToMarket
+  fallbackToMarket: boolean;
+}
+
+/** A live tick as a bar, so every level is checked against the same price */
+export function tickCandle(price: number, timestamp = Date.now()): Candle {
+  return { timestamp, open: price, high: price, low: price, close: price, volume: 0 };
+}
+
+/** Whether a strategy trades the perpetual. Shorts and leverage need one, so they default to perp. */
+export function isPerpetual(config: StrategyConfig): boolean {
+  return config.market ? config.market === "perp" : config.side === "short" || (config.leverage ?? 1) > 1;
+}
+
+/** Leverage positions are opened with; spot is never leveraged */
+export function leverageOf(config: StrategyConfig): number {
+  return isPerpetual(config) ? Math.max(1, config.leverage ?? 1) : 1;
+}
+
+/**
+ * Isolated margin: price at which the loss leaves only maintenance margin of the position's
+ * margin (notional / leverage) and the exchange liquidates. Undefined for a 1x long, which can't
+ * lose more than it holds. Funding is paid from the wallet, so it doesn't move this price.
+ */
+export function liquidationPrice(position: PositionState, leverage: number): number | undefined {
+  const price = position.side === "short"
+    ? (position.avgEntryPrice * (1 + 1 / leverage)) / (1 + MAINTENANCE_MARGIN_RATE)
+    : (position.avgEntryPrice * (1 - 1 / leverage)) / (1 - MAINTENANCE_MARGIN_RATE);
+  return price > 0 ? price : undefined;
+}
+
+/** Price at which the whole margin is gone: a liquidated position closes here */
+export function bankruptcyPrice(position: PositionState, leverage: number): number {
+  return position.side === "short"
+    ? position.avgEntryPrice * (1 + 1 / leverage)
+    : position.avgEntryPrice * (1 - 1 / leverage);
+}
+
+function dcaPortions(config: StrategyConfig): number {
+  return config.dcaEnabled && config.dcaOrders ? config.dcaOrders : 1;
+}
+
+/** Price at which the position is `percent` in profit (negative for a loss) */
+function levelPrice(position: PositionState, percent: number): number {
+  return position.side === "short"
+    ? position.avgEntryPrice * (1 - percent / 100)
+    : position.avgEntryPrice * (1 + percent / 100);
+}
+
+/** Limit spec an intent is placed with; null when it is a market order */
+export function limitSpecFor(config: StrategyConfig, intent: OrderIntent): OrderSpec | null {
+  const spec = intent.kind === "entry"
+    ? config.entryOrder
+    : intent.kind === "exit" && intent.reason === "exit_signal" ? config.exitOrder : undefined;
+  return spec?.type === "limit" ? spec : null;
+}
+
+/** Price `offsetPercent` better than `price`: below it for buys, above it for sells */
+export function limitPrice(spec: OrderSpec, side: "buy" | "sell", price: number): number {
+  const offset = (spec.offsetPercent ?? 0) / 100;
+  return side === "buy" ? price * (1 - offset) : price * (1 + offset);
+}
+
+/** How long a limit order works; one bar of `barMs` unless the spec says otherwise */
+export function limitTimeoutMs(spec: OrderSpec, barMs: number): number {
+  return spec.timeoutSeconds ? spec.timeoutSeconds * 1000 : barMs;
+}
+
+/** Whether the bar traded through a resting limit; a touch alone may leave it unfilled in the queue */
+export function limitFilled(candle: Candle, side: "buy" | "sell", price: number): boolean {
+  return side === "buy" ? candle.low < price : candle.high > price;
+}
+
+/** Rests `intent` as a limit order from `placedAt` */
+export function placeLimit(
+  spec: OrderSpec,
+  intent: EntryIntent | ExitIntent,
+  side: "buy" | "sell",
+  placedAt: number,
+  barMs: number
+): WorkingLimit {
+  return {
+    intent: { ...intent, price: limitPrice(spec, side, intent.price) },
+    side,
+    expiresAt: placedAt + limitTimeoutMs(spec, barMs),
+    fallbackToMarket: spec.fallbackToMarket ?? false,
+  };
+}
+
+/** Enter on the close when the entry conditions hold; with DCA only the first portion is bought */
+export function checkEntry(config: StrategyConfig, bar: BarContext): EntryIntent | null {
+  if (!checkConditions(config.entryConditions, bar.index, bar.indicatorCache)) return null;
+  return {
+    kind: "entry",
+    side: config.side === "short" ? "short" : "long",
+    price: bar.candle.close,
+    budgetFraction: 1 / dcaPortions(config),
+  };
+}
+
+/** Buy the next DCA portion when price moved `dcaDropPercent` against the average entry */
+export function checkDca(config: StrategyConfig, position: PositionState, candle: Candle): DcaIntent | null {
+  if (!config.dcaEnabled || !config.dcaDropPercent) return null;
+  if (position.dcaFilled >= dcaPortions(config)) return null;
+
+  const hit = touchLevels(candle, position.side === "short", levelPrice(position, -config.dcaDropPercent)).stop;
+  return hit ? { kind: "dca", price: hit.price, budgetFraction: 1 / dcaPortions(config) } : null;
+}
+
+/**
+ * Resting exit levels for the position. Fixed and trailing stops and, on perps, the liquidation
+ * price rest together and whichever sits closer to price is the effective stop. The take is the
+ * next TP level, or the single TP.
+ */
+export function exitLevels(
+  config: StrategyConfig,
+  position: PositionState
+): { stopPrice?: number; stopReason: ExitReason; takePrice?: number; liquidationPrice?: number } {
+  const isShort = position.side === "short";
+  let stopPrice = config.stopLossPercent ? levelPrice(position, -config.stopLossPercent) : undefined;
+  let stopReason: ExitReason = "stop_loss";
+
+  if (config.trailingStopPercent) {
+    const trailPrice = isShort
+      ? position.extremePrice * (1 + config.trailingStopPercent / 100)
+      : position.extremePrice * (1 - config.trailingStopPercent / 100);
+    if (stopPrice === undefined || (isShort ? trailPrice <= stopPrice : trailPrice >= stopPrice)) {
+      stopPrice = trailPrice;
+      stopReason = "trailing_stop";
+    }
+  }
+
+  const liqPrice = isPerpetual(config) ? liquidationPrice(position, leverageOf(config)) : undefined;
+  if (liqPrice !== undefined && (stopPrice === undefined || (isShort ? liqPrice < stopPrice : liqPrice > stopPrice))) {
+    stopPrice = liqPrice;
+    stopReason = "liquidation";
+  }
+
+  const levels = config.takeProfitLevels;
+  let takePrice: number | undefined;
+  if (levels?.length) {
+    const next = levels[position.tpLevelsFilled];
+    takePrice = next ? levelPrice(position, next.percent) : undefined;
+  } else if (config.takeProfitPercent) {
+    takePrice = levelPrice(position, config.takeProfitPercent);
+  }
+
+  return { stopPrice, stopReason, takePrice, liquidationPrice: liqPrice };
+}
+
+/**
+ * Exits for this bar, in fill order. A stop or liquidation closes everything; take-profit levels
+ * each sell a share of everything bought (DCA portions included) and every level the bar reached
+ * fills; otherwise the exit conditions close the position on the bar's close.
+ * Bars touching both stop and take are ordered by `policy`, using `subCandles` for drilldown.
+ */
+export function checkExits(
+  config: StrategyConfig,
+  position: PositionState,
+  bar: BarContext,
+  policy: IntrabarPolicy = "pessimistic",
+  subCandles?: Candle[],
+  minRemainingNotional = DUST_NOTIONAL
+): ExitIntent[] {
+  const isShort = position.side === "short";
+  const remaining = position.remainingQuantity;
+  const { stopPrice, stopReason, takePrice } = exitLevels(config, position);
+  const hit = resolveIntrabar(bar.candle, isShort, stopPrice, takePrice, policy, subCandles);
+
+  if (hit?.kind === "stop") {
+    return [{ kind: "exit", price: hit.price, quantity: remaining, reason: stopReason }];
+  }
+
+  const levels = config.takeProfitLevels;
+  if (hit?.kind === "take" && levels?.length) {
+    const intents: ExitIntent[] = [];
+    let left = remaining;
+    let level = position.tpLevelsFilled;
+    let fillAt: number | undefined = hit.price;
+
+    while (fillAt !== undefined) {
+      const sellQty = position.entryQuantity * (levels[level].sellPercent / 100);
+      level++;
+      // A remainder too small to trade is sold with this level
+      if ((left - sellQty) * fillAt < minRemainingNotional) {
+        intents.push({ kind: "exit", price: fillAt, quantity: left, reason: "take_profit" });
+        return intents;
+      }
+      intents.push({ kind: "partial_exit", price: fillAt, quantity: sellQty, level });
+      left -= sellQty;
+
+      fillAt = level < levels.length
+        ? touchLevels(bar.candle, isShort, undefined, levelPrice(position, levels[level].percent)).take?.price
+        : undefined;
+    }
+    return intents;
+  }
+
+  if (hit?.kind === "take") {
+    return [{ kind: "exit", price: hit.price, quantity: remaining, reason: "take_profit" }];
+  }
+
+  if (checkConditions(config.exitConditions, bar.index, bar.indicatorCache)) {
+    return [{ kind: "exit", price: bar.candle.close, quantity: remaining, reason: "exit_signal" }];
+  }
+
+  return [];
+}
+
+/** Position state after an intent filled `quantity` at `fillPrice`; null once flat */
+export function applyFill(
+  position: PositionState | null,
+  intent: OrderIntent,
+  fillPrice: number,
+  quantity: number
+): PositionState | null {
+  switch (intent.kind) {
+    case "entry":
+      return {
+        side: intent.side,
+        avgEntryPrice: fillPrice,
+        entryQuantity: quantity,
+        remainingQuantity: quantity,
+        extremePrice: fillPrice,
+        dcaFilled: 1,
+        tpLevelsFilled: 0,
+      };
+    case "dca": {
+      if (!position) return null;
+      const held = position.remainingQuantity + quantity;
+      return {
+        ...position,
+        avgEntryPrice: (position.avgEntryPrice * position.remainingQuantity + fillPrice * quantity) / held,
+        entryQuantity: position.entryQuantity + quantity,
+        remainingQuantity: held,
+        dcaFilled: position.dcaFilled + 1,
+      };
+    }
+    case "partial_exit":
+      if (!position) return null;
+      return {
+        ...position,
+        remainingQuantity: position.remainingQuantity - quantity,
+        tpLevelsFilled: intent.level,
+      };
+    case "exit":
+      return null;
+  }
+}
+
+/** Moves the trailing-stop anchor once the bar is done, so a bar never trails against itself */
+export function trackExtreme(position: PositionState, candle: Candle): PositionState {
+  const extremePrice = position.side === "short"
+    ? Math.min(position.extremePrice, candle.low)
+    : Math.max(position.extremePrice, candle.high);
+  return extremePrice === position.extremePrice ? position : { ...position, extremePrice };
+}
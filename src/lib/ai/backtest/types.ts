@@ -1,28 +1,95 @@
 import type { IndicatorName, IndicatorParams } from "../indicators";
+import type { CustomIndicatorDefinition } from "../custom-indicators";
+import type { ExchangeId } from "./costs";
+import type { IntrabarPolicy } from "./intrabar";
 
-export interface Condition {
+/** An indicator series; the price series open, high, low, close and volume are indicators too */
+export interface IndicatorRef {
   indicator: IndicatorName;
   params?: IndicatorParams;
   field?: string; // for multi-value indicators (e.g. "k" for stochastic, "macd" for MACD)
+  timeframe?: string; // evaluate on this timeframe's closed bars instead of the strategy's own
+  offset?: number; // bars back, in bars of `timeframe`: 1 = the previous bar's value
+}
+
+/** Arithmetic on condition values, e.g. 2 × volume_sma: { op: "*", left: 2, right: { indicator: "volume_sma" } } */
+export interface ValueExpression {
+  op: "+" | "-" | "*" | "/";
+  left: ConditionValue;
+  right: ConditionValue;
+}
+
+export type ConditionValue = number | IndicatorRef | ValueExpression;
+
+export interface Condition extends IndicatorRef {
   operator: ">" | "<" | ">=" | "<=" | "crosses_above" | "crosses_below";
-  value: number | { indicator: IndicatorName; params?: IndicatorParams; field?: string };
+  value: ConditionValue;
 }
 
+/** Nested boolean group of conditions; a plain list is an implicit `all` */
+export type ConditionGroup =
+  | { all: ConditionNode[] }
+  | { any: ConditionNode[] }
+  | { not: ConditionNode };
+
+export type ConditionNode = Condition | ConditionGroup;
+
 export interface StrategyConfig {
   name?: string;
-  entryConditions: Condition[];
-  exitConditions: Condition[];
+  entryConditions: ConditionNode[]; // all must hold
+  exitConditions: ConditionNode[];
   stopLossPercent?: number;
   takeProfitPercent?: number;
   takeProfitLevels?: TakeProfitLevel[];  // multi-level TP (overrides takeProfitPercent)
   trailingStopPercent?: number; // exit when price drops X% from highest since entry
   positionSizePercent: number; // % of equity per trade
+  sizing?: PositionSizing;     // how large each position is; default positionSizePercent of equity
   dcaEnabled?: boolean;
   dcaOrders?: number; // total DCA portions (e.g. 3 = initial + 2 more)
   dcaDropPercent?: number; // buy next portion when price drops X% from last buy
   side?: "long" | "short";
+  market?: "spot" | "perp";    // perp pays/receives funding; default perp for shorts and leverage, else spot
+  leverage?: number;           // perp only, default 1: positions on isolated margin of notional / leverage
+  entryOrder?: OrderSpec;      // default market; DCA portions are always market orders
+  exitOrder?: OrderSpec;       // signal exits only; stops, take-profits and liquidations fill as before
 }
 
+/**
+ * How an entry or a signal exit is placed. Market orders take liquidity at the signal price.
+ * Limit orders rest `offsetPercent` better than it (below for buys, above for sells), fill once
+ * price trades through them and pay the maker fee without slippage. One still open after
+ * `timeoutSeconds` is cancelled, or completed at market with `fallbackToMarket`. Post-only
+ * orders are rejected by the exchange instead of taking liquidity.
+ */
+export interface OrderSpec {
+  type: "market" | "limit";
+  offsetPercent?: number;      // default 0: at the signal price
+  postOnly?: boolean;
+  timeoutSeconds?: number;     // default one bar of the strategy's timeframe
+  fallbackToMarket?: boolean;
+}
+
+/**
+ * Position sizing model. Every model yields the USD budget of a whole position (all DCA portions)
+ * and is capped at the available equity (times leverage on perps); live strategies are further capped
+ * by maxCapUsd/maxCapPercent.
+ * - percent: positionSizePercent of equity
+ * - risk: lose `riskPercent` of equity if the stop is hit (stop distance from stopLossPercent,
+ *   else trailingStopPercent)
+ * - atr: a move of `atrMultiplier` × ATR costs `riskPercent` of equity (volatility targeting)
+ * - kelly: Kelly fraction from the strategy's closed trades × `kellyMultiplier`, capped at
+ *   `maxPercent`; positionSizePercent until `minTrades` trades have closed
+ * - fixed_usd: always `notionalUsd`
+ */
+export type PositionSizing =
+  | { model: "percent" }
+  | { model: "risk"; riskPercent: number }
+  | { model: "atr"; riskPercent: number; atrPeriod?: number; atrMultiplier?: number }
+  | { model: "kelly"; kellyMultiplier?: number; maxPercent?: number; minTrades?: number }
+  | { model: "fixed_usd"; notionalUsd: number };
+
+export type ExitReason = "stop_loss" | "trailing_stop" | "take_profit" | "exit_signal" | "end_of_data" | "liquidation";
+
 export interface Trade {
   entryIndex: number;
   exitIndex: number;
@@ -32,7 +99,14 @@ export interface Trade {
   exitPrice: number;
   side: "long" | "short";
   pnlPercent: number;
-  pnlAbsolute: number;
+  pnlAbsolute: number;   // net of fees and slippage
+  fees?: number;         // entry + exit fees paid in USD
+  slippageCost?: number; // USD lost to slippage vs. the signal price
+  funding?: number;      // perp funding received (+) / paid (-) while open, in USD
+  exitReason?: ExitReason;
+  entries?: number;      // fills that built the position (> 1 with DCA)
+  leverage?: number;     // leveraged perp trades only; pnlPercent is then the return on margin
+  liquidationPrice?: number; // liquidations only: the price that triggered it; exitPrice is where the margin ran out
 }
 
 export interface EquityPoint {
@@ -51,8 +125,124 @@ export interface BacktestResult {
   avgLoss: number;
   maxConsecutiveWins: number;
   maxConsecutiveLosses: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalFunding: number;  // perp funding received (+) / paid (-), already in totalPnl
+  grossPnl: number;      // PnL before fees, slippage and funding
+  sortinoRatio: number;
+  calmarRatio: number;          // annualized return / max drawdown
+  maxDrawdownDuration: number;  // longest time below a previous equity peak, in ms
+  exposure: number;             // share of the period spent in a position, 0-1
+  expectancy: number;           // average net PnL per trade in USD
+  sqn: number;                  // system quality number: sqrt(trades) × mean / stdev of trade returns
+  tailRatio: number;            // 95th percentile bar return / |5th percentile|
+  buyAndHoldReturn: number;     // return of holding the traded symbol over the period, e.g. 0.12
   trades: Trade[];
   equityCurve: EquityPoint[];
+  benchmarkCurve?: EquityPoint[]; // the initial equity held in the symbol, at the equity curve's timestamps
+  regimes?: RegimeBreakdown;
+  warnings?: string[];          // data problems found while running, e.g. alt-data lookahead
+  trace?: BacktestTrace;        // only with BacktestOptions.trace
+}
+
+export type MarketRegime = "trend_up" | "trend_down" | "range";
+
+/** How candles are classified into regimes; see ./regimes */
+export interface RegimeOptions {
+  source?: "sma_atr" | "fear_greed"; // default sma_atr
+  smaPeriod?: number;                // default 50
+  slopeBars?: number;                // bars the SMA slope is measured over, default 10
+  atrPeriod?: number;                // default 14
+  trendThreshold?: number;           // SMA move over slopeBars, in ATRs, that makes a trend; default 1
+}
+
+/** Consecutive candles of one regime, candle timestamps inclusive */
+export interface RegimePeriod {
+  regime: MarketRegime;
+  start: number;
+  end: number;
+}
+
+export interface RegimeStats {
+  regime: MarketRegime;
+  bars: number;
+  share: number;            // of the classified bars, 0-1
+  trades: number;           // trades entered in this regime
+  winRate: number;
+  totalPnl: number;         // net PnL of those trades in USD
+  avgPnlPercent: number;
+  strategyReturn: number;   // equity growth compounded over this regime's bars, e.g. 0.05
+  buyAndHoldReturn: number; // the symbol's growth over the same bars
+}
+
+export interface RegimeBreakdown {
+  source: "sma_atr" | "fear_greed";
+  periods: RegimePeriod[];
+  stats: RegimeStats[];
+}
+
+/** A leaf condition as evaluated on one bar */
+export interface ConditionTrace {
+  label: string;    // e.g. "rsi(14) < 30"
+  value?: number;   // left side; missing during warm-up
+  target?: number;  // right side
+  passed?: boolean; // undefined while either side has no data
+}
+
+export interface TraceAction {
+  kind: "entry" | "dca" | "partial_exit" | "exit";
+  price: number;    // fill price, after slippage
+  reason?: ExitReason;
+  level?: number;   // take-profit level of a partial exit, 1-based
+  maker?: boolean;  // a limit order filled
+}
+
+/** What the engine saw and did on one candle */
+export interface BarTrace {
+  index: number;
+  timestamp: number;
+  inPosition: boolean;               // at the start of the bar
+  entryConditions?: ConditionTrace[]; // evaluated while flat
+  entrySignal?: boolean;
+  exitConditions?: ConditionTrace[];  // evaluated while in a position
+  exitSignal?: boolean;
+  stopPrice?: number;                // resting levels the bar was checked against
+  takePrice?: number;
+  liquidationPrice?: number;         // leveraged perp positions
+  actions: TraceAction[];
+  limitPrice?: number;               // a working entry or exit limit order
+  note?: string;                     // e.g. why a signal was not taken
+}
+
+export interface IndicatorTraceSeries {
+  key: string;
+  label: string;
+  values: (number | null)[]; // per candle; null where the indicator has no value
+}
+
+export interface BacktestTrace {
+  bars: BarTrace[];
+  indicators: IndicatorTraceSeries[];
+}
+
+export interface CostModel {
+  exchange?: ExchangeId;           // maker/taker rates from EXCHANGE_FEES
+  makerFeePercent?: number;        // overrides the exchange maker rate
+  takerFeePercent?: number;        // overrides the exchange taker rate
+  slippagePercent?: number;        // fixed adverse slippage per fill
+  slippageAtrMultiplier?: number;  // volatility-scaled slippage: k × ATR / price, added to the fixed part
+  slippageAtrPeriod?: number;      // default 14
+  minNotionalUsd?: number;         // entries below this notional are skipped
+}
+
+export interface BacktestOptions {
+  costs?: CostModel;
+  intrabarPolicy?: IntrabarPolicy; // SL vs TP ordering when one bar touches both (default pessimistic)
+  timeframe?: string;              // candle timeframe, required for the drilldown policy
+  trace?: boolean;                 // record a BarTrace per candle in result.trace
+  regimes?: RegimeOptions;         // classifier of result.regimes (default SMA slope / ATR)
+  customIndicators?: CustomIndicatorDefinition[]; // the owner's, for conditions on custom_ indicators
+  onProgress?: (done: number, total: number) => Promise<void>; // candles processed; throw to stop the run
 }
 
 export interface TakeProfitLevel {
@@ -64,6 +254,33 @@ export interface WalkForwardWindow {
   windowIndex: number;
   inSampleResult: BacktestResult;
   outOfSampleResult: BacktestResult;
+  chosenParams?: Record<string, number>; // optimizer winner on the in-sample slice, keyed by path
+  objectiveScore?: number;               // in-sample objective of the winner
+  trials?: number;                       // parameter sets evaluated in-sample
+}
+
+/**
+ * A tunable parameter of a StrategyConfig template. `path` is dotted, with array indexes as
+ * segments, e.g. "stopLossPercent" or "entryConditions.0.params.period".
+ * Either list `values` or give `min`/`max`/`step`.
+ */
+export interface ParameterRange {
+  path: string;
+  values?: number[];
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export type OptimizationObjective = "sharpe" | "profit_factor" | "calmar";
+
+export interface WalkForwardOptimization {
+  parameters: ParameterRange[];
+  objective?: OptimizationObjective; // default "sharpe"
+  search?: "grid" | "random";        // default "grid"; a grid larger than maxTrials is sampled
+  maxTrials?: number;                // default 200
+  seed?: number;                     // random search seed, for reproducible runs
+  windowMode?: "rolling" | "anchored"; // anchored in-sample slices all start at the first candle
 }
 
 export interface WalkForwardResult {
@@ -74,3 +291,144 @@ export interface WalkForwardResult {
   consistencyRatio: number;  // % of OOS windows that are profitable
   degradationRatio: number;  // avg OOS performance / avg IS performance
 }
+
+export type MonteCarloMethod = "shuffle" | "bootstrap" | "skip";
+
+export interface MonteCarloOptions {
+  iterations?: number;       // simulated paths per method, default 1000
+  methods?: MonteCarloMethod[]; // default all three
+  skipProbability?: number;  // chance each trade is missed by the "skip" method, default 0.1
+  ruinDrawdown?: number;     // drawdown from the start counted as ruin, default 0.5 (= lost half the account)
+  initialEquity?: number;    // default 10000, the engine's starting equity
+  seed?: number;             // PRNG seed, for reproducible runs
+}
+
+export interface PercentileBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloRun {
+  method: MonteCarloMethod;
+  finalEquity: PercentileBands;
+  maxDrawdown: PercentileBands;   // fraction of peak equity, like BacktestResult.maxDrawdown
+  riskOfRuin: number;             // share of paths that hit the ruin drawdown
+  probabilityOfLoss: number;      // share of paths ending below the initial equity
+  equityBands: PercentileBands[]; // equity percentiles after each trade, index 0 = start
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  tradeCount: number;
+  initialEquity: number;
+  originalFinalEquity: number;
+  originalMaxDrawdown: number;
+  originalEquity: number[];       // equity after each trade in the original order, index 0 = start
+  runs: MonteCarloRun[];
+}
+
+/** A rerun with one risk parameter scaled, see ./robustness */
+export interface SensitivityVariant {
+  parameter: "stopLoss" | "takeProfit";
+  factor: number;            // e.g. 0.9 = the level 10% closer to the entry
+  totalPnl: number;          // USD, like BacktestResult.totalPnl
+  retained: number;          // variant PnL / base PnL; below 0 when the variant lost money
+}
+
+/** Checks that need the candles; kept until the number of variants tried is known */
+export interface RobustnessChecks {
+  sensitivity: SensitivityVariant[]; // empty when the config has no stop loss or take profit
+  lookaheadWarnings: string[];       // BacktestResult.warnings of the base run
+}
+
+/** Running mean/variance of per-trade Sharpe ratios over every variant a search backtested */
+export interface TrialStats {
+  count: number;
+  mean: number;
+  m2: number; // sum of squared deviations from the mean (Welford)
+}
+
+export interface RobustnessReport {
+  score: number;             // 0-100, higher = less likely to be a data-snooping artefact
+  tradeSharpe: number;       // per-trade Sharpe ratio, not annualized
+  expectedMaxSharpe: number; // best per-trade Sharpe expected from `trials` variants with no edge
+  deflatedSharpe: number;    // probability the true Sharpe beats expectedMaxSharpe, 0-1
+  trials: number;
+  totalTrades: number;
+  worstRetained: number | null; // lowest SensitivityVariant.retained; null without SL/TP
+  sensitivity: SensitivityVariant[];
+  warnings: string[];
+}
+
+/** One strategy/symbol pair of a portfolio backtest, allocated like an operational strategy */
+export interface PortfolioSleeve {
+  id?: string;
+  name?: string;
+  symbol: string;
+  timeframe?: string;
+  config: StrategyConfig;
+  maxCapUsd?: number;     // hard USD cap per position; default unlimited
+  maxCapPercent?: number; // share of free capital per position; default config.positionSizePercent
+}
+
+export interface PortfolioOptions {
+  initialCapital?: number;          // shared pool, default 10000
+  maxConcurrentStrategies?: number; // sleeves allowed to hold a position at once; default unlimited
+  costs?: CostModel;
+  intrabarPolicy?: IntrabarPolicy;  // drilldown is not replayed here and falls back to pessimistic
+  customIndicators?: CustomIndicatorDefinition[]; // as BacktestOptions.customIndicators, for every sleeve
+}
+
+export interface PortfolioSleeveResult {
+  id: string;
+  name: string;
+  symbol: string;
+  totalPnl: number;
+  returnContribution: number; // percentage points of the portfolio return
+  pnlShare: number;           // share of the portfolio PnL, 0 when the portfolio PnL is 0
+  winRate: number;
+  totalTrades: number;
+  totalFees: number;
+  skippedEntries: number;     // bars whose entry signal found no free capital or concurrency slot
+  trades: Trade[];
+  pnlCurve: EquityPoint[];    // cumulative PnL, realized + open, on the portfolio timeline
+}
+
+export interface PortfolioResult extends BacktestResult {
+  initialCapital: number;
+  sleeves: PortfolioSleeveResult[];
+  correlation: number[][];    // Pearson correlation of per-step sleeve PnL changes, sleeve order
+  maxConcurrentPositions: number;
+}
+
+export type BacktestJobKind = "backtest" | "cross_validate" | "autopilot";
+export type BacktestJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobEvent {
+  phase: string;
+  status: "started" | "progress" | "completed" | "error";
+  message: string;
+  data?: unknown;
+}
+
+/** A queued job as the jobs API returns it */
+export interface BacktestJobView {
+  id: string;
+  kind: BacktestJobKind;
+  status: BacktestJobStatus;
+  backtestId: string | null;
+  progress: number;             // 0-100
+  progressMessage: string | null;
+  cancelRequested: boolean;
+  resumable: boolean;           // a stopped run that can continue from its checkpoint
+  errorMessage: string | null;
+  eventCount: number;
+  events: JobEvent[];           // only those after the `after` index the caller passed
+  result: unknown;              // set once completed
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
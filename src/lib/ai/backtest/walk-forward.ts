@@ -1,13 +1,29 @@
 import type { Candle } from "../data/candles";
-import type { StrategyConfig, WalkForwardResult, WalkForwardWindow } from "./types";
+import type {
+  StrategyConfig,
+  WalkForwardResult,
+  WalkForwardWindow,
+  BacktestOptions,
+  WalkForwardOptimization,
+} from "./types";
 import { runBacktest } from "./engine";
+import { optimizeParameters } from "./optimizer";
 
+/**
+ * Splits the candles into `windowCount` windows, each divided into an in-sample and an
+ * out-of-sample slice. Without `optimization.parameters` the same config runs on both slices
+ * (a stability check). With them, every in-sample slice is searched for the best parameters
+ * and only that winner runs out-of-sample. Anchored windows grow their in-sample slice from
+ * the first candle; rolling windows (the default) use only their own candles.
+ */
 export async function runWalkForward(
   candles: Candle[],
   config: StrategyConfig,
   windowCount: number = 5,
   inSampleRatio: number = 0.7,
-  symbol?: string
+  symbol?: string,
+  options: BacktestOptions = {},
+  optimization?: WalkForwardOptimization
 ): Promise<WalkForwardResult> {
   const totalCandles = candles.length;
   const windowSize = Math.floor(totalCandles / windowCount);
@@ -29,16 +45,32 @@ export async function runWalkForward(
   for (let i = 0; i < windowCount; i++) {
     const start = i * windowSize;
     const end = Math.min(start + windowSize, totalCandles);
-    const windowCandles = candles.slice(start, end);
-
-    const splitIndex = Math.floor(windowCandles.length * inSampleRatio);
-    const inSampleCandles = windowCandles.slice(0, splitIndex);
-    const outOfSampleCandles = windowCandles.slice(splitIndex);
+    const splitIndex = start + Math.floor((end - start) * inSampleRatio);
+    const inSampleStart = optimization?.windowMode === "anchored" ? 0 : start;
+    const inSampleCandles = candles.slice(inSampleStart, splitIndex);
+    const outOfSampleCandles = candles.slice(splitIndex, end);
 
     if (inSampleCandles.length < 10 || outOfSampleCandles.length < 5) continue;
 
-    const inSampleResult = await runBacktest(inSampleCandles, config, symbol);
-    const outOfSampleResult = await runBacktest(outOfSampleCandles, config, symbol);
+    const best = optimization?.parameters.length
+      ? await optimizeParameters(inSampleCandles, config, optimization, symbol, options)
+      : null;
+
+    if (best) {
+      const outOfSampleResult = await runBacktest(outOfSampleCandles, best.config, symbol, options);
+      windows.push({
+        windowIndex: i,
+        inSampleResult: best.result,
+        outOfSampleResult,
+        chosenParams: best.params,
+        objectiveScore: best.score,
+        trials: best.trials,
+      });
+      continue;
+    }
+
+    const inSampleResult = await runBacktest(inSampleCandles, config, symbol, options);
+    const outOfSampleResult = await runBacktest(outOfSampleCandles, config, symbol, options);
 
     windows.push({
       windowIndex: i,
@@ -0,0 +1,137 @@
+import type { Candle } from "./data/candles";
+
+/**
+ * Candlestick patterns as boolean series: 1 on the bar that completes the pattern, 0 otherwise,
+ * undefined until enough bars exist to judge it. They are indicators like any other, so a condition
+ * reads `{ indicator: "hammer", operator: ">", value: 0 }`.
+ *
+ * Free of the technicalindicators dependency so the chart can mark patterns in the browser.
+ */
+
+export type CandlePatternName =
+  | "bullish_engulfing"
+  | "bearish_engulfing"
+  | "hammer"             // long lower shadow after a decline
+  | "shooting_star"      // long upper shadow after an advance
+  | "doji"
+  | "morning_star"
+  | "evening_star"
+  | "inside_bar"         // range inside the previous bar's
+  | "three_white_soldiers"
+  | "three_black_crows";
+
+export interface CandlePatternInfo {
+  name: CandlePatternName;
+  label: string;
+  bias: "bullish" | "bearish" | "neutral";
+}
+
+export const CANDLE_PATTERNS: CandlePatternInfo[] = [
+  { name: "bullish_engulfing", label: "Bullish engulfing", bias: "bullish" },
+  { name: "bearish_engulfing", label: "Bearish engulfing", bias: "bearish" },
+  { name: "hammer", label: "Hammer", bias: "bullish" },
+  { name: "shooting_star", label: "Shooting star", bias: "bearish" },
+  { name: "doji", label: "Doji", bias: "neutral" },
+  { name: "morning_star", label: "Morning star", bias: "bullish" },
+  { name: "evening_star", label: "Evening star", bias: "bearish" },
+  { name: "inside_bar", label: "Inside bar", bias: "neutral" },
+  { name: "three_white_soldiers", label: "Three white soldiers", bias: "bullish" },
+  { name: "three_black_crows", label: "Three black crows", bias: "bearish" },
+];
+
+export const CANDLE_PATTERN_NAMES = CANDLE_PATTERNS.map((p) => p.name);
+
+export function isCandlePattern(name: string): name is CandlePatternName {
+  return (CANDLE_PATTERN_NAMES as string[]).includes(name);
+}
+
+type Bar = Pick<Candle, "open" | "high" | "low" | "close">;
+
+const TREND_BARS = 3;        // closes compared to call the move before a hammer or star a decline/advance
+const DOJI_BODY = 0.1;       // body at most this fraction of the range
+const SHADOW_MULTIPLE = 2;   // hammer / shooting star: long shadow at least this many bodies
+const SMALL_SHADOW = 0.25;   // ...and the other shadow at most this fraction of the range
+const STAR_BODY = 0.3;       // middle bar of a star: body at most this fraction of the first bar's
+
+const body = (b: Bar) => Math.abs(b.close - b.open);
+const range = (b: Bar) => b.high - b.low;
+const upperShadow = (b: Bar) => b.high - Math.max(b.open, b.close);
+const lowerShadow = (b: Bar) => Math.min(b.open, b.close) - b.low;
+const isBullish = (b: Bar) => b.close > b.open;
+const isBearish = (b: Bar) => b.close < b.open;
+
+/** Bars needed before (and including) the completing bar */
+const BARS_NEEDED: Record<CandlePatternName, number> = {
+  bullish_engulfing: 2,
+  bearish_engulfing: 2,
+  hammer: TREND_BARS + 2,
+  shooting_star: TREND_BARS + 2,
+  doji: 1,
+  morning_star: 3,
+  evening_star: 3,
+  inside_bar: 2,
+  three_white_soldiers: 3,
+  three_black_crows: 3,
+};
+
+/** Whether `pattern` completes on bar `i`, which must have BARS_NEEDED bars up to it */
+function matches(pattern: CandlePatternName, bars: Bar[], i: number): boolean {
+  const c = bars[i];
+  const p = bars[i - 1];
+  const pp = bars[i - 2];
+
+  switch (pattern) {
+    case "bullish_engulfing":
+      return isBearish(p) && isBullish(c) && c.open <= p.close && c.close >= p.open && body(c) > body(p);
+    case "bearish_engulfing":
+      return isBullish(p) && isBearish(c) && c.open >= p.close && c.close <= p.open && body(c) > body(p);
+    case "hammer":
+      return range(c) > 0 &&
+        lowerShadow(c) >= SHADOW_MULTIPLE * body(c) &&
+        upperShadow(c) <= SMALL_SHADOW * range(c) &&
+        p.close < bars[i - 1 - TREND_BARS].close;
+    case "shooting_star":
+      return range(c) > 0 &&
+        upperShadow(c) >= SHADOW_MULTIPLE * body(c) &&
+        lowerShadow(c) <= SMALL_SHADOW * range(c) &&
+        p.close > bars[i - 1 - TREND_BARS].close;
+    case "doji":
+      return range(c) > 0 && body(c) <= DOJI_BODY * range(c);
+    case "morning_star":
+      // Long red bar, a small bar below the red body's middle, then a green close above that middle
+      return isBearish(pp) && body(pp) >= range(pp) / 2 &&
+        body(p) <= STAR_BODY * body(pp) && Math.max(p.open, p.close) < (pp.open + pp.close) / 2 &&
+        isBullish(c) && c.close > (pp.open + pp.close) / 2;
+    case "evening_star":
+      return isBullish(pp) && body(pp) >= range(pp) / 2 &&
+        body(p) <= STAR_BODY * body(pp) && Math.min(p.open, p.close) > (pp.open + pp.close) / 2 &&
+        isBearish(c) && c.close < (pp.open + pp.close) / 2;
+    case "inside_bar":
+      return c.high < p.high && c.low > p.low;
+    case "three_white_soldiers":
+      // Three green bars closing higher, each opening inside the body before and closing near its high
+      return [pp, p, c].every((b) => isBullish(b) && upperShadow(b) <= body(b) / 2) &&
+        p.close > pp.close && c.close > p.close &&
+        p.open >= pp.open && p.open <= pp.close && c.open >= p.open && c.open <= p.close;
+    case "three_black_crows":
+      return [pp, p, c].every((b) => isBearish(b) && lowerShadow(b) <= body(b) / 2) &&
+        p.close < pp.close && c.close < p.close &&
+        p.open <= pp.open && p.open >= pp.close && c.open <= p.open && c.open >= p.close;
+  }
+}
+
+export function candlePatternSeries(pattern: CandlePatternName, bars: Bar[]): (number | undefined)[] {
+  const needed = BARS_NEEDED[pattern];
+  return bars.map((_, i) => (i + 1 < needed ? undefined : matches(pattern, bars, i) ? 1 : 0));
+}
+
+/** Every pattern completing on one of `bars`, oldest first, e.g. for chart markers */
+export function findCandlePatterns(bars: Bar[]): { index: number; pattern: CandlePatternInfo }[] {
+  const found: { index: number; pattern: CandlePatternInfo }[] = [];
+  bars.forEach((_, i) => {
+    for (const pattern of CANDLE_PATTERNS) {
+      if (i + 1 >= BARS_NEEDED[pattern.name] && matches(pattern.name, bars, i)) found.push({ index: i, pattern });
+    }
+  });
+  return found;
+}
@@ -0,0 +1,128 @@
+import { db } from "@/lib/db";
+import { customIndicators, type CustomIndicator } from "@/lib/db/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { CUSTOM_INDICATOR_PREFIX, isCustomIndicator, type CustomIndicatorName } from "./indicators";
+import { conditionRefs, flattenConditions } from "./backtest/conditions";
+import { formatValue, parseValue } from "./strategy-dsl";
+import { validateIndicatorFormula } from "./strategy-schema";
+import type { ConditionValue, StrategyConfig } from "./backtest/types";
+
+/**
+ * User-defined indicators: a name and a formula over built-in indicators, prices and alt data,
+ * written as a DSL operand, e.g. `(ema(9) - ema(21)) / atr(14)`. Formulas are parsed by
+ * ./strategy-dsl into the arithmetic of condition values and never run as code.
+ *
+ * Each user has their own. Conditions reference one as `custom_<name>` wherever a built-in indicator
+ * goes; the backtest engine and StrategyExecutor compute it with cacheCustomIndicators from the
+ * definitions of the strategy's owner, passed as BacktestOptions.customIndicators.
+ */
+
+export interface CustomIndicatorDefinition {
+  name: CustomIndicatorName;
+  formula: ConditionValue;
+}
+
+const NAME_PATTERN = /^custom_[a-z][a-z0-9_]{0,39}$/;
+
+/** `name` as an indicator name: lowercased, with the custom_ prefix added when it has none */
+export function toCustomIndicatorName(name: string): string {
+  const lower = name.trim().toLowerCase();
+  return lower.startsWith(CUSTOM_INDICATOR_PREFIX) ? lower : CUSTOM_INDICATOR_PREFIX + lower;
+}
+
+/** Checks a name and formula; the formula comes back in canonical text, as it is stored */
+export function parseCustomIndicator(name: string, formula: string) {
+  const indicator = toCustomIndicatorName(name);
+  if (!NAME_PATTERN.test(indicator)) {
+    return {
+      success: false as const,
+      issues: ["name: Use a letter, then up to 39 letters, digits or underscores, e.g. ema_spread"],
+    };
+  }
+
+  let value: ConditionValue;
+  try {
+    value = parseValue(formula);
+  } catch (err) {
+    if (err instanceof SyntaxError) return { success: false as const, issues: [`formula: ${err.message}`] };
+    throw err;
+  }
+  const parsed = validateIndicatorFormula(value);
+  if (!parsed.success) return { success: false as const, issues: parsed.issues.map((issue) => `formula: ${issue}`) };
+
+  return {
+    success: true as const,
+    definition: { name: indicator as CustomIndicatorName, formula: parsed.formula },
+    formula: formatValue(parsed.formula),
+  };
+}
+
+function toDefinition(row: CustomIndicator): CustomIndicatorDefinition {
+  return { name: row.name as CustomIndicatorName, formula: parseValue(row.formula) };
+}
+
+export async function listCustomIndicators(userId: string): Promise<CustomIndicator[]> {
+  return db
+    .select()
+    .from(customIndicators)
+    .where(eq(customIndicators.userId, userId))
+    .orderBy(asc(customIndicators.name));
+}
+
+/**
+ * The definitions of `userId`'s custom indicators that `configs` read, for running them. Without a
+ * query when they read none, so callers can load them for every strategy.
+ */
+export async function loadCustomIndicators(
+  userId: string,
+  configs: StrategyConfig | StrategyConfig[]
+): Promise<CustomIndicatorDefinition[]> {
+  const names = new Set<string>();
+  for (const config of Array.isArray(configs) ? configs : [configs]) {
+    for (const cond of flattenConditions([...config.entryConditions, ...config.exitConditions])) {
+      for (const ref of conditionRefs(cond)) {
+        if (isCustomIndicator(ref.indicator)) names.add(ref.indicator);
+      }
+    }
+  }
+  if (names.size === 0) return [];
+
+  const rows = await db
+    .select()
+    .from(customIndicators)
+    .where(and(eq(customIndicators.userId, userId), inArray(customIndicators.name, [...names])));
+  return rows.map(toDefinition);
+}
+
+/** Creates the indicator, or replaces the formula of the user's indicator of that name */
+export async function saveCustomIndicator(
+  userId: string,
+  input: { name: string; formula: string; description?: string | null }
+) {
+  const parsed = parseCustomIndicator(input.name, input.formula);
+  if (!parsed.success) return parsed;
+
+  const [indicator] = await db
+    .insert(customIndicators)
+    .values({
+      userId,
+      name: parsed.definition.name,
+      formula: parsed.formula,
+      description: input.description ?? null,
+    })
+    .onConflictDoUpdate({
+      target: [customIndicators.userId, customIndicators.name],
+      set: { formula: parsed.formula, description: input.description ?? null, updatedAt: new Date() },
+    })
+    .returning();
+  return { success: true as const, indicator };
+}
+
+/** Deletes one of the user's indicators; strategies still reading it stop passing conditions on it */
+export async function deleteCustomIndicator(userId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(customIndicators)
+    .where(and(eq(customIndicators.id, id), eq(customIndicators.userId, userId)))
+    .returning({ id: customIndicators.id });
+  return deleted.length > 0;
+}
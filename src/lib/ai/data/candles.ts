@@ -1,7 +1,7 @@
 import { db } from "@/lib/db";
 import { ohlcvCache } from "@/lib/db/schema";
 import { createExchange } from "@/lib/exchange/client";
-import { and, eq, gte, lte } from "drizzle-orm";
+import { and, eq, gte, lt, lte } from "drizzle-orm";
 
 export interface Candle {
   timestamp: number;
@@ -13,7 +13,7 @@ export interface Candle {
 }
 
 /** Convert timeframe string to milliseconds */
-function timeframeToMs(tf: string): number {
+export function timeframeToMs(tf: string): number {
   const map: Record<string, number> = {
     "1m": 60_000,
     "5m": 5 * 60_000,
@@ -63,6 +63,38 @@ function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** Upserts exchange OHLCV rows into the candle cache */
+async function cacheOhlcv(symbol: string, timeframe: string, ohlcv: (number | undefined)[][]): Promise<void> {
+  const rows = ohlcv.map((c) => ({
+    symbol,
+    timeframe,
+    timestamp: new Date(c[0] as number),
+    open: c[1] as number,
+    high: c[2] as number,
+    low: c[3] as number,
+    close: c[4] as number,
+    volume: c[5] as number,
+  }));
+
+  const batchSize = 500;
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize);
+    await db
+      .insert(ohlcvCache)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: [ohlcvCache.symbol, ohlcvCache.timeframe, ohlcvCache.timestamp],
+        set: {
+          open: ohlcvCache.open,
+          high: ohlcvCache.high,
+          low: ohlcvCache.low,
+          close: ohlcvCache.close,
+          volume: ohlcvCache.volume,
+        },
+      });
+  }
+}
+
 /**
  * Fetch candles with pagination to handle >1000 candle ranges.
  * Uses cache intelligently: if cache covers the range and is fresh, skip exchange.
@@ -151,37 +183,7 @@ export async function fetchCandles(
       await sleep(200);
     }
 
-    if (allOhlcv.length > 0) {
-      // Upsert into cache
-      const rows = allOhlcv.map((c) => ({
-        symbol,
-        timeframe,
-        timestamp: new Date(c[0] as number),
-        open: c[1] as number,
-        high: c[2] as number,
-        low: c[3] as number,
-        close: c[4] as number,
-        volume: c[5] as number,
-      }));
-
-      const batchSize = 500;
-      for (let i = 0; i < rows.length; i += batchSize) {
-        const batch = rows.slice(i, i + batchSize);
-        await db
-          .insert(ohlcvCache)
-          .values(batch)
-          .onConflictDoUpdate({
-            target: [ohlcvCache.symbol, ohlcvCache.timeframe, ohlcvCache.timestamp],
-            set: {
-              open: ohlcvCache.open,
-              high: ohlcvCache.high,
-              low: ohlcvCache.low,
-              close: ohlcvCache.close,
-              volume: ohlcvCache.volume,
-            },
-          });
-      }
-    }
+    await cacheOhlcv(symbol, timeframe, allOhlcv);
 
     // Combine cached data (before fetchSince) with newly fetched data
     const cachedBefore = cached
@@ -221,6 +223,64 @@ export async function fetchCandles(
   }
 }
 
+/**
+ * Fetch the candles opening in [since, until), e.g. the lower-timeframe candles inside one bar.
+ * Served from the cache when it holds all of them; otherwise fetched and cached.
+ */
+export async function fetchCandleRange(
+  symbol: string,
+  timeframe: string,
+  since: number,
+  until: number
+): Promise<Candle[]> {
+  const tfMs = timeframeToMs(timeframe);
+  const expected = Math.ceil((Math.min(until, Date.now()) - since) / tfMs);
+  if (expected <= 0) return [];
+
+  const cached = await db
+    .select()
+    .from(ohlcvCache)
+    .where(
+      and(
+        eq(ohlcvCache.symbol, symbol),
+        eq(ohlcvCache.timeframe, timeframe),
+        gte(ohlcvCache.timestamp, new Date(since)),
+        lt(ohlcvCache.timestamp, new Date(until))
+      )
+    )
+    .orderBy(ohlcvCache.timestamp);
+
+  if (cached.length >= expected) {
+    return cached.map((c) => ({
+      timestamp: c.timestamp.getTime(),
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+  }
+
+  await acquireSemaphore();
+  const exchange = createExchange();
+  try {
+    const ohlcv: (number | undefined)[][] = (await exchange.fetchOHLCV(symbol, timeframe, since, expected))
+      .filter((c: (number | undefined)[]) => (c[0] as number) < until);
+    await cacheOhlcv(symbol, timeframe, ohlcv);
+    return ohlcv.map((c) => ({
+      timestamp: c[0] as number,
+      open: c[1] as number,
+      high: c[2] as number,
+      low: c[3] as number,
+      close: c[4] as number,
+      volume: c[5] as number,
+    }));
+  } finally {
+    await exchange.close();
+    releaseSemaphore();
+  }
+}
+
 /**
  * Fetch candles for multiple symbol×timeframe×daysBack jobs with controlled concurrency.
  * Returns results in the same order as the input jobs.
@@ -0,0 +1,233 @@
+import { fetchCandles } from "@/lib/ai/data/candles";
+import { calculateIndicator } from "@/lib/ai/indicators";
+import { CANDLE_PATTERNS } from "@/lib/ai/candle-patterns";
+import { TOP_20_SYMBOLS as TOP_SYMBOLS } from "@/lib/constants/symbols";
+
+export interface MarketSignal {
+  symbol: string;
+  currentPrice: number;
+  volume24h: number;
+  signals: string[]; // human-readable signal descriptions
+  score: number; // composite score (more signals = higher)
+  timeframe: string;
+}
+
+/** Scans the top symbols for indicator signals on `timeframe`, strongest first */
+export async function scanMarket(timeframe: string): Promise<MarketSignal[]> {
+  const results: MarketSignal[] = [];
+
+  for (const symbol of TOP_SYMBOLS) {
+    try {
+      const candles = await fetchCandles(symbol, timeframe, 14); // 14 days for indicator warmup
+      if (candles.length < 30) continue;
+
+      const signals: string[] = [];
+      const lastIdx = candles.length - 1;
+      const price = candles[lastIdx].close;
+      const prevPrice = candles[lastIdx - 1].close;
+
+      // RSI Analysis
+      const rsiResult = calculateIndicator("rsi", candles, { period: 14 });
+      const rsiVal = rsiResult.values[lastIdx] as number | undefined;
+      const rsiPrev = rsiResult.values[lastIdx - 1] as number | undefined;
+      if (rsiVal !== undefined) {
+        if (rsiVal < 30) signals.push(`RSI oversold (${rsiVal.toFixed(1)})`);
+        else if (rsiVal > 70) signals.push(`RSI overbought (${rsiVal.toFixed(1)})`);
+        if (rsiPrev !== undefined && rsiPrev < 30 && rsiVal >= 30) signals.push("RSI bouncing from oversold");
+      }
+
+      // MACD Analysis
+      const macdResult = calculateIndicator("macd", candles, {});
+      const macdCurr = macdResult.values[lastIdx] as { macd?: number; signal?: number; histogram?: number } | undefined;
+      const macdPrev = macdResult.values[lastIdx - 1] as { macd?: number; signal?: number; histogram?: number } | undefined;
+      if (macdCurr && macdPrev && macdCurr.macd !== undefined && macdCurr.signal !== undefined) {
+        if (macdPrev.macd !== undefined && macdPrev.signal !== undefined) {
+          if (macdPrev.macd <= macdPrev.signal && macdCurr.macd > macdCurr.signal) {
+            signals.push("MACD bullish crossover");
+          }
+          if (macdPrev.macd >= macdPrev.signal && macdCurr.macd < macdCurr.signal) {
+            signals.push("MACD bearish crossover");
+          }
+        }
+        if (macdCurr.histogram !== undefined) {
+          if (macdCurr.histogram > 0 && macdPrev?.histogram !== undefined && macdPrev.histogram <= 0) {
+            signals.push("MACD histogram turned positive");
+          }
+        }
+      }
+
+      // Bollinger Bands Analysis
+      const bbResult = calculateIndicator("bollinger", candles, { period: 20, stdDev: 2 });
+      const bbCurr = bbResult.values[lastIdx] as { upper?: number; middle?: number; lower?: number } | undefined;
+      if (bbCurr && bbCurr.lower !== undefined && bbCurr.upper !== undefined) {
+        if (price <= bbCurr.lower) signals.push("Price at lower Bollinger Band");
+        if (price >= bbCurr.upper) signals.push("Price at upper Bollinger Band");
+        // BB Squeeze: narrow bands
+        const bandwidth = bbCurr.upper - bbCurr.lower;
+        const bbPrev = bbResult.values[lastIdx - 5] as { upper?: number; lower?: number } | undefined;
+        if (bbPrev?.upper !== undefined && bbPrev?.lower !== undefined) {
+          const prevBandwidth = bbPrev.upper - bbPrev.lower;
+          if (bandwidth < prevBandwidth * 0.6) {
+            signals.push("Bollinger Band squeeze (breakout imminent)");
+          }
+        }
+      }
+
+      // EMA Crossovers
+      const ema9Result = calculateIndicator("ema", candles, { period: 9 });
+      const ema21Result = calculateIndicator("ema", candles, { period: 21 });
+      const ema9 = ema9Result.values[lastIdx] as number | undefined;
+      const ema21 = ema21Result.values[lastIdx] as number | undefined;
+      const ema9Prev = ema9Result.values[lastIdx - 1] as number | undefined;
+      const ema21Prev = ema21Result.values[lastIdx - 1] as number | undefined;
+      if (ema9 !== undefined && ema21 !== undefined && ema9Prev !== undefined && ema21Prev !== undefined) {
+        if (ema9Prev <= ema21Prev && ema9 > ema21) signals.push("EMA 9/21 golden cross");
+        if (ema9Prev >= ema21Prev && ema9 < ema21) signals.push("EMA 9/21 death cross");
+      }
+
+      // Stochastic
+      const stochResult = calculateIndicator("stochastic", candles, { period: 14, signalPeriod: 3 });
+      const stochCurr = stochResult.values[lastIdx] as { k?: number; d?: number } | undefined;
+      if (stochCurr?.k !== undefined && stochCurr?.d !== undefined) {
+        if (stochCurr.k < 20 && stochCurr.d < 20) signals.push(`Stochastic oversold (K:${stochCurr.k.toFixed(0)} D:${stochCurr.d.toFixed(0)})`);
+        if (stochCurr.k > 80 && stochCurr.d > 80) signals.push(`Stochastic overbought (K:${stochCurr.k.toFixed(0)} D:${stochCurr.d.toFixed(0)})`);
+      }
+
+      // ADX / DMI: directional crossovers in a trending market
+      const adxResult = calculateIndicator("adx", candles, { period: 14 });
+      const adxCurr = adxResult.values[lastIdx] as { adx?: number; pdi?: number; mdi?: number } | undefined;
+      const adxPrev = adxResult.values[lastIdx - 1] as { adx?: number; pdi?: number; mdi?: number } | undefined;
+      if (adxCurr?.adx !== undefined && adxCurr.pdi !== undefined && adxCurr.mdi !== undefined && adxPrev?.pdi !== undefined && adxPrev.mdi !== undefined) {
+        if (adxCurr.adx > 25) {
+          if (adxPrev.pdi <= adxPrev.mdi && adxCurr.pdi > adxCurr.mdi) signals.push(`DMI bullish crossover (ADX ${adxCurr.adx.toFixed(0)})`);
+          if (adxPrev.pdi >= adxPrev.mdi && adxCurr.pdi < adxCurr.mdi) signals.push(`DMI bearish crossover (ADX ${adxCurr.adx.toFixed(0)})`);
+        }
+      }
+
+      // Supertrend flips
+      const stResult = calculateIndicator("supertrend", candles, { period: 10, multiplier: 3 });
+      const stCurr = stResult.values[lastIdx] as { direction?: number } | undefined;
+      const stPrev = stResult.values[lastIdx - 1] as { direction?: number } | undefined;
+      if (stCurr?.direction !== undefined && stPrev?.direction !== undefined && stCurr.direction !== stPrev.direction) {
+        signals.push(stCurr.direction > 0 ? "Supertrend flipped bullish" : "Supertrend flipped bearish");
+      }
+
+      // Ichimoku: close breaking out of the cloud
+      const ichResult = calculateIndicator("ichimoku", candles, {});
+      const ichCurr = ichResult.values[lastIdx] as { spanA?: number; spanB?: number } | undefined;
+      if (ichCurr?.spanA !== undefined && ichCurr.spanB !== undefined) {
+        const top = Math.max(ichCurr.spanA, ichCurr.spanB);
+        const bottom = Math.min(ichCurr.spanA, ichCurr.spanB);
+        if (prevPrice <= top && price > top) signals.push("Price broke above the Ichimoku cloud");
+        if (prevPrice >= bottom && price < bottom) signals.push("Price broke below the Ichimoku cloud");
+      }
+
+      // Donchian: 20-bar breakouts
+      const dcCurr = calculateIndicator("donchian", candles, { period: 20 }).values[lastIdx] as { upper?: number; lower?: number } | undefined;
+      if (dcCurr?.upper !== undefined && dcCurr.lower !== undefined) {
+        if (price > dcCurr.upper) signals.push("Donchian 20-bar breakout");
+        if (price < dcCurr.lower) signals.push("Donchian 20-bar breakdown");
+      }
+
+      // Keltner: closes outside the channel
+      const kcCurr = calculateIndicator("keltner", candles, {}).values[lastIdx] as { upper?: number; lower?: number } | undefined;
+      if (kcCurr?.upper !== undefined && kcCurr.lower !== undefined) {
+        if (price > kcCurr.upper) signals.push("Price above upper Keltner Channel");
+        if (price < kcCurr.lower) signals.push("Price below lower Keltner Channel");
+      }
+
+      // VWAP reclaim / loss
+      const vwapResult = calculateIndicator("vwap", candles, {});
+      const vwap = vwapResult.values[lastIdx] as number | undefined;
+      const vwapPrev = vwapResult.values[lastIdx - 1] as number | undefined;
+      if (vwap !== undefined && vwapPrev !== undefined) {
+        if (prevPrice <= vwapPrev && price > vwap) signals.push("Price reclaimed VWAP");
+        if (prevPrice >= vwapPrev && price < vwap) signals.push("Price lost VWAP");
+      }
+
+      // Parabolic SAR flips
+      const sarResult = calculateIndicator("psar", candles, {});
+      const sar = sarResult.values[lastIdx] as number | undefined;
+      const sarPrev = sarResult.values[lastIdx - 1] as number | undefined;
+      if (sar !== undefined && sarPrev !== undefined) {
+        if (sarPrev > prevPrice && sar < price) signals.push("Parabolic SAR flipped bullish");
+        if (sarPrev < prevPrice && sar > price) signals.push("Parabolic SAR flipped bearish");
+      }
+
+      // Oscillator extremes
+      const mfi = calculateIndicator("mfi", candles, { period: 14 }).values[lastIdx] as number | undefined;
+      if (mfi !== undefined) {
+        if (mfi < 20) signals.push(`MFI oversold (${mfi.toFixed(0)})`);
+        else if (mfi > 80) signals.push(`MFI overbought (${mfi.toFixed(0)})`);
+      }
+      const cci = calculateIndicator("cci", candles, { period: 20 }).values[lastIdx] as number | undefined;
+      if (cci !== undefined) {
+        if (cci < -200) signals.push(`CCI extreme low (${cci.toFixed(0)})`);
+        else if (cci > 200) signals.push(`CCI extreme high (${cci.toFixed(0)})`);
+      }
+      const willR = calculateIndicator("williams_r", candles, { period: 14 }).values[lastIdx] as number | undefined;
+      if (willR !== undefined) {
+        if (willR < -80) signals.push(`Williams %R oversold (${willR.toFixed(0)})`);
+        else if (willR > -20) signals.push(`Williams %R overbought (${willR.toFixed(0)})`);
+      }
+
+      // OBV confirming a 20-bar high or low in price
+      const obvResult = calculateIndicator("obv", candles, {});
+      const obv = obvResult.values[lastIdx] as number | undefined;
+      const obvPast = obvResult.values[lastIdx - 20] as number | undefined;
+      if (obv !== undefined && obvPast !== undefined && dcCurr?.upper !== undefined && dcCurr.lower !== undefined) {
+        if (price > dcCurr.upper && obv > obvPast) signals.push("OBV confirms the breakout");
+        if (price < dcCurr.lower && obv < obvPast) signals.push("OBV confirms the breakdown");
+      }
+
+      // Heikin-Ashi color change
+      const haResult = calculateIndicator("heikin_ashi", candles, {});
+      const haCurr = haResult.values[lastIdx] as { open?: number; close?: number } | undefined;
+      const haPrev = haResult.values[lastIdx - 1] as { open?: number; close?: number } | undefined;
+      if (haCurr?.open !== undefined && haCurr.close !== undefined && haPrev?.open !== undefined && haPrev.close !== undefined) {
+        if (haPrev.close < haPrev.open && haCurr.close > haCurr.open) signals.push("Heikin-Ashi turned green");
+        if (haPrev.close > haPrev.open && haCurr.close < haCurr.open) signals.push("Heikin-Ashi turned red");
+      }
+
+      // Daily pivots: crossing R1 / S1
+      const pivResult = calculateIndicator("pivots", candles, {});
+      const piv = pivResult.values[lastIdx] as { r1?: number; s1?: number } | undefined;
+      if (piv?.r1 !== undefined && piv.s1 !== undefined) {
+        if (prevPrice <= piv.r1 && price > piv.r1) signals.push("Price broke above pivot R1");
+        if (prevPrice >= piv.s1 && price < piv.s1) signals.push("Price broke below pivot S1");
+      }
+
+      // Volume spikes: at least twice the 20-bar average volume
+      const volAvg = calculateIndicator("volume_sma", candles, { period: 20 }).values[lastIdx] as number | undefined;
+      const volume = candles[lastIdx].volume;
+      if (volAvg !== undefined && volAvg > 0 && volume >= 2 * volAvg && price !== prevPrice) {
+        signals.push(`Volume spike (${(volume / volAvg).toFixed(1)}× average) on ${price > prevPrice ? "an up" : "a down"} bar`);
+      }
+
+      // Candlestick patterns completed by the last bar
+      for (const pattern of CANDLE_PATTERNS) {
+        if (calculateIndicator(pattern.name, candles).values[lastIdx] === 1) {
+          signals.push(`${pattern.label} candlestick pattern`);
+        }
+      }
+
+      if (signals.length > 0) {
+        results.push({
+          symbol,
+          currentPrice: price,
+          volume24h: candles.slice(-24).reduce((s, c) => s + c.volume, 0),
+          signals,
+          score: signals.length,
+          timeframe,
+        });
+      }
+    } catch (err) {
+      // Skip symbols that fail
+      console.error(`[MarketScanner] Failed to scan ${symbol}:`, err);
+    }
+  }
+
+  // Sort by score descending
+  results.sort((a, b) => b.score - a.score);
+  return results;
+}
@@ -1,5 +1,6 @@
 import { fetchCandles } from "@/lib/ai/data/candles";
-import { calculateIndicator } from "@/lib/ai/indicators";
+import { calculateIndicator, INDICATOR_FIELDS, TECHNICAL_INDICATORS } from "@/lib/ai/indicators";
+import { CANDLE_PATTERN_NAMES } from "@/lib/ai/candle-patterns";
 import { fetchMarketOverview } from "@/lib/ai/data/market";
 import { fetchDerivativesOverview } from "@/lib/ai/data/funding-rates";
 import { fetchRedditSentiment } from "@/lib/ai/data/reddit-sentiment";
@@ -36,6 +37,20 @@ export interface AiGeneratorResult {
   config: { timeframe: string; targetTotal: number };
 }
 
+// Prompt line naming the fields of multi-value indicators, e.g. macd→"macd"|"signal"|"histogram"
+const FIELDS_HINT = `For multi-value indicators use "field": ${Object.entries(INDICATOR_FIELDS)
+  .map(([name, fields]) => `${name}→${fields.map((f) => `"${f}"`).join("|")}`)
+  .join(", ")}`;
+
+// Prompt line on price operands, bar offsets and arithmetic values
+const PRICE_HINT = `Price operands: open, high, low, close, volume and pct_change (percent change of the close over params.period bars); ` +
+  `"offset": n reads n bars back, e.g. {"indicator":"close","operator":">","value":{"indicator":"high","offset":1}}; ` +
+  `value may be arithmetic {"op":"*","left":2,"right":{"indicator":"volume_sma"}} with op + - * /`;
+
+// Prompt line on the candlestick pattern indicators
+const PATTERN_HINT = `Candlestick patterns (${CANDLE_PATTERN_NAMES.join(", ")}) are 1 on the bar completing them, else 0: ` +
+  `{"indicator":"hammer","operator":">","value":0}`;
+
 /** Check if user instructions mention social/alt-data indicators */
 function userWantsSocialData(prompt: string): boolean {
   if (!prompt) return false;
@@ -328,7 +343,7 @@ ${overviewStr}${altDataStr}
 Available symbols: ${symbolsToScan.join(", ")}
 ${riskNote}
 
-Available technical indicators: rsi, macd, bollinger, ema, sma, stochastic, atr
+Available technical indicators: ${TECHNICAL_INDICATORS.join(", ")}
 Available alternative data indicators (these ARE backtestable — historical data is stored):
 - funding_rate: per-symbol funding rate (decimal, e.g. 0.0005 = 0.05%)
 - funding_signal: -2=extreme_short, -1=short_crowded, 0=neutral, 1=long_crowded, 2=extreme_long
@@ -341,8 +356,10 @@ Available alternative data indicators (these ARE backtestable — historical dat
 - social_volume: LunarCrush social mentions volume per coin
 - social_dominance: LunarCrush social dominance % per coin
 Available operators: >, <, >=, <=, crosses_above, crosses_below
-For multi-value indicators use "field": macd→"macd"|"signal"|"histogram", bollinger→"upper"|"middle"|"lower", stochastic→"k"|"d"
+${FIELDS_HINT}
 For indicator-vs-indicator: value can be {"indicator":"ema","params":{"period":21}}
+${PRICE_HINT}
+${PATTERN_HINT}
 
 Respond ONLY with a JSON array. No markdown fences. No explanation. Compact JSON only.
 Each object:
@@ -704,7 +721,7 @@ ${overviewStr}${altDataStr}
 Available symbols: ${symbolsToScan.join(", ")}
 ${riskNote}
 
-Available technical indicators: rsi, macd, bollinger, ema, sma, stochastic, atr
+Available technical indicators: ${TECHNICAL_INDICATORS.join(", ")}
 Available alternative data indicators (these ARE backtestable — historical data is stored):
 - funding_rate: per-symbol funding rate (decimal, e.g. 0.0005 = 0.05%)
 - funding_signal: -2=extreme_short, -1=short_crowded, 0=neutral, 1=long_crowded, 2=extreme_long
@@ -717,8 +734,10 @@ Available alternative data indicators (these ARE backtestable — historical dat
 - social_volume: LunarCrush social mentions volume per coin
 - social_dominance: LunarCrush social dominance % per coin
 Available operators: >, <, >=, <=, crosses_above, crosses_below
-For multi-value indicators use "field": macd→"macd"|"signal"|"histogram", bollinger→"upper"|"middle"|"lower", stochastic→"k"|"d"
+${FIELDS_HINT}
 For indicator-vs-indicator: value can be {"indicator":"ema","params":{"period":21}}
+${PRICE_HINT}
+${PATTERN_HINT}
 
 Respond ONLY with a JSON array. No markdown fences. No explanation. Compact JSON only.
 Each object:
@@ -0,0 +1,402 @@
+import { generateStrategies, type FunnelConfig, type GeneratedStrategy } from "@/lib/ai/funnel/generator";
+import { generateAiStrategies } from "@/lib/ai/funnel/ai-generator";
+import { scanMarket } from "@/lib/ai/data/market-scanner";
+import { fetchCandlesBatch, type Candle } from "@/lib/ai/data/candles";
+import { runBacktest } from "@/lib/ai/backtest/engine";
+import type { JobContext } from "@/lib/ai/backtest/jobs";
+import { addTrial, emptyTrialStats, robustnessReport, runRobustnessChecks } from "@/lib/ai/backtest/robustness";
+import type { Trade, EquityPoint, RobustnessChecks, RobustnessReport, TrialStats } from "@/lib/ai/backtest/types";
+
+const INITIAL_EQUITY = 10000;
+const CHECKPOINT_EVERY = 100; // strategies backtested between checkpoints
+
+export interface AutopilotParams {
+  mode: "algo" | "ai";
+  timeframe: string;
+  minProfitPercent: number;
+  daysBack: number;
+  topN: number;
+  positionSizePercent: number;
+  crossValidateSymbols: string[];
+  crossValidateDateRanges: { label: string; days: number }[];
+  // Algo mode; scans the market when no signals are given
+  signals: FunnelConfig["signals"];
+  maxStrategies: number;
+  slRange: number[];
+  tpRange: number[];
+  // AI mode
+  aiBaseCount: number;
+  aiTargetTotal: number;
+  aiPrompt: string;
+  noRiskManagement: boolean;
+}
+
+interface AutopilotMetrics {
+  totalPnl: number;
+  winRate: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  profitFactor: number;
+  totalTrades: number;
+}
+
+interface AutopilotCandidate {
+  strategy: GeneratedStrategy;
+  metrics: AutopilotMetrics;
+  trades: Trade[];
+  equityCurve: EquityPoint[];
+  checks?: RobustnessChecks; // run on the backtest candles once the candidate made the top N
+}
+
+export interface AutopilotWinner extends AutopilotCandidate {
+  crossValidation: {
+    results: { symbol: string; dateRange: string; totalPnl: number; totalTrades: number }[];
+    profitableRatio: number;
+    avgPnl: number;
+  };
+  robustness?: RobustnessReport;
+}
+
+export interface AutopilotResult {
+  winners: AutopilotWinner[];
+  totalGenerated: number;
+  totalTested: number;
+  totalPassed: number;
+  totalCrossValidated: number;
+  totalWinners: number;
+}
+
+/**
+ * Where an interrupted run picks up. Generated strategies are kept so a resume never
+ * regenerates (AI mode costs tokens); only the best `topN` passing candidates are kept
+ * since nothing below them reaches cross-validation.
+ */
+interface AutopilotCheckpoint {
+  strategies: GeneratedStrategy[];
+  visited: number;   // strategies walked in symbol order, including those without candles
+  tested: number;
+  passed: number;
+  trials: TrialStats; // Sharpe spread of every backtested strategy, for the deflated Sharpe
+  top: AutopilotCandidate[];
+  validated: number; // top candidates cross-validated
+  winners: AutopilotWinner[];
+}
+
+function downsampleEquity(curve: EquityPoint[], maxPoints: number): EquityPoint[] {
+  if (curve.length <= maxPoints) return curve;
+  const step = curve.length / maxPoints;
+  const result: EquityPoint[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    result.push(curve[Math.floor(i * step)]);
+  }
+  result.push(curve[curve.length - 1]);
+  return result;
+}
+
+/** Generate → backtest → cross-validate, reporting through `ctx` and resuming from its checkpoint */
+export async function runAutopilot(
+  params: AutopilotParams,
+  userId: string,
+  ctx: JobContext
+): Promise<AutopilotResult> {
+  const { mode, timeframe, minProfitPercent, daysBack, topN } = params;
+  const cvSymbols = params.crossValidateSymbols;
+  const cvDateRanges = params.crossValidateDateRanges;
+
+  let state = ctx.resumeFrom as AutopilotCheckpoint | null;
+
+  // ── Phase 1: Generate ──
+  if (!state) {
+    await ctx.event({ phase: "generate", status: "started", message: `Generating strategies (${mode} mode)...` });
+
+    let strategies: GeneratedStrategy[];
+
+    if (mode === "ai") {
+      const result = await generateAiStrategies({
+        count: params.aiBaseCount,
+        targetTotal: params.aiTargetTotal,
+        prompt: params.aiPrompt,
+        timeframe,
+        positionSizePercent: params.noRiskManagement ? 100 : params.positionSizePercent,
+        noRiskManagement: params.noRiskManagement,
+        slRange: params.slRange,
+        tpRange: params.tpRange,
+        userId,
+      });
+      strategies = result.strategies;
+      await ctx.event({
+        phase: "generate", status: "completed",
+        message: `Generated ${strategies.length} AI strategies (${result.aiBaseCount} base)`,
+        data: { count: strategies.length, aiBaseCount: result.aiBaseCount, tokenUsage: result.tokenUsage },
+      });
+    } else {
+      let algoSignals = params.signals;
+      if (!algoSignals.length) {
+        await ctx.progress(2, "Scanning market for signals...");
+        try {
+          algoSignals = (await scanMarket(timeframe)).map((s) => ({
+            symbol: s.symbol,
+            signals: s.signals,
+            currentPrice: s.currentPrice,
+          }));
+        } catch (err) {
+          console.error("[Autopilot] Scanner failed:", err);
+        }
+      }
+
+      if (!algoSignals.length) {
+        await ctx.event({ phase: "generate", status: "error", message: "No signals available for algo mode" });
+        throw new Error("No signals available");
+      }
+
+      strategies = generateStrategies({
+        signals: algoSignals,
+        timeframe,
+        maxStrategies: params.maxStrategies,
+        slRange: params.slRange,
+        tpRange: params.tpRange,
+        minProfitPercent,
+        positionSizePercent: params.positionSizePercent,
+      });
+      await ctx.event({
+        phase: "generate", status: "completed",
+        message: `Generated ${strategies.length} algo strategies`,
+        data: { count: strategies.length },
+      });
+    }
+
+    state = { strategies, visited: 0, tested: 0, passed: 0, trials: emptyTrialStats(), top: [], validated: 0, winners: [] };
+    await ctx.checkpoint(state);
+  }
+
+  // Checkpoints from before trial stats were kept resume without them
+  const run: AutopilotCheckpoint = { ...state, trials: state.trials ?? emptyTrialStats() };
+  const { strategies } = run;
+
+  // ── Phase 2: Backtest all ──
+  if (run.visited < strategies.length) {
+    await ctx.event({
+      phase: "backtest", status: "started",
+      message: run.visited > 0
+        ? `Resuming backtests at ${run.visited}/${strategies.length}...`
+        : `Backtesting ${strategies.length} strategies...`,
+    });
+
+    // Group by symbol for efficient candle fetching
+    const bySymbol = new Map<string, GeneratedStrategy[]>();
+    for (const s of strategies) {
+      const list = bySymbol.get(s.symbol) || [];
+      list.push(s);
+      bySymbol.set(s.symbol, list);
+    }
+
+    const symbolList = [...bySymbol.keys()];
+    const candleResults = await fetchCandlesBatch(
+      symbolList.map((symbol) => ({ symbol, timeframe, daysBack }))
+    );
+
+    const candleCache = new Map<string, Candle[]>();
+    for (let i = 0; i < symbolList.length; i++) {
+      const result = candleResults[i];
+      if (result.status === "fulfilled" && result.value.length >= 30) {
+        candleCache.set(symbolList[i], result.value);
+      }
+    }
+
+    await ctx.progress(10, `Fetched candles for ${candleCache.size}/${symbolList.length} symbols`);
+
+    const ordered = [...bySymbol.values()].flat();
+    const pending: AutopilotCandidate[] = [];
+    const keepTop = () => {
+      // Stable sort, so ties keep the order a single final sort would give them
+      run.top = [...run.top, ...pending].sort((a, b) => b.metrics.totalPnl - a.metrics.totalPnl).slice(0, topN);
+      pending.length = 0;
+    };
+
+    for (let i = run.visited; i < ordered.length; i++) {
+      const strategy = ordered[i];
+      const candles = candleCache.get(strategy.symbol);
+      run.visited = i + 1;
+      if (!candles) continue;
+
+      run.tested++;
+      try {
+        const result = await runBacktest(candles, strategy.strategyConfig, strategy.symbol, { timeframe });
+        addTrial(run.trials, result.trades);
+        const totalReturnPct = (result.totalPnl / INITIAL_EQUITY) * 100;
+
+        if (totalReturnPct >= minProfitPercent) {
+          run.passed++;
+          pending.push({
+            strategy,
+            metrics: {
+              totalPnl: Math.round(totalReturnPct * 100) / 100,
+              winRate: Math.round(result.winRate * 100) / 100,
+              maxDrawdown: Math.round(result.maxDrawdown * 100) / 100,
+              sharpeRatio: Math.round(result.sharpeRatio * 100) / 100,
+              profitFactor: Math.round(result.profitFactor * 100) / 100,
+              totalTrades: result.totalTrades,
+            },
+            trades: result.trades,
+            equityCurve: downsampleEquity(result.equityCurve, 200),
+          });
+        }
+      } catch {
+        // Skip erroring strategies
+      }
+
+      if (run.tested % CHECKPOINT_EVERY === 0) {
+        keepTop();
+        await ctx.checkpoint(run);
+      }
+      await ctx.progress(10 + (run.visited / ordered.length) * 70, `Backtested ${run.tested}/${strategies.length}...`);
+    }
+
+    keepTop();
+
+    // Sensitivity reruns need the candles, which a resumed cross-validation no longer has
+    await ctx.progress(80, `Checking robustness of the top ${run.top.length}...`);
+    for (const candidate of run.top) {
+      const candles = candleCache.get(candidate.strategy.symbol);
+      if (candidate.checks || !candles) continue;
+      try {
+        const { strategyConfig, symbol } = candidate.strategy;
+        const base = await runBacktest(candles, strategyConfig, symbol, { timeframe });
+        candidate.checks = await runRobustnessChecks(candles, strategyConfig, base, symbol, { timeframe });
+      } catch {
+        // Left unscored
+      }
+    }
+    await ctx.checkpoint(run);
+
+    await ctx.event({
+      phase: "backtest", status: "completed",
+      message: `${run.passed} of ${run.tested} passed ${minProfitPercent}% filter`,
+      data: { totalTested: run.tested, totalPassed: run.passed },
+    });
+  }
+
+  if (run.top.length === 0) {
+    await ctx.event({ phase: "done", status: "completed", message: "No strategies passed the profit filter" });
+    return {
+      winners: [],
+      totalGenerated: strategies.length,
+      totalTested: run.tested,
+      totalPassed: 0,
+      totalCrossValidated: 0,
+      totalWinners: 0,
+    };
+  }
+
+  // ── Phase 3: Cross-validate top N ──
+  const topStrategies = run.top;
+  if (run.validated < topStrategies.length) {
+    await ctx.event({
+      phase: "cross-validate", status: "started",
+      message: `Cross-validating top ${topStrategies.length} strategies across ${cvSymbols.length} pairs × ${cvDateRanges.length} ranges...`,
+    });
+
+    // Prefetch all candles for cross-validation (symbols × ranges)
+    const cvFetchJobs: { symbol: string; timeframe: string; daysBack: number }[] = [];
+    for (const sym of cvSymbols) {
+      for (const range of cvDateRanges) {
+        cvFetchJobs.push({ symbol: sym, timeframe, daysBack: range.days });
+      }
+    }
+    const cvCandleResults = await fetchCandlesBatch(cvFetchJobs);
+
+    // Build lookup: "symbol|days" → candles
+    const cvCandleMap = new Map<string, Candle[]>();
+    for (let i = 0; i < cvFetchJobs.length; i++) {
+      const job = cvFetchJobs[i];
+      const result = cvCandleResults[i];
+      if (result.status === "fulfilled" && result.value.length >= 20) {
+        cvCandleMap.set(`${job.symbol}|${job.daysBack}`, result.value);
+      }
+    }
+
+    await ctx.progress(80, `Fetched candles for ${cvCandleMap.size}/${cvFetchJobs.length} combinations`);
+
+    for (let si = run.validated; si < topStrategies.length; si++) {
+      const { strategy, metrics, trades, equityCurve, checks } = topStrategies[si];
+
+      const cvResults: { symbol: string; dateRange: string; totalPnl: number; totalTrades: number }[] = [];
+
+      for (const sym of cvSymbols) {
+        for (const range of cvDateRanges) {
+          const candles = cvCandleMap.get(`${sym}|${range.days}`);
+          if (!candles || candles.length < 20) {
+            cvResults.push({ symbol: sym, dateRange: range.label, totalPnl: 0, totalTrades: 0 });
+            continue;
+          }
+
+          try {
+            const result = await runBacktest(candles, strategy.strategyConfig, sym, { timeframe });
+            const totalReturnPct = (result.totalPnl / INITIAL_EQUITY) * 100;
+            cvResults.push({
+              symbol: sym,
+              dateRange: range.label,
+              totalPnl: Math.round(totalReturnPct * 100) / 100,
+              totalTrades: result.totalTrades,
+            });
+          } catch {
+            cvResults.push({ symbol: sym, dateRange: range.label, totalPnl: 0, totalTrades: 0 });
+          }
+        }
+      }
+
+      const withTrades = cvResults.filter((r) => r.totalTrades > 0);
+      const profitable = withTrades.filter((r) => r.totalPnl > 0);
+      const profitableRatio = withTrades.length > 0 ? profitable.length / withTrades.length : 0;
+      const avgPnl = withTrades.length > 0
+        ? withTrades.reduce((s, r) => s + r.totalPnl, 0) / withTrades.length
+        : 0;
+
+      // Winner criteria: profitable on >60% of CV pairs AND positive avg PnL
+      if (profitableRatio >= 0.6 && avgPnl > 0) {
+        run.winners.push({
+          strategy,
+          metrics,
+          trades,
+          equityCurve,
+          crossValidation: {
+            results: cvResults,
+            profitableRatio: Math.round(profitableRatio * 100) / 100,
+            avgPnl: Math.round(avgPnl * 100) / 100,
+          },
+          robustness: checks && robustnessReport(trades, checks, run.tested, run.trials),
+        });
+      }
+
+      run.validated = si + 1;
+      await ctx.checkpoint(run);
+      await ctx.progress(80 + (run.validated / topStrategies.length) * 20, `Validated ${run.validated}/${topStrategies.length}...`);
+    }
+  }
+
+  // Sort winners by cross-validation score (profitableRatio × avgPnl)
+  const winners = [...run.winners].sort((a, b) => {
+    const scoreA = a.crossValidation.profitableRatio * a.crossValidation.avgPnl;
+    const scoreB = b.crossValidation.profitableRatio * b.crossValidation.avgPnl;
+    return scoreB - scoreA;
+  });
+
+  await ctx.event({
+    phase: "cross-validate", status: "completed",
+    message: `${winners.length} winners from ${topStrategies.length} candidates`,
+  });
+
+  await ctx.event({
+    phase: "done", status: "completed",
+    message: `Auto-pilot complete: ${winners.length} winning strategies found`,
+  });
+
+  return {
+    winners,
+    totalGenerated: strategies.length,
+    totalTested: run.tested,
+    totalPassed: run.passed,
+    totalCrossValidated: topStrategies.length,
+    totalWinners: winners.length,
+  };
+}
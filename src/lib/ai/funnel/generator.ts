@@ -1,4 +1,4 @@
-import type { Condition, StrategyConfig } from "../backtest/types";
+import type { Condition, ConditionNode, StrategyConfig } from "../backtest/types";
 import { mapSignalToConditions } from "./signal-mapper";
 
 export interface FunnelConfig {
@@ -112,6 +112,46 @@ export function generateStrategies(config: FunnelConfig): GeneratedStrategy[] {
         }
       }
     }
+
+    // Stage 3: Either-signal combos (entry on primary OR alternative) × SL × TP
+    if (allVariations.length >= 2) {
+      for (let i = 0; i < allVariations.length; i++) {
+        for (let j = i + 1; j < allVariations.length; j++) {
+          const primary = allVariations[i];
+          const alternative = allVariations[j];
+          // Either side of an OR must trade the same direction
+          if (primary.tag === alternative.tag) continue;
+          if ((primary.side ?? "long") !== (alternative.side ?? "long")) continue;
+
+          const eitherEntry: ConditionNode[] = [
+            { any: [{ all: primary.entryConditions }, { all: alternative.entryConditions }] },
+          ];
+
+          for (const sl of config.slRange) {
+            for (const tp of config.tpRange) {
+              if (tp <= sl) continue;
+
+              strategies.push({
+                id: `gen-${++idCounter}`,
+                name: `${shortSymbol} ${primary.label}|${alternative.label} | TP${tp}% SL${sl}%`,
+                symbol,
+                strategyConfig: {
+                  name: `${shortSymbol} ${primary.label}|${alternative.label} | TP${tp}% SL${sl}%`,
+                  entryConditions: eitherEntry,
+                  exitConditions: [...primary.exitConditions],
+                  stopLossPercent: sl,
+                  takeProfitPercent: tp,
+                  positionSizePercent: config.positionSizePercent,
+                  side: primary.side ?? "long",
+                },
+                sourceSignal: `${primary.label}|${alternative.label}`,
+                tags: [primary.tag, alternative.tag, "either", `sl${sl}`, `tp${tp}`],
+              });
+            }
+          }
+        }
+      }
+    }
   }
 
   // Cap at maxStrategies — if exceeding, shuffle and slice
@@ -1,4 +1,5 @@
 import type { Condition } from "../backtest/types";
+import { CANDLE_PATTERNS } from "../candle-patterns";
 
 interface MappedSignal {
   entryConditions: Condition[];
@@ -150,23 +151,14 @@ export function mapSignalToConditions(signal: string): SignalVariation[] {
     return [15, 20, 25].map((period) => ({
       entryConditions: [
         {
-          indicator: "bollinger" as const,
-          params: { period },
-          field: "lower",
-          operator: ">=" as const,
-          // "close < lower band" — we express as: bollinger.lower >= close
-          // But conditions compare indicator vs value, so we flip:
-          // Actually we need: price < lower band. The engine compares indicator value to target.
-          // So: bollinger.lower > close. But we don't have "close" as an indicator...
-          // We use sma(1) as a proxy for close, or we can just set a threshold.
-          // Better: use the crossing approach with bollinger lower as the value
-          value: { indicator: "sma" as const, params: { period: 1 } },
+          indicator: "close" as const,
+          operator: "<=" as const,
+          value: { indicator: "bollinger" as const, params: { period }, field: "lower" },
         },
       ],
       exitConditions: [
         {
-          indicator: "sma" as const,
-          params: { period: 1 },
+          indicator: "close" as const,
           operator: ">" as const,
           value: { indicator: "bollinger" as const, params: { period }, field: "middle" },
         },
@@ -187,16 +179,14 @@ export function mapSignalToConditions(signal: string): SignalVariation[] {
       {
         entryConditions: [
           {
-            indicator: "sma" as const,
-            params: { period: 1 },
+            indicator: "close" as const,
             operator: ">" as const,
             value: { indicator: "bollinger" as const, params: { period: 20 }, field: "upper" },
           },
         ],
         exitConditions: [
           {
-            indicator: "sma" as const,
-            params: { period: 1 },
+            indicator: "close" as const,
             operator: "<" as const,
             value: { indicator: "bollinger" as const, params: { period: 20 }, field: "middle" },
           },
@@ -208,16 +198,14 @@ export function mapSignalToConditions(signal: string): SignalVariation[] {
       {
         entryConditions: [
           {
-            indicator: "sma" as const,
-            params: { period: 1 },
+            indicator: "close" as const,
             operator: ">" as const,
             value: { indicator: "bollinger" as const, params: { period: 20 }, field: "upper" },
           },
         ],
         exitConditions: [
           {
-            indicator: "sma" as const,
-            params: { period: 1 },
+            indicator: "close" as const,
             operator: "<" as const,
             value: { indicator: "bollinger" as const, params: { period: 20 }, field: "lower" },
           },
@@ -313,6 +301,176 @@ export function mapSignalToConditions(signal: string): SignalVariation[] {
     }));
   }
 
+  // Donchian breakout, optionally on above-average volume
+  if (lower.includes("donchian 20-bar breakout")) {
+    return [1, 1.5, 2].map((volumeMultiple) => ({
+      entryConditions: [
+        {
+          indicator: "close" as const,
+          operator: "crosses_above" as const,
+          value: { indicator: "donchian" as const, params: { period: 20 }, field: "upper" },
+        },
+        ...(volumeMultiple > 1 ? [{
+          indicator: "volume" as const,
+          operator: ">" as const,
+          value: { op: "*" as const, left: volumeMultiple, right: { indicator: "volume_sma" as const, params: { period: 20 } } },
+        }] : []),
+      ],
+      exitConditions: [
+        {
+          indicator: "close" as const,
+          operator: "<" as const,
+          value: { indicator: "donchian" as const, params: { period: 10 }, field: "lower" },
+        },
+      ],
+      label: volumeMultiple > 1 ? `DC20↑vol×${volumeMultiple}` : "DC20↑",
+      tag: "donchian-breakout",
+    }));
+  }
+
+  // Donchian breakdown (short entries)
+  if (lower.includes("donchian 20-bar breakdown")) {
+    return [{
+      entryConditions: [
+        {
+          indicator: "close" as const,
+          operator: "crosses_below" as const,
+          value: { indicator: "donchian" as const, params: { period: 20 }, field: "lower" },
+        },
+      ],
+      exitConditions: [
+        {
+          indicator: "close" as const,
+          operator: ">" as const,
+          value: { indicator: "donchian" as const, params: { period: 10 }, field: "upper" },
+        },
+      ],
+      label: "DC20↓",
+      tag: "donchian-breakdown",
+      side: "short" as const,
+    }];
+  }
+
+  // Close back above VWAP, out when it loses it or sets a lower low than the bar before
+  if (lower.includes("reclaimed vwap")) {
+    return [
+      {
+        entryConditions: [
+          { indicator: "close" as const, operator: "crosses_above" as const, value: { indicator: "vwap" as const } },
+        ],
+        exitConditions: [
+          { indicator: "close" as const, operator: "crosses_below" as const, value: { indicator: "vwap" as const } },
+        ],
+        label: "VWAP↑",
+        tag: "vwap-reclaim",
+      },
+      {
+        entryConditions: [
+          { indicator: "close" as const, operator: "crosses_above" as const, value: { indicator: "vwap" as const } },
+        ],
+        exitConditions: [
+          { indicator: "close" as const, operator: "<" as const, value: { indicator: "low" as const, offset: 1 } },
+        ],
+        label: "VWAP↑/LL",
+        tag: "vwap-reclaim",
+      },
+    ];
+  }
+
+  // Supertrend flips, long or short with the new direction
+  if (lower.includes("supertrend flipped")) {
+    const bullish = lower.includes("bullish");
+    return [2, 3].map((multiplier) => ({
+      entryConditions: [
+        {
+          indicator: "close" as const,
+          operator: bullish ? "crosses_above" as const : "crosses_below" as const,
+          value: { indicator: "supertrend" as const, params: { period: 10, multiplier }, field: "supertrend" },
+        },
+      ],
+      exitConditions: [
+        {
+          indicator: "close" as const,
+          operator: bullish ? "crosses_below" as const : "crosses_above" as const,
+          value: { indicator: "supertrend" as const, params: { period: 10, multiplier }, field: "supertrend" },
+        },
+      ],
+      label: `ST${multiplier}${bullish ? "↑" : "↓"}`,
+      tag: bullish ? "supertrend-bull" : "supertrend-bear",
+      ...(bullish ? {} : { side: "short" as const }),
+    }));
+  }
+
+  // Volume spike on a rising bar
+  if (lower.includes("volume spike") && lower.includes("up bar")) {
+    return [2, 3].map((volumeMultiple) => ({
+      entryConditions: [
+        {
+          indicator: "volume" as const,
+          operator: ">" as const,
+          value: { op: "*" as const, left: volumeMultiple, right: { indicator: "volume_sma" as const, params: { period: 20 } } },
+        },
+        { indicator: "pct_change" as const, params: { period: 1 }, operator: ">" as const, value: 1 },
+      ],
+      exitConditions: [
+        { indicator: "close" as const, operator: "<" as const, value: { indicator: "low" as const, offset: 1 } },
+      ],
+      label: `Vol×${volumeMultiple}↑`,
+      tag: "volume-spike",
+    }));
+  }
+
+  // Candlestick patterns
+  if (lower.includes("candlestick pattern")) {
+    const pattern = CANDLE_PATTERNS.find((p) => lower.includes(p.label.toLowerCase()));
+    if (!pattern) return [];
+    const onPattern = { indicator: pattern.name, operator: ">" as const, value: 0 };
+    const tag = `pattern-${pattern.name.replace(/_/g, "-")}`;
+
+    // Inside bar: trade the break of the bar it sits in
+    if (pattern.name === "inside_bar") {
+      return [{
+        entryConditions: [
+          { ...onPattern, offset: 1 },
+          { indicator: "close" as const, operator: ">" as const, value: { indicator: "high" as const, offset: 2 } },
+        ],
+        exitConditions: [
+          { indicator: "close" as const, operator: "<" as const, value: { indicator: "low" as const, offset: 1 } },
+        ],
+        label: "Inside↑",
+        tag,
+      }];
+    }
+    // Doji: indecision, confirmation only
+    if (pattern.bias === "neutral") return [];
+
+    // Reversal patterns alone, at an RSI extreme, or on above-average volume
+    const bullish = pattern.bias === "bullish";
+    const exit = { indicator: "rsi" as const, operator: bullish ? ">" as const : "<" as const, value: bullish ? 65 : 35 };
+    const confirmations: { label: string; conditions: Condition[] }[] = [
+      { label: "", conditions: [] },
+      {
+        label: bullish ? "+RSI<40" : "+RSI>60",
+        conditions: [{ indicator: "rsi", operator: bullish ? "<" : ">", value: bullish ? 40 : 60 }],
+      },
+      {
+        label: "+vol×1.5",
+        conditions: [{
+          indicator: "volume",
+          operator: ">",
+          value: { op: "*", left: 1.5, right: { indicator: "volume_sma", params: { period: 20 } } },
+        }],
+      },
+    ];
+    return confirmations.map((confirmation) => ({
+      entryConditions: [onPattern, ...confirmation.conditions],
+      exitConditions: [exit],
+      label: `${pattern.label}${confirmation.label}`,
+      tag,
+      ...(bullish ? {} : { side: "short" as const }),
+    }));
+  }
+
   return [];
 }
 
@@ -6,8 +6,17 @@ import {
   SMA,
   ATR,
   Stochastic,
+  ADX,
+  KeltnerChannels,
+  OBV,
+  MFI,
+  CCI,
+  WilliamsR,
+  PSAR,
+  HeikinAshi,
 } from "technicalindicators";
 import type { Candle } from "./data/candles";
+import { candlePatternSeries, type CandlePatternName } from "./candle-patterns";
 
 import type { AltIndicatorName } from "./alt-data-indicators";
 
@@ -20,7 +29,32 @@ export type IndicatorName =
   | "atr"
   | "stochastic"
   | "volume_sma"
-  | AltIndicatorName;
+  | "vwap"
+  | "adx"
+  | "ichimoku"
+  | "supertrend"
+  | "keltner"
+  | "donchian"
+  | "obv"
+  | "mfi"
+  | "cci"
+  | "williams_r"
+  | "psar"
+  | "heikin_ashi"
+  | "pivots"
+  | PriceSeriesName
+  | "pct_change"
+  | CandlePatternName
+  | AltIndicatorName
+  | CustomIndicatorName;
+
+/** Raw candle series, usable wherever an indicator is */
+export type PriceSeriesName = "open" | "high" | "low" | "close" | "volume";
+
+/** A user-defined formula indicator, e.g. custom_ema_spread; see ./custom-indicators */
+export type CustomIndicatorName = `custom_${string}`;
+
+export const CUSTOM_INDICATOR_PREFIX = "custom_";
 
 export interface IndicatorParams {
   period?: number;
@@ -28,6 +62,14 @@ export interface IndicatorParams {
   slowPeriod?: number;
   signalPeriod?: number;
   stdDev?: number;
+  multiplier?: number;       // supertrend and keltner: ATR multiple of the bands
+  atrPeriod?: number;        // keltner
+  step?: number;             // psar acceleration step
+  maxStep?: number;          // psar acceleration cap
+  conversionPeriod?: number; // ichimoku tenkan-sen
+  basePeriod?: number;       // ichimoku kijun-sen
+  spanPeriod?: number;       // ichimoku senkou span B
+  displacement?: number;     // ichimoku: bars the cloud is shifted forward
 }
 
 export interface IndicatorResult {
@@ -38,7 +80,29 @@ export interface IndicatorResult {
 
 /** Technical indicator types that can be computed from candles */
 export type TechnicalIndicatorName =
-  | "rsi" | "macd" | "bollinger" | "ema" | "sma" | "atr" | "stochastic" | "volume_sma";
+  | "rsi" | "macd" | "bollinger" | "ema" | "sma" | "atr" | "stochastic" | "volume_sma"
+  | "vwap" | "adx" | "ichimoku" | "supertrend" | "keltner" | "donchian" | "obv" | "mfi"
+  | "cci" | "williams_r" | "psar" | "heikin_ashi" | "pivots" | PriceSeriesName | "pct_change"
+  | CandlePatternName;
+
+/**
+ * Fields of multi-value indicators; the first is used when a condition names no field. Indicators
+ * not listed have a single value.
+ */
+export const INDICATOR_FIELDS: Partial<Record<TechnicalIndicatorName, string[]>> = {
+  macd: ["macd", "signal", "histogram"],
+  bollinger: ["upper", "middle", "lower"],
+  stochastic: ["k", "d"],
+  adx: ["adx", "pdi", "mdi"],
+  ichimoku: ["conversion", "base", "spanA", "spanB"],
+  supertrend: ["supertrend", "direction"],
+  keltner: ["upper", "middle", "lower"],
+  donchian: ["upper", "middle", "lower"],
+  heikin_ashi: ["close", "open", "high", "low"],
+  pivots: ["pivot", "r1", "r2", "r3", "s1", "s2", "s3"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const DEFAULT_PARAMS: Record<TechnicalIndicatorName, IndicatorParams> = {
   rsi: { period: 14 },
@@ -49,18 +113,58 @@ const DEFAULT_PARAMS: Record<TechnicalIndicatorName, IndicatorParams> = {
   atr: { period: 14 },
   stochastic: { period: 14, signalPeriod: 3 },
   volume_sma: { period: 20 },
+  vwap: {},
+  adx: { period: 14 },
+  ichimoku: { conversionPeriod: 9, basePeriod: 26, spanPeriod: 52, displacement: 26 },
+  supertrend: { period: 10, multiplier: 3 },
+  keltner: { period: 20, atrPeriod: 10, multiplier: 2 },
+  donchian: { period: 20 },
+  obv: {},
+  mfi: { period: 14 },
+  cci: { period: 20 },
+  williams_r: { period: 14 },
+  psar: { step: 0.02, maxStep: 0.2 },
+  heikin_ashi: {},
+  pivots: {},
+  open: {},
+  high: {},
+  low: {},
+  close: {},
+  volume: {},
+  pct_change: { period: 1 },
+  bullish_engulfing: {},
+  bearish_engulfing: {},
+  hammer: {},
+  shooting_star: {},
+  doji: {},
+  morning_star: {},
+  evening_star: {},
+  inside_bar: {},
+  three_white_soldiers: {},
+  three_black_crows: {},
 };
 
+export const TECHNICAL_INDICATORS = Object.keys(DEFAULT_PARAMS) as TechnicalIndicatorName[];
+
 export function isTechnicalIndicator(name: string): name is TechnicalIndicatorName {
   return name in DEFAULT_PARAMS;
 }
 
+export function isCustomIndicator(name: string): name is CustomIndicatorName {
+  return name.startsWith(CUSTOM_INDICATOR_PREFIX);
+}
+
+/** `params` over the indicator's defaults */
+export function resolveIndicatorParams(name: TechnicalIndicatorName, params?: IndicatorParams): IndicatorParams {
+  return { ...DEFAULT_PARAMS[name], ...params };
+}
+
 export function calculateIndicator(
   name: IndicatorName,
   candles: Candle[],
   params?: IndicatorParams
 ): IndicatorResult {
-  // Alt data indicators are not computed from candles — they're loaded from DB
+  // Alt data and custom indicators are not computed from candles alone — see cacheAltIndicators / cacheCustomIndicators
   if (!isTechnicalIndicator(name)) {
     return {
       name: name,
@@ -69,10 +173,11 @@ export function calculateIndicator(
     };
   }
 
-  const p = { ...DEFAULT_PARAMS[name], ...params };
+  const p = resolveIndicatorParams(name, params);
   const closes = candles.map((c) => c.close);
   const highs = candles.map((c) => c.high);
   const lows = candles.map((c) => c.low);
+  const opens = candles.map((c) => c.open);
   const volumes = candles.map((c) => c.volume);
   const timestamps = candles.map((c) => c.timestamp);
 
@@ -188,9 +293,267 @@ export function calculateIndicator(
         timestamps,
       };
     }
+    case "vwap": {
+      return { name: "VWAP", values: sessionVwap(candles), timestamps };
+    }
+    case "adx": {
+      const values = ADX.calculate({ high: highs, low: lows, close: closes, period: p.period! });
+      const offset = candles.length - values.length;
+      return {
+        name: `ADX(${p.period})`,
+        values: padArray(
+          values.map((v) => ({ adx: v.adx, pdi: v.pdi, mdi: v.mdi })),
+          offset
+        ),
+        timestamps,
+      };
+    }
+    case "ichimoku": {
+      return {
+        name: `Ichimoku(${p.conversionPeriod}/${p.basePeriod}/${p.spanPeriod})`,
+        values: ichimoku(candles, p),
+        timestamps,
+      };
+    }
+    case "supertrend": {
+      return {
+        name: `Supertrend(${p.period},${p.multiplier})`,
+        values: supertrend(candles, p.period!, p.multiplier!),
+        timestamps,
+      };
+    }
+    case "keltner": {
+      const values = KeltnerChannels.calculate({
+        high: highs,
+        low: lows,
+        close: closes,
+        maPeriod: p.period!,
+        atrPeriod: p.atrPeriod!,
+        multiplier: p.multiplier!,
+        useSMA: false,
+      });
+      const offset = candles.length - values.length;
+      return {
+        name: `KC(${p.period},${p.multiplier})`,
+        values: padArray(
+          values.map((v) => ({ upper: v.upper, middle: v.middle, lower: v.lower })),
+          offset
+        ),
+        timestamps,
+      };
+    }
+    case "donchian": {
+      return { name: `Donchian(${p.period})`, values: donchian(candles, p.period!), timestamps };
+    }
+    case "obv": {
+      const values = OBV.calculate({ close: closes, volume: volumes });
+      const offset = candles.length - values.length;
+      return { name: "OBV", values: padArray(values, offset), timestamps };
+    }
+    case "mfi": {
+      const values = MFI.calculate({ high: highs, low: lows, close: closes, volume: volumes, period: p.period! });
+      const offset = candles.length - values.length;
+      return { name: `MFI(${p.period})`, values: padArray(values, offset), timestamps };
+    }
+    case "cci": {
+      const values = CCI.calculate({ high: highs, low: lows, close: closes, period: p.period! });
+      const offset = candles.length - values.length;
+      return { name: `CCI(${p.period})`, values: padArray(values, offset), timestamps };
+    }
+    case "williams_r": {
+      const values = WilliamsR.calculate({ high: highs, low: lows, close: closes, period: p.period! });
+      const offset = candles.length - values.length;
+      return { name: `W%R(${p.period})`, values: padArray(values, offset), timestamps };
+    }
+    case "psar": {
+      const values = PSAR.calculate({ high: highs, low: lows, step: p.step!, max: p.maxStep! });
+      const offset = candles.length - values.length;
+      return { name: `PSAR(${p.step},${p.maxStep})`, values: padArray(values, offset), timestamps };
+    }
+    case "heikin_ashi": {
+      const ha = HeikinAshi.calculate({ open: opens, high: highs, low: lows, close: closes, volume: volumes, timestamp: timestamps });
+      return {
+        name: "Heikin-Ashi",
+        values: candles.map((_, i) => ({ close: ha.close?.[i], open: ha.open?.[i], high: ha.high?.[i], low: ha.low?.[i] })),
+        timestamps,
+      };
+    }
+    case "pivots": {
+      return { name: "Pivots", values: floorPivots(candles), timestamps };
+    }
+    case "open":
+    case "high":
+    case "low":
+    case "close":
+    case "volume": {
+      return { name: name[0].toUpperCase() + name.slice(1), values: candles.map((c) => c[name]), timestamps };
+    }
+    case "pct_change": {
+      // Percent change of the close over `period` bars
+      return {
+        name: `Change%(${p.period})`,
+        values: closes.map((c, i) => {
+          const base = closes[i - p.period!];
+          return base ? ((c - base) / base) * 100 : undefined;
+        }),
+        timestamps,
+      };
+    }
+    case "bullish_engulfing":
+    case "bearish_engulfing":
+    case "hammer":
+    case "shooting_star":
+    case "doji":
+    case "morning_star":
+    case "evening_star":
+    case "inside_bar":
+    case "three_white_soldiers":
+    case "three_black_crows": {
+      return { name, values: candlePatternSeries(name, candles), timestamps };
+    }
   }
 }
 
+/** UTC day a candle's session belongs to */
+function sessionOf(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS);
+}
+
+/** Volume-weighted typical price since the start of the candle's UTC day */
+function sessionVwap(candles: Candle[]): (number | undefined)[] {
+  let session = -1;
+  let priceVolume = 0;
+  let volume = 0;
+  return candles.map((c) => {
+    if (sessionOf(c.timestamp) !== session) {
+      session = sessionOf(c.timestamp);
+      priceVolume = 0;
+      volume = 0;
+    }
+    priceVolume += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+    return volume > 0 ? priceVolume / volume : undefined;
+  });
+}
+
+/** Midpoint of the highest high and lowest low of the `period` bars ending at `end` (inclusive) */
+function midpoint(candles: Candle[], end: number, period: number): number | undefined {
+  if (end - period + 1 < 0) return undefined;
+  let high = -Infinity;
+  let low = Infinity;
+  for (let i = end - period + 1; i <= end; i++) {
+    high = Math.max(high, candles[i].high);
+    low = Math.min(low, candles[i].low);
+  }
+  return (high + low) / 2;
+}
+
+/**
+ * Tenkan-sen and kijun-sen of each bar, and the cloud over it: the senkou spans computed
+ * `displacement` bars earlier. The lagging span is left out, it plots past closes.
+ */
+function ichimoku(candles: Candle[], p: IndicatorParams) {
+  const d = p.displacement!;
+  const spanA = (i: number) => {
+    const conversion = midpoint(candles, i, p.conversionPeriod!);
+    const base = midpoint(candles, i, p.basePeriod!);
+    return conversion !== undefined && base !== undefined ? (conversion + base) / 2 : undefined;
+  };
+  return candles.map((_, i) => i + 1 < p.conversionPeriod! ? undefined : {
+    conversion: midpoint(candles, i, p.conversionPeriod!),
+    base: midpoint(candles, i, p.basePeriod!),
+    spanA: i >= d ? spanA(i - d) : undefined,
+    spanB: i >= d ? midpoint(candles, i - d, p.spanPeriod!) : undefined,
+  });
+}
+
+/**
+ * ATR bands around the bar midpoint that only tighten while the trend holds; the line flips to
+ * the other band when price closes through it. `direction` is 1 in an uptrend, -1 in a downtrend.
+ */
+function supertrend(candles: Candle[], period: number, multiplier: number) {
+  const atr = ATR.calculate({
+    high: candles.map((c) => c.high),
+    low: candles.map((c) => c.low),
+    close: candles.map((c) => c.close),
+    period,
+  });
+  const atrs = padArray(atr, candles.length - atr.length);
+
+  let upper = 0;
+  let lower = 0;
+  let direction = 0;
+  return candles.map((c, i) => {
+    const a = atrs[i];
+    if (a === undefined) return undefined;
+    const mid = (c.high + c.low) / 2;
+    const basicUpper = mid + multiplier * a;
+    const basicLower = mid - multiplier * a;
+    const prevClose = candles[i - 1]?.close ?? c.close;
+
+    if (direction === 0) {
+      upper = basicUpper;
+      lower = basicLower;
+      direction = c.close >= mid ? 1 : -1;
+    } else {
+      upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+      if (direction === 1 && c.close < lower) direction = -1;
+      else if (direction === -1 && c.close > upper) direction = 1;
+    }
+    return { supertrend: direction === 1 ? lower : upper, direction };
+  });
+}
+
+/**
+ * Highest high and lowest low of the `period` bars before each bar, so a close above `upper` is
+ * a breakout.
+ */
+function donchian(candles: Candle[], period: number) {
+  return candles.map((_, i) => {
+    if (i < period) return undefined;
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (let j = i - period; j < i; j++) {
+      upper = Math.max(upper, candles[j].high);
+      lower = Math.min(lower, candles[j].low);
+    }
+    return { upper, middle: (upper + lower) / 2, lower };
+  });
+}
+
+/**
+ * Classic floor pivots from the previous UTC day's high, low and close. The first session in
+ * `candles` may be partial, so values start with the third.
+ */
+function floorPivots(candles: Candle[]) {
+  const sessions: { day: number; high: number; low: number; close: number }[] = [];
+  return candles.map((c) => {
+    const day = sessionOf(c.timestamp);
+    const current = sessions[sessions.length - 1];
+    if (current?.day === day) {
+      current.high = Math.max(current.high, c.high);
+      current.low = Math.min(current.low, c.low);
+      current.close = c.close;
+    } else {
+      sessions.push({ day, high: c.high, low: c.low, close: c.close });
+    }
+    if (sessions.length < 3) return undefined;
+
+    const { high, low, close } = sessions[sessions.length - 2];
+    const pivot = (high + low + close) / 3;
+    return {
+      pivot,
+      r1: 2 * pivot - low,
+      r2: pivot + (high - low),
+      r3: high + 2 * (pivot - low),
+      s1: 2 * pivot - high,
+      s2: pivot - (high - low),
+      s3: low - 2 * (high - pivot),
+    };
+  });
+}
+
 function padArray<T>(values: T[], offset: number): (T | undefined)[] {
   return [...Array(offset).fill(undefined), ...values];
 }
@@ -17,6 +17,7 @@ export function buildSystemPrompt(user: User, context?: {
     "- Get market overview (trending coins, top movers) from CoinGecko",
     "- Get global OSINT intelligence from Crucix — macro data (VIX, S&P500, Gold, Oil), geopolitical conflict risk, news sentiment, social signals (WSB, worldnews). Use this to assess risk-on/risk-off conditions.",
     "- Run backtests with custom entry/exit conditions, stop loss, and take profit",
+    "- Save the user's own formula indicators (e.g. EMA spread over ATR) and use them in strategies as custom_<name>",
     "",
     "## Guidelines",
     "- Focus on short-term strategies (scalping to swing, 1h to 1d timeframes)",
@@ -34,6 +35,7 @@ export function buildSystemPrompt(user: User, context?: {
     "- **Timeframe**: Candle timeframe",
     "- **Entry Conditions**: List of conditions to enter a trade",
     "- **Exit Conditions**: List of conditions to exit",
+    "- **Script**: The strategy in the run_backtest strategy_dsl format, in a code block, so the user can copy, edit or import it",
     "- **Stop Loss**: Percentage below entry",
     "- **Take Profit**: Percentage above entry",
     "- **Risk Level**: Conservative / Moderate / Aggressive",
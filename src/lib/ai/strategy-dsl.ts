@@ -0,0 +1,528 @@
+import type { IndicatorName, IndicatorParams } from "./indicators";
+import type {
+  Condition,
+  ConditionNode,
+  ConditionValue,
+  IndicatorRef,
+  OrderSpec,
+  PositionSizing,
+  StrategyConfig,
+  ValueExpression,
+} from "./backtest/types";
+
+/**
+ * Compact text form of strategies, e.g.
+ *
+ *   name: RSI dip
+ *   entry: rsi(14) < 30 and close crosses_above ema(21)
+ *   exit: rsi(14) > 70 or (macd.histogram crosses_below 0 and not stochastic.k < 20)
+ *   stop_loss: 3
+ *   take_profit: 6
+ *
+ * Conditions read `<operand> <operator> <operand>`, where an operand is a number, an indicator
+ * reference `name(args).field[offset]@timeframe` or arithmetic on those with + - * / and
+ * parentheses, e.g. `volume > 2 * volume_sma(20)`. Args are positional in the order of PARAM_ORDER
+ * or named (`bollinger(period=20, stdDev=2.5)`); `[1]` reads the previous bar. open, high, low,
+ * close and volume are the candle's own values, custom_<name> one of the user's custom indicators
+ * (./custom-indicators). One side of a comparison must be a single reference.
+ * `not` binds tighter than `and`, which binds tighter than `or`.
+ *
+ * Only syntax is checked here, so this module stays usable in the browser; check the result with
+ * validateStrategyConfig (./strategy-schema) before running it. Errors are thrown as SyntaxError.
+ */
+
+type Operator = Condition["operator"];
+
+const OPERATORS: Operator[] = [">=", "<=", ">", "<", "crosses_above", "crosses_below"];
+
+/** The same comparison with its sides swapped */
+const FLIPPED: Record<Operator, Operator> = {
+  ">": "<",
+  "<": ">",
+  ">=": "<=",
+  "<=": ">=",
+  crosses_above: "crosses_below",
+  crosses_below: "crosses_above",
+};
+
+/** Positional argument order per indicator; other params must be named */
+const PARAM_ORDER: Partial<Record<IndicatorName, (keyof IndicatorParams)[]>> = {
+  rsi: ["period"],
+  ema: ["period"],
+  sma: ["period"],
+  atr: ["period"],
+  volume_sma: ["period"],
+  pct_change: ["period"],
+  bollinger: ["period", "stdDev"],
+  macd: ["fastPeriod", "slowPeriod", "signalPeriod"],
+  stochastic: ["period", "signalPeriod"],
+  adx: ["period"],
+  ichimoku: ["conversionPeriod", "basePeriod", "spanPeriod", "displacement"],
+  supertrend: ["period", "multiplier"],
+  keltner: ["period", "multiplier", "atrPeriod"],
+  donchian: ["period"],
+  mfi: ["period"],
+  cci: ["period"],
+  williams_r: ["period"],
+  psar: ["step", "maxStep"],
+};
+
+const KEYWORDS = new Set(["and", "or", "not"]);
+
+/** positionSizePercent when a script has no `size` line */
+const DEFAULT_POSITION_SIZE_PERCENT = 10;
+
+// ── Conditions ─────────────────────────────────────────────────────────
+
+interface Token {
+  kind: "number" | "ident" | "op" | "punct" | "end";
+  text: string;
+  pos: number; // 0-based column
+}
+
+const TOKEN_RULES: [Token["kind"], RegExp][] = [
+  ["number", /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i],
+  ["ident", /^[A-Za-z_]\w*/],
+  ["op", /^(>=|<=|>|<)/],
+  ["punct", /^[(),.@=[\]+\-*/]/],
+];
+
+const ARITHMETIC = new Set(["+", "-", "*", "/"]);
+
+/** After "@" comes a timeframe such as 4h, which would otherwise lex as a number */
+const TIMEFRAME_RULE: [Token["kind"], RegExp][] = [["ident", /^\w+/]];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const rest = text.slice(i);
+    const rules = tokens[tokens.length - 1]?.text === "@" ? TIMEFRAME_RULE : TOKEN_RULES;
+    const rule = rules.find(([, re]) => re.test(rest));
+    if (!rule) throw new SyntaxError(`Unexpected "${text[i]}" at column ${i + 1}`);
+    const [kind, re] = rule;
+    const [match] = re.exec(rest)!;
+    tokens.push({ kind, text: match, pos: i });
+    i += match.length;
+  }
+  tokens.push({ kind: "end", text: "", pos: text.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  return token.kind === "end" ? "end of input" : `"${token.text}" at column ${token.pos + 1}`;
+}
+
+function isKeyword(token: Token, word: string): boolean {
+  return token.kind === "ident" && token.text.toLowerCase() === word;
+}
+
+/** The recursive-descent parser of one text; each entry point reads part of the tokens */
+function createParser(text: string) {
+  const tokens = tokenize(text);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (text: string) => {
+    const token = next();
+    if (token.text !== text) throw new SyntaxError(`Expected "${text}" but found ${describe(token)}`);
+  };
+
+  function parseNumber(): number {
+    const token = next();
+    if (token.kind !== "number") throw new SyntaxError(`Expected a number but found ${describe(token)}`);
+    return Number(token.text);
+  }
+
+  function parseRef(): IndicatorRef {
+    const token = next();
+    if (token.kind !== "ident" || KEYWORDS.has(token.text.toLowerCase())) {
+      throw new SyntaxError(`Expected an indicator or number but found ${describe(token)}`);
+    }
+    const name = token.text.toLowerCase();
+    const ref: IndicatorRef = { indicator: name as IndicatorName };
+
+    if (peek().text === "(") {
+      next();
+      const order = PARAM_ORDER[ref.indicator] ?? [];
+      const params: IndicatorParams = {};
+      let positional = 0;
+      while (peek().text !== ")") {
+        if (peek().kind === "ident") {
+          const key = next().text as keyof IndicatorParams;
+          expect("=");
+          params[key] = parseNumber();
+        } else {
+          const key = order[positional++];
+          if (!key) {
+            throw new SyntaxError(order.length
+              ? `${name} takes at most ${order.length} positional arguments (column ${peek().pos + 1})`
+              : `${name} takes no positional arguments; name them, e.g. period=14 (column ${peek().pos + 1})`);
+          }
+          params[key] = parseNumber();
+        }
+        if (peek().text !== ")") expect(",");
+      }
+      next();
+      if (Object.keys(params).length > 0) ref.params = params;
+    }
+    if (peek().text === ".") {
+      next();
+      const field = next();
+      if (field.kind !== "ident") throw new SyntaxError(`Expected a field name but found ${describe(field)}`);
+      ref.field = field.text;
+    }
+    if (peek().text === "[") {
+      next();
+      const offset = parseNumber();
+      if (!Number.isInteger(offset)) throw new SyntaxError(`A bar offset must be a whole number of bars`);
+      expect("]");
+      if (offset > 0) ref.offset = offset;
+    }
+    if (peek().text === "@") {
+      next();
+      const timeframe = next();
+      if (timeframe.kind !== "ident") throw new SyntaxError(`Expected a timeframe but found ${describe(timeframe)}`);
+      ref.timeframe = timeframe.text;
+    }
+    return ref;
+  }
+
+  /** Constant operands are folded, so `2 * 1.5` is stored as 3 */
+  function arithmetic(op: ValueExpression["op"], left: ConditionValue, right: ConditionValue): ConditionValue {
+    if (typeof left !== "number" || typeof right !== "number") return { op, left, right };
+    switch (op) {
+      case "+": return left + right;
+      case "-": return left - right;
+      case "*": return left * right;
+      case "/": return left / right;
+    }
+  }
+
+  function parseFactor(): ConditionValue {
+    if (peek().text === "-") {
+      next();
+      return arithmetic("*", -1, parseFactor());
+    }
+    if (peek().text === "(") {
+      next();
+      const inner = parseSum();
+      expect(")");
+      return inner;
+    }
+    return peek().kind === "number" ? parseNumber() : parseRef();
+  }
+
+  function parseProduct(): ConditionValue {
+    let value = parseFactor();
+    while (peek().text === "*" || peek().text === "/") {
+      const op = next().text as ValueExpression["op"];
+      value = arithmetic(op, value, parseFactor());
+    }
+    return value;
+  }
+
+  function parseSum(): ConditionValue {
+    let value = parseProduct();
+    while (peek().text === "+" || peek().text === "-") {
+      const op = next().text as ValueExpression["op"];
+      value = arithmetic(op, value, parseProduct());
+    }
+    return value;
+  }
+
+  function parseComparison(): Condition {
+    const start = peek();
+    const left = parseSum();
+    const token = next();
+    const operator = OPERATORS.find((op) => op === token.text.toLowerCase());
+    if (!operator) throw new SyntaxError(`Expected a comparison operator but found ${describe(token)}`);
+    const right = parseSum();
+
+    if (isRef(left)) return { ...left, operator, value: right };
+    if (isRef(right)) return { ...right, operator: FLIPPED[operator], value: left };
+    throw new SyntaxError(
+      `One side of the comparison at column ${start.pos + 1} must be a single indicator or price, e.g. volume > 2 * volume_sma(20)`
+    );
+  }
+
+  function parseUnary(): ConditionNode {
+    if (isKeyword(peek(), "not")) {
+      next();
+      return { not: parseUnary() };
+    }
+    if (peek().text === "(") {
+      // A group, unless the parentheses only wrap arithmetic: (high + low) / 2 > ema(21)
+      const start = pos;
+      try {
+        next();
+        const inner = parseOr();
+        expect(")");
+        if (!ARITHMETIC.has(peek().text) && !OPERATORS.includes(peek().text.toLowerCase() as Operator)) {
+          return toGroup(inner);
+        }
+      } catch (err) {
+        if (!(err instanceof SyntaxError)) throw err;
+        pos = start;
+        try {
+          return parseComparison();
+        } catch {
+          throw err;
+        }
+      }
+      pos = start;
+    }
+    return parseComparison();
+  }
+
+  function parseChain(): ConditionNode[] {
+    const chain = [parseUnary()];
+    while (isKeyword(peek(), "and")) {
+      next();
+      chain.push(parseUnary());
+    }
+    return chain;
+  }
+
+  function parseOr(): ConditionNode[][] {
+    const chains = [parseChain()];
+    while (isKeyword(peek(), "or")) {
+      next();
+      chains.push(parseChain());
+    }
+    return chains;
+  }
+
+  /** Throws unless every token has been read */
+  function finish() {
+    if (peek().kind !== "end") throw new SyntaxError(`Unexpected ${describe(peek())}`);
+  }
+
+  return { parseSum, parseOr, finish };
+}
+
+function parseExpression(text: string): ConditionNode[][] {
+  const parser = createParser(text);
+  const chains = parser.parseOr();
+  parser.finish();
+  return chains;
+}
+
+/** `a and b or c` parsed as and-chains [[a, b], [c]] → one node */
+function toGroup(chains: ConditionNode[][]): ConditionNode {
+  const nodes = chains.map((chain) => (chain.length === 1 ? chain[0] : { all: chain }));
+  return nodes.length === 1 ? nodes[0] : { any: nodes };
+}
+
+/** Parses a condition expression into a condition list; top-level `and`s become list items */
+export function parseConditions(text: string): ConditionNode[] {
+  if (!text.trim()) return [];
+  const chains = parseExpression(text);
+  return chains.length === 1 ? chains[0] : [toGroup(chains)];
+}
+
+/** Parses one operand, e.g. `(ema(9) - ema(21)) / atr(14)`, the form of custom indicator formulas */
+export function parseValue(text: string): ConditionValue {
+  const parser = createParser(text);
+  const value = parser.parseSum();
+  parser.finish();
+  return value;
+}
+
+function isGroup(node: ConditionNode): node is Exclude<ConditionNode, Condition> {
+  return "all" in node || "any" in node || "not" in node;
+}
+
+function isRef(value: ConditionValue): value is IndicatorRef {
+  return typeof value === "object" && "indicator" in value;
+}
+
+function formatRef(ref: IndicatorRef): string {
+  const timeframe = `${ref.offset ? `[${ref.offset}]` : ""}${ref.timeframe ? `@${ref.timeframe}` : ""}`;
+  const params = Object.entries(ref.params ?? {}).filter(([, v]) => v !== undefined);
+
+  const order = (PARAM_ORDER[ref.indicator] ?? []).slice(0, params.length);
+  const positional = order.length === params.length && order.every((key) => ref.params?.[key] !== undefined);
+  const args = positional
+    ? order.map((key) => String(ref.params?.[key]))
+    : params.map(([key, value]) => `${key}=${value}`);
+
+  return `${ref.indicator}${args.length ? `(${args.join(", ")})` : ""}${ref.field ? `.${ref.field}` : ""}${timeframe}`;
+}
+
+/** Nested arithmetic is parenthesized, so precedence never has to be worked out */
+export function formatValue(value: ConditionValue, nested = false): string {
+  if (typeof value === "number") return String(value);
+  if (isRef(value)) return formatRef(value);
+  const text = `${formatValue(value.left, true)} ${value.op} ${formatValue(value.right, true)}`;
+  return nested ? `(${text})` : text;
+}
+
+/** One condition or group as text, e.g. for listing a strategy's conditions */
+export function formatCondition(node: ConditionNode): string {
+  if (!isGroup(node)) {
+    return `${formatRef(node)} ${node.operator} ${formatValue(node.value)}`;
+  }
+  if ("not" in node) return `not ${formatNested(node.not)}`;
+  return "all" in node ? node.all.map(formatNested).join(" and ") : node.any.map(formatNested).join(" or ");
+}
+
+function formatNested(node: ConditionNode): string {
+  return isGroup(node) && !("not" in node) ? `(${formatCondition(node)})` : formatCondition(node);
+}
+
+/** Prints a condition list as a one-line expression that parseConditions reads back */
+export function formatConditions(nodes: ConditionNode[]): string {
+  if (nodes.length === 1 && isGroup(nodes[0]) && "any" in nodes[0]) return formatCondition(nodes[0]);
+  return nodes.map(formatNested).join(" and ");
+}
+
+// ── Strategy scripts ───────────────────────────────────────────────────
+
+function parseNumberValue(key: string, value: string): number {
+  const n = Number(value.replace(/%$/, "").trim());
+  if (value.trim() === "" || !Number.isFinite(n)) throw new SyntaxError(`${key} must be a number`);
+  return n;
+}
+
+function parseSizing(value: string): PositionSizing {
+  const m = /^(\w+)\s*(?:\((.*)\))?$/.exec(value);
+  if (!m) throw new SyntaxError(`sizing must look like risk(riskPercent=1)`);
+  const sizing: Record<string, unknown> = { model: m[1] };
+  for (const arg of (m[2] ?? "").split(",").filter((a) => a.trim())) {
+    const [key, raw] = arg.split("=").map((s) => s.trim());
+    if (!key || raw === undefined) throw new SyntaxError(`sizing arguments must be named, e.g. riskPercent=1`);
+    sizing[key] = parseNumberValue(key, raw);
+  }
+  return sizing as PositionSizing;
+}
+
+function formatSizing(sizing: PositionSizing): string {
+  const args = Object.entries(sizing).filter(([key, v]) => key !== "model" && v !== undefined);
+  return args.length ? `${sizing.model}(${args.map(([key, v]) => `${key}=${v}`).join(", ")})` : sizing.model;
+}
+
+function parseOrderSpec(key: string, value: string): OrderSpec {
+  const m = /^(market|limit)\s*(?:\((.*)\))?$/.exec(value);
+  if (!m) throw new SyntaxError(`${key} must be market or look like limit(offsetPercent=0.1, postOnly=true)`);
+  const args: Record<string, unknown> = {};
+  for (const arg of (m[2] ?? "").split(",").filter((a) => a.trim())) {
+    const [name, raw] = arg.split("=").map((s) => s.trim());
+    if (!name || raw === undefined) throw new SyntaxError(`${key} arguments must be named, e.g. offsetPercent=0.1`);
+    args[name] = raw === "true" || raw === "false" ? raw === "true" : parseNumberValue(name, raw);
+  }
+  return { type: m[1] as OrderSpec["type"], ...args };
+}
+
+function formatOrderSpec(spec: OrderSpec): string {
+  const args = Object.entries(spec).filter(([key, v]) => key !== "type" && v !== undefined);
+  return args.length ? `${spec.type}(${args.map(([key, v]) => `${key}=${v}`).join(", ")})` : spec.type;
+}
+
+/**
+ * Parses a strategy script of `key: value` lines. Keys: name, side, market, leverage, entry,
+ * exit, stop_loss, take_profit, take_profit_levels (`3@30, 6@70` = sell 30% at +3%), trailing_stop,
+ * size (positionSizePercent, default 10), sizing (`risk(riskPercent=1)`), dca_orders, dca_drop,
+ * entry_order and exit_order (`market`, or `limit(offsetPercent=0.1, postOnly=true, timeoutSeconds=120,
+ * fallbackToMarket=true)`).
+ * Repeated entry/exit lines are and-ed; lines starting with # are comments.
+ */
+export function parseStrategyDsl(text: string): StrategyConfig {
+  const config: Partial<StrategyConfig> = {};
+  const entry: ConditionNode[] = [];
+  const exit: ConditionNode[] = [];
+
+  text.split("\n").forEach((raw, lineIndex) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    try {
+      const m = /^([a-z_]+)\s*:\s*(.*)$/i.exec(line);
+      if (!m) throw new SyntaxError(`Expected "key: value"`);
+      const key = m[1].toLowerCase();
+      const value = m[2].trim();
+
+      switch (key) {
+        case "name": config.name = value; break;
+        case "entry": entry.push(...parseConditions(value)); break;
+        case "exit": exit.push(...parseConditions(value)); break;
+        case "stop_loss": config.stopLossPercent = parseNumberValue(key, value); break;
+        case "take_profit": config.takeProfitPercent = parseNumberValue(key, value); break;
+        case "trailing_stop": config.trailingStopPercent = parseNumberValue(key, value); break;
+        case "size": config.positionSizePercent = parseNumberValue(key, value); break;
+        case "leverage": config.leverage = parseNumberValue(key, value); break;
+        case "sizing": config.sizing = parseSizing(value); break;
+        case "entry_order": config.entryOrder = parseOrderSpec(key, value); break;
+        case "exit_order": config.exitOrder = parseOrderSpec(key, value); break;
+        case "take_profit_levels":
+          config.takeProfitLevels = value.split(",").map((level) => {
+            const [percent, sellPercent] = level.split("@");
+            if (sellPercent === undefined) throw new SyntaxError(`take_profit_levels must look like 3@30, 6@70`);
+            return { percent: parseNumberValue(key, percent), sellPercent: parseNumberValue(key, sellPercent) };
+          });
+          break;
+        case "dca_orders":
+          config.dcaEnabled = true;
+          config.dcaOrders = parseNumberValue(key, value);
+          break;
+        case "dca_drop": config.dcaDropPercent = parseNumberValue(key, value); break;
+        case "side":
+          if (value !== "long" && value !== "short") throw new SyntaxError(`side must be long or short`);
+          config.side = value;
+          break;
+        case "market":
+          if (value !== "spot" && value !== "perp") throw new SyntaxError(`market must be spot or perp`);
+          config.market = value;
+          break;
+        default:
+          throw new SyntaxError(`Unknown key "${m[1]}"`);
+      }
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new SyntaxError(`Line ${lineIndex + 1}: ${err.message}`);
+      throw err;
+    }
+  });
+
+  if (entry.length === 0) throw new SyntaxError(`Missing "entry:" line`);
+
+  return {
+    ...config,
+    entryConditions: entry,
+    exitConditions: exit,
+    positionSizePercent: config.positionSizePercent ?? DEFAULT_POSITION_SIZE_PERCENT,
+  };
+}
+
+/** Prints a config as a strategy script; parseStrategyDsl reads it back to the same config */
+export function formatStrategyDsl(config: StrategyConfig): string {
+  const lines: string[] = [];
+  const add = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") lines.push(`${key}: ${value}`);
+  };
+
+  add("name", config.name);
+  add("side", config.side);
+  add("market", config.market);
+  add("leverage", config.leverage);
+  add("entry", formatConditions(config.entryConditions));
+  add("exit", formatConditions(config.exitConditions));
+  add("stop_loss", config.stopLossPercent);
+  add("take_profit", config.takeProfitPercent);
+  add("take_profit_levels", config.takeProfitLevels?.map((l) => `${l.percent}@${l.sellPercent}`).join(", "));
+  add("trailing_stop", config.trailingStopPercent);
+  add("size", config.positionSizePercent);
+  add("sizing", config.sizing && formatSizing(config.sizing));
+  add("entry_order", config.entryOrder && formatOrderSpec(config.entryOrder));
+  add("exit_order", config.exitOrder && formatOrderSpec(config.exitOrder));
+  if (config.dcaEnabled) {
+    add("dca_orders", config.dcaOrders);
+    add("dca_drop", config.dcaDropPercent);
+  }
+
+  return lines.join("\n");
+}
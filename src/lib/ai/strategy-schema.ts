@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { isCustomIndicator, isTechnicalIndicator, type IndicatorName } from "./indicators";
+import { isAltIndicator } from "./alt-data-indicators";
+import type { ConditionNode, ConditionValue, StrategyConfig } from "./backtest/types";
+
+/**
+ * Validation of StrategyConfig and the portable document strategies are exported as, so configs
+ * can move between accounts or live in git. Bump STRATEGY_SCHEMA_VERSION when the document changes
+ * shape and read older versions in parseStrategyDocument.
+ */
+
+export const STRATEGY_SCHEMA_VERSION = 1;
+export const STRATEGY_DOCUMENT_FORMAT = "alphora.strategy";
+
+const builtInIndicatorSchema = z.custom<IndicatorName>(
+  (v) => typeof v === "string" && (isTechnicalIndicator(v) || isAltIndicator(v)),
+  { message: "Unknown indicator" }
+);
+
+// Custom indicators are only checked by name here; a missing definition is reported when the strategy runs
+const indicatorSchema = z.custom<IndicatorName>(
+  (v) => typeof v === "string" && (isTechnicalIndicator(v) || isAltIndicator(v) || isCustomIndicator(v)),
+  { message: "Unknown indicator" }
+);
+
+// Strict so a misspelt param fails instead of silently falling back to the default
+const indicatorParamsSchema = z.strictObject({
+  period: z.number().int().positive().optional(),
+  fastPeriod: z.number().int().positive().optional(),
+  slowPeriod: z.number().int().positive().optional(),
+  signalPeriod: z.number().int().positive().optional(),
+  stdDev: z.number().positive().optional(),
+  multiplier: z.number().positive().optional(),
+  atrPeriod: z.number().int().positive().optional(),
+  step: z.number().positive().optional(),
+  maxStep: z.number().positive().optional(),
+  conversionPeriod: z.number().int().positive().optional(),
+  basePeriod: z.number().int().positive().optional(),
+  spanPeriod: z.number().int().positive().optional(),
+  displacement: z.number().int().nonnegative().optional(),
+});
+
+const indicatorRefSchema = z.object({
+  indicator: indicatorSchema,
+  params: indicatorParamsSchema.optional(),
+  field: z.string().optional(),
+  timeframe: z.string().optional(),
+  offset: z.number().int().nonnegative().optional(),
+});
+
+/** A custom indicator is one value on the strategy's timeframe: it takes no params, field or timeframe */
+function checkCustomRef(ref: z.infer<typeof indicatorRefSchema>, ctx: z.RefinementCtx) {
+  if (!isCustomIndicator(ref.indicator)) return;
+  for (const key of ["params", "field", "timeframe"] as const) {
+    if (ref[key] !== undefined) {
+      ctx.addIssue({ code: "custom", path: [key], message: `Custom indicators take no ${key}` });
+    }
+  }
+}
+
+const conditionValueSchema: z.ZodType<ConditionValue> = z.lazy(() =>
+  z.union([
+    z.number(),
+    indicatorRefSchema.superRefine(checkCustomRef),
+    z.object({ op: z.enum(["+", "-", "*", "/"]), left: conditionValueSchema, right: conditionValueSchema }),
+  ])
+);
+
+const conditionSchema = indicatorRefSchema
+  .extend({
+    operator: z.enum([">", "<", ">=", "<=", "crosses_above", "crosses_below"]),
+    value: conditionValueSchema,
+  })
+  .superRefine(checkCustomRef);
+
+// Formulas read built-in series on the strategy's timeframe, so custom indicators never nest
+const formulaRefSchema = indicatorRefSchema.extend({
+  indicator: builtInIndicatorSchema,
+  timeframe: z.undefined({ error: "Formulas run on the strategy's timeframe" }),
+});
+
+const formulaSchema: z.ZodType<ConditionValue> = z.lazy(() =>
+  z.union([
+    z.number(),
+    formulaRefSchema,
+    z.object({ op: z.enum(["+", "-", "*", "/"]), left: formulaSchema, right: formulaSchema }),
+  ])
+);
+
+export const conditionNodeSchema: z.ZodType<ConditionNode> = z.lazy(() =>
+  z.union([
+    conditionSchema,
+    z.object({ all: z.array(conditionNodeSchema) }),
+    z.object({ any: z.array(conditionNodeSchema) }),
+    z.object({ not: conditionNodeSchema }),
+  ])
+);
+
+const percentSchema = z.number().positive();
+
+const positionSizingSchema = z.discriminatedUnion("model", [
+  z.object({ model: z.literal("percent") }),
+  z.object({ model: z.literal("risk"), riskPercent: percentSchema }),
+  z.object({
+    model: z.literal("atr"),
+    riskPercent: percentSchema,
+    atrPeriod: z.number().int().positive().optional(),
+    atrMultiplier: z.number().positive().optional(),
+  }),
+  z.object({
+    model: z.literal("kelly"),
+    kellyMultiplier: z.number().positive().optional(),
+    maxPercent: percentSchema.optional(),
+    minTrades: z.number().int().nonnegative().optional(),
+  }),
+  z.object({ model: z.literal("fixed_usd"), notionalUsd: z.number().positive() }),
+]);
+
+const orderSpecSchema = z.strictObject({
+  type: z.enum(["market", "limit"]),
+  offsetPercent: z.number().nonnegative().optional(),
+  postOnly: z.boolean().optional(),
+  timeoutSeconds: z.number().int().positive().optional(),
+  fallbackToMarket: z.boolean().optional(),
+});
+
+export const strategyConfigSchema: z.ZodType<StrategyConfig> = z.object({
+  name: z.string().optional(),
+  entryConditions: z.array(conditionNodeSchema).min(1),
+  exitConditions: z.array(conditionNodeSchema),
+  stopLossPercent: percentSchema.optional(),
+  takeProfitPercent: percentSchema.optional(),
+  takeProfitLevels: z.array(z.object({ percent: percentSchema, sellPercent: percentSchema.max(100) })).optional(),
+  trailingStopPercent: percentSchema.optional(),
+  positionSizePercent: percentSchema.max(100),
+  sizing: positionSizingSchema.optional(),
+  dcaEnabled: z.boolean().optional(),
+  dcaOrders: z.number().int().min(1).optional(),
+  dcaDropPercent: percentSchema.optional(),
+  side: z.enum(["long", "short"]).optional(),
+  market: z.enum(["spot", "perp"]).optional(),
+  leverage: z.number().min(1).optional(),
+  entryOrder: orderSpecSchema.optional(),
+  exitOrder: orderSpecSchema.optional(),
+});
+
+const strategyDocumentSchema = z.object({
+  format: z.literal(STRATEGY_DOCUMENT_FORMAT),
+  version: z.literal(STRATEGY_SCHEMA_VERSION),
+  name: z.string().min(1),
+  symbol: z.string().min(1),
+  timeframe: z.string().min(1),
+  notes: z.string().nullable().optional(),
+  exportedAt: z.string().optional(),
+  config: strategyConfigSchema,
+});
+
+export type StrategyDocument = z.infer<typeof strategyDocumentSchema>;
+
+type Issue = z.core.$ZodIssue;
+
+/** Required keys an issue reports as absent; a union counts those of its closest branch */
+function missingKeys(issue: Issue): number {
+  if (issue.code === "invalid_union" && issue.errors.length > 0) {
+    return Math.min(...issue.errors.map((branch) => branch.reduce((n, i) => n + missingKeys(i), 0)));
+  }
+  return issue.code === "invalid_type" && issue.message.endsWith("received undefined") ? 1 : 0;
+}
+
+/**
+ * Issues with those of unions replaced by the branch the input came closest to: fewest missing
+ * keys, then fewest issues, then the most specific paths. Otherwise a typo deep in a condition
+ * reports only "Invalid input" for the whole node.
+ */
+function flattenIssues(issues: Issue[], basePath: PropertyKey[] = []): { path: PropertyKey[]; message: string }[] {
+  return issues.flatMap((issue) => {
+    const path = [...basePath, ...issue.path];
+    if (issue.code !== "invalid_union" || issue.errors.length === 0) return [{ path, message: issue.message }];
+
+    const score = (branch: Issue[]) => ({
+      missing: branch.reduce((n, i) => n + missingKeys(i), 0),
+      count: branch.length,
+      depth: Math.max(0, ...branch.map((i) => i.path.length)),
+    });
+    const best = issue.errors.reduce((a, b) => {
+      const sa = score(a);
+      const sb = score(b);
+      if (sa.missing !== sb.missing) return sa.missing < sb.missing ? a : b;
+      if (sa.count !== sb.count) return sa.count < sb.count ? a : b;
+      return sb.depth > sa.depth ? b : a;
+    });
+    return flattenIssues(best, path);
+  });
+}
+
+/** "entryConditions.0.operator: Invalid option ..." per issue, for API error responses */
+function describeIssues(error: z.ZodError): string[] {
+  return flattenIssues(error.issues).map(({ path, message }) =>
+    path.length ? `${path.map(String).join(".")}: ${message}` : message
+  );
+}
+
+// A percent of 0 turned these off before validation required them positive
+const LEGACY_OFF_PERCENTS = ["stopLossPercent", "takeProfitPercent", "trailingStopPercent", "dcaDropPercent"] as const;
+
+/** Indicator params dropped where they are not known; the engine used to ignore them */
+function stripUnknownParams(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripUnknownParams);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) =>
+      key === "params" && "indicator" in value && typeof v === "object" && v !== null
+        ? [key, Object.fromEntries(Object.entries(v).filter(([param]) => param in indicatorParamsSchema.shape))]
+        : [key, stripUnknownParams(v)]
+    )
+  );
+}
+
+/**
+ * A config saved before validation was strict, read the way the engine ran it: percents of 0 as
+ * unset and unknown indicator params left out. Whatever else is wrong is for
+ * validateStrategyConfig to report.
+ */
+export function migrateStrategyConfig(input: unknown): unknown {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) return input;
+  const config: Record<string, unknown> = { ...input };
+  for (const key of LEGACY_OFF_PERCENTS) {
+    if (config[key] === 0) delete config[key];
+  }
+  return stripUnknownParams(config);
+}
+
+export function validateStrategyConfig(input: unknown) {
+  const result = strategyConfigSchema.safeParse(input);
+  return result.success
+    ? { success: true as const, config: result.data }
+    : { success: false as const, issues: describeIssues(result.error) };
+}
+
+/** Validates a parsed custom indicator formula (see ./custom-indicators) */
+export function validateIndicatorFormula(input: unknown) {
+  const result = formulaSchema.safeParse(input);
+  if (result.success && typeof result.data === "number") {
+    return { success: false as const, issues: ["A formula must read at least one indicator or price"] };
+  }
+  return result.success
+    ? { success: true as const, formula: result.data }
+    : { success: false as const, issues: describeIssues(result.error) };
+}
+
+export function toStrategyDocument(strategy: {
+  name: string;
+  symbol: string;
+  timeframe: string;
+  notes?: string | null;
+  config: StrategyConfig;
+}): StrategyDocument {
+  return {
+    format: STRATEGY_DOCUMENT_FORMAT,
+    version: STRATEGY_SCHEMA_VERSION,
+    name: strategy.name,
+    symbol: strategy.symbol,
+    timeframe: strategy.timeframe,
+    notes: strategy.notes ?? null,
+    exportedAt: new Date().toISOString(),
+    config: strategy.config,
+  };
+}
+
+/** Validates an exported document; documents from a newer schema version are rejected */
+export function parseStrategyDocument(input: unknown) {
+  const version = (input as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > STRATEGY_SCHEMA_VERSION) {
+    return {
+      success: false as const,
+      issues: [`Document version ${version} is newer than the supported version ${STRATEGY_SCHEMA_VERSION}`],
+    };
+  }
+  const result = strategyDocumentSchema.safeParse(input);
+  return result.success
+    ? { success: true as const, document: result.data }
+    : { success: false as const, issues: describeIssues(result.error) };
+}
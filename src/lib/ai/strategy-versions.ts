@@ -0,0 +1,228 @@
+import { db } from "@/lib/db";
+import {
+  operationalStrategies,
+  strategySuggestions,
+  strategyVersions,
+  type OperationalStrategy,
+  type StrategyVersion,
+} from "@/lib/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+/**
+ * Config history of strategy suggestions and operational strategies. Versions are immutable:
+ * editing or rolling back records a new version and copies its config onto the owner row, which
+ * is what the rest of the app (and StrategyExecutor) reads.
+ */
+
+/** The suggestion or operational strategy a version belongs to */
+export type VersionOwner = { suggestionId: string } | { strategyId: string };
+
+export interface VersionDetails {
+  userId: string;
+  backtestId?: string | null;
+  sourceVersionId?: string | null;
+  note?: string | null;
+}
+
+/** One changed leaf between two configs; `before`/`after` are missing when the key was added/removed */
+export interface ConfigChange {
+  path: string; // e.g. "entryConditions[0].params.period"
+  before?: unknown;
+  after?: unknown;
+}
+
+function ownerFilter(owner: VersionOwner) {
+  return "suggestionId" in owner
+    ? eq(strategyVersions.suggestionId, owner.suggestionId)
+    : eq(strategyVersions.strategyId, owner.strategyId);
+}
+
+async function loadOwner(owner: VersionOwner) {
+  if ("suggestionId" in owner) {
+    const [row] = await db
+      .select({ strategyConfig: strategySuggestions.strategyConfig, configVersion: strategySuggestions.configVersion })
+      .from(strategySuggestions)
+      .where(eq(strategySuggestions.id, owner.suggestionId))
+      .limit(1);
+    return row ? { ...row, backtestId: null } : null;
+  }
+  const [row] = await db
+    .select({
+      strategyConfig: operationalStrategies.strategyConfig,
+      configVersion: operationalStrategies.configVersion,
+      backtestId: operationalStrategies.backtestId,
+    })
+    .from(operationalStrategies)
+    .where(eq(operationalStrategies.id, owner.strategyId))
+    .limit(1);
+  return row ?? null;
+}
+
+async function latestVersion(owner: VersionOwner): Promise<StrategyVersion | null> {
+  const [latest] = await db
+    .select()
+    .from(strategyVersions)
+    .where(ownerFilter(owner))
+    .orderBy(desc(strategyVersions.version))
+    .limit(1);
+  return latest ?? null;
+}
+
+/**
+ * Records the owner's current config as its first version. Owners created before versioning
+ * get theirs on first access; does nothing once a version exists.
+ */
+export async function recordInitialVersion(
+  owner: VersionOwner,
+  details: Partial<VersionDetails> = {}
+): Promise<StrategyVersion | null> {
+  const existing = await latestVersion(owner);
+  if (existing) return existing;
+
+  const current = await loadOwner(owner);
+  if (!current) return null;
+
+  const [version] = await db
+    .insert(strategyVersions)
+    .values({
+      ...("suggestionId" in owner ? { suggestionId: owner.suggestionId } : { strategyId: owner.strategyId }),
+      version: current.configVersion,
+      strategyConfig: current.strategyConfig,
+      backtestId: details.backtestId ?? current.backtestId,
+      sourceVersionId: details.sourceVersionId ?? null,
+      note: details.note ?? "Initial version",
+      createdBy: details.userId ?? null,
+    })
+    .returning();
+  return version;
+}
+
+/** Newest first */
+export async function listVersions(owner: VersionOwner): Promise<StrategyVersion[]> {
+  await recordInitialVersion(owner);
+  return db.select().from(strategyVersions).where(ownerFilter(owner)).orderBy(desc(strategyVersions.version));
+}
+
+export async function getVersion(owner: VersionOwner, versionId: string): Promise<StrategyVersion | null> {
+  const [version] = await db
+    .select()
+    .from(strategyVersions)
+    .where(and(ownerFilter(owner), eq(strategyVersions.id, versionId)))
+    .limit(1);
+  return version ?? null;
+}
+
+export async function versionByNumber(owner: VersionOwner, version: number): Promise<StrategyVersion | null> {
+  const [row] = await db
+    .select()
+    .from(strategyVersions)
+    .where(and(ownerFilter(owner), eq(strategyVersions.version, version)))
+    .limit(1);
+  return row ?? null;
+}
+
+/** The version the owner runs now */
+export async function currentVersion(owner: VersionOwner): Promise<StrategyVersion | null> {
+  const current = await loadOwner(owner);
+  if (!current) return null;
+  await recordInitialVersion(owner);
+  return versionByNumber(owner, current.configVersion);
+}
+
+/** Records `strategyConfig` (JSON) as the owner's next version and makes it current */
+export async function createVersion(
+  owner: VersionOwner,
+  strategyConfig: string,
+  details: VersionDetails
+): Promise<StrategyVersion> {
+  const latest = await recordInitialVersion(owner, { userId: details.userId });
+  const next = (latest?.version ?? 0) + 1;
+
+  const [version] = await db
+    .insert(strategyVersions)
+    .values({
+      ...("suggestionId" in owner ? { suggestionId: owner.suggestionId } : { strategyId: owner.strategyId }),
+      version: next,
+      strategyConfig,
+      backtestId: details.backtestId ?? null,
+      sourceVersionId: details.sourceVersionId ?? null,
+      note: details.note ?? null,
+      createdBy: details.userId,
+    })
+    .returning();
+
+  if ("suggestionId" in owner) {
+    await db
+      .update(strategySuggestions)
+      .set({ strategyConfig, configVersion: next })
+      .where(eq(strategySuggestions.id, owner.suggestionId));
+  } else {
+    await db
+      .update(operationalStrategies)
+      .set({ strategyConfig, configVersion: next, updatedAt: new Date() })
+      .where(eq(operationalStrategies.id, owner.strategyId));
+  }
+
+  return version;
+}
+
+/**
+ * Why `strategyConfig` (JSON) cannot become a running strategy's config, or null. StrategyExecutor
+ * reads the direction of the position from the config: the side cannot change under a position or
+ * a working order, and a short needs the perp market the strategy was activated on.
+ */
+export function sideChangeError(
+  strategy: Pick<OperationalStrategy, "strategyConfig" | "market" | "entryQuantity" | "pendingOrder">,
+  strategyConfig: string
+): string | null {
+  const sideOf = (config: string) => ((JSON.parse(config) as { side?: string }).side === "short" ? "short" : "long");
+  const side = sideOf(strategyConfig);
+  if (side === sideOf(strategy.strategyConfig)) return null;
+
+  if (strategy.entryQuantity || strategy.pendingOrder) {
+    return "The side cannot change while a position or order is open; stop the strategy first";
+  }
+  if (side === "short" && strategy.market !== "perp") {
+    return "Short strategies need the perp market; activate a new strategy instead";
+  }
+  return null;
+}
+
+/** Makes an earlier version's config current again, as a new version */
+export async function rollbackToVersion(
+  owner: VersionOwner,
+  target: StrategyVersion,
+  userId: string
+): Promise<StrategyVersion> {
+  return createVersion(owner, target.strategyConfig, {
+    userId,
+    backtestId: target.backtestId,
+    sourceVersionId: target.id,
+    note: `Rollback to v${target.version}`,
+  });
+}
+
+/** Leaf-by-leaf differences between two configs; arrays are compared index by index */
+export function diffConfigs(before: unknown, after: unknown, path = ""): ConfigChange[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ConfigChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffConfigs(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after) && !Array.isArray(before) && !Array.isArray(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffConfigs(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{
+    path,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+  }];
+}
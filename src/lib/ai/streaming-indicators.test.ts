@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import session from "./backtest/fixtures/synthetic-session.json";
+import { calculateIndicator, type IndicatorName, type IndicatorParams } from "./indicators";
+import { createIndicatorStream } from "./streaming-indicators";
+import type { Candle } from "./data/candles";
+
+// 240 hourly candles over ten UTC days, so session VWAP resets several times
+const candles: Candle[] = session.candles;
+
+const STREAMS: [IndicatorName, IndicatorParams?][] = [
+  ["rsi", { period: 14 }],
+  ["ema", { period: 21 }],
+  ["sma", { period: 20 }],
+  ["volume_sma", { period: 10 }],
+  ["macd", { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 }],
+  ["bollinger", { period: 20, stdDev: 2 }],
+  ["atr", { period: 14 }],
+  ["obv"],
+  ["vwap"],
+  ["pct_change", { period: 3 }],
+  ["open"],
+  ["high"],
+  ["low"],
+  ["close"],
+  ["volume"],
+];
+
+describe("createIndicatorStream", () => {
+  it.each(STREAMS)("%s matches calculateIndicator candle by candle", (name, params) => {
+    const stream = createIndicatorStream(name, params)!;
+    const expected = calculateIndicator(name, candles, params).values;
+
+    expect(candles.map((candle) => stream.next(candle))).toEqual(expected);
+  });
+
+  it.each(STREAMS)("%s values a forming candle through a clone, leaving the stream as it was", (name, params) => {
+    const stream = createIndicatorStream(name, params)!;
+    for (let i = 0; i < candles.length - 1; i++) {
+      stream.next(candles[i]);
+      const forming = { ...candles[i + 1], close: candles[i + 1].open, high: candles[i + 1].open, low: candles[i + 1].open };
+      const window = [...candles.slice(0, i + 1), forming];
+
+      expect(stream.clone().next(forming)).toEqual(calculateIndicator(name, window, params).values[i + 1]);
+    }
+    expect(stream.next(candles[candles.length - 1])).toEqual(calculateIndicator(name, candles, params).values.at(-1));
+  });
+
+  it("has no stream for indicators that are recomputed", () => {
+    expect(createIndicatorStream("adx", { period: 14 })).toBeNull();
+    expect(createIndicatorStream("ichimoku")).toBeNull();
+  });
+});
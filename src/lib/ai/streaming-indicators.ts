@@ -0,0 +1,358 @@
+import type { Candle } from "./data/candles";
+import { isTechnicalIndicator, resolveIndicatorParams, type IndicatorName, type IndicatorParams, type IndicatorResult } from "./indicators";
+
+/**
+ * Incremental versions of calculateIndicator for live evaluation. A stream folds in one closed
+ * candle at a time and returns that candle's value: the value calculateIndicator gives it over
+ * every candle the stream has seen. The arithmetic follows technicalindicators step by step
+ * (running sums, seeding, RSI's rounding), so the two agree exactly rather than approximately.
+ *
+ * Indicators that look back over a window on every bar (ADX, Ichimoku, channels, patterns, ...)
+ * have no stream; createIndicatorStream returns null and the caller recomputes them.
+ */
+
+export type IndicatorValue = IndicatorResult["values"][number];
+
+export interface IndicatorStream {
+  /** Folds in the next closed candle and returns its value */
+  next(candle: Candle): IndicatorValue;
+  /** An independent copy, e.g. to value a forming candle without folding it in */
+  clone(): IndicatorStream;
+}
+
+/** technicalindicators' SMA: a running sum whose window starts with a 0 placeholder */
+class Sma {
+  private window: number[] = [0];
+  private sum = 0;
+  private count = 1;
+
+  constructor(private readonly period: number) {}
+
+  next(value: number): number | undefined {
+    if (this.count < this.period) {
+      this.count++;
+      this.window.push(value);
+      this.sum = this.sum + value;
+      return undefined;
+    }
+    this.sum = this.sum - this.window.shift()! + value;
+    this.window.push(value);
+    return this.sum / this.period;
+  }
+
+  clone(): Sma {
+    const copy = new Sma(this.period);
+    copy.window = [...this.window];
+    copy.sum = this.sum;
+    copy.count = this.count;
+    return copy;
+  }
+}
+
+/** EMA (exponent 2 / (period + 1)) or Wilder's average (1 / period), seeded with the SMA */
+class Ema {
+  private sma: Sma;
+  private value: number | undefined;
+
+  constructor(private readonly period: number, private readonly exponent: number) {
+    this.sma = new Sma(period);
+  }
+
+  next(x: number): number | undefined {
+    if (this.value !== undefined) {
+      this.value = (x - this.value) * this.exponent + this.value;
+    } else {
+      this.value = this.sma.next(x);
+    }
+    return this.value;
+  }
+
+  clone(): Ema {
+    const copy = new Ema(this.period, this.exponent);
+    copy.sma = this.sma.clone();
+    copy.value = this.value;
+    return copy;
+  }
+}
+
+/** An SMA or EMA of one candle value */
+class AverageStream implements IndicatorStream {
+  constructor(private readonly average: Sma | Ema, private readonly valueOf: (c: Candle) => number) {}
+
+  next(candle: Candle) {
+    return this.average.next(this.valueOf(candle));
+  }
+
+  clone() {
+    return new AverageStream(this.average.clone(), this.valueOf);
+  }
+}
+
+/** Wilder's RSI rounded to 2 decimals, as technicalindicators' AverageGain / AverageLoss / RSI */
+class RsiStream implements IndicatorStream {
+  private last: number | undefined;
+  private counter = 1;
+  private gainSum = 0;
+  private lossSum = 0;
+  private avgGain: number | undefined;
+  private avgLoss: number | undefined;
+  private rsi: number | undefined;
+
+  constructor(private readonly period: number) {}
+
+  next(candle: Candle) {
+    const close = candle.close;
+    if (this.last === undefined) {
+      this.last = close;
+      return undefined;
+    }
+    const gain = Math.max(close - this.last, 0);
+    const loss = Math.max(this.last - close, 0);
+    if (gain > 0) this.gainSum = this.gainSum + gain;
+    if (loss > 0) this.lossSum = this.lossSum + loss;
+    if (this.counter < this.period) {
+      this.counter++;
+    } else if (this.avgGain === undefined || this.avgLoss === undefined) {
+      this.avgGain = this.gainSum / this.period;
+      this.avgLoss = this.lossSum / this.period;
+    } else {
+      this.avgGain = ((this.avgGain * (this.period - 1)) + gain) / this.period;
+      this.avgLoss = ((this.avgLoss * (this.period - 1)) + loss) / this.period;
+    }
+    this.last = close;
+
+    if (this.avgGain !== undefined && this.avgLoss !== undefined) {
+      if (this.avgLoss === 0) this.rsi = 100;
+      else if (this.avgGain === 0) this.rsi = 0;
+      else this.rsi = parseFloat((100 - (100 / (1 + this.avgGain / this.avgLoss))).toFixed(2));
+    }
+    return this.rsi;
+  }
+
+  clone() {
+    return Object.assign(new RsiStream(this.period), this);
+  }
+}
+
+/** Wilder's average of the true range; the first candle has no previous close and no range */
+class AtrStream implements IndicatorStream {
+  private prevClose: number | undefined;
+  private average: Ema;
+
+  constructor(private readonly period: number) {
+    this.average = new Ema(period, 1 / period);
+  }
+
+  next(candle: Candle) {
+    if (this.prevClose === undefined) {
+      this.prevClose = candle.close;
+      return undefined;
+    }
+    const trueRange = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - this.prevClose),
+      Math.abs(candle.low - this.prevClose)
+    );
+    this.prevClose = candle.close;
+    return this.average.next(trueRange);
+  }
+
+  clone() {
+    const copy = new AtrStream(this.period);
+    copy.prevClose = this.prevClose;
+    copy.average = this.average.clone();
+    return copy;
+  }
+}
+
+/** EMA-based MACD; values start once the slow EMA has, the signal once it has seen signalPeriod of them */
+class MacdStream implements IndicatorStream {
+  private fast: Ema;
+  private slow: Ema;
+  private signalEma: Ema;
+  private count = 0;
+  private macd: number | undefined;
+  private signal: number | undefined;
+
+  constructor(private readonly p: Required<Pick<IndicatorParams, "fastPeriod" | "slowPeriod" | "signalPeriod">>) {
+    this.fast = new Ema(p.fastPeriod, 2 / (p.fastPeriod + 1));
+    this.slow = new Ema(p.slowPeriod, 2 / (p.slowPeriod + 1));
+    this.signalEma = new Ema(p.signalPeriod, 2 / (p.signalPeriod + 1));
+  }
+
+  next(candle: Candle) {
+    const fast = this.fast.next(candle.close);
+    const slow = this.slow.next(candle.close);
+    if (++this.count < this.p.slowPeriod) return undefined;
+    if (fast && slow) {
+      this.macd = fast - slow;
+      this.signal = this.signalEma.next(this.macd);
+    }
+    return {
+      macd: this.macd,
+      signal: this.signal ? this.signal : undefined,
+      histogram: this.macd !== undefined && this.signal !== undefined ? this.macd - this.signal : undefined,
+    };
+  }
+
+  clone() {
+    const copy = new MacdStream(this.p);
+    copy.fast = this.fast.clone();
+    copy.slow = this.slow.clone();
+    copy.signalEma = this.signalEma.clone();
+    copy.count = this.count;
+    copy.macd = this.macd;
+    copy.signal = this.signal;
+    return copy;
+  }
+}
+
+/** SMA ± stdDev population standard deviations of the last `period` closes */
+class BollingerStream implements IndicatorStream {
+  private sma: Sma;
+  private window: number[] = [];
+  private bands: { upper: number; middle: number; lower: number } | undefined;
+
+  constructor(private readonly period: number, private readonly stdDev: number) {
+    this.sma = new Sma(period);
+  }
+
+  next(candle: Candle) {
+    this.window.push(candle.close);
+    if (this.window.length > this.period) this.window.shift();
+    const mean = this.sma.next(candle.close);
+    if (mean) {
+      let sum = 0;
+      for (const x of this.window) sum = sum + Math.pow(x - mean, 2);
+      const sd = Math.sqrt(sum / this.period);
+      this.bands = { upper: mean + sd * this.stdDev, middle: mean, lower: mean - sd * this.stdDev };
+    }
+    return this.bands;
+  }
+
+  clone() {
+    const copy = new BollingerStream(this.period, this.stdDev);
+    copy.sma = this.sma.clone();
+    copy.window = [...this.window];
+    copy.bands = this.bands;
+    return copy;
+  }
+}
+
+/** On-balance volume, starting at the second candle */
+class ObvStream implements IndicatorStream {
+  private started = false;
+  private lastClose: number | undefined;
+  private total = 0;
+
+  next(candle: Candle) {
+    if (!this.started) {
+      this.started = true;
+      if (candle.close) {
+        this.lastClose = candle.close;
+        return undefined;
+      }
+    }
+    if (this.lastClose !== undefined && this.lastClose < candle.close) this.total = this.total + candle.volume;
+    else if (this.lastClose !== undefined && candle.close < this.lastClose) this.total = this.total - candle.volume;
+    this.lastClose = candle.close;
+    return this.total;
+  }
+
+  clone() {
+    return Object.assign(new ObvStream(), this);
+  }
+}
+
+/** VWAP of the UTC day, as sessionVwap in ./indicators */
+class VwapStream implements IndicatorStream {
+  private session = -1;
+  private priceVolume = 0;
+  private volume = 0;
+
+  next(candle: Candle) {
+    const session = Math.floor(candle.timestamp / 86_400_000);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+    this.priceVolume += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    this.volume += candle.volume;
+    return this.volume > 0 ? this.priceVolume / this.volume : undefined;
+  }
+
+  clone() {
+    return Object.assign(new VwapStream(), this);
+  }
+}
+
+/** Percent change of the close over `period` candles */
+class PctChangeStream implements IndicatorStream {
+  private closes: number[] = [];
+
+  constructor(private readonly period: number) {}
+
+  next(candle: Candle) {
+    const base = this.closes.length === this.period ? this.closes[0] : undefined;
+    this.closes.push(candle.close);
+    if (this.closes.length > this.period) this.closes.shift();
+    return base ? ((candle.close - base) / base) * 100 : undefined;
+  }
+
+  clone() {
+    const copy = new PctChangeStream(this.period);
+    copy.closes = [...this.closes];
+    return copy;
+  }
+}
+
+/** A raw candle value, which needs no state */
+class PriceStream implements IndicatorStream {
+  constructor(private readonly field: "open" | "high" | "low" | "close" | "volume") {}
+
+  next(candle: Candle) {
+    return candle[this.field];
+  }
+
+  clone() {
+    return this;
+  }
+}
+
+/** A fresh stream of `name`, or null when it has none and must be recomputed */
+export function createIndicatorStream(name: IndicatorName, params?: IndicatorParams): IndicatorStream | null {
+  if (!isTechnicalIndicator(name)) return null;
+  const p = resolveIndicatorParams(name, params);
+
+  switch (name) {
+    case "sma":
+      return new AverageStream(new Sma(p.period!), (c) => c.close);
+    case "ema":
+      return new AverageStream(new Ema(p.period!, 2 / (p.period! + 1)), (c) => c.close);
+    case "volume_sma":
+      return new AverageStream(new Sma(p.period!), (c) => c.volume);
+    case "rsi":
+      return new RsiStream(p.period!);
+    case "atr":
+      return new AtrStream(p.period!);
+    case "macd":
+      return new MacdStream({ fastPeriod: p.fastPeriod!, slowPeriod: p.slowPeriod!, signalPeriod: p.signalPeriod! });
+    case "bollinger":
+      return new BollingerStream(p.period!, p.stdDev!);
+    case "obv":
+      return new ObvStream();
+    case "vwap":
+      return new VwapStream();
+    case "pct_change":
+      return new PctChangeStream(p.period!);
+    case "open":
+    case "high":
+    case "low":
+    case "close":
+    case "volume":
+      return new PriceStream(name);
+    default:
+      return null;
+  }
+}
@@ -8,7 +8,12 @@ import { fetchRedditSentiment } from "./data/reddit-sentiment";
 import { fetchCrucixIntelligence } from "./data/crucix";
 import { calculateIndicator, type IndicatorName } from "./indicators";
 import { runBacktest } from "./backtest/engine";
-import type { StrategyConfig } from "./backtest/types";
+import type { StrategyConfig, CostModel } from "./backtest/types";
+import type { IntrabarPolicy } from "./backtest/intrabar";
+import { leverageOf } from "./backtest/strategy-core";
+import { formatStrategyDsl, parseStrategyDsl } from "./strategy-dsl";
+import { validateStrategyConfig } from "./strategy-schema";
+import { listCustomIndicators, loadCustomIndicators, saveCustomIndicator } from "./custom-indicators";
 import { db } from "@/lib/db";
 import { backtests } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
@@ -78,14 +83,33 @@ export async function executeToolCall(
     }
 
     case "run_backtest": {
-      const { symbol, timeframe, start_date, end_date, strategy } = toolInput as {
+      const { symbol, timeframe, start_date, end_date, strategy_dsl, costs, intrabar_policy, regime_source } = toolInput as {
         symbol: string;
         timeframe: string;
         start_date: string;
         end_date: string;
-        strategy: StrategyConfig;
+        strategy?: StrategyConfig;
+        strategy_dsl?: string;
+        costs?: CostModel;
+        intrabar_policy?: IntrabarPolicy;
+        regime_source?: "sma_atr" | "fear_greed";
       };
 
+      let strategy = toolInput.strategy as StrategyConfig | undefined;
+      if (strategy_dsl) {
+        try {
+          const parsed = validateStrategyConfig(parseStrategyDsl(strategy_dsl));
+          if (!parsed.success) return JSON.stringify({ error: "Invalid strategy", issues: parsed.issues });
+          strategy = parsed.config;
+        } catch (err) {
+          if (err instanceof SyntaxError) return JSON.stringify({ error: `Invalid strategy_dsl: ${err.message}` });
+          throw err;
+        }
+      }
+      if (!strategy) {
+        return JSON.stringify({ error: "Provide strategy or strategy_dsl" });
+      }
+
       const start = new Date(start_date);
       const end = new Date(end_date);
       const daysBack = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
@@ -94,7 +118,13 @@ export async function executeToolCall(
         (c) => c.timestamp >= start.getTime() && c.timestamp <= end.getTime()
       );
 
-      const result = await runBacktest(filtered, strategy, symbol);
+      const result = await runBacktest(filtered, strategy, symbol, {
+        costs,
+        intrabarPolicy: intrabar_policy,
+        timeframe,
+        regimes: regime_source ? { source: regime_source } : undefined,
+        customIndicators: await loadCustomIndicators(userId, strategy),
+      });
 
       // Store in database
       const [record] = await db
@@ -106,6 +136,7 @@ export async function executeToolCall(
           startDate: start_date,
           endDate: end_date,
           strategyConfig: JSON.stringify(strategy),
+          costModel: costs ? JSON.stringify(costs) : null,
           status: "completed",
           totalPnl: String(result.totalPnl),
           winRate: String(result.winRate),
@@ -113,8 +144,20 @@ export async function executeToolCall(
           sharpeRatio: String(result.sharpeRatio),
           profitFactor: String(result.profitFactor),
           totalTrades: result.totalTrades,
+          totalFees: String(result.totalFees),
+          grossPnl: String(result.grossPnl),
+          sortinoRatio: String(result.sortinoRatio),
+          calmarRatio: String(result.calmarRatio),
+          maxDrawdownDuration: String(result.maxDrawdownDuration),
+          exposure: String(result.exposure),
+          expectancy: String(result.expectancy),
+          sqn: String(result.sqn),
+          tailRatio: String(result.tailRatio),
+          buyAndHoldReturn: String(result.buyAndHoldReturn),
           trades: JSON.stringify(result.trades),
           equityCurve: JSON.stringify(result.equityCurve),
+          benchmarkCurve: JSON.stringify(result.benchmarkCurve ?? []),
+          regimes: result.regimes ? JSON.stringify(result.regimes) : null,
         })
         .returning();
 
@@ -123,14 +166,60 @@ export async function executeToolCall(
         symbol,
         timeframe,
         period: `${start_date} to ${end_date}`,
+        strategyDsl: formatStrategyDsl(strategy),
         totalPnl: result.totalPnl.toFixed(2),
         winRate: (result.winRate * 100).toFixed(1) + "%",
         maxDrawdown: (result.maxDrawdown * 100).toFixed(1) + "%",
         sharpeRatio: result.sharpeRatio.toFixed(2),
+        sortinoRatio: result.sortinoRatio.toFixed(2),
+        calmarRatio: result.calmarRatio.toFixed(2),
+        maxDrawdownDays: (result.maxDrawdownDuration / 86_400_000).toFixed(1),
+        exposure: (result.exposure * 100).toFixed(1) + "%",
+        expectancy: result.expectancy.toFixed(2),
+        sqn: result.sqn.toFixed(2),
+        tailRatio: result.tailRatio.toFixed(2),
+        buyAndHoldReturn: (result.buyAndHoldReturn * 100).toFixed(2) + "%",
         profitFactor: result.profitFactor === Infinity ? "Inf" : result.profitFactor.toFixed(2),
         totalTrades: result.totalTrades,
         avgWin: result.avgWin.toFixed(2),
         avgLoss: result.avgLoss.toFixed(2),
+        ...(costs && {
+          grossPnl: result.grossPnl.toFixed(2),
+          totalFees: result.totalFees.toFixed(2),
+          totalSlippage: result.totalSlippage.toFixed(2),
+        }),
+        ...(result.totalFunding !== 0 && { totalFunding: result.totalFunding.toFixed(2) }),
+        ...(result.warnings && { warnings: result.warnings }),
+        ...(leverageOf(strategy) > 1 && {
+          liquidations: result.trades.filter((t) => t.exitReason === "liquidation").length,
+        }),
+        regimes: result.regimes?.stats.map((r) => ({
+          regime: r.regime,
+          timeShare: (r.share * 100).toFixed(0) + "%",
+          trades: r.trades,
+          winRate: (r.winRate * 100).toFixed(1) + "%",
+          totalPnl: r.totalPnl.toFixed(2),
+          strategyReturn: (r.strategyReturn * 100).toFixed(2) + "%",
+          buyAndHoldReturn: (r.buyAndHoldReturn * 100).toFixed(2) + "%",
+        })),
+      });
+    }
+
+    case "save_custom_indicator": {
+      const { name, formula, description } = toolInput as {
+        name: string;
+        formula: string;
+        description?: string;
+      };
+      const saved = await saveCustomIndicator(userId, { name, formula, description });
+      if (!saved.success) return JSON.stringify({ error: "Invalid custom indicator", issues: saved.issues });
+      return JSON.stringify({ indicator: saved.indicator.name, formula: saved.indicator.formula });
+    }
+
+    case "list_custom_indicators": {
+      const indicators = await listCustomIndicators(userId);
+      return JSON.stringify({
+        indicators: indicators.map((i) => ({ indicator: i.name, formula: i.formula, description: i.description })),
       });
     }
 
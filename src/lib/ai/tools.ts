@@ -32,7 +32,7 @@ export const aiTools: Anthropic.Tool[] = [
   {
     name: "calculate_indicators",
     description:
-      "Calculate technical indicators for a trading pair. Returns computed indicator values aligned with candle timestamps. Available indicators: rsi, macd, bollinger, ema, sma, atr, stochastic, volume_sma.",
+      "Calculate technical indicators for a trading pair. Returns computed indicator values aligned with candle timestamps. Available indicators: rsi, macd, bollinger, ema, sma, atr, stochastic, volume_sma, vwap (anchored to the UTC day), adx ({adx, pdi, mdi}), ichimoku ({conversion, base, spanA, spanB}, cloud shifted forward), supertrend ({supertrend, direction: 1 up / -1 down}), keltner, donchian (channels of the prior bars, {upper, middle, lower}), obv, mfi, cci, williams_r, psar, heikin_ashi ({open, high, low, close}), pivots (classic floor pivots of the previous day, {pivot, r1-r3, s1-s3}), pct_change (percent change of the close over `period` bars), candlestick patterns (1 on the bar completing them, else 0): bullish_engulfing, bearish_engulfing, hammer, shooting_star, doji, morning_star, evening_star, inside_bar, three_white_soldiers, three_black_crows.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -61,6 +61,30 @@ export const aiTools: Anthropic.Tool[] = [
                   "atr",
                   "stochastic",
                   "volume_sma",
+                  "vwap",
+                  "adx",
+                  "ichimoku",
+                  "supertrend",
+                  "keltner",
+                  "donchian",
+                  "obv",
+                  "mfi",
+                  "cci",
+                  "williams_r",
+                  "psar",
+                  "heikin_ashi",
+                  "pct_change",
+                  "bullish_engulfing",
+                  "bearish_engulfing",
+                  "hammer",
+                  "shooting_star",
+                  "doji",
+                  "morning_star",
+                  "evening_star",
+                  "inside_bar",
+                  "three_white_soldiers",
+                  "three_black_crows",
+                  "pivots",
                   "funding_rate",
                   "funding_signal",
                   "reddit_sentiment",
@@ -71,7 +95,7 @@ export const aiTools: Anthropic.Tool[] = [
               },
               params: {
                 type: "object",
-                description: "Optional params like { period: 14 }",
+                description: "Optional params like { period: 14 }. Also multiplier (supertrend, keltner), atrPeriod (keltner), step / maxStep (psar), conversionPeriod / basePeriod / spanPeriod / displacement (ichimoku)",
               },
             },
             required: ["name"],
@@ -106,7 +130,7 @@ export const aiTools: Anthropic.Tool[] = [
   {
     name: "run_backtest",
     description:
-      "Run a backtest simulation for a trading strategy. Define entry/exit conditions using technical indicators, stop loss, take profit, and position sizing. Returns performance metrics and trade history.",
+      "Run a backtest simulation for a trading strategy. Define entry/exit conditions using technical indicators, stop loss, take profit, and position sizing, either as a `strategy` object or a `strategy_dsl` script. Returns performance metrics and trade history.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -132,26 +156,40 @@ export const aiTools: Anthropic.Tool[] = [
             name: { type: "string" },
             entryConditions: {
               type: "array",
+              description: "All items must hold. An item is a condition or a group: {\"any\": [...]} (at least one holds), {\"all\": [...]} or {\"not\": {...}}; groups nest, e.g. [{\"any\": [rsi < 30, bollinger lower condition]}, volume condition]",
               items: {
                 type: "object",
                 properties: {
                   indicator: {
                     type: "string",
-                    description: "Technical: rsi, macd, bollinger, ema, sma, atr, stochastic, volume_sma. Alternative data: funding_rate (per-symbol rate), funding_signal (-2 to 2), reddit_sentiment (-100 to 100), reddit_buzz (0-100), google_trends (0-100), whale_flow_signal (-100 to 100, negative=accumulation)",
+                    description: "Price: open, high, low, close, volume, pct_change (percent change of the close over params.period bars). Technical: rsi, macd, bollinger, ema, sma, atr, stochastic, volume_sma, vwap, adx, ichimoku, supertrend, keltner, donchian, obv, mfi, cci, williams_r, psar, heikin_ashi, pivots. Candlestick patterns, 1 on the bar completing them and 0 otherwise (use \"> 0\"): bullish_engulfing, bearish_engulfing, hammer, shooting_star, doji, morning_star, evening_star, inside_bar, three_white_soldiers, three_black_crows. Alternative data: funding_rate (per-symbol rate), funding_signal (-2 to 2), reddit_sentiment (-100 to 100), reddit_buzz (0-100), google_trends (0-100), whale_flow_signal (-100 to 100, negative=accumulation). Custom: the user's own indicators as custom_<name> (see list_custom_indicators), without params, field or timeframe",
                   },
                   params: { type: "object" },
                   field: { type: "string" },
+                  timeframe: {
+                    type: "string",
+                    description: "Evaluate on another timeframe's closed bars, e.g. 4h for a trend filter on a 15m strategy. An indicator-valued value may set its own timeframe too.",
+                  },
+                  offset: {
+                    type: "number",
+                    description: "Bars back, e.g. {indicator: \"high\", offset: 1} is the previous bar's high (bars of `timeframe` when set)",
+                  },
                   operator: {
                     type: "string",
                     enum: [">", "<", ">=", "<=", "crosses_above", "crosses_below"],
                   },
-                  value: {},
+                  value: {
+                    description: "A number, an indicator ref {indicator, params, field, timeframe, offset} or arithmetic {op: \"+\" | \"-\" | \"*\" | \"/\", left, right} of those, e.g. {op: \"*\", left: 2, right: {indicator: \"volume_sma\"}}",
+                  },
+                  all: { type: "array", items: { type: "object" } },
+                  any: { type: "array", items: { type: "object" } },
+                  not: { type: "object" },
                 },
-                required: ["indicator", "operator", "value"],
               },
             },
             exitConditions: {
               type: "array",
+              description: "Same shape as entryConditions, groups included",
               items: {
                 type: "object",
                 properties: {
@@ -161,20 +199,130 @@ export const aiTools: Anthropic.Tool[] = [
                   },
                   params: { type: "object" },
                   field: { type: "string" },
+                  timeframe: { type: "string" },
+                  offset: { type: "number" },
                   operator: { type: "string" },
                   value: {},
+                  all: { type: "array", items: { type: "object" } },
+                  any: { type: "array", items: { type: "object" } },
+                  not: { type: "object" },
                 },
-                required: ["indicator", "operator", "value"],
               },
             },
             stopLossPercent: { type: "number" },
             takeProfitPercent: { type: "number" },
+            trailingStopPercent: { type: "number", description: "Trail the stop this far below the best price since entry" },
+            dcaEnabled: { type: "boolean" },
+            dcaOrders: { type: "number", description: "Number of equal portions the position budget is split into" },
+            dcaDropPercent: { type: "number", description: "Buy the next portion when price drops this far below the average entry" },
             positionSizePercent: { type: "number" },
+            side: { type: "string", enum: ["long", "short"], description: "Default long" },
+            market: {
+              type: "string",
+              enum: ["spot", "perp"],
+              description: "perp models funding payments from historical funding rates; default perp for shorts and leverage, spot otherwise",
+            },
+            leverage: {
+              type: "number",
+              description: "Perp only, default 1. Positions use isolated margin of notional / leverage and are liquidated when price crosses the liquidation price",
+            },
+            sizing: {
+              type: "object",
+              description: "Optional sizing model; omit to use positionSizePercent of equity. Budgets are capped at equity (times leverage).",
+              properties: {
+                model: {
+                  type: "string",
+                  enum: ["percent", "risk", "atr", "kelly", "fixed_usd"],
+                  description: "risk: lose riskPercent of equity at the stop loss; atr: a move of atrMultiplier × ATR costs riskPercent; kelly: Kelly fraction of past trades × kellyMultiplier, capped at maxPercent; fixed_usd: notionalUsd per position",
+                },
+                riskPercent: { type: "number", description: "risk and atr models, e.g. 1" },
+                atrPeriod: { type: "number" },
+                atrMultiplier: { type: "number" },
+                kellyMultiplier: { type: "number", description: "Default 0.5 (half-Kelly)" },
+                maxPercent: { type: "number", description: "Kelly cap in % of equity, default 25" },
+                minTrades: { type: "number", description: "Closed trades before Kelly applies, default 20" },
+                notionalUsd: { type: "number" },
+              },
+              required: ["model"],
+            },
+            entryOrder: {
+              type: "object",
+              description: "Default market. A limit rests offsetPercent below the signal close (above for shorts) and fills only if price trades through it within timeoutSeconds (default one bar), paying the maker fee; DCA portions stay market orders",
+              properties: {
+                type: { type: "string", enum: ["market", "limit"] },
+                offsetPercent: { type: "number", description: "Limit distance from the signal close, default 0" },
+                postOnly: { type: "boolean" },
+                timeoutSeconds: { type: "number" },
+                fallbackToMarket: { type: "boolean", description: "Fill at market when the limit times out instead of dropping the signal" },
+              },
+              required: ["type"],
+            },
+            exitOrder: {
+              type: "object",
+              description: "Same as entryOrder, for exit-signal exits; stops, take-profits and liquidations always fill at their level",
+            },
           },
           required: ["entryConditions", "exitConditions", "positionSizePercent"],
         },
+        strategy_dsl: {
+          type: "string",
+          description: "The strategy as a script instead of `strategy`, one `key: value` per line, e.g. \"entry: rsi(14) < 30 and close crosses_above ema(21)\\nexit: rsi(14) > 70 or macd.histogram crosses_below 0\\nstop_loss: 3\\ntake_profit: 6\\nsize: 10\". Operands are numbers, open / high / low / close / volume, or indicator(args).field[bars back]@timeframe, e.g. close > high[1], or custom_<name> for the user's custom indicators; the right side may be arithmetic, e.g. volume > 2 * volume_sma(20); combine with and / or / not and parentheses. Other keys: side, market, leverage, trailing_stop, take_profit_levels (3@30, 6@70), sizing (risk(riskPercent=1)), dca_orders, dca_drop, entry_order / exit_order (limit(offsetPercent=0.1, fallbackToMarket=true))",
+        },
+        intrabar_policy: {
+          type: "string",
+          enum: ["pessimistic", "optimistic", "drilldown"],
+          description: "How to order a candle that touches both stop loss and take profit: assume stop first (default), take profit first, or replay the candle on a lower timeframe",
+        },
+        regime_source: {
+          type: "string",
+          enum: ["sma_atr", "fear_greed"],
+          description: "How the per-regime breakdown (trend up / down / range) classifies candles: SMA slope in ATRs (default) or the Fear & Greed Index",
+        },
+        costs: {
+          type: "object",
+          description: "Optional trading cost model. Omit for a frictionless backtest.",
+          properties: {
+            exchange: {
+              type: "string",
+              enum: ["bybit", "binance", "okx", "kraken", "kucoin", "gate", "bitget", "mexc"],
+              description: "Use this exchange's base-tier maker/taker fees",
+            },
+            takerFeePercent: { type: "number", description: "Override taker fee, e.g. 0.1" },
+            slippagePercent: { type: "number", description: "Fixed adverse slippage per fill, e.g. 0.05" },
+            slippageAtrMultiplier: { type: "number", description: "Volatility-scaled slippage as a multiple of ATR/price" },
+            minNotionalUsd: { type: "number", description: "Skip entries smaller than this USD notional" },
+          },
+        },
       },
-      required: ["symbol", "timeframe", "start_date", "end_date", "strategy"],
+      required: ["symbol", "timeframe", "start_date", "end_date"],
+    },
+  },
+  {
+    name: "save_custom_indicator",
+    description:
+      "Save a custom indicator for the user: a named formula over indicators, prices and alternative data, e.g. name \"ema_spread\" with formula \"(ema(9) - ema(21)) / atr(14)\". Strategies then use it as custom_ema_spread in conditions and backtests. Saving an existing name replaces its formula, which also changes live strategies using it.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Lowercase letters, digits and underscores, starting with a letter; the custom_ prefix is added",
+        },
+        formula: {
+          type: "string",
+          description: "Arithmetic (+ - * / and parentheses) of numbers and operands as in strategy_dsl: open / high / low / close / volume or indicator(args).field[bars back], e.g. (close - donchian(20).lower) / atr(14). No @timeframe and no other custom indicators.",
+        },
+        description: { type: "string", description: "What the indicator measures" },
+      },
+      required: ["name", "formula"],
+    },
+  },
+  {
+    name: "list_custom_indicators",
+    description: "List the user's custom indicators with their names (custom_...) and formulas.",
+    input_schema: {
+      type: "object" as const,
+      properties: {},
     },
   },
   {
@@ -75,6 +75,10 @@ export const exchangeEnum = pgEnum("exchange_type", [
 // Trading mode enum (paper vs live)
 export const tradingModeEnum = pgEnum("trading_mode", ["live", "paper"]);
 
+// Market an operational strategy trades: spot, or the symbol's USDT perpetual
+export const strategyMarketEnum = pgEnum("strategy_market", ["spot", "perp"]);
+export const marginModeEnum = pgEnum("margin_mode", ["isolated", "cross"]);
+
 // Grid strategy mode enum
 export const gridStrategyModeEnum = pgEnum("grid_strategy_mode", [
   "arithmetic",
@@ -96,6 +100,12 @@ export const backtestStatusEnum = pgEnum("backtest_status", [
   "running",
   "completed",
   "failed",
+  "cancelled",
+]);
+export const backtestJobKindEnum = pgEnum("backtest_job_kind", [
+  "backtest",
+  "cross_validate",
+  "autopilot",
 ]);
 
 // Users
@@ -383,9 +393,47 @@ export const backtests = pgTable("backtests", {
   sharpeRatio: numeric("sharpe_ratio", { precision: 10, scale: 4 }),
   profitFactor: numeric("profit_factor", { precision: 10, scale: 4 }),
   totalTrades: integer("total_trades"),
+  totalFees: numeric("total_fees", { precision: 20, scale: 8 }),
+  grossPnl: numeric("gross_pnl", { precision: 20, scale: 8 }), // PnL before fees and slippage
+  sortinoRatio: numeric("sortino_ratio", { precision: 10, scale: 4 }),
+  calmarRatio: numeric("calmar_ratio", { precision: 10, scale: 4 }),
+  maxDrawdownDuration: numeric("max_drawdown_duration", { precision: 20, scale: 0 }), // ms
+  exposure: numeric("exposure", { precision: 7, scale: 4 }),
+  expectancy: numeric("expectancy", { precision: 20, scale: 8 }),
+  sqn: numeric("sqn", { precision: 10, scale: 4 }),
+  tailRatio: numeric("tail_ratio", { precision: 10, scale: 4 }),
+  buyAndHoldReturn: numeric("buy_and_hold_return", { precision: 12, scale: 6 }),
+  costModel: text("cost_model"), // JSON
   trades: text("trades"), // JSON
   equityCurve: text("equity_curve"), // JSON
+  benchmarkCurve: text("benchmark_curve"), // JSON, buy-and-hold of the same starting equity
+  regimes: text("regimes"), // JSON RegimeBreakdown
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Backtest Jobs — queue consumed by the worker's BacktestJobRunner
+export const backtestJobs = pgTable("backtest_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id),
+  kind: backtestJobKindEnum("kind").notNull(),
+  status: backtestStatusEnum("status").notNull().default("pending"),
+  backtestId: uuid("backtest_id").references(() => backtests.id), // single backtest jobs
+  params: text("params").notNull(), // JSON
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  events: text("events"), // JSON, phase events polled by the UI
+  checkpoint: text("checkpoint"), // JSON, state a resumed run continues from
+  result: text("result"), // JSON
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  attempts: integer("attempts").notNull().default(0),
   errorMessage: text("error_message"),
+  startedAt: timestamp("started_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -433,7 +481,8 @@ export const strategySuggestions = pgTable("strategy_suggestions", {
   name: varchar("name", { length: 255 }).notNull(),
   symbol: varchar("symbol", { length: 20 }).notNull(),
   timeframe: varchar("timeframe", { length: 10 }).notNull(),
-  strategyConfig: text("strategy_config").notNull(), // JSON
+  strategyConfig: text("strategy_config").notNull(), // JSON, the current version's config
+  configVersion: integer("config_version").notNull().default(1), // see strategyVersions
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -448,7 +497,8 @@ export const operationalStrategies = pgTable("operational_strategies", {
   name: varchar("name", { length: 255 }).notNull(),
   symbol: varchar("symbol", { length: 20 }).notNull(),
   timeframe: varchar("timeframe", { length: 10 }).notNull(),
-  strategyConfig: text("strategy_config").notNull(), // JSON
+  strategyConfig: text("strategy_config").notNull(), // JSON, the current version's config
+  configVersion: integer("config_version").notNull().default(1), // see strategyVersions
   status: operationalStrategyStatusEnum("status").notNull().default("active"),
   maxCapUsd: real("max_cap_usd").notNull(),
   maxCapPercent: real("max_cap_percent").notNull(),
@@ -456,7 +506,7 @@ export const operationalStrategies = pgTable("operational_strategies", {
   inPosition: boolean("in_position").default(false),
   entryPrice: real("entry_price"),
   entryQuantity: real("entry_quantity"),
-  highestPriceSinceEntry: real("highest_price_since_entry"), // for trailing stop
+  highestPriceSinceEntry: real("highest_price_since_entry"), // best price since entry (lowest for shorts), for trailing stop
   dcaOrdersFilled: integer("dca_orders_filled").default(0), // how many DCA portions placed
   avgEntryPrice: real("avg_entry_price"), // weighted average for DCA
   todayPnl: real("today_pnl").default(0),
@@ -474,10 +524,40 @@ export const operationalStrategies = pgTable("operational_strategies", {
   // Multi-target take profit
   remainingQuantity: real("remaining_quantity"), // tracks qty left after partial exits
   tpLevelsFilled: integer("tp_levels_filled").default(0),
+  // Derivatives: shorts need the perp market; leverage is bounded by the user's leverageCap
+  market: strategyMarketEnum("market").notNull().default("spot"),
+  leverage: real("leverage").notNull().default(1),
+  marginMode: marginModeEnum("margin_mode").notNull().default("isolated"),
+  positionFunding: real("position_funding").default(0), // funding received (+) / paid (-) on the open position
+  fundingPnl: real("funding_pnl").default(0), // all funding so far, also counted in todayPnl/totalPnl
+  lastFundingAt: timestamp("last_funding_at"), // funding is accounted up to here
+  pendingOrder: text("pending_order"), // JSON, an entry or exit limit order still working; see StrategyExecutor
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Strategy Versions — immutable config history of a suggestion or an operational strategy.
+// Exactly one of suggestionId / strategyId is set; the owner row keeps a copy of the current config.
+export const strategyVersions = pgTable(
+  "strategy_versions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    suggestionId: uuid("suggestion_id").references(() => strategySuggestions.id, { onDelete: "cascade" }),
+    strategyId: uuid("strategy_id").references(() => operationalStrategies.id),
+    version: integer("version").notNull(), // 1, 2, ... per owner
+    strategyConfig: text("strategy_config").notNull(), // JSON
+    backtestId: uuid("backtest_id").references(() => backtests.id), // backtest the config came from
+    sourceVersionId: uuid("source_version_id"), // version this one copies (activation, rollback)
+    note: text("note"),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("strategy_versions_suggestion_version_idx").on(table.suggestionId, table.version),
+    uniqueIndex("strategy_versions_strategy_version_idx").on(table.strategyId, table.version),
+  ]
+);
+
 // Operational Strategy Trades (trade log for live strategies)
 export const operationalStrategyTrades = pgTable("operational_strategy_trades", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -492,6 +572,8 @@ export const operationalStrategyTrades = pgTable("operational_strategy_trades",
   pnl: real("pnl"),
   reason: varchar("reason", { length: 50 }).notNull(), // "entry_signal" / "exit_signal" / "stop_loss" / "take_profit" / "manual_stop"
   mode: tradingModeEnum("mode").notNull().default("live"),
+  funding: real("funding"), // on a closing trade: funding of the position, already in the strategy PnL but not in pnl
+  configVersion: integer("config_version"), // strategyVersions.version the strategy ran when the order was placed
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -561,6 +643,23 @@ export const gridOrders = pgTable("grid_orders", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Custom Indicators — per-user formula indicators, referenced in conditions by name (custom_...)
+export const customIndicators = pgTable(
+  "custom_indicators",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    name: varchar("name", { length: 50 }).notNull(), // custom_<slug>
+    formula: text("formula").notNull(), // canonical text, e.g. (ema(9) - ema(21)) / atr(14)
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("custom_indicators_user_name_idx").on(table.userId, table.name)]
+);
+
 // Alternative Data Snapshots (historical time-series for backtesting)
 export const altDataSnapshots = pgTable(
   "alt_data_snapshots",
@@ -602,12 +701,15 @@ export type SymbolRule = typeof symbolRules.$inferSelect;
 export type AiConversation = typeof aiConversations.$inferSelect;
 export type AiMessage = typeof aiMessages.$inferSelect;
 export type Backtest = typeof backtests.$inferSelect;
+export type BacktestJob = typeof backtestJobs.$inferSelect;
 export type OhlcvCandle = typeof ohlcvCache.$inferSelect;
 export type NewsCacheEntry = typeof newsCache.$inferSelect;
 export type StrategySuggestion = typeof strategySuggestions.$inferSelect;
 export type OperationalStrategy = typeof operationalStrategies.$inferSelect;
 export type OperationalStrategyTrade = typeof operationalStrategyTrades.$inferSelect;
+export type StrategyVersion = typeof strategyVersions.$inferSelect;
 export type StrategyEquitySnapshot = typeof strategyEquitySnapshots.$inferSelect;
 export type GridStrategy = typeof gridStrategies.$inferSelect;
 export type GridOrder = typeof gridOrders.$inferSelect;
 export type StrategyFeedback = typeof strategyFeedback.$inferSelect;
+export type CustomIndicator = typeof customIndicators.$inferSelect;
@@ -0,0 +1,62 @@
+import * as ccxt from "ccxt";
+import { describe, expect, it, vi } from "vitest";
+import { fetchOrderStatus, placeLimitOrder, placeMarketOrder } from "./client";
+
+/** An okx client with one spot and one perp market, without loading them from the exchange */
+function exchangeWithMarkets() {
+  const exchange = new ccxt.okx();
+  const market = (symbol: string, contract: boolean) => ({
+    id: symbol.replace("/", "-").replace(":USDT", "-SWAP"),
+    symbol,
+    base: "BTC",
+    quote: "USDT",
+    settle: contract ? "USDT" : undefined,
+    type: contract ? "swap" : "spot",
+    spot: !contract,
+    swap: contract,
+    contract,
+    linear: contract ? true : undefined,
+    contractSize: contract ? 0.01 : undefined,
+    precision: { amount: contract ? 0.01 : 0.00000001, price: 0.1 },
+    limits: {},
+    active: true,
+  });
+  exchange.setMarkets([market("BTC/USDT", false), market("BTC/USDT:USDT", true)] as unknown as ccxt.Market[]);
+  vi.spyOn(exchange, "loadMarkets").mockResolvedValue(exchange.markets);
+  const createOrder = vi
+    .spyOn(exchange, "createOrder")
+    .mockImplementation(async (symbol, type, side, amount, price) => ({
+      id: "1", symbol, type, side, amount, price, average: price ?? 60000, filled: amount, status: "closed",
+    }) as unknown as ccxt.Order);
+  return { exchange, createOrder };
+}
+
+describe("order amounts", () => {
+  it("orders perps on contract-sized exchanges in contracts, rounded to the market's precision", async () => {
+    const { exchange, createOrder } = exchangeWithMarkets();
+    const order = await placeMarketOrder(exchange, "BTC/USDT:USDT", "buy", 0.0123456, { reduceOnly: true });
+
+    expect(createOrder).toHaveBeenCalledWith("BTC/USDT:USDT", "market", "buy", 1.23, undefined, { reduceOnly: true });
+    expect(order.amount).toBeCloseTo(0.0123, 10);
+    expect(order.filled).toBeCloseTo(0.0123, 10);
+  });
+
+  it("orders spot in the base asset", async () => {
+    const { exchange, createOrder } = exchangeWithMarkets();
+    const order = await placeLimitOrder(exchange, "BTC/USDT", "sell", 0.0123456, 61000);
+
+    expect(createOrder).toHaveBeenCalledWith("BTC/USDT", "limit", "sell", 0.0123456, 61000, {});
+    expect(order.filled).toBe(0.0123456);
+  });
+
+  it("reports perp order status in the base asset", async () => {
+    const { exchange } = exchangeWithMarkets();
+    vi.spyOn(exchange, "fetchOrder").mockResolvedValue({
+      id: "1", symbol: "BTC/USDT:USDT", side: "buy", amount: 5, filled: 2, average: 60000, status: "open",
+    } as unknown as ccxt.Order);
+
+    const status = await fetchOrderStatus(exchange, "1", "BTC/USDT:USDT");
+    expect(status.amount).toBeCloseTo(0.05, 10);
+    expect(status.filled).toBeCloseTo(0.02, 10);
+  });
+});
@@ -1,5 +1,5 @@
 import * as ccxt from "ccxt";
-import type { ExchangeCredentials, BalanceInfo, OrderResult } from "./types";
+import type { ExchangeCredentials, BalanceInfo, OrderResult, MarketType, MarginMode } from "./types";
 
 export const SUPPORTED_EXCHANGES = [
   { id: "bybit", name: "ByBit", hasWebSocket: true },
@@ -15,7 +15,8 @@ export const SUPPORTED_EXCHANGES = [
 export function createExchange(
   credentials?: ExchangeCredentials,
   sandbox = false,
-  exchangeId: string = "bybit"
+  exchangeId: string = "bybit",
+  marketType: MarketType = "spot"
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const ExchangeClass = (ccxt as any)[exchangeId];
@@ -28,7 +29,7 @@ export function createExchange(
     secret: credentials?.apiSecret,
     enableRateLimit: true,
     options: {
-      defaultType: "spot",
+      defaultType: marketType,
     },
   });
 
@@ -42,7 +43,8 @@ export function createExchange(
 export function createProExchange(
   credentials?: ExchangeCredentials,
   sandbox = false,
-  exchangeId: string = "bybit"
+  exchangeId: string = "bybit",
+  marketType: MarketType = "spot"
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const ExchangeClass = (ccxt.pro as any)[exchangeId];
@@ -55,7 +57,7 @@ export function createProExchange(
     secret: credentials?.apiSecret,
     enableRateLimit: true,
     options: {
-      defaultType: "spot",
+      defaultType: marketType,
     },
   });
 
@@ -81,10 +83,16 @@ export async function validateApiKeys(
   }
 }
 
+/** ccxt symbol of the USDT-margined perpetual for a spot pair, e.g. "BTC/USDT" -> "BTC/USDT:USDT" */
+export function perpSymbol(symbol: string): string {
+  return symbol.includes(":") ? symbol : `${symbol}:USDT`;
+}
+
 export async function fetchUsdtBalance(
-  exchange: ccxt.Exchange
+  exchange: ccxt.Exchange,
+  marketType: MarketType = "spot"
 ): Promise<BalanceInfo> {
-  const balance = await exchange.fetchBalance({ type: "spot" });
+  const balance = await exchange.fetchBalance({ type: marketType });
   const usdt = balance.USDT || { free: 0, used: 0, total: 0 };
   return {
     free: Number(usdt.free) || 0,
@@ -134,43 +142,59 @@ export async function fetchWithdrawals(
   }));
 }
 
-export async function placeMarketOrder(
-  exchange: ccxt.Exchange,
-  symbol: string,
-  side: "buy" | "sell",
-  amount: number
-): Promise<OrderResult> {
-  const order = await exchange.createOrder(symbol, "market", side, amount);
+/**
+ * Order amounts here are in the base asset. Contract-sized derivatives (OKX, KuCoin, Gate and MEXC
+ * perps) count them in contracts of `contractSize` base units instead, so amounts are converted on
+ * the way in, rounded to the market's precision, and back on the way out.
+ */
+async function contractSizeOf(exchange: ccxt.Exchange, symbol: string): Promise<number> {
+  await exchange.loadMarkets();
+  const market = exchange.market(symbol);
+  return market.contract && market.contractSize ? market.contractSize : 1;
+}
+
+function toOrderAmount(exchange: ccxt.Exchange, symbol: string, amount: number, contractSize: number): number {
+  return Number(exchange.amountToPrecision(symbol, amount / contractSize));
+}
+
+function toOrderResult(order: ccxt.Order, contractSize: number): OrderResult {
   return {
     id: String(order.id),
     symbol: String(order.symbol),
     side: String(order.side),
-    amount: Number(order.amount),
+    amount: Number(order.amount) * contractSize,
     price: order.price != null ? Number(order.price) : undefined,
     average: order.average != null ? Number(order.average) : undefined,
-    filled: Number(order.filled),
+    filled: Number(order.filled) * contractSize,
     status: String(order.status),
   };
 }
 
+export async function placeMarketOrder(
+  exchange: ccxt.Exchange,
+  symbol: string,
+  side: "buy" | "sell",
+  amount: number,
+  params: Record<string, unknown> = {}
+): Promise<OrderResult> {
+  const contractSize = await contractSizeOf(exchange, symbol);
+  const orderAmount = toOrderAmount(exchange, symbol, amount, contractSize);
+  const order = await exchange.createOrder(symbol, "market", side, orderAmount, undefined, params);
+  return toOrderResult(order, contractSize);
+}
+
 export async function placeLimitOrder(
   exchange: ccxt.Exchange,
   symbol: string,
   side: "buy" | "sell",
   amount: number,
-  price: number
+  price: number,
+  params: Record<string, unknown> = {}
 ): Promise<OrderResult> {
-  const order = await exchange.createOrder(symbol, "limit", side, amount, price);
-  return {
-    id: String(order.id),
-    symbol: String(order.symbol),
-    side: String(order.side),
-    amount: Number(order.amount),
-    price: order.price != null ? Number(order.price) : undefined,
-    average: order.average != null ? Number(order.average) : undefined,
-    filled: Number(order.filled),
-    status: String(order.status),
-  };
+  const contractSize = await contractSizeOf(exchange, symbol);
+  const orderAmount = toOrderAmount(exchange, symbol, amount, contractSize);
+  const order = await exchange.createOrder(symbol, "limit", side, orderAmount, price, params);
+  return toOrderResult(order, contractSize);
 }
 
 export async function fetchOrderStatus(
@@ -178,15 +202,59 @@ export async function fetchOrderStatus(
   orderId: string,
   symbol: string
 ): Promise<OrderResult> {
+  const contractSize = await contractSizeOf(exchange, symbol);
   const order = await exchange.fetchOrder(orderId, symbol);
-  return {
-    id: String(order.id),
-    symbol: String(order.symbol),
-    side: String(order.side),
-    amount: Number(order.amount),
-    price: order.price != null ? Number(order.price) : undefined,
-    average: order.average != null ? Number(order.average) : undefined,
-    filled: Number(order.filled),
-    status: String(order.status),
+  return toOrderResult(order, contractSize);
+}
+
+/** Cancels an open order; one that already filled or ended is not an error here */
+export async function cancelOrder(
+  exchange: ccxt.Exchange,
+  orderId: string,
+  symbol: string
+): Promise<void> {
+  try {
+    await exchange.cancelOrder(orderId, symbol);
+  } catch (err) {
+    if (!(err instanceof ccxt.OrderNotFound)) throw err;
+  }
+}
+
+/**
+ * Sets margin mode and leverage on a perpetual before opening a position. Exchanges reject
+ * setting a value that is already in effect; that is not an error here.
+ */
+export async function configureDerivatives(
+  exchange: ccxt.Exchange,
+  symbol: string,
+  leverage: number,
+  marginMode: MarginMode
+): Promise<void> {
+  const ignoreUnchanged = (err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err);
+    if (!/not modified|no need to change|already/i.test(message)) throw err;
   };
+
+  await exchange.setMarginMode(marginMode, symbol, { leverage }).catch(ignoreUnchanged);
+  await exchange.setLeverage(leverage, symbol).catch(ignoreUnchanged);
+}
+
+/**
+ * Funding settled on a perpetual after `since`, in USDT: positive when the account received it.
+ * `latest` is the newest settlement's timestamp, to fetch from next time.
+ */
+export async function fetchFundingPayments(
+  exchange: ccxt.Exchange,
+  symbol: string,
+  since: number
+): Promise<{ amount: number; latest: number | null }> {
+  const history = await exchange.fetchFundingHistory(symbol, since);
+  let amount = 0;
+  let latest: number | null = null;
+  for (const record of history) {
+    if (record.timestamp == null || record.timestamp <= since) continue;
+    amount += Number(record.amount) || 0;
+    latest = Math.max(latest ?? 0, record.timestamp);
+  }
+  return { amount, latest };
 }
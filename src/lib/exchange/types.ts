@@ -1,3 +1,8 @@
+/** ccxt market type an exchange instance trades by default */
+export type MarketType = "spot" | "swap";
+
+export type MarginMode = "isolated" | "cross";
+
 export interface ExchangeCredentials {
   apiKey: string;
   apiSecret: string;
@@ -0,0 +1,353 @@
+import { db } from "../lib/db";
+import {
+  backtestJobs,
+  backtests,
+  systemConfig,
+  type BacktestJob,
+} from "../lib/db/schema";
+import { and, asc, eq, inArray, lt } from "drizzle-orm";
+import { fetchCandles } from "../lib/ai/data/candles";
+import { runBacktest } from "../lib/ai/backtest/engine";
+import { crossValidate, type CrossValidateParams } from "../lib/ai/backtest/cross-validate";
+import { loadCustomIndicators } from "../lib/ai/custom-indicators";
+import { runAutopilot, type AutopilotParams } from "../lib/ai/funnel/autopilot";
+import { JOB_CANCELLED, type BacktestJobParams, type JobContext } from "../lib/ai/backtest/jobs";
+import type { CostModel, JobEvent, StrategyConfig } from "../lib/ai/backtest/types";
+
+const TICK_INTERVAL = 5_000; // 5 seconds
+const PROGRESS_WRITE_INTERVAL = 2_000; // progress is written (and cancellation read) at most this often
+const STALE_AFTER = 10 * 60_000; // a running job without a heartbeat for this long lost its worker
+const MAX_ATTEMPTS = 3;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_PER_USER = 1;
+
+export class BacktestJobRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private active = new Set<string>();
+  private ticking = false;
+
+  start() {
+    console.log("[BacktestJobRunner] Started, polling every 5s");
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.tick();
+  }
+
+  /** Stops claiming jobs and queues the ones in flight again so the next start resumes them */
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.active.size > 0) {
+      try {
+        await db
+          .update(backtestJobs)
+          .set({ status: "pending", updatedAt: new Date() })
+          .where(and(inArray(backtestJobs.id, [...this.active]), eq(backtestJobs.status, "running")));
+      } catch (err) {
+        console.error("[BacktestJobRunner] Failed to requeue running jobs:", err);
+      }
+    }
+    console.log("[BacktestJobRunner] Stopped");
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      // Long network waits (candle fetches) must not look like a dead worker
+      if (this.active.size > 0) {
+        await db
+          .update(backtestJobs)
+          .set({ heartbeatAt: new Date() })
+          .where(inArray(backtestJobs.id, [...this.active]));
+      }
+
+      await this.recoverStale();
+
+      const { concurrency, perUser } = await this.getLimits();
+      const claimed = await this.claim(concurrency, perUser);
+
+      for (const job of claimed) {
+        this.active.add(job.id);
+        this.execute(job).finally(() => this.active.delete(job.id));
+      }
+    } catch (err) {
+      console.error("[BacktestJobRunner] Tick error:", err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async getLimits(): Promise<{ concurrency: number; perUser: number }> {
+    const rows = await db
+      .select()
+      .from(systemConfig)
+      .where(inArray(systemConfig.key, ["backtest_job_concurrency", "backtest_jobs_per_user"]));
+
+    const value = (key: string, fallback: number) => {
+      const parsed = parseInt(rows.find((r) => r.key === key)?.value ?? "", 10);
+      return parsed > 0 ? parsed : fallback;
+    };
+
+    return {
+      concurrency: value("backtest_job_concurrency", DEFAULT_CONCURRENCY),
+      perUser: value("backtest_jobs_per_user", DEFAULT_PER_USER),
+    };
+  }
+
+  /** Claims the oldest pending jobs that fit the global and per-user limits */
+  private async claim(concurrency: number, perUser: number): Promise<BacktestJob[]> {
+    const running = await db
+      .select({ id: backtestJobs.id, userId: backtestJobs.userId })
+      .from(backtestJobs)
+      .where(eq(backtestJobs.status, "running"));
+
+    let free = concurrency - running.length;
+    if (free <= 0) return [];
+
+    const perUserRunning = new Map<string, number>();
+    for (const job of running) {
+      perUserRunning.set(job.userId, (perUserRunning.get(job.userId) ?? 0) + 1);
+    }
+
+    const queued = await db
+      .select()
+      .from(backtestJobs)
+      .where(eq(backtestJobs.status, "pending"))
+      .orderBy(asc(backtestJobs.createdAt))
+      .limit(50);
+
+    const claimed: BacktestJob[] = [];
+    for (const job of queued) {
+      if (free <= 0) break;
+      if ((perUserRunning.get(job.userId) ?? 0) >= perUser) continue;
+
+      const now = new Date();
+      // Conditional on still pending, so a job cancelled or claimed meanwhile is left alone
+      const [row] = await db
+        .update(backtestJobs)
+        .set({
+          status: "running",
+          attempts: job.attempts + 1,
+          startedAt: job.startedAt ?? now,
+          heartbeatAt: now,
+          updatedAt: now,
+        })
+        .where(and(eq(backtestJobs.id, job.id), eq(backtestJobs.status, "pending")))
+        .returning();
+
+      if (row) {
+        claimed.push(row);
+        perUserRunning.set(row.userId, (perUserRunning.get(row.userId) ?? 0) + 1);
+        free--;
+      }
+    }
+
+    return claimed;
+  }
+
+  /** Requeues running jobs whose worker went away, failing those that keep dying */
+  private async recoverStale() {
+    const stale = await db
+      .select()
+      .from(backtestJobs)
+      .where(and(
+        eq(backtestJobs.status, "running"),
+        lt(backtestJobs.heartbeatAt, new Date(Date.now() - STALE_AFTER))
+      ));
+
+    for (const job of stale) {
+      if (this.active.has(job.id)) continue;
+
+      if (job.attempts >= MAX_ATTEMPTS) {
+        console.warn(`[BacktestJobRunner] Job ${job.id} failed after ${job.attempts} attempts`);
+        await this.finish(job, "failed", `Worker stopped during ${job.attempts} attempts`);
+      } else {
+        console.log(`[BacktestJobRunner] Requeuing stale job ${job.id}`);
+        await db
+          .update(backtestJobs)
+          .set({ status: "pending", updatedAt: new Date() })
+          .where(and(eq(backtestJobs.id, job.id), eq(backtestJobs.status, "running")));
+      }
+    }
+  }
+
+  private async execute(job: BacktestJob) {
+    console.log(
+      `[BacktestJobRunner] Running ${job.kind} job ${job.id}` +
+        (job.attempts > 1 ? ` (attempt ${job.attempts})` : "")
+    );
+    const ctx = this.createContext(job);
+
+    try {
+      let result: unknown = null;
+      switch (job.kind) {
+        case "backtest":
+          result = await this.runSingleBacktest(job, ctx);
+          break;
+        case "cross_validate": {
+          const params = JSON.parse(job.params) as CrossValidateParams;
+          const customIndicators = await loadCustomIndicators(job.userId, params.strategyConfig);
+          result = await crossValidate(params, ctx, customIndicators);
+          break;
+        }
+        case "autopilot":
+          result = await runAutopilot(JSON.parse(job.params) as AutopilotParams, job.userId, ctx);
+          break;
+      }
+
+      await db
+        .update(backtestJobs)
+        .set({
+          status: "completed",
+          progress: 100,
+          result: JSON.stringify(result),
+          checkpoint: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(backtestJobs.id, job.id));
+      console.log(`[BacktestJobRunner] Completed ${job.kind} job ${job.id}`);
+    } catch (err) {
+      if (err instanceof Error && err.message === JOB_CANCELLED) {
+        console.log(`[BacktestJobRunner] Cancelled ${job.kind} job ${job.id}`);
+        await this.finish(job, "cancelled", null);
+      } else {
+        console.error(`[BacktestJobRunner] Error in ${job.kind} job ${job.id}:`, err);
+        await this.finish(job, "failed", err instanceof Error ? err.message : "Unknown error");
+      }
+    }
+  }
+
+  /** Marks a job, and its backtest if it has one, as stopped. The checkpoint is kept for a resume. */
+  private async finish(job: BacktestJob, status: "failed" | "cancelled", errorMessage: string | null) {
+    try {
+      await db
+        .update(backtestJobs)
+        .set({ status, errorMessage, completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(backtestJobs.id, job.id));
+
+      if (job.backtestId) {
+        await db
+          .update(backtests)
+          .set({ status, errorMessage, updatedAt: new Date() })
+          .where(eq(backtests.id, job.backtestId));
+      }
+    } catch (err) {
+      console.error(`[BacktestJobRunner] Failed to record ${status} for job ${job.id}:`, err);
+    }
+  }
+
+  private createContext(job: BacktestJob): JobContext {
+    const events: JobEvent[] = job.events ? JSON.parse(job.events) : [];
+    let lastWrite = 0;
+
+    const write = async (set: Partial<typeof backtestJobs.$inferInsert>) => {
+      const now = new Date();
+      const [row] = await db
+        .update(backtestJobs)
+        .set({ ...set, heartbeatAt: now, updatedAt: now })
+        .where(eq(backtestJobs.id, job.id))
+        .returning({ cancelRequested: backtestJobs.cancelRequested });
+      lastWrite = now.getTime();
+      if (row?.cancelRequested) throw new Error(JOB_CANCELLED);
+    };
+
+    return {
+      resumeFrom: job.checkpoint ? JSON.parse(job.checkpoint) : null,
+      progress: async (percent, message) => {
+        if (Date.now() - lastWrite < PROGRESS_WRITE_INTERVAL) return;
+        await write({
+          progress: Math.max(0, Math.min(99, Math.round(percent))),
+          progressMessage: message,
+        });
+      },
+      event: async (event) => {
+        events.push(event);
+        await write({ events: JSON.stringify(events), progressMessage: event.message });
+      },
+      checkpoint: async (state) => {
+        await write({ checkpoint: JSON.stringify(state) });
+      },
+    };
+  }
+
+  /** Runs the backtest row the job points at and stores its metrics there */
+  private async runSingleBacktest(job: BacktestJob, ctx: JobContext): Promise<unknown> {
+    if (!job.backtestId) throw new Error("Backtest job has no backtest");
+
+    const [backtest] = await db
+      .select()
+      .from(backtests)
+      .where(eq(backtests.id, job.backtestId))
+      .limit(1);
+    if (!backtest) throw new Error("Backtest not found");
+
+    const params = JSON.parse(job.params) as BacktestJobParams;
+    await db
+      .update(backtests)
+      .set({ status: "running", errorMessage: null, updatedAt: new Date() })
+      .where(eq(backtests.id, backtest.id));
+
+    // Fetch candles
+    await ctx.progress(0, "Fetching candles...");
+    const start = new Date(backtest.startDate);
+    const end = new Date(backtest.endDate);
+    const daysBack = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+    const candles = await fetchCandles(backtest.symbol, backtest.timeframe, daysBack);
+
+    // Filter to date range
+    const filtered = candles.filter(
+      (c) => c.timestamp >= start.getTime() && c.timestamp <= end.getTime()
+    );
+
+    await ctx.progress(20, `Running backtest on ${filtered.length} candles...`);
+    const config: StrategyConfig = JSON.parse(backtest.strategyConfig);
+    const costModel: CostModel | undefined = backtest.costModel ? JSON.parse(backtest.costModel) : undefined;
+    const result = await runBacktest(filtered, config, backtest.symbol, {
+      costs: costModel,
+      intrabarPolicy: params.intrabarPolicy,
+      timeframe: backtest.timeframe,
+      trace: !!params.trace,
+      regimes: params.regimes,
+      customIndicators: await loadCustomIndicators(job.userId, config),
+      // Throws JOB_CANCELLED from inside the candle loop once the job is cancelled
+      onProgress: (done, total) =>
+        ctx.progress(20 + (done / total) * 75, `Backtested ${done}/${total} candles...`),
+    });
+
+    await db
+      .update(backtests)
+      .set({
+        status: "completed",
+        totalPnl: String(result.totalPnl),
+        winRate: String(result.winRate),
+        maxDrawdown: String(result.maxDrawdown),
+        sharpeRatio: String(result.sharpeRatio),
+        profitFactor: String(result.profitFactor),
+        totalTrades: result.totalTrades,
+        totalFees: String(result.totalFees),
+        grossPnl: String(result.grossPnl),
+        sortinoRatio: String(result.sortinoRatio),
+        calmarRatio: String(result.calmarRatio),
+        maxDrawdownDuration: String(result.maxDrawdownDuration),
+        exposure: String(result.exposure),
+        expectancy: String(result.expectancy),
+        sqn: String(result.sqn),
+        tailRatio: String(result.tailRatio),
+        buyAndHoldReturn: String(result.buyAndHoldReturn),
+        trades: JSON.stringify(result.trades),
+        equityCurve: JSON.stringify(result.equityCurve),
+        benchmarkCurve: JSON.stringify(result.benchmarkCurve ?? []),
+        regimes: result.regimes ? JSON.stringify(result.regimes) : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(backtests.id, backtest.id));
+
+    // The trace is for the replay viewer only; it lives on the job, not the backtest
+    return result.trace ? { trace: result.trace } : null;
+  }
+}
@@ -0,0 +1,24 @@
+import "dotenv/config";
+import { BacktestJobRunner } from "./backtest-job-runner";
+
+/**
+ * The backtest job queue consumer, as a process of its own. Backtests, optimizations and the
+ * autopilot are CPU-bound for minutes; main.ts forks this so they never hold up the trade copier
+ * and the strategy and grid executors on the worker's event loop.
+ */
+
+const runner = new BacktestJobRunner();
+let stopping = false;
+
+async function shutdown() {
+  if (stopping) return;
+  stopping = true;
+  // Jobs in flight are queued again for the next start
+  await runner.stop();
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+runner.start();
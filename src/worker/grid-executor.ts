@@ -8,7 +8,7 @@ import {
 import { eq, and } from "drizzle-orm";
 import { decrypt } from "../lib/crypto";
 import { createExchange, placeLimitOrder, fetchOrderStatus } from "../lib/exchange/client";
-import { fetchCandles } from "../lib/ai/data/candles";
+import type { IndicatorFeed } from "./indicator-feed";
 
 const TICK_INTERVAL = 30_000; // 30 seconds
 
@@ -16,6 +16,11 @@ export class GridExecutor {
   private leader: User | null = null;
   private timer: NodeJS.Timeout | null = null;
   private evaluatingSet = new Set<string>();
+  private feed: IndicatorFeed;
+
+  constructor(feed: IndicatorFeed) {
+    this.feed = feed;
+  }
 
   start(leader: User) {
     this.leader = leader;
@@ -117,12 +122,12 @@ export class GridExecutor {
     // Get current price
     let currentPrice: number;
     try {
-      const candles = await fetchCandles(strategy.symbol, "5m", 1);
-      if (candles.length === 0) {
+      const price = await this.feed.lastPrice(strategy.symbol);
+      if (price === null) {
         console.error(`[GridExecutor] No candles for ${strategy.symbol}`);
         return;
       }
-      currentPrice = candles[candles.length - 1].close;
+      currentPrice = price;
     } catch (err) {
       console.error(`[GridExecutor] Failed to fetch candles for ${strategy.symbol}:`, err);
       return;
@@ -196,9 +201,9 @@ export class GridExecutor {
     // Get current price
     let currentPrice: number;
     try {
-      const candles = await fetchCandles(strategy.symbol, "5m", 1);
-      if (candles.length === 0) return;
-      currentPrice = candles[candles.length - 1].close;
+      const price = await this.feed.lastPrice(strategy.symbol);
+      if (price === null) return;
+      currentPrice = price;
     } catch (err) {
       console.error(`[GridExecutor] Failed to fetch candles for ${strategy.symbol}:`, err);
       return;
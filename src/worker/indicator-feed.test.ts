@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { calculateIndicator } from "../lib/ai/indicators";
+import type { Candle } from "../lib/ai/data/candles";
+import { fetchCandles } from "../lib/ai/data/candles";
+import { IndicatorFeed } from "./indicator-feed";
+
+const HOUR = 3_600_000;
+const START = Date.UTC(2026, 0, 1);
+
+// 400 hourly candles: enough for a seed of 7 days and a trim after 1.5 × that
+const history: Candle[] = Array.from({ length: 400 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 7) + i * 0.05;
+  return { timestamp: START + i * HOUR, open: close - 0.5, high: close + 1, low: close - 1, close, volume: 100 + (i % 13) };
+});
+
+vi.mock("../lib/ai/data/candles", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/ai/data/candles")>()),
+  fetchCandles: vi.fn(async (_symbol: string, _timeframe: string, daysBack: number) => {
+    const now = Date.now();
+    return history.filter((c) => c.timestamp <= now && c.timestamp >= now - daysBack * 86_400_000);
+  }),
+}));
+
+describe("IndicatorFeed", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("matches calculateIndicator over its candles across refreshes and trims", async () => {
+    const feed = new IndicatorFeed();
+    const source = feed.source("BTC/USDT", "1h");
+    const indicators = [["ema", { period: 21 }], ["rsi", { period: 14 }], ["obv", {}]] as const;
+    let trimmed = false;
+    let previous: Candle[] = [];
+
+    // From 8 days in, past the point where the kept history is trimmed back to 7 days, reading often
+    // enough that no series goes idle
+    for (let minute = 8 * 24 * 60; minute < 380 * 60; minute += 5) {
+      vi.setSystemTime(START + minute * 60_000);
+      const candles = await feed.candles("BTC/USDT", "1h");
+      for (const [indicator, params] of indicators) source(indicator, params, candles);
+      if (candles === previous) continue;
+
+      trimmed ||= candles.length < previous.length;
+      for (const [indicator, params] of indicators) {
+        expect(source(indicator, params, candles)).toEqual(calculateIndicator(indicator, candles, params).values);
+      }
+      previous = candles;
+    }
+    expect(trimmed).toBe(true);
+  });
+
+  it("reads a last price from a short lookback without seeding a market, or from a fresh one", async () => {
+    const feed = new IndicatorFeed();
+    vi.setSystemTime(START + 100 * HOUR + 60_000);
+    vi.mocked(fetchCandles).mockClear();
+
+    expect(await feed.lastPrice("BTC/USDT")).toBe(history[100].close);
+    expect(vi.mocked(fetchCandles).mock.calls).toEqual([["BTC/USDT", "1m", 1 / 24]]);
+
+    // A market the feed refreshed answers without a fetch of its own
+    vi.setSystemTime(START + 101 * HOUR + 60_000);
+    await feed.candles("BTC/USDT", "1h");
+    vi.mocked(fetchCandles).mockClear();
+    expect(await feed.lastPrice("BTC/USDT")).toBe(history[101].close);
+    expect(fetchCandles).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+import { fetchCandles, timeframeToMs, type Candle } from "../lib/ai/data/candles";
+import { calculateIndicator, type IndicatorName, type IndicatorParams } from "../lib/ai/indicators";
+import { createIndicatorStream, type IndicatorStream, type IndicatorValue } from "../lib/ai/streaming-indicators";
+import type { IndicatorSource } from "../lib/ai/backtest/conditions";
+
+const HISTORY_DAYS = 7; // closed candles a market starts from and keeps
+const REFRESH_INTERVAL = 15_000; // candles are re-fetched at most this often
+const IDLE_TTL = 10 * 60_000; // markets and series unread this long are dropped
+const DAY_MS = 86_400_000;
+const PRICE_LOOKBACK_DAYS = 1 / 24; // the hour of 1m candles a last price is read from
+
+interface Series {
+  stream: IndicatorStream | null; // null: recomputed from the candles after each refresh
+  closed: IndicatorValue[]; // one per closed candle, streams only
+  values: IndicatorValue[] | null; // aligned with Market.candles, built on the first read after a refresh
+  readAt: number;
+}
+
+interface Market {
+  closed: Candle[];
+  forming: Candle | null;
+  candles: Candle[]; // closed plus the forming candle, what candles() returns
+  series: Map<string, Series>;
+  refreshedAt: number;
+  readAt: number;
+}
+
+/**
+ * Candles and indicator values of the live markets, shared by every strategy on the same
+ * symbol/timeframe. Each refresh fetches only the candles since the last closed one and folds them
+ * into the streams of ../lib/ai/streaming-indicators; the forming candle is valued on a copy of the
+ * stream. Values equal calculateIndicator over the market's candles, so live evaluation matches a
+ * backtest of the same bars.
+ *
+ * Pass `source()` to cacheConditionIndicators / cacheSizingIndicators together with the candles
+ * `candles()` returned. Other-timeframe conditions and alt data are still loaded per strategy.
+ */
+export class IndicatorFeed {
+  private markets = new Map<string, Market>();
+  private refreshing = new Map<string, Promise<Market>>();
+  private prices = new Map<string, { price: number; fetchedAt: number }>();
+
+  /** HISTORY_DAYS of closed candles of symbol/timeframe, then the forming one when there is one */
+  async candles(symbol: string, timeframe: string): Promise<Candle[]> {
+    const key = `${symbol}|${timeframe}`;
+    let market = this.markets.get(key);
+    if (!market || Date.now() - market.refreshedAt >= REFRESH_INTERVAL) {
+      let pending = this.refreshing.get(key);
+      if (!pending) {
+        pending = this.refresh(symbol, timeframe, market).finally(() => this.refreshing.delete(key));
+        this.refreshing.set(key, pending);
+      }
+      market = await pending;
+      this.markets.set(key, market);
+    }
+    market.readAt = Date.now();
+    this.dropIdle();
+    return market.candles;
+  }
+
+  /**
+   * Latest close of `symbol`, for readers that need no indicators (the grid executor): from a
+   * market the feed keeps fresh when there is one, otherwise from the last hour of 1m candles
+   * without seeding a market. Null when the exchange has none.
+   */
+  async lastPrice(symbol: string): Promise<number | null> {
+    const now = Date.now();
+    for (const [key, market] of this.markets) {
+      if (key.startsWith(`${symbol}|`) && now - market.refreshedAt < REFRESH_INTERVAL && market.candles.length > 0) {
+        return market.candles[market.candles.length - 1].close;
+      }
+    }
+
+    this.dropIdle();
+    const cached = this.prices.get(symbol);
+    if (cached && now - cached.fetchedAt < REFRESH_INTERVAL) return cached.price;
+
+    const candles = await fetchCandles(symbol, "1m", PRICE_LOOKBACK_DAYS);
+    if (candles.length === 0) return null;
+    const price = candles[candles.length - 1].close;
+    this.prices.set(symbol, { price, fetchedAt: now });
+    return price;
+  }
+
+  /**
+   * Indicator values for the candles `candles(symbol, timeframe)` returned. Other candle arrays,
+   * e.g. from before a refresh, are computed from scratch.
+   */
+  source(symbol: string, timeframe: string): IndicatorSource {
+    return (indicator, params, candles) => {
+      const market = this.markets.get(`${symbol}|${timeframe}`);
+      if (!market || market.candles !== candles) return calculateIndicator(indicator, candles, params).values;
+      return this.values(market, indicator, params);
+    };
+  }
+
+  private async refresh(symbol: string, timeframe: string, market: Market | undefined): Promise<Market> {
+    const now = Date.now();
+    const tfMs = timeframeToMs(timeframe);
+    const last = market?.closed[market.closed.length - 1];
+    if (!market || !last) return this.seed(symbol, timeframe);
+
+    const fresh = (await fetchCandles(symbol, timeframe, (now - last.timestamp) / DAY_MS))
+      .filter((c) => c.timestamp > last.timestamp);
+    // A gap (the worker was down, the cache skipped bars) invalidates every stream
+    if (fresh.length > 0 && fresh[0].timestamp !== last.timestamp + tfMs) return this.seed(symbol, timeframe);
+
+    const newlyClosed = fresh.filter((c) => c.timestamp + tfMs <= now);
+    market.closed.push(...newlyClosed);
+    market.forming = fresh.find((c) => c.timestamp + tfMs > now) ?? (fresh.length > 0 ? null : market.forming);
+    // The forming candle closed without a fetch seeing its final values; drop it rather than guess
+    if (market.forming && market.forming.timestamp + tfMs <= now) market.forming = null;
+
+    for (const [key, series] of market.series) {
+      if (now - series.readAt > IDLE_TTL) {
+        market.series.delete(key);
+        continue;
+      }
+      if (series.stream) {
+        for (const candle of newlyClosed) series.closed.push(series.stream.next(candle));
+      }
+      series.values = null;
+    }
+
+    // Keep HISTORY_DAYS of candles, trimmed in batches so most refreshes don't copy. A stream's state
+    // reflects every candle it has seen, so the series are dropped and re-seeded from the retained
+    // candles on their next read; values then still equal calculateIndicator over candles()
+    const keep = Math.ceil((HISTORY_DAYS * DAY_MS) / tfMs);
+    if (market.closed.length > keep * 1.5) {
+      market.closed = market.closed.slice(market.closed.length - keep);
+      market.series.clear();
+    }
+
+    market.candles = market.forming ? [...market.closed, market.forming] : [...market.closed];
+    market.refreshedAt = now;
+    return market;
+  }
+
+  private async seed(symbol: string, timeframe: string): Promise<Market> {
+    const now = Date.now();
+    const tfMs = timeframeToMs(timeframe);
+    const candles = await fetchCandles(symbol, timeframe, HISTORY_DAYS);
+    const closed = candles.filter((c) => c.timestamp + tfMs <= now);
+    const forming = candles.find((c) => c.timestamp + tfMs > now) ?? null;
+    return {
+      closed,
+      forming,
+      candles: forming ? [...closed, forming] : closed.slice(),
+      series: new Map(),
+      refreshedAt: now,
+      readAt: now,
+    };
+  }
+
+  private values(market: Market, indicator: IndicatorName, params?: IndicatorParams): IndicatorValue[] {
+    const key = `${indicator}:${JSON.stringify(params || {})}`;
+    let series = market.series.get(key);
+    if (!series) {
+      const stream = createIndicatorStream(indicator, params);
+      series = {
+        stream,
+        closed: stream ? market.closed.map((c) => stream.next(c)) : [],
+        values: null,
+        readAt: 0,
+      };
+      market.series.set(key, series);
+    }
+    series.readAt = Date.now();
+
+    if (!series.values) {
+      if (!series.stream) {
+        series.values = calculateIndicator(indicator, market.candles, params).values;
+      } else {
+        series.values = market.forming
+          ? [...series.closed, series.stream.clone().next(market.forming)]
+          : series.closed.slice();
+      }
+    }
+    return series.values;
+  }
+
+  private dropIdle() {
+    const now = Date.now();
+    for (const [key, market] of this.markets) {
+      if (now - market.readAt > IDLE_TTL) this.markets.delete(key);
+    }
+    for (const [symbol, price] of this.prices) {
+      if (now - price.fetchedAt > IDLE_TTL) this.prices.delete(symbol);
+    }
+  }
+}
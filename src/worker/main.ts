@@ -1,4 +1,6 @@
 import "dotenv/config";
+import { fork, type ChildProcess } from "child_process";
+import path from "path";
 import { db } from "../lib/db";
 import { systemConfig, users } from "../lib/db/schema";
 import { eq } from "drizzle-orm";
@@ -14,11 +16,13 @@ import { TransferTracker } from "./transfer-tracker";
 import { PendingTradeExpirer } from "./pending-trade-expirer";
 import { StrategyExecutor } from "./strategy-executor";
 import { GridExecutor } from "./grid-executor";
+import { IndicatorFeed } from "./indicator-feed";
 import { AltDataCollector } from "./alt-data-collector";
 import { AltDataBackfiller } from "./alt-data-backfill";
 
 const HEARTBEAT_INTERVAL = 15_000; // 15 seconds
 const SCHEDULER_INTERVAL = 5 * 60 * 1_000; // 5 minutes
+const BACKTEST_JOBS_RESTART_DELAY = 5_000;
 
 class Worker {
   private leaderWatcher: LeaderWatcher | null = null;
@@ -35,6 +39,7 @@ class Worker {
   private gridExecutor: GridExecutor;
   private altDataCollector: AltDataCollector;
   private altDataBackfiller: AltDataBackfiller;
+  private backtestJobs: ChildProcess | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private schedulerTimer: NodeJS.Timeout | null = null;
   private expirerTimer: NodeJS.Timeout | null = null;
@@ -57,8 +62,9 @@ class Worker {
     this.invoiceGenerator = new InvoiceGenerator();
     this.transferTracker = new TransferTracker();
     this.pendingTradeExpirer = new PendingTradeExpirer();
-    this.strategyExecutor = new StrategyExecutor();
-    this.gridExecutor = new GridExecutor();
+    const indicatorFeed = new IndicatorFeed(); // shared so the grid executor reuses the prices of fresh markets
+    this.strategyExecutor = new StrategyExecutor(indicatorFeed);
+    this.gridExecutor = new GridExecutor(indicatorFeed);
     this.altDataCollector = new AltDataCollector();
     this.altDataBackfiller = new AltDataBackfiller();
   }
@@ -109,6 +115,9 @@ class Worker {
     // Start grid executor for grid trading bots
     this.gridExecutor.start(leader);
 
+    // Start the backtest job queue consumer (backtests, cross-validation, autopilot)
+    this.startBacktestJobs();
+
     console.log("[Worker] Starting leader order watcher...");
     await this.leaderWatcher.start();
   }
@@ -207,6 +216,34 @@ class Worker {
     }, 30_000); // every 30 seconds
   }
 
+  /** Forks the backtest job process (see backtest-jobs.ts), restarted if it dies while running */
+  private startBacktestJobs() {
+    // backtest-jobs.js in the build, .ts under tsx, whose loader the fork inherits
+    const child = fork(path.join(__dirname, `backtest-jobs${path.extname(__filename)}`));
+    child.on("exit", (code, signal) => {
+      if (this.backtestJobs !== child) return;
+      this.backtestJobs = null;
+      if (!this.running) return;
+      console.error(`[Worker] Backtest job process exited (${signal ?? code}), restarting...`);
+      setTimeout(() => {
+        if (this.running && !this.backtestJobs) this.startBacktestJobs();
+      }, BACKTEST_JOBS_RESTART_DELAY);
+    });
+    this.backtestJobs = child;
+  }
+
+  /** Stops the backtest job process once it has queued its jobs in flight again */
+  private async stopBacktestJobs() {
+    const child = this.backtestJobs;
+    this.backtestJobs = null;
+    if (!child || child.exitCode !== null || child.signalCode !== null) return;
+
+    await new Promise<void>((resolve) => {
+      child.once("exit", () => resolve());
+      child.kill("SIGTERM");
+    });
+  }
+
   async shutdown() {
     console.log("[Worker] Shutting down...");
     this.running = false;
@@ -225,6 +262,7 @@ class Worker {
 
     this.strategyExecutor.stop();
     this.gridExecutor.stop();
+    await this.stopBacktestJobs();
 
     if (this.leaderWatcher) {
       await this.leaderWatcher.stop();
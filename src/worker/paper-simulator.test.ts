@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { Candle } from "../lib/ai/data/candles";
+import { simulateLimitFill, simulateMarketOrder } from "./paper-simulator";
+
+const HOUR = 3_600_000;
+const candle = (timestamp: number, low: number, high: number): Candle => ({
+  timestamp,
+  open: (low + high) / 2,
+  high,
+  low,
+  close: (low + high) / 2,
+  volume: 1,
+});
+
+describe("simulateLimitFill", () => {
+  const placedAt = 10 * HOUR;
+  const candles = [candle(9 * HOUR, 90, 110), candle(10 * HOUR, 98, 103), candle(11 * HOUR, 99, 101)];
+
+  it("fills at the limit when a candle since placement traded through it", () => {
+    const order = simulateLimitFill("BTC/USDT", "buy", 2, 98.5, placedAt, candles, 100);
+    expect(order).toMatchObject({ average: 98.5, filled: 2, status: "closed" });
+    expect(simulateLimitFill("BTC/USDT", "sell", 2, 102.5, placedAt, candles, 100)).toMatchObject({ average: 102.5 });
+  });
+
+  it("ignores candles from before it was placed", () => {
+    expect(simulateLimitFill("BTC/USDT", "buy", 2, 95, placedAt, candles, 100)).toBeNull();
+    expect(simulateLimitFill("BTC/USDT", "sell", 2, 105, placedAt, candles, 100)).toBeNull();
+  });
+
+  it("fills when the last price crosses the limit", () => {
+    expect(simulateLimitFill("BTC/USDT", "buy", 2, 95, placedAt, candles, 94)).toMatchObject({ average: 95 });
+  });
+
+  it("needs the price through the limit, not at it", () => {
+    expect(simulateLimitFill("BTC/USDT", "buy", 2, 98, placedAt, candles, 100)).toBeNull();
+  });
+});
+
+describe("simulateMarketOrder", () => {
+  it("fills with 0.05% adverse slippage", () => {
+    expect(simulateMarketOrder("BTC/USDT", "buy", 1, 100).average).toBeCloseTo(100.05, 10);
+    expect(simulateMarketOrder("BTC/USDT", "sell", 1, 100).average).toBeCloseTo(99.95, 10);
+  });
+});
@@ -1,4 +1,9 @@
 import type { OrderResult } from "../lib/exchange/types";
+import type { Candle } from "../lib/ai/data/candles";
+import { applySlippage } from "../lib/ai/backtest/costs";
+import { limitFilled, tickCandle } from "../lib/ai/backtest/strategy-core";
+
+const PAPER_SLIPPAGE = 0.0005; // same fraction as a backtest run with slippagePercent 0.05
 
 export function simulateMarketOrder(
   symbol: string,
@@ -6,8 +11,7 @@ export function simulateMarketOrder(
   amount: number,
   currentPrice: number
 ): OrderResult {
-  const slippage = side === "buy" ? 1.0005 : 0.9995;
-  const fillPrice = currentPrice * slippage;
+  const fillPrice = applySlippage(currentPrice, side, PAPER_SLIPPAGE);
   return {
     id: `paper_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
     symbol,
@@ -19,3 +23,34 @@ export function simulateMarketOrder(
     status: "closed",
   };
 }
+
+/**
+ * A paper limit order placed at `placedAt`, filled at its limit without slippage once the price
+ * traded through it: the high/low of a candle opened since then, or the last price, as a backtest
+ * fills a working limit (see limitFilled). Null while it has not.
+ */
+export function simulateLimitFill(
+  symbol: string,
+  side: "buy" | "sell",
+  amount: number,
+  limitPrice: number,
+  placedAt: number,
+  candles: Candle[],
+  lastPrice: number
+): OrderResult | null {
+  const tradedThrough =
+    limitFilled(tickCandle(lastPrice), side, limitPrice) ||
+    candles.some((c) => c.timestamp >= placedAt && limitFilled(c, side, limitPrice));
+  if (!tradedThrough) return null;
+
+  return {
+    id: `paper_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    symbol,
+    side,
+    amount,
+    price: limitPrice,
+    average: limitPrice,
+    filled: amount,
+    status: "closed",
+  };
+}
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import session from "../lib/ai/backtest/fixtures/synthetic-session.json";
+import { runBacktest } from "../lib/ai/backtest/engine";
+import { calculateIndicator } from "../lib/ai/indicators";
+import { timeframeToMs, type Candle } from "../lib/ai/data/candles";
+import type { IndicatorSource } from "../lib/ai/backtest/conditions";
+import type { StrategyConfig } from "../lib/ai/backtest/types";
+import type { operationalStrategies, User } from "../lib/db/schema";
+import type { IndicatorFeed } from "./indicator-feed";
+import { StrategyExecutor } from "./strategy-executor";
+
+/**
+ * Golden test of live against backtest: the real StrategyExecutor runs the synthetic session in
+ * paper mode against an in-memory db, one tick per bar, and the trades it persists must be the
+ * fills runBacktest makes on the same candles, on the same bars, at the same prices.
+ *
+ * The executor sees one price per tick. Each bar is therefore the one price it was evaluated at, its
+ * close, so a backtest stop or take-profit cannot trigger on a wick the tick never saw.
+ */
+
+type StrategyRow = typeof operationalStrategies.$inferSelect;
+
+const db = vi.hoisted(() => ({
+  strategy: null as Record<string, unknown> | null,
+  trades: [] as Record<string, unknown>[],
+  bar: 0,
+}));
+
+vi.mock("../lib/db", async () => {
+  const schema = await import("../lib/db/schema");
+  // A drizzle-like query: chainable, applied when awaited
+  const query = (run: () => unknown) => {
+    const chain = {
+      where: () => chain,
+      limit: () => chain,
+      orderBy: () => chain,
+      returning: () => chain,
+      then: (resolve: (v: unknown) => unknown, reject: (e: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject),
+    };
+    return chain;
+  };
+  return {
+    db: {
+      update: (table: unknown) => ({
+        set: (values: Record<string, unknown>) =>
+          query(() => {
+            if (table === schema.operationalStrategies) Object.assign(db.strategy!, values);
+            return [];
+          }),
+      }),
+      insert: (table: unknown) => ({
+        values: (values: Record<string, unknown>) =>
+          query(() => {
+            if (table === schema.operationalStrategyTrades) db.trades.push({ ...values, bar: db.bar });
+            return [];
+          }),
+      }),
+      select: () => ({
+        from: (table: unknown) => query(() => (table === schema.operationalStrategies && db.strategy ? [{ ...db.strategy }] : [])),
+      }),
+    },
+  };
+});
+
+const candleData = vi.hoisted(() => ({ candles: [] as unknown[] }));
+
+vi.mock("../lib/ai/data/candles", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/ai/data/candles")>()),
+  fetchCandles: async () => candleData.candles,
+}));
+
+const strategy = session.strategy as StrategyConfig;
+const tfMs = timeframeToMs(session.timeframe);
+const candles: Candle[] = session.candles.map((c) => ({ ...c, open: c.close, high: c.close, low: c.close }));
+
+/** The executor's view of the market at bar `index`: the closed bars, then that one forming */
+function feedAt(index: () => number): IndicatorFeed {
+  return {
+    candles: async () => candles.slice(0, index() + 1),
+    source: (): IndicatorSource => (indicator, params, bars) => calculateIndicator(indicator, bars, params).values,
+  } as unknown as IndicatorFeed;
+}
+
+function seedStrategy(row: Record<string, unknown> = {}) {
+  db.strategy = {
+    id: "strategy-1",
+    userId: "user-1",
+    name: "Golden session",
+    symbol: session.symbol,
+    timeframe: session.timeframe,
+    strategyConfig: JSON.stringify(strategy),
+    configVersion: 1,
+    status: "active",
+    maxCapUsd: 1000,
+    maxCapPercent: 100,
+    dailyLossLimitUsd: 1_000_000,
+    inPosition: false,
+    dcaOrdersFilled: 0,
+    todayPnl: 0,
+    totalPnl: 0,
+    tradesCount: 0,
+    mode: "paper",
+    paperBalance: 1000,
+    tpLevelsFilled: 0,
+    market: "spot",
+    leverage: 1,
+    marginMode: "isolated",
+    positionFunding: 0,
+    fundingPnl: 0,
+    pendingOrder: null,
+    ...row,
+  };
+  db.trades = [];
+}
+
+async function runExecutor() {
+  seedStrategy();
+  const executor = new StrategyExecutor(feedAt(() => db.bar));
+  executor["leader"] = { id: "leader-1" } as User;
+
+  for (db.bar = 1; db.bar < candles.length; db.bar++) {
+    // A tick in the bar's last minute, as the worker would evaluate it
+    vi.setSystemTime(candles[db.bar].timestamp + tfMs - 60_000);
+    // Each tick reads the row afresh, as StrategyExecutor.tick does
+    await executor["evaluateStrategy"]({ ...db.strategy } as StrategyRow);
+  }
+  return db.trades;
+}
+
+describe("StrategyExecutor against runBacktest", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    return () => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    };
+  });
+
+  it("persists the fills the backtest makes", async () => {
+    const trades = await runExecutor();
+    const result = await runBacktest(candles, strategy, undefined, {
+      costs: { slippagePercent: 0.05 },
+      trace: true,
+    });
+
+    // A live strategy holds on where the data ends; the backtest closes there
+    const fills = result.trace!.bars.flatMap((bar) =>
+      bar.actions.filter((action) => action.reason !== "end_of_data").map((action) => ({
+        bar: bar.index,
+        side: action.kind === "entry" || action.kind === "dca" ? "buy" : "sell",
+        reason: action.kind === "entry" || action.kind === "dca" ? "entry_signal" : action.reason,
+        price: action.price,
+      }))
+    );
+    const persisted = trades.map((trade) => ({ bar: trade.bar, side: trade.side, reason: trade.reason }));
+
+    expect(persisted).toEqual(fills.map(({ bar, side, reason }) => ({ bar, side, reason })));
+    trades.forEach((trade, i) => expect(trade.price).toBeCloseTo(fills[i].price, 6));
+  });
+
+  it("covers entries, DCA, take-profit levels and the exit kinds", async () => {
+    const trades = await runExecutor();
+    const reasons = new Set(trades.map((trade) => trade.reason));
+    expect([...reasons].sort()).toEqual(["entry_signal", "exit_signal", "take_profit", "trailing_stop"]);
+    // More buys than closes: DCA portions were added
+    expect(trades.filter((trade) => trade.reason === "entry_signal").length).toBeGreaterThan(
+      trades.filter((trade) => trade.reason !== "entry_signal" && trade.reason !== "take_profit").length
+    );
+  });
+});
+
+describe("StrategyExecutor.settleStop", () => {
+  // A paper entry limit placed at bar 10, settled at bar 29
+  const placedAt = candles[10].timestamp;
+  const lowSincePlaced = Math.min(...candles.slice(10, 30).map((c) => c.close));
+  const pendingEntry = (limitPrice: number) =>
+    JSON.stringify({ orderId: "paper_limit_1", kind: "entry", side: "buy", limitPrice, quantity: 0.5, placedAt, expiresAt: Infinity, fallbackToMarket: false });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    candleData.candles = candles.slice(0, 30);
+    return () => vi.restoreAllMocks();
+  });
+
+  it("books the fill of a paper limit traded through since it was placed, then closes it", async () => {
+    seedStrategy({ pendingOrder: pendingEntry(lowSincePlaced + 1) });
+
+    const settled = await new StrategyExecutor(feedAt(() => 29)).settleStop("strategy-1", { id: "leader-1" } as User, true);
+
+    expect(db.trades.map(({ side, reason, price }) => ({ side, reason, price }))).toEqual([
+      { side: "buy", reason: "entry_signal", price: lowSincePlaced + 1 },
+      // At market, after the paper slippage
+      { side: "sell", reason: "manual_stop", price: expect.closeTo(candles[29].close * (1 - 0.0005), 6) },
+    ]);
+    expect(settled).toMatchObject({ inPosition: false, pendingOrder: null });
+  });
+
+  it("drops a paper limit never traded through, leaving nothing to close", async () => {
+    seedStrategy({ pendingOrder: pendingEntry(lowSincePlaced - 1) });
+
+    const settled = await new StrategyExecutor(feedAt(() => 29)).settleStop("strategy-1", { id: "leader-1" } as User, true);
+
+    expect(db.trades).toEqual([]);
+    expect(settled).toMatchObject({ inPosition: false, pendingOrder: null });
+  });
+});
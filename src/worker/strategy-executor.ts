@@ -5,21 +5,138 @@ import {
   systemConfig,
   type User,
 } from "../lib/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, isNotNull } from "drizzle-orm";
 import { decrypt } from "../lib/crypto";
-import { createExchange, fetchUsdtBalance, placeMarketOrder } from "../lib/exchange/client";
-import { fetchCandles } from "../lib/ai/data/candles";
-import { cacheIndicator, cacheAltIndicators, checkConditions } from "../lib/ai/backtest/conditions";
-import type { StrategyConfig } from "../lib/ai/backtest/types";
+import {
+  cancelOrder,
+  configureDerivatives,
+  createExchange,
+  fetchFundingPayments,
+  fetchOrderStatus,
+  fetchUsdtBalance,
+  perpSymbol,
+  placeLimitOrder,
+  placeMarketOrder,
+} from "../lib/exchange/client";
+import { fetchCandles, timeframeToMs, type Candle } from "../lib/ai/data/candles";
+import {
+  cacheConditionIndicators,
+  cacheAltIndicators,
+  cacheCustomIndicators,
+  cacheTimeframeIndicators,
+  flattenConditions,
+} from "../lib/ai/backtest/conditions";
+import { loadCustomIndicators } from "../lib/ai/custom-indicators";
+import type { OrderSpec, StrategyConfig } from "../lib/ai/backtest/types";
+import {
+  applyFill,
+  bankruptcyPrice,
+  checkDca,
+  checkEntry,
+  checkExits,
+  limitPrice,
+  limitSpecFor,
+  limitTimeoutMs,
+  tickCandle,
+  trackExtreme,
+  type BarContext,
+  type DcaIntent,
+  type EntryIntent,
+  type PositionState,
+} from "../lib/ai/backtest/strategy-core";
+import { cacheSizingIndicators, positionBudget, tradeStats, type TradeStats } from "../lib/ai/backtest/sizing";
+import { fundingPayment, fundingSettlements } from "../lib/ai/backtest/funding";
+import { loadAltDataForCandles } from "../lib/ai/alt-data-indicators";
 import { createNotification } from "../lib/notifications";
-import { simulateMarketOrder } from "./paper-simulator";
+import { simulateLimitFill, simulateMarketOrder } from "./paper-simulator";
+import type { IndicatorFeed } from "./indicator-feed";
 
 const TICK_INTERVAL = 60_000; // 60 seconds
+const DUST_THRESHOLD = 0.000001;
+
+type Fill = { id: string; average: number | undefined; price: number | undefined; filled: number };
+
+/** An entry or signal-exit limit order working across ticks, stored as JSON in pendingOrder */
+interface PendingOrder {
+  orderId: string;
+  kind: "entry" | "exit";
+  side: "buy" | "sell";
+  limitPrice: number;
+  quantity: number;
+  placedAt?: number; // ms; missing on orders saved before it was recorded
+  expiresAt: number; // ms; cancelled at the first tick after this
+  fallbackToMarket: boolean;
+}
+
+function pendingOrderOf(strategy: typeof operationalStrategies.$inferSelect): PendingOrder | null {
+  if (!strategy.pendingOrder) return null;
+  try {
+    return JSON.parse(strategy.pendingOrder) as PendingOrder;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * USD of one DCA portion: what the fills so far averaged. The entry fixed the position's budget,
+ * as in the backtest, so later portions are not re-sized from the funds left after it.
+ */
+function sizedPortion(position: PositionState): number {
+  return (position.avgEntryPrice * position.entryQuantity) / position.dcaFilled;
+}
+
+/** Shorts are held on the perp market; see the activation route */
+function isShort(strategy: typeof operationalStrategies.$inferSelect): boolean {
+  try {
+    return (JSON.parse(strategy.strategyConfig) as StrategyConfig).side === "short";
+  } catch {
+    return false;
+  }
+}
+
+/** Order sides opening and closing a strategy's positions */
+function orderSides(strategy: typeof operationalStrategies.$inferSelect): { entry: "buy" | "sell"; exit: "buy" | "sell" } {
+  return isShort(strategy) ? { entry: "sell", exit: "buy" } : { entry: "buy", exit: "sell" };
+}
+
+/** Leverage of a strategy's positions; spot is never leveraged */
+function leverageOf(strategy: typeof operationalStrategies.$inferSelect): number {
+  return strategy.market === "perp" ? Math.max(1, strategy.leverage) : 1;
+}
+
+/** Exchange client on the strategy's market and the symbol to order there */
+function connectExchange(leader: User, strategy: typeof operationalStrategies.$inferSelect) {
+  const apiKey = decrypt(leader.apiKeyEncrypted!);
+  const apiSecret = decrypt(leader.apiSecretEncrypted!);
+  const isPerp = strategy.market === "perp";
+  const exchange = createExchange({ apiKey, apiSecret }, false, leader.exchange || "bybit", isPerp ? "swap" : "spot");
+  return { exchange, symbol: isPerp ? perpSymbol(strategy.symbol) : strategy.symbol };
+}
+
+/** Persisted position columns as the shared strategy core sees them */
+function positionFromStrategy(strategy: typeof operationalStrategies.$inferSelect): PositionState | null {
+  if (!strategy.entryPrice || !strategy.entryQuantity) return null;
+  const avgEntryPrice = strategy.avgEntryPrice || strategy.entryPrice;
+  return {
+    side: isShort(strategy) ? "short" : "long",
+    avgEntryPrice,
+    entryQuantity: strategy.entryQuantity,
+    remainingQuantity: strategy.remainingQuantity ?? strategy.entryQuantity,
+    extremePrice: strategy.highestPriceSinceEntry || avgEntryPrice,
+    dcaFilled: strategy.dcaOrdersFilled || 1,
+    tpLevelsFilled: strategy.tpLevelsFilled || 0,
+  };
+}
 
 export class StrategyExecutor {
   private leader: User | null = null;
   private timer: NodeJS.Timeout | null = null;
   private evaluatingSet = new Set<string>();
+  private feed: IndicatorFeed;
+
+  constructor(feed: IndicatorFeed) {
+    this.feed = feed;
+  }
 
   start(leader: User) {
     this.leader = leader;
@@ -89,7 +206,7 @@ export class StrategyExecutor {
 
     let candles;
     try {
-      candles = await fetchCandles(strategy.symbol, strategy.timeframe, 7);
+      candles = await this.feed.candles(strategy.symbol, strategy.timeframe);
     } catch (err) {
       console.error(`[StrategyExecutor] Failed to fetch candles for ${strategy.symbol}:`, err);
       return;
@@ -99,214 +216,532 @@ export class StrategyExecutor {
 
     let config: StrategyConfig;
     try {
-      config = JSON.parse(strategy.strategyConfig);
+      // Levels and sizing follow the market and leverage the strategy was activated on
+      config = { ...JSON.parse(strategy.strategyConfig), market: strategy.market, leverage: leverageOf(strategy) };
     } catch {
       console.error(`[StrategyExecutor] Invalid config for ${strategy.name}`);
       return;
     }
 
     const indicatorCache = new Map<string, (number | undefined)[]>();
-    const allConditions = [...config.entryConditions, ...config.exitConditions];
+    const allConditions = flattenConditions([...config.entryConditions, ...config.exitConditions]);
 
-    for (const cond of allConditions) {
-      cacheIndicator(indicatorCache, cond.indicator, cond.params, cond.field, candles);
-      if (typeof cond.value === "object") {
-        cacheIndicator(indicatorCache, cond.value.indicator, cond.value.params, cond.value.field, candles);
-      }
-    }
+    // Series on the strategy's timeframe come from the shared feed, updated per closed candle
+    const source = this.feed.source(strategy.symbol, strategy.timeframe);
+    cacheConditionIndicators(indicatorCache, allConditions, candles, source);
+
+    cacheSizingIndicators(indicatorCache, config, candles, source);
 
     // Load alternative data indicators from DB (funding rates, sentiment, etc.)
     await cacheAltIndicators(indicatorCache, allConditions, candles, strategy.symbol);
 
+    // Custom indicators are the strategy owner's formulas over the series above
+    const warnings: string[] = [];
+    await cacheCustomIndicators(
+      indicatorCache,
+      allConditions,
+      candles,
+      strategy.symbol,
+      await loadCustomIndicators(strategy.userId, config),
+      warnings,
+      source
+    );
+    for (const warning of warnings) console.warn(`[StrategyExecutor] ${strategy.name}: ${warning}`);
+
+    // Conditions on another timeframe use that timeframe's closed bars
+    await cacheTimeframeIndicators(indicatorCache, allConditions, candles, strategy.symbol, strategy.timeframe);
+
     const lastIndex = candles.length - 1;
     const lastPrice = candles[lastIndex].close;
+    const bar: BarContext = {
+      candle: tickCandle(lastPrice, candles[lastIndex].timestamp),
+      index: lastIndex,
+      indicatorCache,
+    };
 
     await db
       .update(operationalStrategies)
       .set({ lastCheckedAt: new Date(), updatedAt: new Date() })
       .where(eq(operationalStrategies.id, strategy.id));
 
+    // A working limit order settles first. While an exit works, stops and take-profits still apply
+    const pending = pendingOrderOf(strategy);
+    if (pending) {
+      const working = await this.workPendingOrder(strategy, config, pending, lastPrice, candles);
+      if (!working || pending.kind === "entry") return;
+    }
+
     if (!strategy.inPosition) {
-      // Check entry conditions
-      if (checkConditions(config.entryConditions, lastIndex, indicatorCache)) {
-        await this.enterPosition(strategy, config, lastPrice);
+      const entry = checkEntry(config, bar);
+      if (entry) await this.enterPosition(strategy, config, entry, bar);
+      return;
+    }
+
+    let position = positionFromStrategy(strategy);
+    if (!position) return;
+
+    await this.accrueFunding(strategy, position, lastPrice);
+
+    // Check DCA: add the next portion if price moved enough against the average entry
+    const dca = pending ? null : checkDca(config, position, bar.candle);
+    if (dca) position = (await this.placeDcaOrder(strategy, config, position, dca)) ?? position;
+
+    // Check exits (stops, TP levels, signal) against the re-averaged position
+    for (const exit of checkExits(config, position, bar)) {
+      if (exit.kind === "exit" && exit.reason === "exit_signal") {
+        // Already working as a limit order when one is pending
+        if (!pending) await this.exitPosition(strategy, exit.price, exit.reason, limitSpecFor(config, exit));
+        return;
       }
-    } else {
-      // Update trailing stop high-water mark
-      if (config.trailingStopPercent && lastPrice > (strategy.highestPriceSinceEntry || 0)) {
-        await db
-          .update(operationalStrategies)
-          .set({ highestPriceSinceEntry: lastPrice, updatedAt: new Date() })
-          .where(eq(operationalStrategies.id, strategy.id));
-        strategy.highestPriceSinceEntry = lastPrice;
+      if (pending && strategy.pendingOrder) {
+        // A stop or take-profit replaces the working exit; what it filled so far is booked
+        await this.workPendingOrder(strategy, config, { ...pending, expiresAt: 0, fallbackToMarket: false }, lastPrice, candles);
+        position = positionFromStrategy(strategy);
+        if (!position || !strategy.inPosition) return;
+      }
+      if (exit.kind === "exit") {
+        await this.exitPosition(strategy, exit.reason === "liquidation" ? bankruptcyPrice(position, leverageOf(strategy)) : exit.price, exit.reason);
+        return;
       }
+      const next = await this.partialExit(strategy, position, exit.price, Math.min(exit.quantity, position.remainingQuantity), "take_profit", exit.level);
+      if (!next) return;
+      position = next;
+    }
 
-      // Check DCA: if DCA enabled and more portions available, check if price dropped enough
-      if (config.dcaEnabled && config.dcaOrders && config.dcaDropPercent) {
-        const filledSoFar = strategy.dcaOrdersFilled || 1;
-        if (filledSoFar < config.dcaOrders) {
-          const lastBuyPrice = strategy.avgEntryPrice || strategy.entryPrice || lastPrice;
-          const dropFromLastBuy = ((lastBuyPrice - lastPrice) / lastBuyPrice) * 100;
-          if (dropFromLastBuy >= config.dcaDropPercent) {
-            await this.placeDcaOrder(strategy, config, lastPrice);
-          }
+    // Update trailing stop high-water mark
+    const tracked = trackExtreme(position, bar.candle);
+    if (tracked !== position) {
+      await db
+        .update(operationalStrategies)
+        .set({ highestPriceSinceEntry: tracked.extremePrice, updatedAt: new Date() })
+        .where(eq(operationalStrategies.id, strategy.id));
+      strategy.highestPriceSinceEntry = tracked.extremePrice;
+    }
+  }
+
+  /**
+   * Books perp funding settled since `lastFundingAt` on the open position: the exchange's
+   * funding history when live, the recorded funding rates at each settlement when paper.
+   * Funding counts toward todayPnl/totalPnl as it settles; the closing trade records the total.
+   */
+  private async accrueFunding(strategy: typeof operationalStrategies.$inferSelect, position: PositionState, price: number) {
+    if (!this.leader || strategy.market !== "perp") return;
+
+    const now = Date.now();
+    const since = strategy.lastFundingAt?.getTime() ?? now;
+    const settlements = fundingSettlements(since, now);
+    if (strategy.lastFundingAt && settlements.length === 0) return;
+
+    let amount = 0;
+    let cursor = since;
+
+    if (strategy.mode === "paper") {
+      if (settlements.length > 0) {
+        const rates = await loadAltDataForCandles(
+          "funding_rate",
+          settlements.map((t) => tickCandle(price, t)),
+          strategy.symbol
+        );
+        for (const rate of rates) {
+          if (rate !== undefined) amount += fundingPayment(position.side, position.remainingQuantity, price, rate);
         }
+        cursor = settlements[settlements.length - 1];
+      }
+    } else if (settlements.length > 0) {
+      const { exchange, symbol } = connectExchange(this.leader, strategy);
+      try {
+        // Not posted yet right after a settlement: the cursor stays and the next tick asks again
+        const payments = await fetchFundingPayments(exchange, symbol, since);
+        amount = payments.amount;
+        cursor = payments.latest ?? since;
+      } finally {
+        await exchange.close();
       }
+    }
+
+    if (strategy.lastFundingAt && cursor === since) return;
 
-      // Check exit conditions (trailing stop, SL, TP, signal)
-      await this.checkExit(strategy, config, lastIndex, indicatorCache, lastPrice);
+    const update = {
+      positionFunding: (strategy.positionFunding || 0) + amount,
+      fundingPnl: (strategy.fundingPnl || 0) + amount,
+      todayPnl: (strategy.todayPnl || 0) + amount,
+      totalPnl: (strategy.totalPnl || 0) + amount,
+      lastFundingAt: new Date(cursor),
+      ...(strategy.mode === "paper" && { paperBalance: (strategy.paperBalance ?? 0) + amount }),
+    };
+    await db
+      .update(operationalStrategies)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(operationalStrategies.id, strategy.id));
+    Object.assign(strategy, update);
+
+    if (amount !== 0) {
+      console.log(`[StrategyExecutor] ${strategy.name}: Funding ${amount >= 0 ? "+" : "-"}$${Math.abs(amount).toFixed(4)}`);
     }
   }
 
+  /**
+   * USD budget of a new position. Without a sizing model the whole cap is used; with one, the
+   * model sizes from `equity` and the cap bounds it, as in the backtest.
+   */
+  private async sizePosition(
+    strategy: typeof operationalStrategies.$inferSelect,
+    config: StrategyConfig,
+    equity: number,
+    effectiveCap: number,
+    bar: BarContext
+  ): Promise<number> {
+    if (!config.sizing) return effectiveCap;
+
+    let history: TradeStats | undefined;
+    if (config.sizing.model === "kelly") {
+      // Realized PnL is recorded on closing fills, so partial exits count as separate outcomes
+      const closed = await db
+        .select({ pnl: operationalStrategyTrades.pnl })
+        .from(operationalStrategyTrades)
+        .where(and(eq(operationalStrategyTrades.strategyId, strategy.id), isNotNull(operationalStrategyTrades.pnl)));
+      history = tradeStats(closed.map((t) => t.pnl!));
+    }
+
+    return Math.min(effectiveCap, positionBudget(config, { equity, price: bar.candle.close, bar, history }));
+  }
+
   private async enterPosition(
     strategy: typeof operationalStrategies.$inferSelect,
     config: StrategyConfig,
-    currentPrice: number
+    intent: EntryIntent,
+    bar: BarContext
   ) {
     if (!this.leader) return;
 
+    if (config.side === "short" && strategy.market !== "perp") {
+      console.log(`[StrategyExecutor] ${strategy.name}: Short entries need the perp market, skipping`);
+      return;
+    }
+
     try {
       const isPaper = strategy.mode === "paper";
+      const currentPrice = intent.price;
       const dcaOrders = config.dcaEnabled && config.dcaOrders ? config.dcaOrders : 1;
+      const leverage = leverageOf(strategy);
+      const side = orderSides(strategy).entry;
+      const spec = limitSpecFor(config, intent);
 
-      let order: { id: string; average: number | undefined; price: number | undefined; filled: number };
+      let order: Fill | null;
       let quantity: number;
 
       if (isPaper) {
-        // Paper mode: use paperBalance as available funds
+        // Paper mode: use paperBalance as available funds (margin when leveraged)
         const balance = strategy.paperBalance ?? strategy.maxCapUsd;
-        const effectiveCap = Math.min(strategy.maxCapUsd, balance);
+        const effectiveCap = Math.min(strategy.maxCapUsd, balance) * leverage;
+        const budget = await this.sizePosition(strategy, config, balance, effectiveCap, bar);
 
-        if (effectiveCap < 10) {
-          console.log(`[StrategyExecutor] ${strategy.name}: Paper balance too low ($${effectiveCap.toFixed(2)})`);
+        if (budget < 10) {
+          console.log(`[StrategyExecutor] ${strategy.name}: Paper position too small ($${budget.toFixed(2)})`);
           return;
         }
 
-        const portionCap = effectiveCap / dcaOrders;
+        const portionCap = budget / dcaOrders;
         quantity = portionCap / currentPrice;
 
-        console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] ENTRY BUY ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`);
-        order = simulateMarketOrder(strategy.symbol, "buy", quantity, currentPrice);
+        if (spec) {
+          order = await this.submitLimit(strategy, "entry", spec, side, quantity, currentPrice);
+        } else {
+          console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] ENTRY ${side.toUpperCase()} ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`);
+          order = simulateMarketOrder(strategy.symbol, side, quantity, currentPrice);
+        }
       } else {
         // Live mode: use real exchange
-        const apiKey = decrypt(this.leader.apiKeyEncrypted!);
-        const apiSecret = decrypt(this.leader.apiSecretEncrypted!);
-        const exchange = createExchange({ apiKey, apiSecret }, false, this.leader?.exchange || "bybit");
+        const { exchange, symbol } = connectExchange(this.leader, strategy);
 
         try {
-          const balance = await fetchUsdtBalance(exchange);
+          if (strategy.market === "perp") {
+            await configureDerivatives(exchange, symbol, leverage, strategy.marginMode);
+          }
+
+          const balance = await fetchUsdtBalance(exchange, strategy.market === "perp" ? "swap" : "spot");
           const capFromPercent = balance.free * (strategy.maxCapPercent / 100);
-          const effectiveCap = Math.min(strategy.maxCapUsd, capFromPercent);
+          const effectiveCap = Math.min(strategy.maxCapUsd, capFromPercent) * leverage;
+          const budget = await this.sizePosition(strategy, config, balance.free, effectiveCap, bar);
 
-          if (effectiveCap < 10) {
-            console.log(`[StrategyExecutor] ${strategy.name}: Effective cap too low ($${effectiveCap.toFixed(2)})`);
+          if (budget < 10) {
+            console.log(`[StrategyExecutor] ${strategy.name}: Position too small ($${budget.toFixed(2)})`);
             return;
           }
 
-          const portionCap = effectiveCap / dcaOrders;
+          const portionCap = budget / dcaOrders;
           quantity = portionCap / currentPrice;
 
-          console.log(`[StrategyExecutor] ${strategy.name}: ENTRY BUY ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`);
-          order = await placeMarketOrder(exchange, strategy.symbol, "buy", quantity);
+          if (spec) {
+            order = await this.submitLimit(strategy, "entry", spec, side, quantity, currentPrice, { exchange, symbol });
+          } else {
+            console.log(`[StrategyExecutor] ${strategy.name}: ENTRY ${side.toUpperCase()} ${quantity.toFixed(6)} ${symbol} @ ~$${currentPrice.toFixed(2)}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`);
+            order = await placeMarketOrder(exchange, symbol, side, quantity);
+          }
         } finally {
           await exchange.close();
         }
       }
 
-      const fillPrice = order.average || order.price || currentPrice;
-      const fillQty = order.filled || quantity;
+      // A limit order still working is recorded once it fills; see workPendingOrder
+      if (order) await this.recordEntry(strategy, config, order, quantity, currentPrice);
+    } catch (err) {
+      console.error(`[StrategyExecutor] ${strategy.name}: Entry order failed:`, err);
+    }
+  }
 
-      // Deduct from paper balance if paper mode
-      const paperBalanceUpdate = isPaper
-        ? { paperBalance: (strategy.paperBalance ?? strategy.maxCapUsd) - fillQty * fillPrice }
-        : {};
+  /** Opens the position from an entry fill and records the trade */
+  private async recordEntry(
+    strategy: typeof operationalStrategies.$inferSelect,
+    config: StrategyConfig,
+    order: Fill,
+    quantity: number,
+    currentPrice: number
+  ) {
+    const isPaper = strategy.mode === "paper";
+    const dcaOrders = config.dcaEnabled && config.dcaOrders ? config.dcaOrders : 1;
+    const leverage = leverageOf(strategy);
+    const side = orderSides(strategy).entry;
+    const fillPrice = order.average || order.price || currentPrice;
+    const fillQty = order.filled || quantity;
+
+    // Deduct the margin from paper balance if paper mode
+    const paperBalanceUpdate = isPaper
+      ? { paperBalance: (strategy.paperBalance ?? strategy.maxCapUsd) - (fillQty * fillPrice) / leverage }
+      : {};
 
-      await db
-        .update(operationalStrategies)
-        .set({
-          inPosition: true,
-          entryPrice: fillPrice,
-          entryQuantity: fillQty,
-          remainingQuantity: fillQty,
-          tpLevelsFilled: 0,
-          avgEntryPrice: fillPrice,
-          highestPriceSinceEntry: fillPrice,
-          dcaOrdersFilled: 1,
-          updatedAt: new Date(),
-          ...paperBalanceUpdate,
-        })
-        .where(eq(operationalStrategies.id, strategy.id));
+    await db
+      .update(operationalStrategies)
+      .set({
+        inPosition: true,
+        entryPrice: fillPrice,
+        entryQuantity: fillQty,
+        remainingQuantity: fillQty,
+        tpLevelsFilled: 0,
+        avgEntryPrice: fillPrice,
+        highestPriceSinceEntry: fillPrice,
+        dcaOrdersFilled: 1,
+        positionFunding: 0,
+        lastFundingAt: strategy.market === "perp" ? new Date() : null,
+        updatedAt: new Date(),
+        ...paperBalanceUpdate,
+      })
+      .where(eq(operationalStrategies.id, strategy.id));
 
-      await db.insert(operationalStrategyTrades).values({
-        strategyId: strategy.id,
-        symbol: strategy.symbol,
-        side: "buy",
-        quantity: fillQty,
-        price: fillPrice,
-        bybitOrderId: order.id,
-        reason: "entry_signal",
-        mode: strategy.mode,
+    await db.insert(operationalStrategyTrades).values({
+      strategyId: strategy.id,
+      symbol: strategy.symbol,
+      side,
+      quantity: fillQty,
+      price: fillPrice,
+      bybitOrderId: order.id,
+      reason: "entry_signal",
+      mode: strategy.mode,
+      configVersion: strategy.configVersion,
+    });
+
+    const modeLabel = isPaper ? " [PAPER]" : "";
+    await createNotification(
+      strategy.userId,
+      "strategy_entry",
+      `Strategy Entry: ${strategy.name}${modeLabel}`,
+      `${side === "sell" ? "Shorted" : "Bought"} ${fillQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)}${leverage > 1 ? ` (${leverage}x)` : ""}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`,
+      { strategyId: strategy.id, orderId: order.id }
+    );
+
+    console.log(`[StrategyExecutor] ${strategy.name}:${modeLabel} Entry filled at $${fillPrice.toFixed(2)}`);
+  }
+
+  /**
+   * Places an entry or signal exit as a limit order priced off `price`. Returns the fill when the
+   * exchange filled it right away; otherwise it is saved as the strategy's pending order and null
+   * is returned. Paper orders always rest: they are priced at or better than the last price.
+   */
+  private async submitLimit(
+    strategy: typeof operationalStrategies.$inferSelect,
+    kind: PendingOrder["kind"],
+    spec: OrderSpec,
+    side: "buy" | "sell",
+    quantity: number,
+    price: number,
+    live?: { exchange: ReturnType<typeof createExchange>; symbol: string }
+  ): Promise<Fill | null> {
+    const limit = limitPrice(spec, side, price);
+    const modeLabel = live ? "" : " [PAPER]";
+    let orderId = `paper_limit_${Date.now()}`;
+
+    console.log(`[StrategyExecutor] ${strategy.name}:${modeLabel} ${kind.toUpperCase()} LIMIT ${side.toUpperCase()} ${quantity.toFixed(6)} ${strategy.symbol} @ $${limit.toFixed(2)}${spec.postOnly ? " (post-only)" : ""}`);
+
+    if (live) {
+      const order = await placeLimitOrder(live.exchange, live.symbol, side, quantity, limit, {
+        ...(spec.postOnly && { postOnly: true }),
+        ...(kind === "exit" && strategy.market === "perp" && { reduceOnly: true }),
       });
+      if (order.status === "closed") return order;
+      // A post-only order the exchange rejected is settled at the next tick like an expired one
+      orderId = order.id;
+    }
 
-      const modeLabel = isPaper ? " [PAPER]" : "";
-      await createNotification(
-        strategy.userId,
-        "strategy_entry",
-        `Strategy Entry: ${strategy.name}${modeLabel}`,
-        `Bought ${fillQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)}${dcaOrders > 1 ? ` (DCA 1/${dcaOrders})` : ""}`,
-        { strategyId: strategy.id, orderId: order.id }
+    const pending: PendingOrder = {
+      orderId,
+      kind,
+      side,
+      limitPrice: limit,
+      quantity,
+      placedAt: Date.now(),
+      expiresAt: Date.now() + limitTimeoutMs(spec, timeframeToMs(strategy.timeframe)),
+      fallbackToMarket: spec.fallbackToMarket ?? false,
+    };
+    strategy.pendingOrder = JSON.stringify(pending);
+    await db
+      .update(operationalStrategies)
+      .set({ pendingOrder: strategy.pendingOrder, updatedAt: new Date() })
+      .where(eq(operationalStrategies.id, strategy.id));
+    return null;
+  }
+
+  /**
+   * Checks the pending limit order. Once it is done, or past its timeout and cancelled, what
+   * filled is booked, with the rest completed at market when the spec falls back to market.
+   * Paper orders are checked against `candles` since they were placed. Returns whether the order
+   * is still working.
+   */
+  private async workPendingOrder(
+    strategy: typeof operationalStrategies.$inferSelect,
+    config: StrategyConfig,
+    pending: PendingOrder,
+    lastPrice: number,
+    candles: Candle[]
+  ): Promise<boolean> {
+    if (!this.leader) return true;
+
+    const isPaper = strategy.mode === "paper";
+    const expired = Date.now() >= pending.expiresAt;
+    const reduceOnly = pending.kind === "exit" && strategy.market === "perp";
+    let filled: Fill | null = null;
+    let fallback: Fill | null = null;
+
+    if (isPaper) {
+      filled = simulateLimitFill(
+        strategy.symbol,
+        pending.side,
+        pending.quantity,
+        pending.limitPrice,
+        pending.placedAt ?? Date.now(),
+        candles,
+        lastPrice
       );
+      if (!filled) {
+        if (!expired) return true;
+        if (pending.fallbackToMarket) {
+          fallback = simulateMarketOrder(strategy.symbol, pending.side, pending.quantity, lastPrice);
+        }
+      }
+    } else {
+      const { exchange, symbol } = connectExchange(this.leader, strategy);
+      try {
+        let status = await fetchOrderStatus(exchange, pending.orderId, symbol);
+        if (status.status === "open") {
+          if (!expired) return true;
+          await cancelOrder(exchange, pending.orderId, symbol);
+          status = await fetchOrderStatus(exchange, pending.orderId, symbol);
+        }
+        if (status.filled > 0) filled = status;
 
-      console.log(`[StrategyExecutor] ${strategy.name}:${modeLabel} Entry filled at $${fillPrice.toFixed(2)}`);
-    } catch (err) {
-      console.error(`[StrategyExecutor] ${strategy.name}: Entry order failed:`, err);
+        const rest = pending.quantity - status.filled;
+        if (pending.fallbackToMarket && rest * lastPrice >= 10) {
+          fallback = await placeMarketOrder(exchange, symbol, pending.side, rest, reduceOnly ? { reduceOnly: true } : {});
+        }
+      } finally {
+        await exchange.close();
+      }
     }
+
+    strategy.pendingOrder = null;
+    await db
+      .update(operationalStrategies)
+      .set({ pendingOrder: null, updatedAt: new Date() })
+      .where(eq(operationalStrategies.id, strategy.id));
+
+    // One fill at the average price of the limit and market parts
+    const limitQty = filled?.filled ?? 0;
+    const limitAvg = filled ? filled.average || filled.price || pending.limitPrice : 0;
+    const marketQty = fallback ? fallback.filled || pending.quantity - limitQty : 0;
+    const marketAvg = fallback ? fallback.average || fallback.price || lastPrice : 0;
+    const quantity = limitQty + marketQty;
+
+    if (quantity <= 0) {
+      console.log(`[StrategyExecutor] ${strategy.name}: ${pending.kind === "entry" ? "Entry" : "Exit"} limit expired unfilled`);
+      return false;
+    }
+
+    const order: Fill = {
+      id: filled ? pending.orderId : fallback!.id,
+      average: (limitAvg * limitQty + marketAvg * marketQty) / quantity,
+      price: undefined,
+      filled: quantity,
+    };
+
+    if (pending.kind === "entry") {
+      await this.recordEntry(strategy, config, order, quantity, pending.limitPrice);
+      return false;
+    }
+
+    const position = positionFromStrategy(strategy);
+    if (!position) return false;
+    if (quantity >= position.remainingQuantity - DUST_THRESHOLD) {
+      await this.recordExit(strategy, order, lastPrice, "exit_signal");
+    } else {
+      await this.recordPartialExit(strategy, position, order, quantity, "exit_signal", position.tpLevelsFilled, lastPrice);
+    }
+    return false;
   }
 
   private async placeDcaOrder(
     strategy: typeof operationalStrategies.$inferSelect,
     config: StrategyConfig,
-    currentPrice: number
-  ) {
-    if (!this.leader) return;
+    position: PositionState,
+    intent: DcaIntent
+  ): Promise<PositionState | null> {
+    if (!this.leader) return null;
 
     try {
       const isPaper = strategy.mode === "paper";
+      const currentPrice = intent.price;
       const dcaOrders = config.dcaOrders || 1;
-      const filledSoFar = strategy.dcaOrdersFilled || 1;
-      const newFilled = filledSoFar + 1;
+      const newFilled = position.dcaFilled + 1;
+      const leverage = leverageOf(strategy);
+      const side = orderSides(strategy).entry;
 
-      let order: { id: string; average: number | undefined; price: number | undefined; filled: number };
+      let order: Fill;
       let quantity: number;
 
       if (isPaper) {
         // Paper mode: use paperBalance
         const balance = strategy.paperBalance ?? 0;
-        const effectiveCap = Math.min(strategy.maxCapUsd, balance);
-        const portionCap = effectiveCap / dcaOrders;
+        const effectiveCap = Math.min(strategy.maxCapUsd, balance) * leverage;
+        const portionCap = Math.min(sizedPortion(position), effectiveCap);
         quantity = portionCap / currentPrice;
 
-        if (portionCap < 10) return;
+        if (portionCap < 10) return null;
 
-        console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] DCA BUY ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)} (${newFilled}/${dcaOrders})`);
-        order = simulateMarketOrder(strategy.symbol, "buy", quantity, currentPrice);
+        console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] DCA ${side.toUpperCase()} ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)} (${newFilled}/${dcaOrders})`);
+        order = simulateMarketOrder(strategy.symbol, side, quantity, currentPrice);
       } else {
         // Live mode: use real exchange
-        const apiKey = decrypt(this.leader.apiKeyEncrypted!);
-        const apiSecret = decrypt(this.leader.apiSecretEncrypted!);
-        const exchange = createExchange({ apiKey, apiSecret }, false, this.leader?.exchange || "bybit");
+        const { exchange, symbol } = connectExchange(this.leader, strategy);
 
         try {
-          const balance = await fetchUsdtBalance(exchange);
+          const balance = await fetchUsdtBalance(exchange, strategy.market === "perp" ? "swap" : "spot");
           const capFromPercent = balance.free * (strategy.maxCapPercent / 100);
-          const effectiveCap = Math.min(strategy.maxCapUsd, capFromPercent);
-          const portionCap = effectiveCap / dcaOrders;
+          const effectiveCap = Math.min(strategy.maxCapUsd, capFromPercent) * leverage;
+          const portionCap = Math.min(sizedPortion(position), effectiveCap);
           quantity = portionCap / currentPrice;
 
-          if (portionCap < 10) return;
+          if (portionCap < 10) return null;
 
-          console.log(`[StrategyExecutor] ${strategy.name}: DCA BUY ${quantity.toFixed(6)} ${strategy.symbol} @ ~$${currentPrice.toFixed(2)} (${newFilled}/${dcaOrders})`);
-          order = await placeMarketOrder(exchange, strategy.symbol, "buy", quantity);
+          console.log(`[StrategyExecutor] ${strategy.name}: DCA ${side.toUpperCase()} ${quantity.toFixed(6)} ${symbol} @ ~$${currentPrice.toFixed(2)} (${newFilled}/${dcaOrders})`);
+          order = await placeMarketOrder(exchange, symbol, side, quantity);
         } finally {
           await exchange.close();
         }
@@ -315,24 +750,22 @@ export class StrategyExecutor {
       const fillPrice = order.average || order.price || currentPrice;
       const fillQty = order.filled || quantity;
 
-      // Calculate new weighted average entry
-      const oldQty = strategy.entryQuantity || 0;
-      const oldAvg = strategy.avgEntryPrice || strategy.entryPrice || 0;
-      const totalQty = oldQty + fillQty;
-      const newAvg = totalQty > 0 ? ((oldAvg * oldQty) + (fillPrice * fillQty)) / totalQty : fillPrice;
+      // Re-average the entry over what is still held
+      const next = applyFill(position, intent, fillPrice, fillQty)!;
+      const newAvg = next.avgEntryPrice;
 
-      // Deduct from paper balance if paper mode
+      // Deduct the margin from paper balance if paper mode
       const paperBalanceUpdate = isPaper
-        ? { paperBalance: (strategy.paperBalance ?? 0) - fillQty * fillPrice }
+        ? { paperBalance: (strategy.paperBalance ?? 0) - (fillQty * fillPrice) / leverage }
         : {};
 
       await db
         .update(operationalStrategies)
         .set({
-          entryQuantity: totalQty,
-          remainingQuantity: totalQty,
+          entryQuantity: next.entryQuantity,
+          remainingQuantity: next.remainingQuantity,
           avgEntryPrice: newAvg,
-          dcaOrdersFilled: newFilled,
+          dcaOrdersFilled: next.dcaFilled,
           updatedAt: new Date(),
           ...paperBalanceUpdate,
         })
@@ -341,272 +774,289 @@ export class StrategyExecutor {
       await db.insert(operationalStrategyTrades).values({
         strategyId: strategy.id,
         symbol: strategy.symbol,
-        side: "buy",
+        side,
         quantity: fillQty,
         price: fillPrice,
         bybitOrderId: order.id,
         reason: "entry_signal",
         mode: strategy.mode,
+        configVersion: strategy.configVersion,
       });
 
       const modeLabel = isPaper ? " [PAPER]" : "";
       await createNotification(
         strategy.userId,
         "strategy_dca",
-        `DCA Buy: ${strategy.name}${modeLabel}`,
-        `DCA ${newFilled}/${dcaOrders}: Bought ${fillQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} | Avg: $${newAvg.toFixed(2)}`,
+        `DCA ${side === "sell" ? "Short" : "Buy"}: ${strategy.name}${modeLabel}`,
+        `DCA ${newFilled}/${dcaOrders}: ${side === "sell" ? "Shorted" : "Bought"} ${fillQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} | Avg: $${newAvg.toFixed(2)}`,
         { strategyId: strategy.id, orderId: order.id, dcaOrder: newFilled }
       );
+
+      strategy.entryQuantity = next.entryQuantity;
+      strategy.remainingQuantity = next.remainingQuantity;
+      strategy.avgEntryPrice = newAvg;
+      strategy.dcaOrdersFilled = next.dcaFilled;
+      return next;
     } catch (err) {
       console.error(`[StrategyExecutor] ${strategy.name}: DCA order failed:`, err);
-    }
-  }
-
-  private async checkExit(
-    strategy: typeof operationalStrategies.$inferSelect,
-    config: StrategyConfig,
-    lastIndex: number,
-    indicatorCache: Map<string, (number | undefined)[]>,
-    currentPrice: number
-  ) {
-    if (!strategy.entryPrice || !strategy.entryQuantity) return;
-
-    // Use avgEntryPrice for PnL calculation if DCA is active
-    const refPrice = strategy.avgEntryPrice || strategy.entryPrice;
-    const pnlPercent = ((currentPrice - refPrice) / refPrice) * 100;
-    let exitReason: string | null = null;
-
-    // Check trailing stop first (highest priority)
-    if (config.trailingStopPercent && strategy.highestPriceSinceEntry) {
-      const dropFromHigh = ((strategy.highestPriceSinceEntry - currentPrice) / strategy.highestPriceSinceEntry) * 100;
-      if (dropFromHigh >= config.trailingStopPercent) {
-        exitReason = "trailing_stop";
-      }
-    }
-
-    // Check fixed stop loss
-    if (!exitReason && config.stopLossPercent && pnlPercent <= -config.stopLossPercent) {
-      exitReason = "stop_loss";
-    }
-
-    // Check multi-target take profit levels
-    if (!exitReason && config.takeProfitLevels?.length) {
-      const nextLevel = config.takeProfitLevels[strategy.tpLevelsFilled || 0];
-      if (nextLevel && pnlPercent >= nextLevel.percent) {
-        const sellQty = (strategy.entryQuantity || 0) * (nextLevel.sellPercent / 100);
-        await this.partialExit(strategy, currentPrice, sellQty, "take_profit", (strategy.tpLevelsFilled || 0) + 1);
-        return; // Don't check other exit conditions after partial exit
-      }
-    }
-
-    // Check single take profit (only if multi-target not configured)
-    if (!exitReason && !config.takeProfitLevels?.length && config.takeProfitPercent && pnlPercent >= config.takeProfitPercent) {
-      exitReason = "take_profit";
-    }
-    // Check exit signal conditions
-    if (!exitReason && checkConditions(config.exitConditions, lastIndex, indicatorCache)) {
-      exitReason = "exit_signal";
-    }
-
-    if (exitReason) {
-      await this.exitPosition(strategy, currentPrice, exitReason);
+      return null;
     }
   }
 
   private async exitPosition(
     strategy: typeof operationalStrategies.$inferSelect,
     currentPrice: number,
-    reason: string
+    reason: string,
+    spec: OrderSpec | null = null
   ) {
     if (!this.leader || !strategy.entryPrice || !strategy.entryQuantity) return;
 
     try {
       const isPaper = strategy.mode === "paper";
       const sellQty = strategy.remainingQuantity || strategy.entryQuantity;
+      const side = orderSides(strategy).exit;
 
-      let order: { id: string; average: number | undefined; price: number | undefined; filled: number };
+      let order: Fill | null;
+
+      // A liquidation closes at the bankruptcy price (currentPrice), the margin lost
+      const liquidated: Fill = { id: "liquidation", average: currentPrice, price: currentPrice, filled: sellQty };
 
       if (isPaper) {
-        console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] EXIT SELL ${sellQty.toFixed(6)} ${strategy.symbol} (${reason})`);
-        order = simulateMarketOrder(strategy.symbol, "sell", sellQty, currentPrice);
+        if (spec) {
+          order = await this.submitLimit(strategy, "exit", spec, side, sellQty, currentPrice);
+        } else {
+          console.log(`[StrategyExecutor] ${strategy.name}: [PAPER] EXIT ${side.toUpperCase()} ${sellQty.toFixed(6)} ${strategy.symbol} (${reason})`);
+          order = reason === "liquidation" ? liquidated : simulateMarketOrder(strategy.symbol, side, sellQty, currentPrice);
+        }
       } else {
-        const apiKey = decrypt(this.leader.apiKeyEncrypted!);
-        const apiSecret = decrypt(this.leader.apiSecretEncrypted!);
-        const exchange = createExchange({ apiKey, apiSecret }, false, this.leader?.exchange || "bybit");
+        const { exchange, symbol } = connectExchange(this.leader, strategy);
 
         try {
-          console.log(`[StrategyExecutor] ${strategy.name}: EXIT SELL ${sellQty.toFixed(6)} ${strategy.symbol} (${reason})`);
-          order = await placeMarketOrder(exchange, strategy.symbol, "sell", sellQty);
+          if (spec) {
+            order = await this.submitLimit(strategy, "exit", spec, side, sellQty, currentPrice, { exchange, symbol });
+          } else {
+            console.log(`[StrategyExecutor] ${strategy.name}: EXIT ${side.toUpperCase()} ${sellQty.toFixed(6)} ${symbol} (${reason})`);
+            order = await placeMarketOrder(exchange, symbol, side, sellQty, strategy.market === "perp" ? { reduceOnly: true } : {});
+          }
+        } catch (err) {
+          // Past the liquidation price the exchange has usually closed the position already
+          if (reason !== "liquidation") throw err;
+          console.log(`[StrategyExecutor] ${strategy.name}: Position already liquidated by the exchange`);
+          order = liquidated;
         } finally {
           await exchange.close();
         }
       }
 
-      const fillPrice = order.average || order.price || currentPrice;
-      const refPrice = strategy.avgEntryPrice || strategy.entryPrice;
-      const pnl = (fillPrice - refPrice) * sellQty;
-      const newTodayPnl = (strategy.todayPnl || 0) + pnl;
-      const newTotalPnl = (strategy.totalPnl || 0) + pnl;
-      const newTradesCount = (strategy.tradesCount || 0) + 1;
-
-      let newStatus: "active" | "paused" | "stopped" = "active";
-      let stoppedReason: string | null = null;
-      if (newTodayPnl <= -strategy.dailyLossLimitUsd) {
-        newStatus = "stopped";
-        stoppedReason = "daily_loss_limit";
-        console.log(`[StrategyExecutor] ${strategy.name}: STOPPED - Daily loss limit breached ($${newTodayPnl.toFixed(2)})`);
-      }
+      // A limit order still working is recorded once it fills; see workPendingOrder
+      if (order) await this.recordExit(strategy, order, currentPrice, reason);
+    } catch (err) {
+      console.error(`[StrategyExecutor] ${strategy.name}: Exit order failed:`, err);
+    }
+  }
 
-      // Add proceeds back to paper balance if paper mode
-      const paperBalanceUpdate = isPaper
-        ? { paperBalance: (strategy.paperBalance ?? 0) + sellQty * fillPrice }
-        : {};
+  /** Closes the position from an exit fill of all that remained and records the trade */
+  private async recordExit(
+    strategy: typeof operationalStrategies.$inferSelect,
+    order: Fill,
+    currentPrice: number,
+    reason: string
+  ) {
+    const isPaper = strategy.mode === "paper";
+    const sellQty = strategy.remainingQuantity || strategy.entryQuantity!;
+    const side = orderSides(strategy).exit;
+    const leverage = leverageOf(strategy);
+
+    const fillPrice = order.average || order.price || currentPrice;
+    const refPrice = strategy.avgEntryPrice || strategy.entryPrice!;
+    const pnl = (fillPrice - refPrice) * sellQty * (side === "buy" ? -1 : 1);
+    const newTodayPnl = (strategy.todayPnl || 0) + pnl;
+    const newTotalPnl = (strategy.totalPnl || 0) + pnl;
+    const newTradesCount = (strategy.tradesCount || 0) + 1;
 
-      await db
-        .update(operationalStrategies)
-        .set({
-          inPosition: false,
-          entryPrice: null,
-          entryQuantity: null,
-          remainingQuantity: null,
-          tpLevelsFilled: 0,
-          avgEntryPrice: null,
-          highestPriceSinceEntry: null,
-          dcaOrdersFilled: 0,
-          todayPnl: newTodayPnl,
-          totalPnl: newTotalPnl,
-          tradesCount: newTradesCount,
-          status: newStatus,
-          stoppedAt: newStatus === "stopped" ? new Date() : undefined,
-          stoppedReason,
-          updatedAt: new Date(),
-          ...paperBalanceUpdate,
-        })
-        .where(eq(operationalStrategies.id, strategy.id));
+    let newStatus: "active" | "paused" | "stopped" = "active";
+    let stoppedReason: string | null = null;
+    if (newTodayPnl <= -strategy.dailyLossLimitUsd) {
+      newStatus = "stopped";
+      stoppedReason = "daily_loss_limit";
+      console.log(`[StrategyExecutor] ${strategy.name}: STOPPED - Daily loss limit breached ($${newTodayPnl.toFixed(2)})`);
+    }
 
-      await db.insert(operationalStrategyTrades).values({
-        strategyId: strategy.id,
-        symbol: strategy.symbol,
-        side: "sell",
-        quantity: sellQty,
-        price: fillPrice,
-        bybitOrderId: order.id,
-        pnl,
-        reason,
-        mode: strategy.mode,
-      });
+    // Release the margin plus PnL back to paper balance if paper mode
+    const paperBalanceUpdate = isPaper
+      ? { paperBalance: (strategy.paperBalance ?? 0) + (sellQty * refPrice) / leverage + pnl }
+      : {};
 
-      const modeLabel = isPaper ? " [PAPER]" : "";
-      const pnlStr = pnl >= 0 ? `+$${pnl.toFixed(2)}` : `-$${Math.abs(pnl).toFixed(2)}`;
+    await db
+      .update(operationalStrategies)
+      .set({
+        inPosition: false,
+        entryPrice: null,
+        entryQuantity: null,
+        remainingQuantity: null,
+        tpLevelsFilled: 0,
+        avgEntryPrice: null,
+        highestPriceSinceEntry: null,
+        dcaOrdersFilled: 0,
+        positionFunding: 0,
+        lastFundingAt: null,
+        todayPnl: newTodayPnl,
+        totalPnl: newTotalPnl,
+        tradesCount: newTradesCount,
+        status: newStatus,
+        stoppedAt: newStatus === "stopped" ? new Date() : undefined,
+        stoppedReason,
+        updatedAt: new Date(),
+        ...paperBalanceUpdate,
+      })
+      .where(eq(operationalStrategies.id, strategy.id));
+    strategy.inPosition = false;
+
+    await db.insert(operationalStrategyTrades).values({
+      strategyId: strategy.id,
+      symbol: strategy.symbol,
+      side,
+      quantity: sellQty,
+      price: fillPrice,
+      bybitOrderId: order.id,
+      pnl,
+      reason,
+      mode: strategy.mode,
+      funding: strategy.market === "perp" ? strategy.positionFunding ?? 0 : null,
+      configVersion: strategy.configVersion,
+    });
+
+    const modeLabel = isPaper ? " [PAPER]" : "";
+    const pnlStr = pnl >= 0 ? `+$${pnl.toFixed(2)}` : `-$${Math.abs(pnl).toFixed(2)}`;
+    await createNotification(
+      strategy.userId,
+      "strategy_exit",
+      `Strategy Exit: ${strategy.name}${modeLabel}`,
+      `${side === "buy" ? "Covered" : "Sold"} ${sellQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} (${reason}) P&L: ${pnlStr}`,
+      { strategyId: strategy.id, orderId: order.id, pnl, reason }
+    );
+
+    if (newStatus === "stopped") {
       await createNotification(
         strategy.userId,
-        "strategy_exit",
-        `Strategy Exit: ${strategy.name}${modeLabel}`,
-        `Sold ${sellQty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} (${reason}) P&L: ${pnlStr}`,
-        { strategyId: strategy.id, orderId: order.id, pnl, reason }
+        "strategy_stopped",
+        `Strategy Stopped: ${strategy.name}`,
+        `Auto-stopped due to daily loss limit. Today P&L: $${newTodayPnl.toFixed(2)}`,
+        { strategyId: strategy.id, reason: stoppedReason }
       );
-
-      if (newStatus === "stopped") {
-        await createNotification(
-          strategy.userId,
-          "strategy_stopped",
-          `Strategy Stopped: ${strategy.name}`,
-          `Auto-stopped due to daily loss limit. Today P&L: $${newTodayPnl.toFixed(2)}`,
-          { strategyId: strategy.id, reason: stoppedReason }
-        );
-      }
-
-      console.log(`[StrategyExecutor] ${strategy.name}:${modeLabel} Exit at $${fillPrice.toFixed(2)}, PnL: ${pnlStr}`);
-    } catch (err) {
-      console.error(`[StrategyExecutor] ${strategy.name}: Exit order failed:`, err);
     }
+
+    console.log(`[StrategyExecutor] ${strategy.name}:${modeLabel} Exit at $${fillPrice.toFixed(2)}, PnL: ${pnlStr}`);
   }
 
   private async partialExit(
     strategy: typeof operationalStrategies.$inferSelect,
+    position: PositionState,
     currentPrice: number,
     qty: number,
     reason: string,
     levelIndex: number
-  ) {
-    if (!this.leader) return;
-
-    const DUST_THRESHOLD = 0.000001;
+  ): Promise<PositionState | null> {
+    if (!this.leader) return null;
 
     try {
-      const isPaper = strategy.mode === "paper";
-      let fillPrice: number;
-      let orderId: string;
+      const side = orderSides(strategy).exit;
+      let order: Fill;
 
-      if (isPaper) {
-        const order = simulateMarketOrder(strategy.symbol, "sell", qty, currentPrice);
-        fillPrice = order.average || order.price || currentPrice;
-        orderId = order.id;
-        // Add proceeds back to paper balance
-        const proceeds = qty * fillPrice;
-        const newPaperBalance = (strategy.paperBalance || 0) + proceeds;
-        await db.update(operationalStrategies).set({ paperBalance: newPaperBalance }).where(eq(operationalStrategies.id, strategy.id));
+      if (strategy.mode === "paper") {
+        order = simulateMarketOrder(strategy.symbol, side, qty, currentPrice);
       } else {
-        const apiKey = decrypt(this.leader.apiKeyEncrypted!);
-        const apiSecret = decrypt(this.leader.apiSecretEncrypted!);
-        const exchange = createExchange({ apiKey, apiSecret }, false, this.leader?.exchange || "bybit");
+        const { exchange, symbol } = connectExchange(this.leader, strategy);
         try {
-          const order = await placeMarketOrder(exchange, strategy.symbol, "sell", qty);
-          fillPrice = order.average || order.price || currentPrice;
-          orderId = order.id;
+          order = await placeMarketOrder(exchange, symbol, side, qty, strategy.market === "perp" ? { reduceOnly: true } : {});
         } finally {
           await exchange.close();
         }
       }
 
-      const refPrice = strategy.avgEntryPrice || strategy.entryPrice || 0;
-      const pnl = (fillPrice - refPrice) * qty;
-      const newRemaining = (strategy.remainingQuantity || strategy.entryQuantity || 0) - qty;
-      const newTodayPnl = (strategy.todayPnl || 0) + pnl;
-      const newTotalPnl = (strategy.totalPnl || 0) + pnl;
-
-      await db.update(operationalStrategies).set({
-        remainingQuantity: newRemaining,
-        tpLevelsFilled: levelIndex,
-        todayPnl: newTodayPnl,
-        totalPnl: newTotalPnl,
-        updatedAt: new Date(),
-      }).where(eq(operationalStrategies.id, strategy.id));
+      return await this.recordPartialExit(strategy, position, order, qty, reason, levelIndex, currentPrice);
+    } catch (err) {
+      console.error(`[StrategyExecutor] ${strategy.name}: Partial exit failed:`, err);
+      return null;
+    }
+  }
 
-      await db.insert(operationalStrategyTrades).values({
-        strategyId: strategy.id,
-        symbol: strategy.symbol,
-        side: "sell",
-        quantity: qty,
-        price: fillPrice,
-        bybitOrderId: orderId,
-        pnl,
-        reason,
-        mode: strategy.mode,
-      });
+  /**
+   * Books an exit fill of part of the position: a take-profit level, or a limit exit that filled
+   * only partly. Returns the position left, null once the slice closed it.
+   */
+  private async recordPartialExit(
+    strategy: typeof operationalStrategies.$inferSelect,
+    position: PositionState,
+    order: Fill,
+    qty: number,
+    reason: string,
+    levelIndex: number,
+    currentPrice: number
+  ): Promise<PositionState | null> {
+    const isPaper = strategy.mode === "paper";
+    const side = orderSides(strategy).exit;
+    const direction = side === "buy" ? -1 : 1;
+    const fillPrice = order.average || order.price || currentPrice;
+
+    if (isPaper) {
+      // Release the slice's margin plus its PnL back to paper balance
+      const proceeds = (qty * position.avgEntryPrice) / leverageOf(strategy) + (fillPrice - position.avgEntryPrice) * qty * direction;
+      const newPaperBalance = (strategy.paperBalance || 0) + proceeds;
+      await db.update(operationalStrategies).set({ paperBalance: newPaperBalance }).where(eq(operationalStrategies.id, strategy.id));
+      strategy.paperBalance = newPaperBalance;
+    }
 
-      // Update local strategy state
-      strategy.remainingQuantity = newRemaining;
-      strategy.tpLevelsFilled = levelIndex;
-      strategy.todayPnl = newTodayPnl;
-      strategy.totalPnl = newTotalPnl;
+    const pnl = (fillPrice - position.avgEntryPrice) * qty * direction;
+    const next = applyFill(position, { kind: "partial_exit", price: currentPrice, quantity: qty, level: levelIndex }, fillPrice, qty)!;
+    const newRemaining = next.remainingQuantity;
+    const newTodayPnl = (strategy.todayPnl || 0) + pnl;
+    const newTotalPnl = (strategy.totalPnl || 0) + pnl;
+    // If all filled or dust remaining, this slice closes the position
+    const closed = newRemaining < DUST_THRESHOLD;
 
-      // If all filled or dust remaining, fully close
-      if (newRemaining < DUST_THRESHOLD) {
-        await this.closeRemainingPosition(strategy, currentPrice);
-      }
+    await db.update(operationalStrategies).set({
+      remainingQuantity: newRemaining,
+      tpLevelsFilled: levelIndex,
+      todayPnl: newTodayPnl,
+      totalPnl: newTotalPnl,
+      updatedAt: new Date(),
+    }).where(eq(operationalStrategies.id, strategy.id));
 
-      const modeLabel = isPaper ? " [PAPER]" : "";
-      await createNotification(
-        strategy.userId,
-        "strategy_partial_exit",
-        `Partial Exit: ${strategy.name}${modeLabel}`,
-        `TP Level ${levelIndex}: Sold ${qty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} | P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`,
-        { strategyId: strategy.id, level: levelIndex, pnl }
-      );
-    } catch (err) {
-      console.error(`[StrategyExecutor] ${strategy.name}: Partial exit failed:`, err);
+    await db.insert(operationalStrategyTrades).values({
+      strategyId: strategy.id,
+      symbol: strategy.symbol,
+      side,
+      quantity: qty,
+      price: fillPrice,
+      bybitOrderId: order.id,
+      pnl,
+      reason,
+      mode: strategy.mode,
+      funding: closed && strategy.market === "perp" ? strategy.positionFunding ?? 0 : null,
+      configVersion: strategy.configVersion,
+    });
+
+    // Update local strategy state
+    strategy.remainingQuantity = newRemaining;
+    strategy.tpLevelsFilled = levelIndex;
+    strategy.todayPnl = newTodayPnl;
+    strategy.totalPnl = newTotalPnl;
+
+    if (closed) {
+      await this.closeRemainingPosition(strategy, currentPrice);
     }
+
+    const modeLabel = isPaper ? " [PAPER]" : "";
+    await createNotification(
+      strategy.userId,
+      "strategy_partial_exit",
+      `Partial Exit: ${strategy.name}${modeLabel}`,
+      `${reason === "take_profit" ? `TP Level ${levelIndex}` : "Limit exit partly filled"}: ${side === "buy" ? "Covered" : "Sold"} ${qty.toFixed(6)} ${strategy.symbol} at $${fillPrice.toFixed(2)} | P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`,
+      { strategyId: strategy.id, level: levelIndex, pnl }
+    );
+
+    return closed ? null : next;
   }
 
   private async closeRemainingPosition(
@@ -631,28 +1081,55 @@ export class StrategyExecutor {
       dcaOrdersFilled: 0,
       remainingQuantity: null,
       tpLevelsFilled: 0,
+      positionFunding: 0,
+      lastFundingAt: null,
       tradesCount: newTradesCount,
       status: newStatus,
       stoppedAt: newStatus === "stopped" ? new Date() : undefined,
       stoppedReason,
       updatedAt: new Date(),
     }).where(eq(operationalStrategies.id, strategy.id));
+    strategy.inPosition = false;
   }
 
-  async forceClosePosition(strategyId: string) {
-    if (!this.leader) return;
-
-    const [strategy] = await db
-      .select()
-      .from(operationalStrategies)
-      .where(eq(operationalStrategies.id, strategyId))
-      .limit(1);
+  /**
+   * Settles a strategy that is being stopped, as its leader, e.g. from the stop route: a working
+   * limit order is cancelled first and what it filled booked (paper orders against the candles
+   * since they were placed), then with `closePosition` what is held is closed at market.
+   * Returns the strategy as settled; still in position when the close failed.
+   */
+  async settleStop(strategyId: string, leader: User, closePosition: boolean) {
+    this.leader = leader;
 
-    if (!strategy || !strategy.inPosition || !strategy.entryPrice || !strategy.entryQuantity) return;
+    const load = async () => {
+      const [row] = await db
+        .select()
+        .from(operationalStrategies)
+        .where(eq(operationalStrategies.id, strategyId))
+        .limit(1);
+      return row ?? null;
+    };
+    let strategy = await load();
+    if (!strategy) return null;
+
+    const pending = pendingOrderOf(strategy);
+    // Back to when the pending order was placed, for a paper one to be checked against
+    const daysBack = Math.max(1, Math.ceil((Date.now() - (pending?.placedAt ?? Date.now())) / 86_400_000));
+    const candles = await fetchCandles(strategy.symbol, strategy.timeframe, daysBack);
+    const lastPrice = candles.length > 0 ? candles[candles.length - 1].close : null;
+
+    if (pending) {
+      const config: StrategyConfig = JSON.parse(strategy.strategyConfig);
+      const price = lastPrice ?? pending.limitPrice;
+      await this.workPendingOrder(strategy, config, { ...pending, expiresAt: 0, fallbackToMarket: false }, price, candles);
+      // An entry that filled opened a position the row read above does not show
+      strategy = await load();
+      if (!strategy) return null;
+    }
 
-    const candles = await fetchCandles(strategy.symbol, strategy.timeframe, 1);
-    const currentPrice = candles.length > 0 ? candles[candles.length - 1].close : strategy.entryPrice;
+    if (!closePosition || !strategy.inPosition || !strategy.entryPrice || !strategy.entryQuantity) return strategy;
 
-    await this.exitPosition(strategy, currentPrice, "manual_stop");
+    await this.exitPosition(strategy, lastPrice ?? strategy.entryPrice, "manual_stop");
+    return load();
   }
 }